@@ -12,21 +12,94 @@ const crypto = require("crypto");
 // Notes:
 // - We normalize passphrases to NFKC to reduce accidental mismatches.
 // - We derive a master key via scrypt, then HKDF subkeys for DB vs file encryption.
+//
+// Envelope v2 (EDNENC02) drops the KDF fields and binds the ciphertext to a key ID:
+// - magic: 8 bytes ASCII
+// - version: 1 byte
+// - keyId: 16 bytes
+// - iv: 12 bytes
+// - tag: 16 bytes
+// - ciphertext: rest
+//
+// The v2 DB and file keys come from a random vault data key instead of the passphrase.
+// The data key lives in the vault header, wrapped once per key slot (passphrase today),
+// so changing the passphrase only rewrites the header.
 const DB_MAGIC = Buffer.from("EDNENC01", "ascii");
 const DB_VERSION = 1;
 
+const DB_MAGIC_V2 = Buffer.from("EDNENC02", "ascii");
+const DB_VERSION_V2 = 2;
+
+const VAULT_HEADER_FORMAT = "edisconotes.vault-header";
+const VAULT_HEADER_VERSION = 1;
+const KEY_SLOT_MAGIC = Buffer.from("EDNKEY01", "ascii");
+
 const FILE_MAGIC = Buffer.from("EDNFILE1", "ascii");
 const FILE_VERSION = 1;
 
+// Attachment format v2 (EDNFILE2) is a sequence of independently authenticated chunks:
+// - header: magic (8) | version (1) | chunkSize u32 (4) | noncePrefix (8)
+// - segments: ciphertext (<= chunkSize) | tag (16), repeated; at least one, even for empty files
+// Chunk i uses nonce noncePrefix || u32(i) and AAD header || u32(i) || finalFlag, so chunks
+// can't be reordered, dropped, or truncated at a chunk boundary without failing authentication.
+const FILE_MAGIC_V2 = Buffer.from("EDNFILE2", "ascii");
+const FILE_VERSION_V2 = 2;
+const FILE_CHUNK_SIZE = 64 * 1024;
+const FILE_MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+const FILE_NONCE_PREFIX_LEN = 8;
+const FILE_HEADER_V2_LEN = FILE_MAGIC_V2.length + 1 + 4 + FILE_NONCE_PREFIX_LEN;
+
+// DB write-ahead journal record: iv | tag | ciphertext, sealed with the DB key. The AAD binds each
+// record to the data key ID, the SHA-256 of the DB envelope it extends, and its sequence number,
+// so records can't be replayed onto another envelope or reordered.
+const JOURNAL_MAGIC = Buffer.from("EDNJRNL1", "ascii");
+const JOURNAL_BASE_HASH_LEN = 32;
+
+// Project bundle envelope (EDNBNDL1), sealed with a transfer passphrase unrelated to any vault:
+// - magic: 8 bytes ASCII | version: 1 byte | scrypt N,r,p: 3x uint32be | salt: 16 bytes
+// - iv: 12 bytes | tag: 16 bytes | ciphertext: rest
+// Everything before the IV is authenticated as AAD, so the KDF parameters can't be swapped.
+const BUNDLE_MAGIC = Buffer.from("EDNBNDL1", "ascii");
+const BUNDLE_VERSION = 1;
+
+// Streamed project bundle envelope (EDNBNDL2), used for ZIP bundles that don't fit in memory:
+// - header: magic (8) | version (1) | scrypt N,r,p (12) | salt (16) | chunkSize u32 (4) | noncePrefix (8)
+// - segments: ciphertext (<= chunkSize) | tag (16), repeated, exactly as in EDNFILE2
+// The whole header is part of every chunk's AAD, so the KDF parameters are authenticated too.
+const BUNDLE_STREAM_MAGIC = Buffer.from("EDNBNDL2", "ascii");
+const BUNDLE_STREAM_VERSION = 2;
+
 const DEFAULT_SCRYPT_PARAMS = Object.freeze({
   N: 32768, // 2^15: interactive, reasonably strong on modern desktops
   r: 8,
   p: 1
 });
 
+// Calibration candidates. The N=2^17 profile trades memory for cost; the
+// memory-bounded ones keep 32 MiB and add cost through parallelism instead,
+// for machines where a 128 MiB allocation per unlock is unwelcome.
+const SCRYPT_PROFILES = Object.freeze([
+  Object.freeze({ id: "standard", label: "Standard", N: 2 ** 15, r: 8, p: 1 }),
+  Object.freeze({ id: "strong", label: "Strong", N: 2 ** 16, r: 8, p: 1 }),
+  Object.freeze({ id: "strongest", label: "Strongest", N: 2 ** 17, r: 8, p: 1 }),
+  Object.freeze({ id: "bounded-4", label: "Memory-bounded x4", N: 2 ** 15, r: 8, p: 4 }),
+  Object.freeze({ id: "bounded-8", label: "Memory-bounded x8", N: 2 ** 15, r: 8, p: 8 })
+]);
+
+// Bounds for parameters read from disk, so a tampered file can't demand unbounded CPU or memory.
+const SCRYPT_LIMITS = Object.freeze({ minLogN: 10, maxLogN: 20, maxR: 32, maxP: 16, maxMemBytes: 1024 * 1024 * 1024 });
+const SCRYPT_MAXMEM_SLACK = 32 * 1024 * 1024;
+
 const SALT_LEN = 16;
 const IV_LEN = 12; // AES-GCM recommended nonce size
 const TAG_LEN = 16; // AES-GCM default tag length
+const KEY_ID_LEN = 16;
+const DATA_KEY_LEN = 32;
+
+// Recovery codes: 24 Crockford base32 characters (120 bits), shown in groups of four.
+const RECOVERY_CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const RECOVERY_CODE_LEN = 24;
+const RECOVERY_CODE_GROUP = 4;
 
 const normalizePassphrase = (passphrase) => {
   if (typeof passphrase !== "string") return "";
@@ -41,20 +114,103 @@ const u32 = (value) => {
 
 const readU32 = (buf, offset) => buf.readUInt32BE(offset);
 
+const generateRecoveryCode = () => {
+  const bytes = crypto.randomBytes(RECOVERY_CODE_LEN);
+  let code = "";
+  for (let index = 0; index < RECOVERY_CODE_LEN; index += 1) {
+    // 256 is a multiple of 32, so the modulo keeps every character equally likely.
+    code += RECOVERY_CODE_ALPHABET[bytes[index] % RECOVERY_CODE_ALPHABET.length];
+    if ((index + 1) % RECOVERY_CODE_GROUP === 0 && index + 1 < RECOVERY_CODE_LEN) code += "-";
+  }
+  return code;
+};
+
+// Accepts the code as printed or as typed: case, separators and look-alike letters don't matter.
+const normalizeRecoveryCode = (code) => {
+  if (typeof code !== "string") return "";
+  return code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+};
+
+const isRecoveryCodeWellFormed = (code) => {
+  const normalized = normalizeRecoveryCode(code);
+  return normalized.length === RECOVERY_CODE_LEN && [...normalized].every((char) => RECOVERY_CODE_ALPHABET.includes(char));
+};
+
 const hkdfSubkey = (masterKey, info) => {
   // salt intentionally empty; masterKey already has scrypt salt.
-  return crypto.hkdfSync("sha256", masterKey, Buffer.alloc(0), Buffer.from(info, "utf8"), 32);
+  // hkdfSync returns an ArrayBuffer; wrap it so destroyKeyMaterial can zero it.
+  return Buffer.from(crypto.hkdfSync("sha256", masterKey, Buffer.alloc(0), Buffer.from(info, "utf8"), 32));
 };
 
-const deriveKeysFromPassphrase = (passphrase, salt, params = DEFAULT_SCRYPT_PARAMS) => {
+const scryptMemoryBytes = (params) => 128 * params.N * params.r;
+
+const assertScryptParams = (params) => {
+  const { N, r, p } = params || {};
+  const logN = Math.log2(N);
+  if (
+    !Number.isInteger(logN) ||
+    logN < SCRYPT_LIMITS.minLogN ||
+    logN > SCRYPT_LIMITS.maxLogN ||
+    !Number.isInteger(r) ||
+    r < 1 ||
+    r > SCRYPT_LIMITS.maxR ||
+    !Number.isInteger(p) ||
+    p < 1 ||
+    p > SCRYPT_LIMITS.maxP ||
+    scryptMemoryBytes(params) > SCRYPT_LIMITS.maxMemBytes
+  ) {
+    throw new Error("Unsupported key derivation parameters.");
+  }
+  return { N, r, p };
+};
+
+const scryptOptions = (params) => ({
+  N: params.N,
+  r: params.r,
+  p: params.p,
+  // scrypt needs 128 * N * r bytes; leave headroom rather than a fixed cap that rejects stronger params.
+  maxmem: scryptMemoryBytes(params) + SCRYPT_MAXMEM_SLACK
+});
+
+const deriveMasterKey = (passphrase, salt, params) => {
   const normalized = normalizePassphrase(passphrase);
-  const masterKey = crypto.scryptSync(normalized, salt, 32, {
-    N: params.N,
-    r: params.r,
-    p: params.p,
-    // Keep maxmem conservative but high enough for the chosen params.
-    maxmem: 128 * 1024 * 1024
+  return crypto.scryptSync(normalized, salt, 32, scryptOptions(assertScryptParams(params)));
+};
+
+// Times one derivation per profile with throwaway inputs. Uses async scrypt so the main process stays responsive.
+const benchmarkScryptProfiles = async (profiles = SCRYPT_PROFILES) => {
+  const results = [];
+  for (const profile of profiles) {
+    const params = assertScryptParams(profile);
+    const started = process.hrtime.bigint();
+    await new Promise((resolve, reject) => {
+      crypto.scrypt(crypto.randomBytes(32), crypto.randomBytes(SALT_LEN), 32, scryptOptions(params), (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+    const elapsedMs = Number(process.hrtime.bigint() - started) / 1e6;
+    results.push({ ...profile, memoryBytes: scryptMemoryBytes(params), elapsedMs: Math.round(elapsedMs) });
+  }
+  return results;
+};
+
+// Picks the profile that still unlocks within the target time, favoring memory (what makes
+// scrypt expensive on GPUs) and then total work (N * r * p).
+const recommendScryptProfile = (results, targetMs) => {
+  const affordable = results.filter((result) => result.elapsedMs <= targetMs);
+  if (affordable.length === 0) return null;
+  return affordable.reduce((best, result) => {
+    if (result.memoryBytes !== best.memoryBytes) return result.memoryBytes > best.memoryBytes ? result : best;
+    return result.N * result.r * result.p > best.N * best.r * best.p ? result : best;
   });
+};
+
+const deriveKeysFromPassphrase = (passphrase, salt, params = DEFAULT_SCRYPT_PARAMS) => {
+  const masterKey = deriveMasterKey(passphrase, salt, params);
 
   const dbKey = hkdfSubkey(masterKey, "edisconotes:db");
   const fileKey = hkdfSubkey(masterKey, "edisconotes:files");
@@ -62,6 +218,20 @@ const deriveKeysFromPassphrase = (passphrase, salt, params = DEFAULT_SCRYPT_PARA
   return { masterKey, dbKey, fileKey, kdfSalt: Buffer.from(salt), kdfParams: { ...params } };
 };
 
+// Vault keys (v2): DB and file keys hang off the data key, not the passphrase.
+const deriveVaultKeys = (dataKey, keyId) => ({
+  dataKey: Buffer.from(dataKey),
+  keyId: Buffer.from(keyId),
+  dbKey: hkdfSubkey(dataKey, "edisconotes:db"),
+  fileKey: hkdfSubkey(dataKey, "edisconotes:files")
+});
+
+const generateVaultKeys = () => deriveVaultKeys(crypto.randomBytes(DATA_KEY_LEN), crypto.randomBytes(KEY_ID_LEN));
+
+// A v1 vault's scrypt master key becomes the v2 data key. HKDF then yields the same
+// DB and file keys, so existing attachments stay readable without re-encryption.
+const adoptLegacyVaultKeys = (legacyVault) => deriveVaultKeys(legacyVault.masterKey, crypto.randomBytes(KEY_ID_LEN));
+
 const aesGcmEncrypt = (key, plaintext, aad) => {
   const iv = crypto.randomBytes(IV_LEN);
   const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
@@ -89,41 +259,274 @@ const buildDbHeader = (params, salt, iv) =>
     iv
   ]);
 
+const buildBundleHeader = (params, salt) =>
+  Buffer.concat([BUNDLE_MAGIC, Buffer.from([BUNDLE_VERSION]), u32(params.N), u32(params.r), u32(params.p), salt]);
+
+const BUNDLE_HEADER_LEN = BUNDLE_MAGIC.length + 1 + 12 + SALT_LEN;
+
+const deriveBundleKey = (passphrase, salt, params) => {
+  const masterKey = deriveMasterKey(passphrase, salt, params);
+  try {
+    return hkdfSubkey(masterKey, "edisconotes:bundle");
+  } finally {
+    masterKey.fill(0);
+  }
+};
+
+const isBundleEnvelope = (bytes) => {
+  const buf = Buffer.from(bytes);
+  return buf.length >= BUNDLE_MAGIC.length && buf.subarray(0, BUNDLE_MAGIC.length).equals(BUNDLE_MAGIC);
+};
+
+const sealBundleBytes = (plaintext, passphrase, params = DEFAULT_SCRYPT_PARAMS) => {
+  const salt = crypto.randomBytes(SALT_LEN);
+  const aad = buildBundleHeader(assertScryptParams(params), salt);
+  const key = deriveBundleKey(passphrase, salt, params);
+  try {
+    const { iv, tag, ciphertext } = aesGcmEncrypt(key, plaintext, aad);
+    return Buffer.concat([aad, iv, tag, ciphertext]);
+  } finally {
+    key.fill(0);
+  }
+};
+
+// A wrong passphrase fails GCM authentication ("Unsupported state or unable to authenticate data").
+const openBundleEnvelope = (envelopeBytes, passphrase) => {
+  const buf = Buffer.from(envelopeBytes);
+  if (!isBundleEnvelope(buf) || buf.length < BUNDLE_HEADER_LEN + IV_LEN + TAG_LEN) {
+    throw new Error("Encrypted bundle is corrupted.");
+  }
+  const version = buf[BUNDLE_MAGIC.length];
+  if (version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported encrypted bundle version: ${version}`);
+  }
+  let offset = BUNDLE_MAGIC.length + 1;
+  const params = { N: readU32(buf, offset), r: readU32(buf, offset + 4), p: readU32(buf, offset + 8) };
+  offset += 12;
+  const salt = buf.subarray(offset, offset + SALT_LEN);
+  offset += SALT_LEN;
+  const aad = buf.subarray(0, offset);
+  const iv = buf.subarray(offset, offset + IV_LEN);
+  offset += IV_LEN;
+  const tag = buf.subarray(offset, offset + TAG_LEN);
+  offset += TAG_LEN;
+  const key = deriveBundleKey(passphrase, salt, params);
+  try {
+    return aesGcmDecrypt(key, iv, tag, buf.subarray(offset), aad);
+  } finally {
+    key.fill(0);
+  }
+};
+
+const BUNDLE_STREAM_HEADER_LEN = BUNDLE_STREAM_MAGIC.length + 1 + 12 + SALT_LEN + 4 + FILE_NONCE_PREFIX_LEN;
+
+const isBundleStreamEnvelope = (bytes) => {
+  const buf = Buffer.from(bytes);
+  return buf.length >= BUNDLE_STREAM_MAGIC.length && buf.subarray(0, BUNDLE_STREAM_MAGIC.length).equals(BUNDLE_STREAM_MAGIC);
+};
+
+// Returns the header to write first and the key for sealFileChunk; the caller zeroes the key.
+const createBundleStream = (passphrase, params = DEFAULT_SCRYPT_PARAMS) => {
+  const safeParams = assertScryptParams(params);
+  const salt = crypto.randomBytes(SALT_LEN);
+  const header = Buffer.concat([
+    BUNDLE_STREAM_MAGIC,
+    Buffer.from([BUNDLE_STREAM_VERSION]),
+    u32(safeParams.N),
+    u32(safeParams.r),
+    u32(safeParams.p),
+    salt,
+    u32(FILE_CHUNK_SIZE),
+    crypto.randomBytes(FILE_NONCE_PREFIX_LEN)
+  ]);
+  return { header, chunkSize: FILE_CHUNK_SIZE, key: deriveBundleKey(passphrase, salt, safeParams) };
+};
+
+// Parses a streamed bundle header and derives its key. The passphrase is only proven by the first chunk.
+const openBundleStream = (headerBytes, passphrase) => {
+  const buf = Buffer.from(headerBytes);
+  if (!isBundleStreamEnvelope(buf) || buf.length < BUNDLE_STREAM_HEADER_LEN) {
+    throw new Error("Encrypted bundle is corrupted.");
+  }
+  const version = buf[BUNDLE_STREAM_MAGIC.length];
+  if (version !== BUNDLE_STREAM_VERSION) {
+    throw new Error(`Unsupported encrypted bundle version: ${version}`);
+  }
+  let offset = BUNDLE_STREAM_MAGIC.length + 1;
+  const params = assertScryptParams({ N: readU32(buf, offset), r: readU32(buf, offset + 4), p: readU32(buf, offset + 8) });
+  offset += 12;
+  const salt = buf.subarray(offset, offset + SALT_LEN);
+  offset += SALT_LEN;
+  const chunkSize = readU32(buf, offset);
+  if (chunkSize < 1 || chunkSize > FILE_MAX_CHUNK_SIZE) {
+    throw new Error("Encrypted bundle is corrupted (bad chunk size).");
+  }
+  const header = Buffer.from(buf.subarray(0, BUNDLE_STREAM_HEADER_LEN));
+  return { header, headerLen: BUNDLE_STREAM_HEADER_LEN, chunkSize, key: deriveBundleKey(passphrase, salt, params) };
+};
+
+const buildDbHeaderV2 = (keyId) => Buffer.concat([DB_MAGIC_V2, Buffer.from([DB_VERSION_V2]), keyId]);
+
 const sealDatabaseBytes = (plaintext, vault) => {
-  if (!vault?.dbKey || !vault?.kdfSalt || !vault?.kdfParams) {
+  if (!vault?.dbKey || !vault?.keyId) {
     throw new Error("Vault not initialized.");
   }
 
-  const header = buildDbHeader(vault.kdfParams, vault.kdfSalt, Buffer.alloc(IV_LEN));
-  // We want AAD to cover all header fields; IV is included separately in the final header.
-  const { iv, tag, ciphertext } = aesGcmEncrypt(vault.dbKey, plaintext, header.subarray(0, header.length - IV_LEN));
-  const fullHeader = buildDbHeader(vault.kdfParams, vault.kdfSalt, iv);
-  return Buffer.concat([fullHeader, tag, ciphertext]);
+  const aad = buildDbHeaderV2(vault.keyId);
+  const { iv, tag, ciphertext } = aesGcmEncrypt(vault.dbKey, plaintext, aad);
+  return Buffer.concat([aad, iv, tag, ciphertext]);
 };
 
-const openVaultFromDatabaseEnvelope = (envelopeBytes, passphrase) => {
+const readDatabaseEnvelopeVersion = (envelopeBytes) => {
   const buf = Buffer.from(envelopeBytes);
-  const minLen = DB_MAGIC.length + 1 + 12 + SALT_LEN + IV_LEN + TAG_LEN;
-  if (buf.length < minLen) {
+  if (buf.length < DB_MAGIC.length + 1) {
     throw new Error("Encrypted database is corrupted (too small).");
   }
-
   const magic = buf.subarray(0, DB_MAGIC.length);
-  if (!magic.equals(DB_MAGIC)) {
-    throw new Error("Not an eDisco Notes encrypted database.");
-  }
+  if (magic.equals(DB_MAGIC)) return DB_VERSION;
+  if (magic.equals(DB_MAGIC_V2)) return DB_VERSION_V2;
+  throw new Error("Not an eDisco Notes encrypted database.");
+};
+
+const readDatabaseEnvelopeKeyId = (envelopeBytes) => {
+  const buf = Buffer.from(envelopeBytes);
+  if (readDatabaseEnvelopeVersion(buf) !== DB_VERSION_V2) return null;
+  const offset = DB_MAGIC_V2.length + 1;
+  return Buffer.from(buf.subarray(offset, offset + KEY_ID_LEN));
+};
 
-  const version = buf.readUInt8(DB_MAGIC.length);
-  if (version !== DB_VERSION) {
+// Opens a v2 envelope with keys that are already unlocked.
+const openDatabaseEnvelope = (envelopeBytes, vault) => {
+  const buf = Buffer.from(envelopeBytes);
+  const headerLen = DB_MAGIC_V2.length + 1 + KEY_ID_LEN;
+  if (buf.length < headerLen + IV_LEN + TAG_LEN) {
+    throw new Error("Encrypted database is corrupted (too small).");
+  }
+  const version = readDatabaseEnvelopeVersion(buf);
+  if (version !== DB_VERSION_V2) {
     throw new Error(`Unsupported encrypted DB version: ${version}`);
   }
+  const aad = buf.subarray(0, headerLen);
+  const keyId = aad.subarray(DB_MAGIC_V2.length + 1);
+  if (!vault?.keyId || !keyId.equals(vault.keyId)) {
+    throw new Error("Encrypted database belongs to a different vault key.");
+  }
+  let offset = headerLen;
+  const iv = buf.subarray(offset, offset + IV_LEN);
+  offset += IV_LEN;
+  const tag = buf.subarray(offset, offset + TAG_LEN);
+  offset += TAG_LEN;
+  return aesGcmDecrypt(vault.dbKey, iv, tag, buf.subarray(offset), aad);
+};
+
+const keySlotAad = (keyId, type) => Buffer.concat([KEY_SLOT_MAGIC, keyId, Buffer.from(String(type), "utf8")]);
+
+const wrapKeySlot = (vault, type, secret, params = DEFAULT_SCRYPT_PARAMS) => {
+  const salt = crypto.randomBytes(SALT_LEN);
+  const masterKey = deriveMasterKey(secret, salt, params);
+  const wrappingKey = hkdfSubkey(masterKey, "edisconotes:wrap");
+  masterKey.fill(0);
+  const { iv, tag, ciphertext } = aesGcmEncrypt(wrappingKey, vault.dataKey, keySlotAad(vault.keyId, type));
+  wrappingKey.fill(0);
+  return {
+    type,
+    kdf: { name: "scrypt", N: params.N, r: params.r, p: params.p, salt: salt.toString("base64") },
+    iv: iv.toString("base64"),
+    tag: tag.toString("base64"),
+    wrappedKey: ciphertext.toString("base64"),
+    createdAt: new Date().toISOString()
+  };
+};
+
+const createVaultHeader = (vault, passphrase, params = DEFAULT_SCRYPT_PARAMS) => ({
+  format: VAULT_HEADER_FORMAT,
+  version: VAULT_HEADER_VERSION,
+  keyId: vault.keyId.toString("base64"),
+  slots: [wrapKeySlot(vault, "passphrase", passphrase, params)]
+});
+
+// Replaces the slot of the same type, leaving any other slots untouched.
+const withKeySlot = (header, slot) => ({
+  ...header,
+  slots: [...(Array.isArray(header?.slots) ? header.slots.filter((item) => item?.type !== slot.type) : []), slot]
+});
+
+const withoutKeySlot = (header, type) => ({
+  ...header,
+  slots: Array.isArray(header?.slots) ? header.slots.filter((item) => item?.type !== type) : []
+});
+
+const hasKeySlot = (header, type) =>
+  Boolean(header && Array.isArray(header.slots) && header.slots.some((item) => item?.type === type));
+
+const findKeySlot = (header, type) => {
+  if (!header || header.format !== VAULT_HEADER_FORMAT || header.version !== VAULT_HEADER_VERSION) {
+    throw new Error("Vault header is missing or unsupported.");
+  }
+  const slot = Array.isArray(header.slots) ? header.slots.find((item) => item?.type === type) : null;
+  if (!slot || slot.kdf?.name !== "scrypt") {
+    throw new Error(`Vault header has no ${type} key slot.`);
+  }
+  return slot;
+};
+
+const getKeySlotParams = (header, type = "passphrase") => {
+  const slot = findKeySlot(header, type);
+  return { N: Number(slot.kdf.N), r: Number(slot.kdf.r), p: Number(slot.kdf.p) };
+};
+
+const unwrapVaultHeader = (header, secret, type = "passphrase") => {
+  const slot = findKeySlot(header, type);
+  const keyId = Buffer.from(String(header.keyId || ""), "base64");
+  if (keyId.length !== KEY_ID_LEN) {
+    throw new Error("Vault header is corrupted.");
+  }
+  const params = getKeySlotParams(header, type);
+  const salt = Buffer.from(String(slot.kdf.salt || ""), "base64");
+  const masterKey = deriveMasterKey(secret, salt, params);
+  const wrappingKey = hkdfSubkey(masterKey, "edisconotes:wrap");
+  masterKey.fill(0);
+  try {
+    const dataKey = aesGcmDecrypt(
+      wrappingKey,
+      Buffer.from(String(slot.iv || ""), "base64"),
+      Buffer.from(String(slot.tag || ""), "base64"),
+      Buffer.from(String(slot.wrappedKey || ""), "base64"),
+      keySlotAad(keyId, type)
+    );
+    const vault = deriveVaultKeys(dataKey, keyId);
+    dataKey.fill(0);
+    return vault;
+  } finally {
+    wrappingKey.fill(0);
+  }
+};
+
+const openVaultFromDatabaseEnvelope = (envelopeBytes, passphrase, header = null) => {
+  const buf = Buffer.from(envelopeBytes);
+  const version = readDatabaseEnvelopeVersion(buf);
+  if (version === DB_VERSION_V2) {
+    const vault = unwrapVaultHeader(header, passphrase);
+    try {
+      const plaintext = openDatabaseEnvelope(buf, vault);
+      return { plaintext, vault, version };
+    } catch (error) {
+      destroyKeyMaterial(vault);
+      throw error;
+    }
+  }
+
+  const minLen = DB_MAGIC.length + 1 + 12 + SALT_LEN + IV_LEN + TAG_LEN;
+  if (buf.length < minLen) {
+    throw new Error("Encrypted database is corrupted (too small).");
+  }
 
   let offset = DB_MAGIC.length + 1;
-  const params = {
+  const params = assertScryptParams({
     N: readU32(buf, offset),
     r: readU32(buf, offset + 4),
     p: readU32(buf, offset + 8)
-  };
+  });
   offset += 12;
 
   const salt = buf.subarray(offset, offset + SALT_LEN);
@@ -140,45 +543,131 @@ const openVaultFromDatabaseEnvelope = (envelopeBytes, passphrase) => {
 
   const aad = buildDbHeader(params, salt, Buffer.alloc(IV_LEN)).subarray(0, DB_MAGIC.length + 1 + 12 + SALT_LEN);
   const plaintext = aesGcmDecrypt(vault.dbKey, iv, tag, ciphertext, aad);
-  return { plaintext, vault };
+  return { plaintext, vault, version };
 };
 
 const buildFileHeader = (iv) => Buffer.concat([FILE_MAGIC, Buffer.from([FILE_VERSION]), iv]);
 
+const buildFileHeaderV2 = (chunkSize = FILE_CHUNK_SIZE) =>
+  Buffer.concat([FILE_MAGIC_V2, Buffer.from([FILE_VERSION_V2]), u32(chunkSize), crypto.randomBytes(FILE_NONCE_PREFIX_LEN)]);
+
+// Reads the fixed-size prefix of an attachment. Pass at least FILE_HEADER_V2_LEN bytes when available.
+const parseFileHeader = (headerBytes) => {
+  const buf = Buffer.from(headerBytes);
+  const magic = buf.subarray(0, FILE_MAGIC.length);
+  if (magic.equals(FILE_MAGIC) && buf.length >= FILE_MAGIC.length + 1) {
+    const version = buf.readUInt8(FILE_MAGIC.length);
+    if (version !== FILE_VERSION) {
+      throw new Error(`Unsupported encrypted attachment version: ${version}`);
+    }
+    return { version, headerLen: FILE_MAGIC.length + 1 + IV_LEN };
+  }
+  if (magic.equals(FILE_MAGIC_V2) && buf.length >= FILE_HEADER_V2_LEN) {
+    const version = buf.readUInt8(FILE_MAGIC_V2.length);
+    if (version !== FILE_VERSION_V2) {
+      throw new Error(`Unsupported encrypted attachment version: ${version}`);
+    }
+    const chunkSize = readU32(buf, FILE_MAGIC_V2.length + 1);
+    if (chunkSize < 1 || chunkSize > FILE_MAX_CHUNK_SIZE) {
+      throw new Error("Encrypted attachment is corrupted (bad chunk size).");
+    }
+    return { version, headerLen: FILE_HEADER_V2_LEN, chunkSize, header: Buffer.from(buf.subarray(0, FILE_HEADER_V2_LEN)) };
+  }
+  throw new Error("Not an encrypted attachment.");
+};
+
+// The nonce prefix always ends the header, for attachments and streamed bundles alike.
+const fileChunkNonce = (header, index) =>
+  Buffer.concat([header.subarray(header.length - FILE_NONCE_PREFIX_LEN), u32(index)]);
+
+const fileChunkAad = (header, index, isFinal) => Buffer.concat([header, u32(index), Buffer.from([isFinal ? 1 : 0])]);
+
+const sealFileChunk = (fileKey, header, index, isFinal, plaintext) => {
+  const cipher = crypto.createCipheriv("aes-256-gcm", fileKey, fileChunkNonce(header, index));
+  cipher.setAAD(fileChunkAad(header, index, isFinal));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([ciphertext, cipher.getAuthTag()]);
+};
+
+const openFileChunk = (fileKey, header, index, isFinal, segment) => {
+  if (segment.length < TAG_LEN) {
+    throw new Error("Encrypted attachment is corrupted (truncated chunk).");
+  }
+  const ciphertext = segment.subarray(0, segment.length - TAG_LEN);
+  const tag = segment.subarray(segment.length - TAG_LEN);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", fileKey, fileChunkNonce(header, index));
+  decipher.setAAD(fileChunkAad(header, index, isFinal));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
 const sealFileBytes = (plaintext, fileKey) => {
-  const aad = buildFileHeader(Buffer.alloc(IV_LEN));
-  const { iv, tag, ciphertext } = aesGcmEncrypt(fileKey, plaintext, aad.subarray(0, aad.length - IV_LEN));
-  const header = buildFileHeader(iv);
-  return Buffer.concat([header, tag, ciphertext]);
+  const bytes = Buffer.from(plaintext);
+  const header = buildFileHeaderV2();
+  const chunkCount = Math.max(1, Math.ceil(bytes.length / FILE_CHUNK_SIZE));
+  const parts = [header];
+  for (let index = 0; index < chunkCount; index += 1) {
+    const chunk = bytes.subarray(index * FILE_CHUNK_SIZE, (index + 1) * FILE_CHUNK_SIZE);
+    parts.push(sealFileChunk(fileKey, header, index, index === chunkCount - 1, chunk));
+  }
+  return Buffer.concat(parts);
 };
 
 const openFileBytes = (envelopeBytes, fileKey) => {
   const buf = Buffer.from(envelopeBytes);
-  const minLen = FILE_MAGIC.length + 1 + IV_LEN + TAG_LEN + 1;
-  if (buf.length < minLen) {
+  const parsed = parseFileHeader(buf);
+  if (parsed.version === FILE_VERSION) {
+    // v1 attachments were written by the streaming encryptor: header | ciphertext | tag.
+    if (buf.length < parsed.headerLen + TAG_LEN) {
+      throw new Error("Encrypted attachment is corrupted (too small).");
+    }
+    const iv = buf.subarray(FILE_MAGIC.length + 1, parsed.headerLen);
+    const tag = buf.subarray(buf.length - TAG_LEN);
+    const ciphertext = buf.subarray(parsed.headerLen, buf.length - TAG_LEN);
+    const aad = buildFileHeader(Buffer.alloc(IV_LEN)).subarray(0, FILE_MAGIC.length + 1);
+    return aesGcmDecrypt(fileKey, iv, tag, ciphertext, aad);
+  }
+
+  const segmentLen = parsed.chunkSize + TAG_LEN;
+  if (buf.length < parsed.headerLen + TAG_LEN) {
     throw new Error("Encrypted attachment is corrupted (too small).");
   }
-  const magic = buf.subarray(0, FILE_MAGIC.length);
-  if (!magic.equals(FILE_MAGIC)) {
-    throw new Error("Not an encrypted attachment.");
+  const parts = [];
+  let offset = parsed.headerLen;
+  for (let index = 0; offset < buf.length; index += 1) {
+    const end = Math.min(offset + segmentLen, buf.length);
+    parts.push(openFileChunk(fileKey, parsed.header, index, end === buf.length, buf.subarray(offset, end)));
+    offset = end;
+  }
+  return Buffer.concat(parts);
+};
+
+const journalAad = (vault, baseHash, seq) => {
+  if (!Buffer.isBuffer(baseHash) || baseHash.length !== JOURNAL_BASE_HASH_LEN) {
+    throw new Error("Journal base hash must be a SHA-256 digest.");
   }
-  const version = buf.readUInt8(FILE_MAGIC.length);
-  if (version !== FILE_VERSION) {
-    throw new Error(`Unsupported encrypted attachment version: ${version}`);
+  return Buffer.concat([JOURNAL_MAGIC, vault.keyId, baseHash, u32(seq)]);
+};
+
+const sealJournalRecord = (vault, baseHash, seq, payload) => {
+  const { iv, tag, ciphertext } = aesGcmEncrypt(vault.dbKey, Buffer.from(payload), journalAad(vault, baseHash, seq));
+  return Buffer.concat([iv, tag, ciphertext]);
+};
+
+const openJournalRecord = (vault, baseHash, seq, record) => {
+  const buf = Buffer.from(record);
+  if (buf.length < IV_LEN + TAG_LEN) {
+    throw new Error("Journal record is corrupted (too small).");
   }
-  let offset = FILE_MAGIC.length + 1;
-  const iv = buf.subarray(offset, offset + IV_LEN);
-  offset += IV_LEN;
-  const tag = buf.subarray(offset, offset + TAG_LEN);
-  offset += TAG_LEN;
-  const ciphertext = buf.subarray(offset);
-  const aad = buildFileHeader(Buffer.alloc(IV_LEN)).subarray(0, FILE_MAGIC.length + 1);
-  return aesGcmDecrypt(fileKey, iv, tag, ciphertext, aad);
+  const iv = buf.subarray(0, IV_LEN);
+  const tag = buf.subarray(IV_LEN, IV_LEN + TAG_LEN);
+  const ciphertext = buf.subarray(IV_LEN + TAG_LEN);
+  return aesGcmDecrypt(vault.dbKey, iv, tag, ciphertext, journalAad(vault, baseHash, seq));
 };
 
 const destroyKeyMaterial = (vault) => {
   if (!vault) return;
-  for (const key of [vault.masterKey, vault.dbKey, vault.fileKey]) {
+  for (const key of [vault.masterKey, vault.dataKey, vault.dbKey, vault.fileKey]) {
     if (Buffer.isBuffer(key)) {
       key.fill(0);
     }
@@ -187,11 +676,48 @@ const destroyKeyMaterial = (vault) => {
 
 module.exports = {
   DEFAULT_SCRYPT_PARAMS,
+  SCRYPT_PROFILES,
+  assertScryptParams,
+  scryptMemoryBytes,
+  benchmarkScryptProfiles,
+  recommendScryptProfile,
+  DB_VERSION,
+  DB_VERSION_V2,
   FILE_MAGIC,
   FILE_VERSION,
+  FILE_VERSION_V2,
+  FILE_HEADER_V2_LEN,
+  buildFileHeaderV2,
+  parseFileHeader,
+  sealFileChunk,
+  openFileChunk,
+  sealJournalRecord,
+  openJournalRecord,
+  isBundleEnvelope,
+  sealBundleBytes,
+  openBundleEnvelope,
+  BUNDLE_STREAM_HEADER_LEN,
+  isBundleStreamEnvelope,
+  createBundleStream,
+  openBundleStream,
   IV_LEN,
   TAG_LEN,
   deriveKeysFromPassphrase,
+  generateVaultKeys,
+  adoptLegacyVaultKeys,
+  createVaultHeader,
+  wrapKeySlot,
+  withKeySlot,
+  withoutKeySlot,
+  hasKeySlot,
+  getKeySlotParams,
+  generateRecoveryCode,
+  normalizeRecoveryCode,
+  isRecoveryCodeWellFormed,
+  unwrapVaultHeader,
+  readDatabaseEnvelopeVersion,
+  readDatabaseEnvelopeKeyId,
+  openDatabaseEnvelope,
   openVaultFromDatabaseEnvelope,
   sealDatabaseBytes,
   sealFileBytes,
@@ -1,17 +1,57 @@
-const { app, BrowserWindow, ipcMain, dialog, shell } = require("electron");
+const { app, BrowserWindow, ipcMain, dialog, shell, powerMonitor } = require("electron");
 const path = require("path");
 const fs = require("fs");
 const initSqlJs = require("sql.js");
 const crypto = require("crypto");
 const { randomUUID } = crypto;
 const { pathToFileURL } = require("url");
-const { Document, Packer, Paragraph, HeadingLevel } = require("docx");
+const { Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell, WidthType, PageOrientation } = require("docx");
 const vaultCrypto = require("./crypto.cjs");
+const bundleZip = require("./zip.cjs");
 const fsPromises = require("fs/promises");
+const { Writable } = require("stream");
 
 const isDev = !app.isPackaged;
 const ENCRYPTION_ENABLED = true;
 const MIN_PASSPHRASE_LEN = 12;
+const AUTO_LOCK_DEFAULT_MINUTES = 15;
+const AUTO_LOCK_MAX_MINUTES = 240;
+const AUTO_LOCK_FLUSH_TIMEOUT_MS = 3000;
+const UNLOCK_BACKOFF_BASE_MS = 1000;
+const UNLOCK_BACKOFF_MAX_MS = 15 * 60 * 1000;
+const KDF_TARGET_UNLOCK_MS = 1000;
+const DB_FLUSH_DEBOUNCE_MS = 2000;
+const DB_FLUSH_MAX_DELAY_MS = 15 * 1000;
+const DB_JOURNAL_MAX_BYTES = 8 * 1024 * 1024;
+const SNAPSHOT_DAILY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_CATCH_UP_DELAY_MS = 60 * 1000;
+const SNAPSHOT_RETRY_DELAY_MS = 15 * 60 * 1000;
+const SNAPSHOT_PRUNE_MIN_AGE_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_SCHEDULE_DEFAULTS = Object.freeze({
+  dailySnapshots: true,
+  snapshotOnLock: true,
+  snapshotBeforeImport: true,
+  keepDailySnapshots: 7,
+  keepWeeklySnapshots: 4,
+  keepMonthlySnapshots: 6
+});
+const SNAPSHOT_RETENTION_LIMITS = Object.freeze({
+  keepDailySnapshots: { min: 1, max: 90, label: "Daily restore points" },
+  keepWeeklySnapshots: { min: 0, max: 52, label: "Weekly restore points" },
+  keepMonthlySnapshots: { min: 0, max: 60, label: "Monthly restore points" }
+});
+const BACKUP_DESTINATION_DEFAULTS = Object.freeze({
+  path: null,
+  enabled: false,
+  intervalHours: 24,
+  keep: 7
+});
+const BACKUP_DESTINATION_LIMITS = Object.freeze({
+  intervalHours: { min: 1, max: 168, label: "Backup interval (hours)" },
+  keep: { min: 1, max: 100, label: "Backups to keep" }
+});
+const BACKUP_DESTINATION_CATCH_UP_DELAY_MS = 2 * 60 * 1000;
+const BACKUP_DESTINATION_RETRY_DELAY_MS = 15 * 60 * 1000;
 const DEV_USER_DATA_DIR = "edisconotes-desktop";
 let mainWindow = null;
 let db = null;
@@ -27,12 +67,142 @@ const ALLOWED_TIMELINE_PHASES = new Set([
   "Production",
   "Project Completion"
 ]);
+const CUSTODIAN_STATUSES = new Set(["identified", "on_hold", "released", "departed"]);
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const LEGAL_HOLD_LIMITS = Object.freeze({
+  acknowledgmentDueDays: { min: 1, max: 90, label: "Acknowledgment window (days)" },
+  reminderIntervalDays: { min: 1, max: 90, label: "Reminder interval (days)", optional: true },
+  escalationAfterDays: { min: 1, max: 180, label: "Escalation delay (days)", optional: true }
+});
+const LEGAL_HOLD_MAX_RECIPIENTS = 500;
+const LEGAL_HOLD_REMINDER_WINDOW_DAYS = 14;
+const DATA_SOURCE_TYPES = new Set(["mailbox", "onedrive", "slack", "mobile_device", "other"]);
+const DATA_SOURCE_MAX_GB = 1_000_000;
+const DATA_SOURCE_MAX_CUSTODY_LINKS = 100;
+// Counts logged per day. Processed, promoted and produced are running totals as of that day;
+// reviewed is the number reviewed on that day.
+const REVIEW_METRIC_FIELDS = Object.freeze({
+  documentsProcessed: { label: "Documents processed", integer: true },
+  gbProcessed: { label: "GB processed", integer: false },
+  documentsPromoted: { label: "Documents promoted to review", integer: true },
+  documentsReviewed: { label: "Documents reviewed", integer: true },
+  documentsProduced: { label: "Documents produced", integer: true },
+  reviewerCount: { label: "Reviewer count", integer: true }
+});
+const REVIEW_METRIC_MAX_GB = 1_000_000;
+const REVIEW_VELOCITY_WINDOW_DAYS = 14;
+const PRODUCTION_FORMATS = new Set(["native", "tiff", "pdf"]);
+const PRODUCTION_FORMAT_LABELS = { native: "Native", tiff: "TIFF", pdf: "PDF" };
+const BATES_PREFIX_REGEX = /^[A-Za-z0-9][A-Za-z0-9 _.-]{0,39}$/;
+const BATES_MAX_DIGITS = 12;
+const PRODUCTION_MAX_DOCUMENT_LINKS = 50;
 const tempOpenFiles = new Set();
 
+const autoLockState = {
+  timer: null,
+  // Minutes of inactivity before locking; 0 disables the idle timer.
+  minutes: AUTO_LOCK_DEFAULT_MINUTES,
+  lockOnSleep: true,
+  // requestId -> callback, resolved when a renderer confirms its autosaves are flushed.
+  pendingFlushes: new Map()
+};
+
+const snapshotScheduleState = {
+  timer: null,
+  // ISO time the next daily snapshot is due, or null while locked or disabled.
+  nextRunAt: null,
+  settings: { ...SNAPSHOT_SCHEDULE_DEFAULTS }
+};
+
+const destinationBackupState = {
+  timer: null,
+  // ISO time the next automatic export to the destination is due, or null while locked or disabled.
+  nextRunAt: null,
+  running: false,
+  // Temp files from this process's failed exports that couldn't be removed at the time.
+  orphanedTempPaths: new Set()
+};
+
+const backupArchiveState = {
+  // Backup archives (manual or to the destination) currently being written.
+  writing: 0
+};
+
+// An encrypted bundle import pauses for the transfer passphrase; the chosen path waits here, keyed by a one-time token.
+const bundleImportState = {
+  token: null,
+  bundlePath: null
+};
+
+// A previewed merge waits here until the user resolves its conflicts. Apply re-reads the bundle and
+// refuses it if bundle.json no longer matches what was previewed.
+const bundleMergeState = {
+  token: null,
+  projectId: null,
+  bundlePath: null,
+  transferPassphrase: null,
+  payloadHash: null
+};
+
+const persistState = {
+  timer: null,
+  // When the oldest change not yet in the sealed DB file was journaled (ms epoch), or null.
+  dirtySince: null,
+  // SHA-256 of the sealed DB file on disk; journal records only extend that exact image.
+  baseHash: null,
+  journalSeq: 0,
+  journalBytes: 0,
+  // [sql, params] pairs run since the last journal append.
+  pendingStatements: [],
+  // Index into pendingStatements where an open run("BEGIN") transaction started, or null.
+  transactionStart: null,
+  // A full save was requested while a transaction was open; it runs once the transaction ends.
+  flushDeferred: false,
+  stats: {
+    fullFlushes: 0,
+    totalFullFlushMs: 0,
+    lastFullFlushMs: null,
+    maxFullFlushMs: 0,
+    lastFullFlushAt: null,
+    lastFullFlushBytes: null,
+    journalAppends: 0,
+    totalJournalAppendMs: 0,
+    lastJournalAppendMs: null,
+    maxJournalAppendMs: 0,
+    lastReplay: null,
+    lastError: null
+  }
+};
+
+const maintenanceState = {
+  running: false,
+  // Most recent integrity report; repairs must reference it so the user acts on what they reviewed.
+  lastReport: null
+};
+
+const attachmentUpgradeState = {
+  // Promise for the in-flight EDNFILE1 -> EDNFILE2 upgrade pass, if any.
+  running: null
+};
+
+const attachmentWriteState = {
+  // Adds, imports and merges currently encrypting files under the session's file key.
+  inFlight: 0,
+  // Resolves when inFlight drops back to zero; created on demand by key rotation.
+  idle: null,
+  resolveIdle: null
+};
+
 const vaultState = {
   locked: ENCRYPTION_ENABLED,
-  // { masterKey, dbKey, fileKey, kdfSalt, kdfParams }
-  vault: null
+  // { dataKey, keyId, dbKey, fileKey }
+  vault: null,
+  // True while a passphrase change is re-encrypting vault files.
+  rotating: false,
+  // True after a recovery key unlock, until a new passphrase is set.
+  passphraseResetRequired: false,
+  // True when an interrupted data key swap was finished while locked; audited on the next unlock.
+  finishedKeyRotation: false
 };
 
 // When launched via `electron <entry-file>` the app name defaults to "Electron",
@@ -52,11 +222,32 @@ const attachmentsRoot = () => path.resolve(app.getPath("userData"), "attachments
 const tempRoot = () => path.resolve(app.getPath("temp"), "edisconotes-decrypted");
 const backupMetaPath = () => path.resolve(app.getPath("userData"), "backup-meta.json");
 const snapshotsRoot = () => path.resolve(app.getPath("userData"), "snapshots");
+const snapshotBlobsRoot = () => path.resolve(snapshotsRoot(), "blobs");
 
 const dbPlainPath = () => path.join(app.getPath("userData"), "edisconotes.sqlite");
 const dbEncPath = () => path.join(app.getPath("userData"), "edisconotes.sqlite.enc");
+const keyRotationJournalPath = () => path.resolve(app.getPath("userData"), "key-rotation.json");
+const keyRotationStagingRoot = () => path.resolve(app.getPath("userData"), "attachments.rotating");
+const keyRotationRetiredRoot = () => path.resolve(app.getPath("userData"), "attachments.retired");
+const keyRotationDbPath = () => `${dbEncPath()}.rotating`;
+const dbJournalPath = () => `${dbEncPath()}.journal`;
+const quarantineRoot = () => path.resolve(app.getPath("userData"), "quarantine");
+const VAULT_HEADER_FILE_NAME = "vault-header.json";
+const vaultHeaderPath = (root = app.getPath("userData")) => path.resolve(root, VAULT_HEADER_FILE_NAME);
+const keyRotationHeaderPath = () => `${vaultHeaderPath()}.rotating`;
+// Kept outside the encrypted DB so failures are tracked while the vault is locked and survive restarts.
+const unlockThrottlePath = () => path.resolve(app.getPath("userData"), "unlock-throttle.json");
 const PROJECT_BUNDLE_FORMAT = "edisconotes.project-bundle";
-const PROJECT_BUNDLE_VERSION = 1;
+// v2 bundles are ZIP containers (bundle.json plus one raw entry per attachment); v1 is a single JSON file.
+const PROJECT_BUNDLE_VERSION = 2;
+const PROJECT_BUNDLE_JSON_VERSION = 1;
+const PROJECT_BUNDLE_MANIFEST_NAME = "bundle.json";
+const PROJECT_BUNDLE_ATTACHMENT_ENTRY_REGEX = /^attachments\/\d{1,6}$/;
+const PROJECT_BUNDLE_ZIP_MAX_MANIFEST_BYTES = 64 * 1024 * 1024;
+const PROJECT_BUNDLE_ZIP_MAX_ATTACHMENTS = 5000;
+const PROJECT_BUNDLE_ZIP_MAX_ATTACHMENT_BYTES = 1024 * 1024 * 1024;
+const PROJECT_BUNDLE_ZIP_MAX_TOTAL_BYTES = 4 * 1024 * 1024 * 1024;
+// Limits for v1 JSON bundles, which are parsed in memory.
 const PROJECT_BUNDLE_MAX_BYTES = 25 * 1024 * 1024;
 const PROJECT_BUNDLE_MAX_ATTACHMENTS = 100;
 const PROJECT_BUNDLE_MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
@@ -72,6 +263,7 @@ const listEncryptedDbCandidates = () => {
   const candidates = [];
   for (const root of listUserDataRootsForUnlock()) {
     const encryptedPath = path.join(root, "edisconotes.sqlite.enc");
+    const pendingPath = `${encryptedPath}.tmp`;
     const backupPath = `${encryptedPath}.bak`;
     if (fs.existsSync(encryptedPath)) {
       candidates.push({
@@ -81,6 +273,16 @@ const listEncryptedDbCandidates = () => {
         isBackup: false
       });
     }
+    // A full save that stopped between moving the live file aside and renaming its replacement in
+    // leaves the newer image here; it is tried before the older `.bak`.
+    if (fs.existsSync(pendingPath)) {
+      candidates.push({
+        dbPath: pendingPath,
+        userDataRoot: root,
+        source: root === currentRoot ? "current" : "legacy",
+        isBackup: true
+      });
+    }
     if (fs.existsSync(backupPath)) {
       candidates.push({
         dbPath: backupPath,
@@ -96,6 +298,67 @@ const listEncryptedDbCandidates = () => {
 const isDecryptAuthError = (error) =>
   Boolean(error && typeof error.message === "string" && /unable to authenticate data/i.test(error.message));
 
+const readUnlockThrottle = () => {
+  const state = readJsonFile(unlockThrottlePath());
+  return {
+    failedAttempts: Number.isInteger(state?.failedAttempts) && state.failedAttempts > 0 ? state.failedAttempts : 0,
+    firstFailedAt: typeof state?.firstFailedAt === "string" ? state.firstFailedAt : null,
+    lastFailedAt: typeof state?.lastFailedAt === "string" ? state.lastFailedAt : null,
+    retryAt: typeof state?.retryAt === "string" ? state.retryAt : null,
+    methods: state?.methods && typeof state.methods === "object" ? state.methods : {}
+  };
+};
+
+const getUnlockRetryAt = () => {
+  const { retryAt } = readUnlockThrottle();
+  return retryAt && new Date(retryAt).getTime() > Date.now() ? retryAt : null;
+};
+
+const assertUnlockAllowed = () => {
+  const retryAt = getUnlockRetryAt();
+  if (retryAt) {
+    const seconds = Math.ceil((new Date(retryAt).getTime() - Date.now()) / 1000);
+    throw new Error(`Too many failed unlock attempts. Try again in ${seconds}s.`);
+  }
+};
+
+// Each consecutive failure doubles the wait before the next attempt, capped at 15 minutes.
+const recordUnlockFailure = (method) => {
+  const state = readUnlockThrottle();
+  const failedAttempts = state.failedAttempts + 1;
+  const now = new Date();
+  const delayMs = Math.min(UNLOCK_BACKOFF_BASE_MS * 2 ** (failedAttempts - 1), UNLOCK_BACKOFF_MAX_MS);
+  try {
+    writeJsonFile(unlockThrottlePath(), {
+      failedAttempts,
+      firstFailedAt: state.firstFailedAt || now.toISOString(),
+      lastFailedAt: now.toISOString(),
+      retryAt: new Date(now.getTime() + delayMs).toISOString(),
+      methods: { ...state.methods, [method]: Number(state.methods[method] || 0) + 1 }
+    });
+  } catch (error) {
+    console.error("Failed to record unlock failure", error);
+  }
+};
+
+// Called once the vault is open: clears the backoff and audits what happened while it was locked.
+const settleUnlockThrottle = () => {
+  const state = readUnlockThrottle();
+  fs.rmSync(unlockThrottlePath(), { force: true });
+  if (state.failedAttempts === 0) return;
+  recordAudit({
+    action: "vault.unlock_failed",
+    entityType: "vault",
+    details: {
+      failedAttempts: state.failedAttempts,
+      firstFailedAt: state.firstFailedAt,
+      lastFailedAt: state.lastFailedAt,
+      methods: state.methods
+    },
+    persist: false
+  });
+};
+
 const describeUnlockSource = (source) => {
   if (!source) return "new";
   const rootLabel = source.source === "current" ? "current" : `legacy:${path.basename(source.userDataRoot)}`;
@@ -158,6 +421,58 @@ const countFilesRecursive = (rootDir) => {
   return count;
 };
 
+const listFilesRecursive = (rootDir, relativeDir = "") => {
+  const currentDir = path.join(rootDir, relativeDir);
+  if (!fs.existsSync(currentDir)) return [];
+  const files = [];
+  for (const entry of fs.readdirSync(currentDir, { withFileTypes: true })) {
+    const relativePath = path.join(relativeDir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFilesRecursive(rootDir, relativePath));
+      continue;
+    }
+    if (entry.isFile()) files.push(relativePath);
+  }
+  return files;
+};
+
+const directorySizeBytes = (rootDir) =>
+  listFilesRecursive(rootDir).reduce((total, relativePath) => {
+    try {
+      return total + fs.statSync(path.join(rootDir, relativePath)).size;
+    } catch {
+      return total;
+    }
+  }, 0);
+
+const replaceFile = (sourcePath, targetPath) => {
+  try {
+    fs.renameSync(sourcePath, targetPath);
+  } catch (error) {
+    // Some Windows setups refuse to rename over an existing file.
+    if (!fs.existsSync(targetPath)) throw error;
+    fs.unlinkSync(targetPath);
+    fs.renameSync(sourcePath, targetPath);
+  }
+};
+
+const readVaultHeader = (root) => readJsonFile(vaultHeaderPath(root));
+
+const writeVaultHeader = (header) => {
+  const headerPath = vaultHeaderPath();
+  const tmpPath = `${headerPath}.tmp`;
+  writeJsonFile(tmpPath, header);
+  replaceFile(tmpPath, headerPath);
+};
+
+// Snapshots and backups carry the header so their v2 database can be unwrapped on restore.
+const copyVaultHeaderInto = (targetDir) => {
+  const headerPath = vaultHeaderPath();
+  if (!fs.existsSync(headerPath)) return false;
+  fs.copyFileSync(headerPath, path.join(targetDir, VAULT_HEADER_FILE_NAME));
+  return true;
+};
+
 const isValidProjectId = (projectId) => typeof projectId === "string" && UUID_V4_REGEX.test(projectId);
 
 const assertUuid = (value, fieldName) => {
@@ -276,6 +591,212 @@ const sanitizeTodoInput = (data) => {
   };
 };
 
+const sanitizeCustodianInput = (data) => {
+  if (!data || typeof data !== "object") {
+    throw new Error("Custodian data is required.");
+  }
+  const optionalText = (value, fieldName, maxLen) =>
+    value === null || value === undefined || value === ""
+      ? null
+      : ensureText(value, fieldName, { maxLen, allowEmpty: true, minLen: 0 }) || null;
+  const email = optionalText(data.email, "Custodian email", 254);
+  if (email && !EMAIL_REGEX.test(email)) {
+    throw new Error("Custodian email is invalid.");
+  }
+  const status = ensureText(data.status, "Custodian status", { maxLen: 32 });
+  if (!CUSTODIAN_STATUSES.has(status)) {
+    throw new Error("Custodian status is invalid.");
+  }
+  const holdNoticeSentAt = ensureIsoDate(data.holdNoticeSentAt, "Hold notice sent date", { allowNull: true });
+  const holdAcknowledgedAt = ensureIsoDate(data.holdAcknowledgedAt, "Hold acknowledged date", { allowNull: true });
+  if (holdAcknowledgedAt && !holdNoticeSentAt) {
+    throw new Error("Record when the hold notice was sent before its acknowledgment.");
+  }
+  if (holdNoticeSentAt && holdAcknowledgedAt && holdAcknowledgedAt < holdNoticeSentAt) {
+    throw new Error("Hold acknowledged date must be on or after the sent date.");
+  }
+  return {
+    name: ensureText(data.name, "Custodian name", { maxLen: 200 }),
+    title: optionalText(data.title, "Custodian title", 200),
+    department: optionalText(data.department, "Custodian department", 200),
+    email,
+    status,
+    holdNoticeSentAt,
+    holdAcknowledgedAt
+  };
+};
+
+const sanitizeLegalHoldInput = (data) => {
+  if (!data || typeof data !== "object") {
+    throw new Error("Legal hold data is required.");
+  }
+  const issuedAt = ensureIsoDate(data.issuedAt, "Hold issued date");
+  const releasedAt = ensureIsoDate(data.releasedAt, "Hold release date", { allowNull: true });
+  if (releasedAt && releasedAt < issuedAt) {
+    throw new Error("Hold release date must be on or after the issued date.");
+  }
+  const schedule = {};
+  for (const [key, limits] of Object.entries(LEGAL_HOLD_LIMITS)) {
+    if (limits.optional && (data[key] === null || data[key] === undefined || data[key] === "")) {
+      schedule[key] = null;
+      continue;
+    }
+    const count = Number(data[key]);
+    if (!Number.isInteger(count) || count < limits.min || count > limits.max) {
+      throw new Error(`${limits.label} must be between ${limits.min} and ${limits.max}.`);
+    }
+    schedule[key] = count;
+  }
+  if (!Array.isArray(data.custodianIds) || data.custodianIds.length > LEGAL_HOLD_MAX_RECIPIENTS) {
+    throw new Error(`A hold can have at most ${LEGAL_HOLD_MAX_RECIPIENTS} recipients.`);
+  }
+  const noticeTemplate =
+    data.noticeTemplate === null || data.noticeTemplate === undefined || data.noticeTemplate === ""
+      ? null
+      : ensureText(data.noticeTemplate, "Hold notice template", { trim: false, maxLen: 50_000 });
+  return {
+    name: ensureText(data.name, "Hold name", { maxLen: 200 }),
+    issuedAt,
+    releasedAt,
+    ...schedule,
+    noticeTemplate,
+    custodianIds: [...new Set(data.custodianIds.map((custodianId) => assertUuid(custodianId, "custodian ID")))]
+  };
+};
+
+const sanitizeDataSourceInput = (data) => {
+  if (!data || typeof data !== "object") {
+    throw new Error("Data source data is required.");
+  }
+  const optionalText = (value, fieldName, maxLen) =>
+    value === null || value === undefined || value === ""
+      ? null
+      : ensureText(value, fieldName, { maxLen, allowEmpty: true, minLen: 0 }) || null;
+  const sourceType = ensureText(data.sourceType, "Source type", { maxLen: 32 });
+  if (!DATA_SOURCE_TYPES.has(sourceType)) {
+    throw new Error("Source type is invalid.");
+  }
+  // Volumes stay empty until the source is collected; zero is a real (empty) collection.
+  let sizeGb = null;
+  if (data.sizeGb !== null && data.sizeGb !== undefined && data.sizeGb !== "") {
+    sizeGb = Number(data.sizeGb);
+    if (!Number.isFinite(sizeGb) || sizeGb < 0 || sizeGb > DATA_SOURCE_MAX_GB) {
+      throw new Error(`Raw size must be between 0 and ${DATA_SOURCE_MAX_GB} GB.`);
+    }
+    sizeGb = Math.round(sizeGb * 1000) / 1000;
+  }
+  let itemCount = null;
+  if (data.itemCount !== null && data.itemCount !== undefined && data.itemCount !== "") {
+    itemCount = Number(data.itemCount);
+    if (!Number.isSafeInteger(itemCount) || itemCount < 0) {
+      throw new Error("Item count must be a whole number of zero or more.");
+    }
+  }
+  const custodyAttachmentIds = data.custodyAttachmentIds ?? [];
+  if (!Array.isArray(custodyAttachmentIds) || custodyAttachmentIds.length > DATA_SOURCE_MAX_CUSTODY_LINKS) {
+    throw new Error(`A data source can reference at most ${DATA_SOURCE_MAX_CUSTODY_LINKS} chain-of-custody documents.`);
+  }
+  return {
+    sourceType,
+    description: optionalText(data.description, "Source description", 500),
+    custodianId:
+      data.custodianId === null || data.custodianId === undefined || data.custodianId === ""
+        ? null
+        : assertUuid(data.custodianId, "custodian ID"),
+    collectionMethod: optionalText(data.collectionMethod, "Collection method", 200),
+    collectedAt: ensureIsoDate(data.collectedAt, "Collection date", { allowNull: true }),
+    sizeGb,
+    itemCount,
+    custodyAttachmentIds: [...new Set(custodyAttachmentIds.map((attachmentId) => assertUuid(attachmentId, "attachment ID")))]
+  };
+};
+
+const sanitizeReviewMetricInput = (data) => {
+  if (!data || typeof data !== "object") {
+    throw new Error("Review metrics data is required.");
+  }
+  const values = {};
+  for (const [key, field] of Object.entries(REVIEW_METRIC_FIELDS)) {
+    if (data[key] === null || data[key] === undefined || data[key] === "") {
+      values[key] = null;
+      continue;
+    }
+    const value = Number(data[key]);
+    if (field.integer ? !Number.isSafeInteger(value) || value < 0 : !Number.isFinite(value) || value < 0 || value > REVIEW_METRIC_MAX_GB) {
+      throw new Error(`${field.label} must be a ${field.integer ? "whole number" : "number"} of zero or more.`);
+    }
+    values[key] = field.integer ? value : Math.round(value * 1000) / 1000;
+  }
+  if (Object.values(values).every((value) => value === null)) {
+    throw new Error("Enter at least one metric for the day.");
+  }
+  return {
+    metricDate: ensureIsoDate(data.metricDate, "Metrics date"),
+    ...values
+  };
+};
+
+const sanitizeProductionInput = (data) => {
+  if (!data || typeof data !== "object") {
+    throw new Error("Production data is required.");
+  }
+  const optionalText = (value, fieldName, maxLen) =>
+    value === null || value === undefined || value === ""
+      ? null
+      : ensureText(value, fieldName, { maxLen, allowEmpty: true, minLen: 0 }) || null;
+  const optionalCount = (value, fieldName) => {
+    if (value === null || value === undefined || value === "") return null;
+    const count = Number(value);
+    if (!Number.isSafeInteger(count) || count < 0) {
+      throw new Error(`${fieldName} must be a whole number of zero or more.`);
+    }
+    return count;
+  };
+  const batesPrefix = ensureText(data.batesPrefix, "Bates prefix", { maxLen: 40 });
+  if (!BATES_PREFIX_REGEX.test(batesPrefix)) {
+    throw new Error("Bates prefix may only use letters, digits, spaces, dots, dashes and underscores.");
+  }
+  const batesDigits = Number(data.batesDigits);
+  if (!Number.isInteger(batesDigits) || batesDigits < 1 || batesDigits > BATES_MAX_DIGITS) {
+    throw new Error(`Bates number width must be between 1 and ${BATES_MAX_DIGITS} digits.`);
+  }
+  const batesBegin = Number(data.batesBegin);
+  const batesEnd = Number(data.batesEnd);
+  for (const [value, label] of [
+    [batesBegin, "Begin Bates"],
+    [batesEnd, "End Bates"]
+  ]) {
+    if (!Number.isSafeInteger(value) || value < 0 || String(value).length > batesDigits) {
+      throw new Error(`${label} must be a whole number with at most ${batesDigits} digits.`);
+    }
+  }
+  if (batesEnd < batesBegin) {
+    throw new Error("End Bates must be on or after begin Bates.");
+  }
+  const format = ensureText(data.format, "Production format", { maxLen: 16 });
+  if (!PRODUCTION_FORMATS.has(format)) {
+    throw new Error("Production format is invalid.");
+  }
+  const attachmentIds = data.attachmentIds ?? [];
+  if (!Array.isArray(attachmentIds) || attachmentIds.length > PRODUCTION_MAX_DOCUMENT_LINKS) {
+    throw new Error(`A production can link at most ${PRODUCTION_MAX_DOCUMENT_LINKS} documents.`);
+  }
+  return {
+    volumeName: ensureText(data.volumeName, "Volume name", { maxLen: 120 }),
+    batesPrefix,
+    batesBegin,
+    batesEnd,
+    batesDigits,
+    documentCount: optionalCount(data.documentCount, "Document count"),
+    pageCount: optionalCount(data.pageCount, "Page count"),
+    producedAt: ensureIsoDate(data.producedAt, "Production date"),
+    recipient: optionalText(data.recipient, "Production recipient", 200),
+    format,
+    deliveryMethod: optionalText(data.deliveryMethod, "Delivery method", 200),
+    attachmentIds: [...new Set(attachmentIds.map((attachmentId) => assertUuid(attachmentId, "attachment ID")))]
+  };
+};
+
 const sanitizeTimelineInput = (data) => {
   if (!data || typeof data !== "object") {
     throw new Error("Timeline data is required.");
@@ -385,7 +906,39 @@ const decodeBase64ToFile = async (base64Input, filePath) => {
   }
 };
 
-const writeAttachmentFromBase64 = async (projectId, originalFileName, base64) => {
+// Runs a task that writes attachments under the session's file key. Key rotation waits for these to
+// drain before it lists the store, and no new one starts once rotation has begun.
+const withAttachmentWrites = async (task) => {
+  if (vaultState.rotating) {
+    throw new Error("Vault passphrase change in progress. Try again shortly.");
+  }
+  attachmentWriteState.inFlight += 1;
+  try {
+    return await task();
+  } finally {
+    attachmentWriteState.inFlight -= 1;
+    if (attachmentWriteState.inFlight === 0 && attachmentWriteState.resolveIdle) {
+      const resolveIdle = attachmentWriteState.resolveIdle;
+      attachmentWriteState.idle = null;
+      attachmentWriteState.resolveIdle = null;
+      resolveIdle();
+    }
+  }
+};
+
+const waitForAttachmentWrites = () => {
+  if (attachmentWriteState.inFlight === 0) return Promise.resolve();
+  if (!attachmentWriteState.idle) {
+    attachmentWriteState.idle = new Promise((resolve) => {
+      attachmentWriteState.resolveIdle = resolve;
+    });
+  }
+  return attachmentWriteState.idle;
+};
+
+// Moves a plaintext temp file into the project's attachment store (encrypting it on the way) and
+// removes the temp file either way.
+const writeAttachmentFromPlaintextFile = async (projectId, originalFileName, tempPath) => {
   const safeProjectId = assertUuid(projectId, "project ID");
   const attachmentsDir = getSafeProjectAttachmentDir(safeProjectId);
   if (!attachmentsDir) {
@@ -401,10 +954,7 @@ const writeAttachmentFromBase64 = async (projectId, originalFileName, base64) =>
     throw new Error("Invalid attachment destination.");
   }
 
-  ensureDir(tempRoot());
-  const tempPath = path.resolve(tempRoot(), `${randomUUID()}${ext || ".tmp"}`);
   try {
-    await decodeBase64ToFile(base64, tempPath);
     const stat = fs.statSync(tempPath);
     if (ENCRYPTION_ENABLED) {
       await encryptAttachmentFile(tempPath, destPath, vaultState.vault.fileKey);
@@ -425,49 +975,88 @@ const writeAttachmentFromBase64 = async (projectId, originalFileName, base64) =>
   }
 };
 
-const encryptAttachmentFile = async (sourcePath, destPath, fileKey) => {
-  const iv = crypto.randomBytes(vaultCrypto.IV_LEN);
-  const header = Buffer.concat([vaultCrypto.FILE_MAGIC, Buffer.from([vaultCrypto.FILE_VERSION]), iv]);
-  const aad = Buffer.concat([vaultCrypto.FILE_MAGIC, Buffer.from([vaultCrypto.FILE_VERSION])]);
+const writeAttachmentFromBase64 = async (projectId, originalFileName, base64) => {
+  ensureDir(tempRoot());
+  const ext = path.extname(String(originalFileName || ""));
+  const tempPath = path.resolve(tempRoot(), `${randomUUID()}${ext || ".tmp"}`);
+  try {
+    await decodeBase64ToFile(base64, tempPath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+  return writeAttachmentFromPlaintextFile(projectId, originalFileName, tempPath);
+};
 
+// Streams one attachment entry out of a v2 bundle into the store, checking it against bundle.json.
+const writeAttachmentFromBundleEntry = async (projectId, originalFileName, zipReader, bundleEntry) => {
+  ensureDir(tempRoot());
+  const ext = path.extname(String(originalFileName || ""));
+  const tempPath = path.resolve(tempRoot(), `${randomUUID()}${ext || ".tmp"}`);
+  try {
+    const sha256 = await zipReader.extractEntry(zipReader.entries.get(bundleEntry.entry), tempPath);
+    if (bundleEntry.sha256 && sha256 !== bundleEntry.sha256) {
+      throw new Error(`Attachment ${originalFileName} failed its checksum.`);
+    }
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+  return writeAttachmentFromPlaintextFile(projectId, originalFileName, tempPath);
+};
+
+// Attachments are written as EDNFILE2: one authenticated chunk at a time, so memory stays
+// bounded by the chunk size regardless of file size. The output only replaces destPath once complete.
+const encryptAttachmentFile = async (sourcePath, destPath, fileKey) => {
   const tmpPath = `${destPath}.tmp`;
   await fsPromises.mkdir(path.dirname(destPath), { recursive: true });
 
-  return new Promise((resolve, reject) => {
-    const input = fs.createReadStream(sourcePath);
-    const cipher = crypto.createCipheriv("aes-256-gcm", fileKey, iv);
-    cipher.setAAD(aad);
-
-    const output = fs.createWriteStream(tmpPath, { mode: 0o600 });
-    output.on("error", reject);
-    input.on("error", reject);
-    cipher.on("error", reject);
-
-    output.write(header);
-    input.pipe(cipher).pipe(output, { end: false });
-    cipher.on("end", () => {
-      try {
-        const tag = cipher.getAuthTag();
-        output.end(tag);
-      } catch (error) {
-        reject(error);
-      }
-    });
-    output.on("finish", () => {
-      try {
-        fs.renameSync(tmpPath, destPath);
-        resolve();
-      } catch (error) {
-        reject(error);
+  const header = vaultCrypto.buildFileHeaderV2();
+  const { chunkSize } = vaultCrypto.parseFileHeader(header);
+  const input = await fsPromises.open(sourcePath, "r");
+  let output = null;
+  try {
+    output = await fsPromises.open(tmpPath, "w", 0o600);
+    const { size } = await input.stat();
+    const chunkCount = Math.max(1, Math.ceil(size / chunkSize));
+    const buffer = Buffer.alloc(chunkSize);
+    await output.write(header);
+    for (let index = 0; index < chunkCount; index += 1) {
+      const expected = Math.min(chunkSize, size - index * chunkSize);
+      const { bytesRead } = await input.read(buffer, 0, expected, index * chunkSize);
+      if (bytesRead !== expected) {
+        throw new Error("Attachment changed while it was being encrypted.");
       }
-    });
-  });
+      const isFinal = index === chunkCount - 1;
+      await output.write(vaultCrypto.sealFileChunk(fileKey, header, index, isFinal, buffer.subarray(0, bytesRead)));
+    }
+    await output.close();
+    output = null;
+    replaceFile(tmpPath, destPath);
+  } catch (error) {
+    if (output) await output.close().catch(() => undefined);
+    output = null;
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  } finally {
+    await input.close().catch(() => undefined);
+  }
 };
 
-const decryptAttachmentFile = async (encryptedPath, destPath, fileKey) => {
-  const stat = fs.statSync(encryptedPath);
+const readAttachmentFormat = (encryptedPath) => {
+  const fd = fs.openSync(encryptedPath, "r");
+  try {
+    const prefix = Buffer.alloc(vaultCrypto.FILE_HEADER_V2_LEN);
+    const bytesRead = fs.readSync(fd, prefix, 0, prefix.length, 0);
+    return vaultCrypto.parseFileHeader(prefix.subarray(0, bytesRead));
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+const decryptAttachmentFileV1 = async (encryptedPath, tmpPath, fileKey, size) => {
   const headerLen = vaultCrypto.FILE_MAGIC.length + 1 + vaultCrypto.IV_LEN;
-  if (stat.size < headerLen + vaultCrypto.TAG_LEN + 1) {
+  if (size < headerLen + vaultCrypto.TAG_LEN + 1) {
     throw new Error("Encrypted attachment is corrupted (too small).");
   }
 
@@ -475,46 +1064,30 @@ const decryptAttachmentFile = async (encryptedPath, destPath, fileKey) => {
   try {
     const header = Buffer.alloc(headerLen);
     fs.readSync(fd, header, 0, headerLen, 0);
-    const magic = header.subarray(0, vaultCrypto.FILE_MAGIC.length);
-    if (!magic.equals(vaultCrypto.FILE_MAGIC)) {
-      throw new Error("Not an encrypted attachment.");
-    }
-    const version = header.readUInt8(vaultCrypto.FILE_MAGIC.length);
-    if (version !== vaultCrypto.FILE_VERSION) {
-      throw new Error(`Unsupported encrypted attachment version: ${version}`);
-    }
     const iv = header.subarray(vaultCrypto.FILE_MAGIC.length + 1);
 
     const tag = Buffer.alloc(vaultCrypto.TAG_LEN);
-    fs.readSync(fd, tag, 0, vaultCrypto.TAG_LEN, stat.size - vaultCrypto.TAG_LEN);
+    fs.readSync(fd, tag, 0, vaultCrypto.TAG_LEN, size - vaultCrypto.TAG_LEN);
 
     const aad = Buffer.concat([vaultCrypto.FILE_MAGIC, Buffer.from([vaultCrypto.FILE_VERSION])]);
     const decipher = crypto.createDecipheriv("aes-256-gcm", fileKey, iv);
     decipher.setAAD(aad);
     decipher.setAuthTag(tag);
 
-    const tmpPath = `${destPath}.tmp`;
-    await fsPromises.mkdir(path.dirname(destPath), { recursive: true });
-
     const ciphertextStart = headerLen;
-    const ciphertextEnd = stat.size - vaultCrypto.TAG_LEN - 1;
+    const ciphertextEnd = size - vaultCrypto.TAG_LEN - 1;
 
-    return await new Promise((resolve, reject) => {
+    await new Promise((resolve, reject) => {
       const input = fs.createReadStream(encryptedPath, { start: ciphertextStart, end: ciphertextEnd });
-      const output = fs.createWriteStream(tmpPath, { mode: 0o600 });
+      const output = tmpPath
+        ? fs.createWriteStream(tmpPath, { mode: 0o600 })
+        : new Writable({ write: (_chunk, _encoding, callback) => callback() });
       output.on("error", reject);
       input.on("error", reject);
       decipher.on("error", reject);
 
       input.pipe(decipher).pipe(output);
-      output.on("finish", () => {
-        try {
-          fs.renameSync(tmpPath, destPath);
-          resolve();
-        } catch (error) {
-          reject(error);
-        }
-      });
+      output.on("finish", resolve);
     });
   } finally {
     try {
@@ -525,70 +1098,357 @@ const decryptAttachmentFile = async (encryptedPath, destPath, fileKey) => {
   }
 };
 
-const persistDbInternal = () => {
-  if (!db) return;
-  if (!ENCRYPTION_ENABLED) {
-    const data = db.export();
-    fs.writeFileSync(dbPlainPath(), Buffer.from(data));
-    return;
+const decryptAttachmentFileV2 = async (encryptedPath, tmpPath, fileKey, size, format) => {
+  if (size < format.headerLen + vaultCrypto.TAG_LEN) {
+    throw new Error("Encrypted attachment is corrupted (too small).");
   }
-  if (vaultState.locked || !vaultState.vault) return;
-  const data = db.export();
-  const plaintext = Buffer.from(data);
-  const envelope = vaultCrypto.sealDatabaseBytes(plaintext, vaultState.vault);
-  const targetPath = dbEncPath();
-  const tmpPath = `${targetPath}.tmp`;
-  fs.writeFileSync(tmpPath, envelope);
-
-  // Windows rename() won't overwrite an existing file; do a safe replace.
-  const backupPath = `${targetPath}.bak`;
+  const segmentLen = format.chunkSize + vaultCrypto.TAG_LEN;
+  const input = await fsPromises.open(encryptedPath, "r");
+  let output = null;
   try {
-    if (fs.existsSync(backupPath)) fs.unlinkSync(backupPath);
-  } catch {
-    // ignore
-  }
-  if (fs.existsSync(targetPath)) {
-    try {
-      fs.renameSync(targetPath, backupPath);
-    } catch {
-      // If we can't move aside, try unlink as a fallback.
-      try {
-        fs.unlinkSync(targetPath);
-      } catch {
-        // ignore
+    output = tmpPath ? await fsPromises.open(tmpPath, "w", 0o600) : null;
+    const buffer = Buffer.alloc(segmentLen);
+    let position = format.headerLen;
+    for (let index = 0; position < size; index += 1) {
+      const length = Math.min(segmentLen, size - position);
+      const { bytesRead } = await input.read(buffer, 0, length, position);
+      if (bytesRead !== length) {
+        throw new Error("Encrypted attachment is corrupted (short read).");
       }
+      const isFinal = position + length === size;
+      const plaintext = vaultCrypto.openFileChunk(fileKey, format.header, index, isFinal, buffer.subarray(0, length));
+      if (output) await output.write(plaintext);
+      position += length;
     }
+  } finally {
+    if (output) await output.close().catch(() => undefined);
+    await input.close().catch(() => undefined);
   }
-  fs.renameSync(tmpPath, targetPath);
-  try {
-    if (fs.existsSync(backupPath)) fs.unlinkSync(backupPath);
-  } catch {
-    // ignore
+};
+
+// Authenticates every chunk of an attachment without writing any plaintext.
+const verifyAttachmentFile = async (encryptedPath, fileKey) => {
+  const { size } = fs.statSync(encryptedPath);
+  const format = readAttachmentFormat(encryptedPath);
+  if (format.version === vaultCrypto.FILE_VERSION) {
+    await decryptAttachmentFileV1(encryptedPath, null, fileKey, size);
+  } else {
+    await decryptAttachmentFileV2(encryptedPath, null, fileKey, size, format);
   }
 };
 
-const persistDb = () => {
+const decryptAttachmentFile = async (encryptedPath, destPath, fileKey) => {
+  const { size } = fs.statSync(encryptedPath);
+  const format = readAttachmentFormat(encryptedPath);
+  const tmpPath = `${destPath}.tmp`;
+  await fsPromises.mkdir(path.dirname(destPath), { recursive: true });
   try {
-    persistDbInternal();
+    if (format.version === vaultCrypto.FILE_VERSION) {
+      await decryptAttachmentFileV1(encryptedPath, tmpPath, fileKey, size);
+    } else {
+      await decryptAttachmentFileV2(encryptedPath, tmpPath, fileKey, size, format);
+    }
+    fs.renameSync(tmpPath, destPath);
   } catch (error) {
-    console.error("Failed to persist database", error);
+    // Never leave partially decrypted (possibly unauthenticated) plaintext behind.
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
   }
 };
 
-const persistDbOrThrow = () => {
-  persistDbInternal();
+const hashDbEnvelope = (envelope) => crypto.createHash("sha256").update(envelope).digest();
+
+const clearDbFlushTimer = () => {
+  if (persistState.timer) {
+    clearTimeout(persistState.timer);
+    persistState.timer = null;
+  }
 };
 
-const run = (sql, params = []) => {
-  const stmt = db.prepare(sql);
-  stmt.bind(params);
-  stmt.step();
-  stmt.free();
+// Starts an empty journal on top of the sealed DB file with the given hash.
+const resetDbJournal = (baseHash) => {
+  fs.rmSync(dbJournalPath(), { force: true });
+  persistState.baseHash = baseHash;
+  persistState.journalSeq = 0;
+  persistState.journalBytes = 0;
+  persistState.dirtySince = null;
+  persistState.pendingStatements = [];
+  if (persistState.transactionStart !== null) persistState.transactionStart = 0;
 };
 
-const all = (sql, params = []) => {
-  const stmt = db.prepare(sql);
-  stmt.bind(params);
+// Forgets in-memory journal state without touching disk (on lock, the journal may still hold unsaved edits).
+const clearPersistState = () => {
+  clearDbFlushTimer();
+  persistState.baseHash = null;
+  persistState.journalSeq = 0;
+  persistState.journalBytes = 0;
+  persistState.dirtySince = null;
+  persistState.pendingStatements = [];
+  persistState.transactionStart = null;
+  persistState.flushDeferred = false;
+};
+
+const recordPersistTiming = (kind, elapsedMs) => {
+  const { stats } = persistState;
+  const rounded = Math.round(elapsedMs * 10) / 10;
+  if (kind === "full") {
+    stats.fullFlushes += 1;
+    stats.totalFullFlushMs += elapsedMs;
+    stats.lastFullFlushMs = rounded;
+    stats.maxFullFlushMs = Math.max(stats.maxFullFlushMs, rounded);
+    stats.lastFullFlushAt = nowIso();
+  } else {
+    stats.journalAppends += 1;
+    stats.totalJournalAppendMs += elapsedMs;
+    stats.lastJournalAppendMs = rounded;
+    stats.maxJournalAppendMs = Math.max(stats.maxJournalAppendMs, rounded);
+  }
+};
+
+// sql.js closes and reopens the database in export(), which silently ends an open transaction.
+const assertNoOpenTransaction = () => {
+  if (persistState.transactionStart !== null) {
+    throw new Error("Cannot export the database while a transaction is open.");
+  }
+};
+
+// Seals the whole SQLite image, atomically replaces the DB file, and starts a fresh journal.
+// Works while the vault is still marked locked (unlock-time compaction), as long as keys are loaded.
+const writeSealedDatabase = () => {
+  assertNoOpenTransaction();
+  const started = performance.now();
+  const data = db.export();
+  const plaintext = Buffer.from(data);
+  const envelope = vaultCrypto.sealDatabaseBytes(plaintext, vaultState.vault);
+  const targetPath = dbEncPath();
+  const tmpPath = `${targetPath}.tmp`;
+  // Synced before the live file is moved aside, so an unlock after a crash can fall back to it.
+  const fd = fs.openSync(tmpPath, "w", 0o600);
+  try {
+    fs.writeSync(fd, envelope);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  // Windows rename() won't overwrite an existing file; do a safe replace.
+  const backupPath = `${targetPath}.bak`;
+  if (fs.existsSync(targetPath)) {
+    // With no live file (an earlier save was interrupted), the `.bak` may be the last intact image.
+    try {
+      if (fs.existsSync(backupPath)) fs.unlinkSync(backupPath);
+    } catch {
+      // ignore
+    }
+    try {
+      fs.renameSync(targetPath, backupPath);
+    } catch {
+      // If we can't move aside, try unlink as a fallback.
+      try {
+        fs.unlinkSync(targetPath);
+      } catch {
+        // ignore
+      }
+    }
+  }
+  fs.renameSync(tmpPath, targetPath);
+  try {
+    if (fs.existsSync(backupPath)) fs.unlinkSync(backupPath);
+  } catch {
+    // ignore
+  }
+  // The journal only extends the previous file; once the new image is in place it is obsolete.
+  resetDbJournal(hashDbEnvelope(envelope));
+  persistState.stats.lastFullFlushBytes = envelope.length;
+  recordPersistTiming("full", performance.now() - started);
+};
+
+const persistDbInternal = () => {
+  if (!db) return;
+  if (persistState.transactionStart !== null) {
+    persistState.flushDeferred = true;
+    return;
+  }
+  if (!ENCRYPTION_ENABLED) {
+    const data = db.export();
+    fs.writeFileSync(dbPlainPath(), Buffer.from(data));
+    return;
+  }
+  if (vaultState.locked || !vaultState.vault) return;
+  clearDbFlushTimer();
+  writeSealedDatabase();
+};
+
+// Appends the statements run since the last call as one encrypted, fsynced journal record.
+const appendDbJournal = () => {
+  const statements = persistState.pendingStatements;
+  if (!statements.length || persistState.transactionStart !== null) return;
+  if (!persistState.baseHash) {
+    // No sealed image to extend yet in this session.
+    persistDbInternal();
+    return;
+  }
+  const started = performance.now();
+  const record = vaultCrypto.sealJournalRecord(
+    vaultState.vault,
+    persistState.baseHash,
+    persistState.journalSeq,
+    Buffer.from(JSON.stringify(statements), "utf8")
+  );
+  const frame = Buffer.alloc(4 + record.length);
+  frame.writeUInt32BE(record.length, 0);
+  record.copy(frame, 4);
+  const fd = fs.openSync(dbJournalPath(), "a", 0o600);
+  try {
+    fs.writeSync(fd, frame);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  persistState.journalSeq += 1;
+  persistState.journalBytes += frame.length;
+  persistState.pendingStatements = [];
+  if (persistState.dirtySince === null) persistState.dirtySince = Date.now();
+  recordPersistTiming("journal", performance.now() - started);
+};
+
+// Full saves are debounced, but never deferred past DB_FLUSH_MAX_DELAY_MS or a journal of DB_JOURNAL_MAX_BYTES.
+const scheduleDbFlush = () => {
+  if (persistState.dirtySince === null) return;
+  const dirtyForMs = Date.now() - persistState.dirtySince;
+  if (dirtyForMs >= DB_FLUSH_MAX_DELAY_MS || persistState.journalBytes >= DB_JOURNAL_MAX_BYTES) {
+    persistDbInternal();
+    return;
+  }
+  startDbFlushTimer(Math.min(DB_FLUSH_DEBOUNCE_MS, DB_FLUSH_MAX_DELAY_MS - dirtyForMs));
+};
+
+const startDbFlushTimer = (delayMs) => {
+  clearDbFlushTimer();
+  persistState.timer = setTimeout(() => {
+    persistState.timer = null;
+    try {
+      persistDbInternal();
+    } catch (error) {
+      persistState.stats.lastError = error?.message || String(error);
+      console.error("Failed to flush database", error);
+    }
+  }, delayMs);
+};
+
+// Makes recent changes durable via the journal and schedules a coalesced full save.
+const persistDb = () => {
+  try {
+    if (!ENCRYPTION_ENABLED || vaultState.locked || !vaultState.vault) {
+      persistDbInternal();
+      return;
+    }
+    appendDbJournal();
+    scheduleDbFlush();
+  } catch (error) {
+    persistState.stats.lastError = error?.message || String(error);
+    console.error("Failed to persist database", error);
+    try {
+      persistDbInternal();
+    } catch (flushError) {
+      console.error("Failed to persist database", flushError);
+    }
+  }
+};
+
+// Writes the full sealed DB immediately (lock, quit, snapshots, exports, key changes).
+const flushDbNow = () => {
+  persistDbInternal();
+};
+
+// Re-applies journal records written on top of `envelope` before the last full save. Runs while the
+// vault is still locked, so replayed statements aren't captured again.
+const replayDbJournal = (envelope) => {
+  const journalPath = dbJournalPath();
+  const result = { records: 0, statements: 0, discarded: false, torn: false, failed: null, at: nowIso() };
+  persistState.stats.lastReplay = result;
+  if (!fs.existsSync(journalPath)) return result;
+
+  const baseHash = hashDbEnvelope(envelope);
+  const bytes = fs.readFileSync(journalPath);
+  let offset = 0;
+  while (offset < bytes.length) {
+    const recordLength = offset + 4 <= bytes.length ? bytes.readUInt32BE(offset) : null;
+    if (recordLength === null || offset + 4 + recordLength > bytes.length) {
+      result.torn = true;
+      break;
+    }
+    let statements;
+    try {
+      const record = bytes.subarray(offset + 4, offset + 4 + recordLength);
+      statements = JSON.parse(vaultCrypto.openJournalRecord(vaultState.vault, baseHash, result.records, record).toString("utf8"));
+    } catch {
+      // The first record not matching means the journal belongs to an older file; later ones mean a torn tail.
+      if (result.records === 0) result.discarded = true;
+      else result.torn = true;
+      break;
+    }
+    try {
+      db.exec("BEGIN");
+      for (const [sql, params] of statements) run(sql, params);
+      db.exec("COMMIT");
+    } catch (error) {
+      try {
+        db.exec("ROLLBACK");
+      } catch {
+        // ignore
+      }
+      result.failed = error?.message || String(error);
+      break;
+    }
+    result.records += 1;
+    result.statements += statements.length;
+    offset += 4 + recordLength;
+  }
+
+  if (result.failed) {
+    // Keep what couldn't be applied for support instead of dropping it with the next full save.
+    const keptPath = `${journalPath}.unreplayed-${Date.now()}`;
+    fs.renameSync(journalPath, keptPath);
+    console.error(`Database journal replay stopped: ${result.failed} (kept ${keptPath})`);
+  }
+  return result;
+};
+
+const run = (sql, params = []) => {
+  const stmt = db.prepare(sql);
+  stmt.bind(params);
+  stmt.step();
+  stmt.free();
+  const control = /^\s*(BEGIN|COMMIT|END|ROLLBACK)\b/i.exec(sql);
+  if (control) {
+    trackTransactionControl(control[1].toUpperCase());
+  } else if (ENCRYPTION_ENABLED && !vaultState.locked) {
+    persistState.pendingStatements.push([sql, params]);
+  }
+};
+
+// Replay wraps each journal record in its own transaction, so transaction control statements
+// aren't journaled; a rolled-back transaction drops the statements it captured. Transactions are
+// tracked even while unencrypted so a full save never exports the database mid-transaction.
+const trackTransactionControl = (keyword) => {
+  if (keyword === "BEGIN") {
+    persistState.transactionStart = persistState.pendingStatements.length;
+    return;
+  }
+  if (keyword === "ROLLBACK" && persistState.transactionStart !== null) {
+    persistState.pendingStatements.length = persistState.transactionStart;
+  }
+  persistState.transactionStart = null;
+  if (persistState.flushDeferred) {
+    persistState.flushDeferred = false;
+    startDbFlushTimer(0);
+  }
+};
+
+const queryRows = (database, sql, params = []) => {
+  const stmt = database.prepare(sql);
+  stmt.bind(params);
   const rows = [];
   while (stmt.step()) {
     rows.push(stmt.getAsObject());
@@ -597,16 +1457,27 @@ const all = (sql, params = []) => {
   return rows;
 };
 
+const all = (sql, params = []) => queryRows(db, sql, params);
+
 const get = (sql, params = []) => {
   const rows = all(sql, params);
   return rows.length ? rows[0] : null;
 };
 
-const initDatabase = async (initialDbBytes) => {
+const loadSqlJs = async () => {
   if (!SQL) {
     const wasmPath = require.resolve("sql.js/dist/sql-wasm.wasm");
     SQL = await initSqlJs({ locateFile: () => wasmPath });
   }
+  return SQL;
+};
+
+// `journalEnvelope` is the sealed file `initialDbBytes` came from (the live DB file, or the `.tmp`/`.bak`
+// an interrupted full save left behind). The write-ahead journal is replayed if it was written on top
+// of that file, and compacted into a fresh full save, which also puts a missing live file back, before
+// migrations run.
+const initDatabase = async (initialDbBytes, { journalEnvelope = null } = {}) => {
+  await loadSqlJs();
 
   let openBytes = initialDbBytes || null;
   if (!openBytes && !ENCRYPTION_ENABLED) {
@@ -617,81 +1488,402 @@ const initDatabase = async (initialDbBytes) => {
   }
 
   db = new SQL.Database(openBytes || undefined);
+  try {
+    if (ENCRYPTION_ENABLED && journalEnvelope) {
+      const replay = replayDbJournal(journalEnvelope);
+      if (replay.records > 0 || !fs.existsSync(dbEncPath())) {
+        writeSealedDatabase();
+      } else if (replay.discarded || replay.torn) {
+        fs.rmSync(dbJournalPath(), { force: true });
+      }
+    }
+    return applySchemaMigrations();
+  } catch (error) {
+    db.close();
+    db = null;
+    throw error;
+  }
+};
 
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS projects (
-      id TEXT PRIMARY KEY,
-      matterName TEXT NOT NULL,
-      clientName TEXT NOT NULL,
-      billingCode TEXT NOT NULL,
-      startDate TEXT NOT NULL,
-      productionDeadline TEXT NOT NULL,
-      relativityUrl TEXT,
-      createdAt TEXT NOT NULL,
-      updatedAt TEXT NOT NULL,
-      archivedAt TEXT
-    );
+// Numbered, append-only schema migrations. Each runs once, in order, and must tolerate
+// databases created before this list existed (hence IF NOT EXISTS / column checks).
+// Never edit or renumber a shipped migration; add a new one instead.
+const SCHEMA_MIGRATIONS = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS projects (
+          id TEXT PRIMARY KEY,
+          matterName TEXT NOT NULL,
+          clientName TEXT NOT NULL,
+          billingCode TEXT NOT NULL,
+          startDate TEXT NOT NULL,
+          productionDeadline TEXT NOT NULL,
+          relativityUrl TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          archivedAt TEXT
+        );
 
-    CREATE TABLE IF NOT EXISTS notes (
-      id TEXT PRIMARY KEY,
-      projectId TEXT NOT NULL,
-      title TEXT NOT NULL,
-      noteDate TEXT NOT NULL,
-      contentMarkdown TEXT NOT NULL,
-      createdAt TEXT NOT NULL,
-      updatedAt TEXT NOT NULL
-    );
+        CREATE TABLE IF NOT EXISTS notes (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          title TEXT NOT NULL,
+          noteDate TEXT NOT NULL,
+          contentMarkdown TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        );
 
-    CREATE TABLE IF NOT EXISTS todos (
-      id TEXT PRIMARY KEY,
-      projectId TEXT NOT NULL,
-      text TEXT NOT NULL,
-      isCompleted INTEGER NOT NULL,
-      isPriority INTEGER NOT NULL,
-      createdAt TEXT NOT NULL,
-      completedAt TEXT
-    );
+        CREATE TABLE IF NOT EXISTS todos (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          text TEXT NOT NULL,
+          isCompleted INTEGER NOT NULL,
+          isPriority INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          completedAt TEXT
+        );
 
-    CREATE TABLE IF NOT EXISTS attachments (
-      id TEXT PRIMARY KEY,
-      projectId TEXT NOT NULL,
-      originalFileName TEXT NOT NULL,
-      storedFileName TEXT NOT NULL,
-      storedRelativePath TEXT NOT NULL,
-      sizeBytes INTEGER NOT NULL,
-      addedAt TEXT NOT NULL
-    );
+        CREATE TABLE IF NOT EXISTS attachments (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          originalFileName TEXT NOT NULL,
+          storedFileName TEXT NOT NULL,
+          storedRelativePath TEXT NOT NULL,
+          sizeBytes INTEGER NOT NULL,
+          addedAt TEXT NOT NULL
+        );
 
-    CREATE TABLE IF NOT EXISTS timeline_tasks (
-      id TEXT PRIMARY KEY,
-      projectId TEXT NOT NULL,
-      phase TEXT NOT NULL,
-      startDate TEXT,
-      endDate TEXT,
-      createdAt TEXT NOT NULL,
-      updatedAt TEXT NOT NULL,
-      UNIQUE(projectId, phase)
-    );
+        CREATE TABLE IF NOT EXISTS timeline_tasks (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          phase TEXT NOT NULL,
+          startDate TEXT,
+          endDate TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          UNIQUE(projectId, phase)
+        );
+
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id TEXT PRIMARY KEY,
+          timestamp TEXT NOT NULL,
+          action TEXT NOT NULL,
+          entityType TEXT NOT NULL,
+          entityId TEXT,
+          projectId TEXT,
+          detailsJson TEXT
+        );
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: "projects_is_pinned",
+    up: () => {
+      const columns = all("PRAGMA table_info(projects)").map((row) => row.name);
+      if (!columns.includes("isPinned")) {
+        db.exec("ALTER TABLE projects ADD COLUMN isPinned INTEGER NOT NULL DEFAULT 0");
+      }
+    }
+  },
+  {
+    version: 3,
+    name: "app_settings",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS app_settings (
+          key TEXT PRIMARY KEY,
+          valueJson TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 4,
+    name: "audit_log_hash_chain",
+    up: () => {
+      const columns = all("PRAGMA table_info(audit_log)").map((row) => row.name);
+      if (!columns.includes("seq")) {
+        db.exec(`
+          ALTER TABLE audit_log ADD COLUMN seq INTEGER;
+          ALTER TABLE audit_log ADD COLUMN prevHash TEXT;
+          ALTER TABLE audit_log ADD COLUMN entryHash TEXT;
+        `);
+        chainLegacyAuditEntries();
+      }
+      db.exec("CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_seq ON audit_log (seq)");
+    }
+  },
+  {
+    version: 5,
+    name: "bundle_origin_ids",
+    up: () => {
+      // originId: the stable ID an item carries in bundles (its own ID unless it arrived in one).
+      // originHash: content hash of the version last received from a bundle, the base for merges.
+      const columnsToAdd = [
+        ["projects", "originId"],
+        ["notes", "originId"],
+        ["notes", "originHash"],
+        ["todos", "originId"],
+        ["todos", "originHash"],
+        ["timeline_tasks", "originId"],
+        ["timeline_tasks", "originHash"],
+        ["attachments", "originId"]
+      ];
+      for (const [table, column] of columnsToAdd) {
+        const columns = all(`PRAGMA table_info(${table})`).map((row) => row.name);
+        if (!columns.includes(column)) {
+          db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} TEXT`);
+        }
+      }
+    }
+  },
+  {
+    version: 6,
+    name: "custodians",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS custodians (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          name TEXT NOT NULL,
+          title TEXT,
+          department TEXT,
+          email TEXT,
+          status TEXT NOT NULL,
+          holdNoticeSentAt TEXT,
+          holdAcknowledgedAt TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          originId TEXT,
+          originHash TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_custodians_project ON custodians (projectId);
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: "legal_holds",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS legal_holds (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          name TEXT NOT NULL,
+          issuedAt TEXT NOT NULL,
+          acknowledgmentDueDays INTEGER NOT NULL,
+          reminderIntervalDays INTEGER,
+          escalationAfterDays INTEGER,
+          releasedAt TEXT,
+          noticeTemplate TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_legal_holds_project ON legal_holds (projectId);
+
+        CREATE TABLE IF NOT EXISTS legal_hold_recipients (
+          id TEXT PRIMARY KEY,
+          holdId TEXT NOT NULL,
+          projectId TEXT NOT NULL,
+          custodianId TEXT NOT NULL,
+          acknowledgedAt TEXT,
+          lastReminderAt TEXT,
+          createdAt TEXT NOT NULL,
+          UNIQUE(holdId, custodianId)
+        );
+        CREATE INDEX IF NOT EXISTS idx_legal_hold_recipients_custodian ON legal_hold_recipients (custodianId);
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: "data_sources",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS data_sources (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          sourceType TEXT NOT NULL,
+          description TEXT,
+          custodianId TEXT,
+          collectionMethod TEXT,
+          collectedAt TEXT,
+          sizeGb REAL,
+          itemCount INTEGER,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_data_sources_project ON data_sources (projectId);
+
+        CREATE TABLE IF NOT EXISTS data_source_custody (
+          dataSourceId TEXT NOT NULL,
+          attachmentId TEXT NOT NULL,
+          projectId TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          PRIMARY KEY (dataSourceId, attachmentId)
+        );
+        CREATE INDEX IF NOT EXISTS idx_data_source_custody_attachment ON data_source_custody (attachmentId);
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: "review_metrics",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS review_metrics (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          metricDate TEXT NOT NULL,
+          documentsProcessed INTEGER,
+          gbProcessed REAL,
+          documentsPromoted INTEGER,
+          documentsReviewed INTEGER,
+          documentsProduced INTEGER,
+          reviewerCount INTEGER,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          UNIQUE(projectId, metricDate)
+        );
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: "productions",
+    up: () => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS productions (
+          id TEXT PRIMARY KEY,
+          projectId TEXT NOT NULL,
+          volumeName TEXT NOT NULL,
+          batesPrefix TEXT NOT NULL,
+          batesBegin INTEGER NOT NULL,
+          batesEnd INTEGER NOT NULL,
+          batesDigits INTEGER NOT NULL,
+          documentCount INTEGER,
+          pageCount INTEGER,
+          producedAt TEXT NOT NULL,
+          recipient TEXT,
+          format TEXT NOT NULL,
+          deliveryMethod TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_productions_project ON productions (projectId);
+
+        CREATE TABLE IF NOT EXISTS production_documents (
+          productionId TEXT NOT NULL,
+          attachmentId TEXT NOT NULL,
+          projectId TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          PRIMARY KEY (productionId, attachmentId)
+        );
+        CREATE INDEX IF NOT EXISTS idx_production_documents_attachment ON production_documents (attachmentId);
+      `);
+    }
+  }
+];
+
+const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
 
-    CREATE TABLE IF NOT EXISTS audit_log (
-      id TEXT PRIMARY KEY,
-      timestamp TEXT NOT NULL,
-      action TEXT NOT NULL,
-      entityType TEXT NOT NULL,
-      entityId TEXT,
-      projectId TEXT,
-      detailsJson TEXT
+const getSchemaVersion = () => Number(get("SELECT MAX(version) AS version FROM schema_migrations")?.version || 0);
+
+// Brings the open database up to LATEST_SCHEMA_VERSION. Pending migrations run in one transaction
+// after a pre-migration restore point of the on-disk vault; a schema newer than this build is refused.
+const applySchemaMigrations = () => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT NOT NULL
     );
   `);
+  const fromVersion = getSchemaVersion();
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `This vault uses database schema version ${fromVersion}, but this app only supports up to version ${LATEST_SCHEMA_VERSION}. Update eDisco Pro Notes to open it.`
+    );
+  }
+
+  const pending = SCHEMA_MIGRATIONS.filter((migration) => migration.version > fromVersion);
+  if (!pending.length) {
+    return { fromVersion, toVersion: fromVersion, applied: [], snapshotId: null };
+  }
 
-  const columns = all("PRAGMA table_info(projects)").map((row) => row.name);
-  if (!columns.includes("isPinned")) {
-    db.exec("ALTER TABLE projects ADD COLUMN isPinned INTEGER NOT NULL DEFAULT 0");
+  // Fresh and plaintext-migration databases have nothing encrypted on disk worth (or safe) to snapshot.
+  let snapshotId = null;
+  if (getDatabaseFileStatus().encrypted) {
+    try {
+      snapshotId = createLocalSnapshot("pre-migration").id;
+    } catch (error) {
+      throw new Error(`Could not create a restore point before upgrading the database: ${error?.message || error}`);
+    }
+  }
+
+  db.exec("BEGIN");
+  let current = null;
+  try {
+    for (const migration of pending) {
+      current = migration;
+      migration.up();
+      run("INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)", [
+        migration.version,
+        migration.name,
+        nowIso()
+      ]);
+    }
+    db.exec("COMMIT");
+  } catch (error) {
+    try {
+      db.exec("ROLLBACK");
+    } catch {
+      // ignore
+    }
+    throw new Error(`Database migration ${current?.version} (${current?.name}) failed: ${error?.message || error}`);
   }
+
+  return {
+    fromVersion,
+    toVersion: LATEST_SCHEMA_VERSION,
+    applied: pending.map((migration) => migration.version),
+    snapshotId
+  };
+};
+
+const recordSchemaMigrationAudit = (migration) => {
+  if (!migration?.applied?.length) return;
+  recordAudit({
+    action: "database.migrate",
+    entityType: "database",
+    details: migration,
+    persist: true
+  });
 };
 
 const nowIso = () => new Date().toISOString();
 
+// Settings that must stay private to the vault live in the encrypted DB rather than localStorage.
+const getAppSetting = (key, fallback) => {
+  const row = get("SELECT valueJson FROM app_settings WHERE key = ?", [key]);
+  if (!row) return fallback;
+  const parsed = readJsonSafe(row.valueJson);
+  return parsed === null ? fallback : parsed;
+};
+
+const setAppSetting = (key, value) => {
+  run(
+    "INSERT INTO app_settings (key, valueJson, updatedAt) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET valueJson = excluded.valueJson, updatedAt = excluded.updatedAt",
+    [key, JSON.stringify(value), nowIso()]
+  );
+};
+
 const hasEncryptedDb = () => listEncryptedDbCandidates().length > 0;
 const hasPlaintextDb = () => fs.existsSync(dbPlainPath());
 
@@ -732,7 +1924,10 @@ const getBackupStatus = () => {
     dbLastModifiedAt: dbStatus.dbLastModifiedAt,
     lastBackupAt: typeof meta.lastBackupAt === "string" ? meta.lastBackupAt : null,
     lastBackupPath: typeof meta.lastBackupPath === "string" ? meta.lastBackupPath : null,
-    lastRestoreAt: typeof meta.lastRestoreAt === "string" ? meta.lastRestoreAt : null
+    lastRestoreAt: typeof meta.lastRestoreAt === "string" ? meta.lastRestoreAt : null,
+    snapshotsBytes: directorySizeBytes(snapshotsRoot()),
+    nextScheduledSnapshotAt: snapshotScheduleState.nextRunAt,
+    destination: describeBackupDestination(meta)
   };
 };
 
@@ -745,74 +1940,492 @@ const sanitizeAuditDetails = (details) => {
   }
 };
 
-const recordAudit = ({ action, entityType = "system", entityId = null, projectId = null, details = null, persist = false }) => {
-  if (!db || (ENCRYPTION_ENABLED && vaultState.locked)) {
-    return null;
-  }
-  const id = randomUUID();
-  run(
-    `INSERT INTO audit_log
-    (id, timestamp, action, entityType, entityId, projectId, detailsJson)
-    VALUES (?, ?, ?, ?, ?, ?, ?)`,
-    [id, nowIso(), String(action || "unknown"), String(entityType || "system"), entityId, projectId, sanitizeAuditDetails(details)]
-  );
-  if (persist) {
-    persistDb();
-  }
-  return id;
+// Audit entries form a SHA-256 hash chain: each entryHash covers the entry's fields and the
+// previous entry's hash, so edits, deletions and reordering show up in verifyAuditChain().
+// The chain is keyless on purpose; an exported head can be checked without the vault.
+const AUDIT_CHAIN_GENESIS = "0".repeat(64);
+
+const hashAuditEntry = (entry) =>
+  crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        entry.seq,
+        entry.id,
+        entry.timestamp,
+        entry.action,
+        entry.entityType,
+        entry.entityId ?? null,
+        entry.projectId ?? null,
+        entry.detailsJson ?? null,
+        entry.prevHash
+      ])
+    )
+    .digest("hex");
+
+const getAuditChainHead = () => {
+  const row = get("SELECT seq, entryHash, timestamp FROM audit_log WHERE seq IS NOT NULL ORDER BY seq DESC LIMIT 1");
+  if (!row) return { seq: 0, entryHash: AUDIT_CHAIN_GENESIS, timestamp: null };
+  return { seq: Number(row.seq), entryHash: String(row.entryHash), timestamp: row.timestamp };
 };
 
-const sanitizeSnapshotId = (value) => {
-  if (typeof value !== "string" || !/^[a-zA-Z0-9._-]{8,128}$/.test(value)) {
-    throw new Error("Invalid snapshot ID.");
+const appendAuditEntry = (entry) => {
+  const head = getAuditChainHead();
+  const chained = { ...entry, seq: head.seq + 1, prevHash: head.entryHash };
+  chained.entryHash = hashAuditEntry(chained);
+  return chained;
+};
+
+// Entries written before the chain existed are sealed once, in insertion order, when the
+// chain columns are added. Rows that lose their chain fields later surface as unchained.
+const chainLegacyAuditEntries = () => {
+  const legacyRows = all("SELECT rowid AS rowKey, * FROM audit_log WHERE seq IS NULL ORDER BY rowid ASC");
+  for (const row of legacyRows) {
+    const chained = appendAuditEntry(row);
+    run("UPDATE audit_log SET seq = ?, prevHash = ?, entryHash = ? WHERE rowid = ?", [
+      chained.seq,
+      chained.prevHash,
+      chained.entryHash,
+      row.rowKey
+    ]);
   }
-  return value;
+  return legacyRows.length;
 };
 
-const createLocalSnapshot = (reason = "manual") => {
-  if (db && (!ENCRYPTION_ENABLED || !vaultState.locked)) {
-    persistDbOrThrow();
+// Walks the whole chain in seq order and reports the first entry that doesn't link or hash correctly.
+const verifyAuditChain = () => {
+  const unchained = get("SELECT id FROM audit_log WHERE seq IS NULL LIMIT 1");
+  const stmt = db.prepare("SELECT * FROM audit_log WHERE seq IS NOT NULL ORDER BY seq ASC");
+  let expectedSeq = 1;
+  let prevHash = AUDIT_CHAIN_GENESIS;
+  let firstBreak = null;
+  try {
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      let reason = null;
+      if (Number(row.seq) !== expectedSeq) {
+        reason = Number(row.seq) > expectedSeq ? "missing_entries" : "duplicate_sequence";
+      } else if (row.prevHash !== prevHash) {
+        reason = "broken_link";
+      } else if (hashAuditEntry(row) !== row.entryHash) {
+        reason = "content_mismatch";
+      }
+      if (reason) {
+        firstBreak = { seq: Number(row.seq), id: row.id, timestamp: row.timestamp, action: row.action, reason };
+        break;
+      }
+      prevHash = row.entryHash;
+      expectedSeq += 1;
+    }
+  } finally {
+    stmt.free();
   }
-  const dbStatus = getDatabaseFileStatus();
-  if (!dbStatus.dbPath || !fs.existsSync(dbStatus.dbPath)) {
-    throw new Error("No database file found.");
+  if (!firstBreak && unchained) {
+    firstBreak = { seq: null, id: unchained.id, timestamp: null, action: null, reason: "unchained_entry" };
   }
 
-  ensureDir(snapshotsRoot());
-  const snapshotId = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}`;
-  const snapshotDir = path.resolve(snapshotsRoot(), snapshotId);
-  ensureDir(snapshotDir);
+  return {
+    ok: !firstBreak,
+    verifiedEntries: expectedSeq - 1,
+    head: getAuditChainHead(),
+    firstBreak,
+    verifiedAt: nowIso()
+  };
+};
 
-  const dbFileName = path.basename(dbStatus.dbPath);
-  fs.copyFileSync(dbStatus.dbPath, path.join(snapshotDir, dbFileName));
+const AUDIT_QUERY_DEFAULT_LIMIT = 50;
+const AUDIT_QUERY_MAX_LIMIT = 500;
+const AUDIT_EXPORT_BASE_COLUMNS = ["seq", "timestamp", "action", "entityType", "entityId", "projectId", "projectName", "entryHash"];
 
-  const attachmentSource = attachmentsRoot();
-  const attachmentTarget = path.join(snapshotDir, "attachments");
-  const attachmentFiles = copyDirRecursive(attachmentSource, attachmentTarget);
-  const createdAt = nowIso();
-  const manifest = {
-    format: "edisconotes.snapshot",
-    version: 1,
-    snapshotId,
-    createdAt,
-    reason: String(reason || "manual"),
-    dbFileName,
-    encryptedDatabase: dbStatus.encrypted,
-    attachmentFiles
-  };
-  writeJsonFile(path.join(snapshotDir, "manifest.json"), manifest);
-  return {
-    id: snapshotId,
-    createdAt,
-    reason: manifest.reason,
+const encodeAuditCursor = (row) => Buffer.from(JSON.stringify([row.timestamp, row.id]), "utf8").toString("base64url");
+
+const decodeAuditCursor = (cursor) => {
+  try {
+    const parsed = JSON.parse(Buffer.from(String(cursor), "base64url").toString("utf8"));
+    if (Array.isArray(parsed) && parsed.length === 2 && parsed.every((part) => typeof part === "string")) {
+      return { timestamp: parsed[0], id: parsed[1] };
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error("Invalid audit log cursor.");
+};
+
+const normalizeAuditInstant = (value, fieldName) => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "string" ? Date.parse(value) : NaN;
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Invalid ${fieldName}.`);
+  }
+  return new Date(parsed).toISOString();
+};
+
+// Turns renderer filters into a WHERE clause. `from` is inclusive and `to` exclusive (ISO instants);
+// `actionPrefix` accepts "vault.*", "vault." or "vault".
+const sanitizeAuditFilters = (filters = {}) => {
+  const input = filters && typeof filters === "object" ? filters : {};
+  const from = normalizeAuditInstant(input.from, "start date");
+  const to = normalizeAuditInstant(input.to, "end date");
+  const actionPrefix = typeof input.actionPrefix === "string" ? input.actionPrefix.trim().replace(/\*+$/, "").slice(0, 120) : "";
+  const entityType = typeof input.entityType === "string" ? input.entityType.trim().slice(0, 60) : "";
+  let projectId = null;
+  if (input.projectId) {
+    projectId = assertUuid(input.projectId, "project ID");
+  }
+  return { from, to, actionPrefix: actionPrefix || null, entityType: entityType || null, projectId };
+};
+
+const buildAuditWhere = (filters, cursor = null) => {
+  const clauses = [];
+  const params = [];
+  if (filters.from) {
+    clauses.push("timestamp >= ?");
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    clauses.push("timestamp < ?");
+    params.push(filters.to);
+  }
+  if (filters.actionPrefix) {
+    clauses.push("action LIKE ? ESCAPE '\\'");
+    params.push(`${filters.actionPrefix.replace(/[\\%_]/g, (char) => `\\${char}`)}%`);
+  }
+  if (filters.entityType) {
+    clauses.push("entityType = ?");
+    params.push(filters.entityType);
+  }
+  if (filters.projectId) {
+    clauses.push("projectId = ?");
+    params.push(filters.projectId);
+  }
+  if (cursor) {
+    clauses.push("(timestamp < ? OR (timestamp = ? AND id < ?))");
+    params.push(cursor.timestamp, cursor.timestamp, cursor.id);
+  }
+  return { where: clauses.length ? ` WHERE ${clauses.join(" AND ")}` : "", params };
+};
+
+const toAuditEntry = (row) => ({
+  ...row,
+  details: row.detailsJson ? readJsonSafe(row.detailsJson) : null
+});
+
+// Newest first, keyed on (timestamp, id) so pages stay stable while new entries arrive.
+const queryAuditLog = (rawFilters = {}) => {
+  const filters = sanitizeAuditFilters(rawFilters);
+  const requestedLimit = Number(rawFilters?.limit);
+  const limit = Number.isFinite(requestedLimit)
+    ? Math.max(1, Math.min(AUDIT_QUERY_MAX_LIMIT, Math.floor(requestedLimit)))
+    : AUDIT_QUERY_DEFAULT_LIMIT;
+  const cursor = rawFilters?.cursor ? decodeAuditCursor(rawFilters.cursor) : null;
+  const { where, params } = buildAuditWhere(filters, cursor);
+  const rows = all(`SELECT * FROM audit_log${where} ORDER BY timestamp DESC, id DESC LIMIT ?`, [...params, limit + 1]);
+  const hasMore = rows.length > limit;
+  const items = rows.slice(0, limit).map(toAuditEntry);
+  const total = cursor ? null : Number(get(`SELECT COUNT(*) AS count FROM audit_log${where}`, params)?.count || 0);
+  return {
+    items,
+    nextCursor: hasMore ? encodeAuditCursor(items[items.length - 1]) : null,
+    total
+  };
+};
+
+const getAuditFacets = () => {
+  const actions = all("SELECT DISTINCT action FROM audit_log ORDER BY action ASC").map((row) => String(row.action));
+  const actionPrefixes = Array.from(new Set(actions.map((action) => `${action.split(".")[0]}.*`)));
+  const entityTypes = all("SELECT DISTINCT entityType FROM audit_log ORDER BY entityType ASC").map((row) => String(row.entityType));
+  return { actionPrefixes, entityTypes };
+};
+
+const forEachAuditRow = (filters, callback) => {
+  const { where, params } = buildAuditWhere(filters);
+  const stmt = db.prepare(`SELECT * FROM audit_log${where} ORDER BY timestamp DESC, id DESC`);
+  try {
+    stmt.bind(params);
+    while (stmt.step()) {
+      callback(toAuditEntry(stmt.getAsObject()));
+    }
+  } finally {
+    stmt.free();
+  }
+};
+
+const formatCsvCell = (value) => {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating exported values as formulas.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Streams matching entries to disk; CSV gets one `details.<key>` column per top-level detail key.
+const writeAuditExport = (filePath, format, filters) => {
+  const projectNames = new Map(all("SELECT id, matterName FROM projects").map((row) => [row.id, row.matterName]));
+  const fd = fs.openSync(filePath, "w");
+  let count = 0;
+  try {
+    if (format === "csv") {
+      const detailKeys = new Set();
+      forEachAuditRow(filters, (entry) => {
+        if (entry.details && typeof entry.details === "object" && !Array.isArray(entry.details)) {
+          Object.keys(entry.details).forEach((key) => detailKeys.add(key));
+        }
+      });
+      const keys = Array.from(detailKeys).sort();
+      const headers = [...AUDIT_EXPORT_BASE_COLUMNS, ...keys.map((key) => `details.${key}`)];
+      fs.writeSync(fd, `${headers.map(formatCsvCell).join(",")}\r\n`);
+      forEachAuditRow(filters, (entry) => {
+        const details = entry.details && typeof entry.details === "object" && !Array.isArray(entry.details) ? entry.details : {};
+        const cells = [
+          entry.seq,
+          entry.timestamp,
+          entry.action,
+          entry.entityType,
+          entry.entityId,
+          entry.projectId,
+          entry.projectId ? projectNames.get(entry.projectId) || null : null,
+          entry.entryHash,
+          ...keys.map((key) => details[key])
+        ];
+        fs.writeSync(fd, `${cells.map(formatCsvCell).join(",")}\r\n`);
+        count += 1;
+      });
+    } else {
+      const preamble = {
+        format: "edisconotes.audit-export",
+        version: 1,
+        exportedAt: nowIso(),
+        filters,
+        auditChainHead: getAuditChainHead()
+      };
+      fs.writeSync(fd, `${JSON.stringify(preamble, null, 2).replace(/\n}$/, "")},\n  "entries": [`);
+      forEachAuditRow(filters, (entry) => {
+        const { detailsJson: _detailsJson, ...rest } = entry;
+        const record = { ...rest, projectName: entry.projectId ? projectNames.get(entry.projectId) || null : null };
+        fs.writeSync(fd, `${count === 0 ? "" : ","}\n    ${JSON.stringify(record)}`);
+        count += 1;
+      });
+      fs.writeSync(fd, `${count === 0 ? "" : "\n  "}]\n}\n`);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return count;
+};
+
+const recordAudit = ({ action, entityType = "system", entityId = null, projectId = null, details = null, persist = false }) => {
+  if (!db || (ENCRYPTION_ENABLED && vaultState.locked)) {
+    return null;
+  }
+  const entry = appendAuditEntry({
+    id: randomUUID(),
+    timestamp: nowIso(),
+    action: String(action || "unknown"),
+    entityType: String(entityType || "system"),
+    entityId,
+    projectId,
+    detailsJson: sanitizeAuditDetails(details)
+  });
+  const { id } = entry;
+  run(
+    `INSERT INTO audit_log
+    (id, timestamp, action, entityType, entityId, projectId, detailsJson, seq, prevHash, entryHash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      entry.timestamp,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.projectId,
+      entry.detailsJson,
+      entry.seq,
+      entry.prevHash,
+      entry.entryHash
+    ]
+  );
+  if (persist) {
+    persistDb();
+  }
+  return id;
+};
+
+const sanitizeSnapshotId = (value) => {
+  if (typeof value !== "string" || !/^[a-zA-Z0-9._-]{8,128}$/.test(value)) {
+    throw new Error("Invalid snapshot ID.");
+  }
+  return value;
+};
+
+const SHA256_HEX_REGEX = /^[0-9a-f]{64}$/;
+
+const hashFileSync = (filePath) => {
+  const hash = crypto.createHash("sha256");
+  const buffer = Buffer.allocUnsafe(1024 * 1024);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    let bytesRead;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return hash.digest("hex");
+};
+
+const snapshotBlobPath = (blobHash) => path.join(snapshotBlobsRoot(), blobHash.slice(0, 2), blobHash);
+
+// Live attachment path + stat fingerprint -> ciphertext hash, so unchanged files aren't re-read
+// on every snapshot. Rebuilt each time, so it only holds the current attachment set.
+let snapshotBlobHashCache = new Map();
+
+// Snapshot attachments are stored once per distinct ciphertext (SHA-256 of the encrypted file,
+// which reveals nothing about the plaintext) and referenced from each manifest.
+const storeSnapshotBlob = (sourcePath, nextHashCache) => {
+  const stat = fs.statSync(sourcePath);
+  const fingerprint = `${sourcePath}:${stat.ino}:${stat.size}:${stat.mtimeMs}:${stat.ctimeMs}`;
+  const cachedHash = snapshotBlobHashCache.get(fingerprint);
+  if (cachedHash && fs.existsSync(snapshotBlobPath(cachedHash))) {
+    nextHashCache.set(fingerprint, cachedHash);
+    return { blob: cachedHash, sizeBytes: stat.size };
+  }
+
+  ensureDir(snapshotBlobsRoot());
+  const tmpPath = path.join(snapshotBlobsRoot(), `${randomUUID()}.tmp`);
+  try {
+    fs.copyFileSync(sourcePath, tmpPath);
+    const blobHash = hashFileSync(tmpPath);
+    const blobPath = snapshotBlobPath(blobHash);
+    if (fs.existsSync(blobPath)) {
+      fs.rmSync(tmpPath, { force: true });
+    } else {
+      ensureDir(path.dirname(blobPath));
+      fs.renameSync(tmpPath, blobPath);
+    }
+    nextHashCache.set(fingerprint, blobHash);
+    return { blob: blobHash, sizeBytes: fs.statSync(blobPath).size };
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+};
+
+// Mark-and-sweep over every manifest: a blob's reference count is the number of snapshot entries
+// naming it, and blobs nobody references (including ones from an interrupted snapshot) are removed.
+const collectSnapshotBlobGarbage = () => {
+  const result = { removedBlobs: 0, freedBytes: 0, referencedBlobs: 0 };
+  const blobsRoot = snapshotBlobsRoot();
+  if (!fs.existsSync(blobsRoot)) return result;
+
+  const refCounts = new Map();
+  for (const entry of fs.readdirSync(snapshotsRoot(), { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const manifest = readJsonFile(path.join(snapshotsRoot(), entry.name, "manifest.json"));
+    if (manifest?.attachmentStore !== "blobs" || !Array.isArray(manifest.attachments)) continue;
+    for (const attachment of manifest.attachments) {
+      const blobHash = String(attachment?.blob || "");
+      refCounts.set(blobHash, (refCounts.get(blobHash) || 0) + 1);
+    }
+  }
+  result.referencedBlobs = refCounts.size;
+
+  for (const relativePath of listFilesRecursive(blobsRoot)) {
+    const blobHash = path.basename(relativePath);
+    if (refCounts.get(blobHash) > 0) continue;
+    const blobPath = path.join(blobsRoot, relativePath);
+    try {
+      const { size } = fs.statSync(blobPath);
+      fs.rmSync(blobPath, { force: true });
+      if (SHA256_HEX_REGEX.test(blobHash)) {
+        result.removedBlobs += 1;
+        result.freedBytes += size;
+      }
+    } catch (error) {
+      console.error("Failed to remove snapshot blob", blobHash, error);
+    }
+  }
+  return result;
+};
+
+// For content-addressed snapshots, resolves and re-hashes every referenced blob before a restore
+// touches live files. Returns null for full-copy snapshots and backup folders.
+const resolveSnapshotBlobAttachments = (backupDir) => {
+  const manifest = readJsonFile(path.join(backupDir, "manifest.json"));
+  if (manifest?.attachmentStore !== "blobs") return null;
+  if (!Array.isArray(manifest.attachments)) {
+    throw new Error("Snapshot manifest is missing its attachment list.");
+  }
+  const baseDir = attachmentsRoot();
+  return manifest.attachments.map((attachment) => {
+    const relativePath = String(attachment?.path || "");
+    const blobHash = String(attachment?.blob || "");
+    if (!relativePath || !isContainedPath(path.resolve(baseDir, relativePath), baseDir) || !SHA256_HEX_REGEX.test(blobHash)) {
+      throw new Error("Snapshot manifest has an invalid attachment entry.");
+    }
+    const blobPath = snapshotBlobPath(blobHash);
+    if (!fs.existsSync(blobPath)) {
+      throw new Error(`Snapshot is missing the stored copy of ${relativePath}.`);
+    }
+    if (hashFileSync(blobPath) !== blobHash) {
+      throw new Error(`Stored copy of ${relativePath} is damaged.`);
+    }
+    return { relativePath, blobPath };
+  });
+};
+
+const createLocalSnapshot = (reason = "manual") => {
+  if (db && (!ENCRYPTION_ENABLED || !vaultState.locked)) {
+    flushDbNow();
+  }
+  const dbStatus = getDatabaseFileStatus();
+  if (!dbStatus.dbPath || !fs.existsSync(dbStatus.dbPath)) {
+    throw new Error("No database file found.");
+  }
+
+  ensureDir(snapshotsRoot());
+  const snapshotId = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}`;
+  const snapshotDir = path.resolve(snapshotsRoot(), snapshotId);
+  ensureDir(snapshotDir);
+
+  const dbFileName = path.basename(dbStatus.dbPath);
+  fs.copyFileSync(dbStatus.dbPath, path.join(snapshotDir, dbFileName));
+  const vaultHeaderIncluded = dbStatus.encrypted && copyVaultHeaderInto(snapshotDir);
+  const auditChainHead = db && (!ENCRYPTION_ENABLED || !vaultState.locked) ? getAuditChainHead() : null;
+
+  const nextHashCache = new Map();
+  const attachments = listAttachmentStoreFiles().map((relativePath) => ({
+    path: relativePath,
+    ...storeSnapshotBlob(path.join(attachmentsRoot(), relativePath), nextHashCache)
+  }));
+  snapshotBlobHashCache = nextHashCache;
+  const attachmentFiles = attachments.length;
+  const createdAt = nowIso();
+  const manifest = {
+    format: "edisconotes.snapshot",
+    version: 2,
+    snapshotId,
+    createdAt,
+    reason: String(reason || "manual"),
+    dbFileName,
+    encryptedDatabase: dbStatus.encrypted,
+    vaultHeaderIncluded,
+    attachmentFiles,
+    attachmentStore: "blobs",
+    attachments,
+    auditChainHead
+  };
+  writeJsonFile(path.join(snapshotDir, "manifest.json"), manifest);
+  return {
+    id: snapshotId,
+    createdAt,
+    reason: manifest.reason,
     dbFileName,
     encryptedDatabase: dbStatus.encrypted,
     attachmentFiles
   };
 };
 
-const listLocalSnapshots = (limit = 20) => {
-  const safeLimit = Number.isFinite(Number(limit)) ? Math.max(1, Math.min(200, Number(limit))) : 20;
+const readLocalSnapshots = () => {
   const root = snapshotsRoot();
   if (!fs.existsSync(root)) return [];
 
@@ -838,7 +2451,159 @@ const listLocalSnapshots = (limit = 20) => {
     const right = new Date(b.createdAt || 0).getTime();
     return right - left;
   });
-  return snapshots.slice(0, safeLimit);
+  return snapshots;
+};
+
+const listLocalSnapshots = (limit = 20) => {
+  const safeLimit = Number.isFinite(Number(limit)) ? Math.max(1, Math.min(200, Number(limit))) : 20;
+  return readLocalSnapshots().slice(0, safeLimit);
+};
+
+// Only restore points the app made on its own are pruned; manual ones stay until removed by hand.
+// Safety points taken before a restore, repair or migration are never pruned: they may be the only copy
+// of the vault as it was before that change.
+const isAutomaticSnapshot = (snapshot) => snapshot.reason.startsWith("scheduled:") || snapshot.reason === "pre-import";
+
+const localDayKey = (date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const localWeekKey = (date) => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  return localDayKey(monday);
+};
+
+const localMonthKey = (date) => localDayKey(date).slice(0, 7);
+
+// Grandfather-father-son retention: keep the newest automatic snapshot of each of the last N days,
+// N weeks and N months that have one. A snapshot kept by any tier survives, and nothing younger
+// than a day is pruned so a pre-import point isn't replaced by the next on-lock snapshot.
+const selectSnapshotsToPrune = (snapshots, settings, now = Date.now()) => {
+  const candidates = snapshots.filter(
+    (snapshot) => isAutomaticSnapshot(snapshot) && !Number.isNaN(new Date(snapshot.createdAt || "").getTime())
+  );
+  const keep = new Set(
+    candidates.filter((snapshot) => now - new Date(snapshot.createdAt).getTime() < SNAPSHOT_PRUNE_MIN_AGE_MS).map((snapshot) => snapshot.id)
+  );
+  const tiers = [
+    [settings.keepDailySnapshots, localDayKey],
+    [settings.keepWeeklySnapshots, localWeekKey],
+    [settings.keepMonthlySnapshots, localMonthKey]
+  ];
+  for (const [limit, bucketOf] of tiers) {
+    const buckets = new Set();
+    for (const snapshot of candidates) {
+      if (buckets.size >= limit) break;
+      const bucket = bucketOf(new Date(snapshot.createdAt));
+      if (buckets.has(bucket)) continue;
+      buckets.add(bucket);
+      keep.add(snapshot.id);
+    }
+  }
+  return candidates.filter((snapshot) => !keep.has(snapshot.id));
+};
+
+const pruneLocalSnapshots = () => {
+  const removed = [];
+  for (const snapshot of selectSnapshotsToPrune(readLocalSnapshots(), snapshotScheduleState.settings)) {
+    if (!isContainedPath(snapshot.path, snapshotsRoot())) continue;
+    try {
+      fs.rmSync(snapshot.path, { recursive: true, force: true });
+      removed.push(snapshot.id);
+    } catch (error) {
+      console.error("Failed to prune snapshot", snapshot.id, error);
+    }
+  }
+  if (removed.length) {
+    const garbage = collectSnapshotBlobGarbage();
+    recordAudit({
+      action: "backup.snapshot.prune",
+      entityType: "snapshot",
+      details: {
+        removed,
+        removedBlobs: garbage.removedBlobs,
+        freedBytes: garbage.freedBytes,
+        keepDaily: snapshotScheduleState.settings.keepDailySnapshots,
+        keepWeekly: snapshotScheduleState.settings.keepWeeklySnapshots,
+        keepMonthly: snapshotScheduleState.settings.keepMonthlySnapshots
+      }
+    });
+  }
+  return removed;
+};
+
+// Snapshots the app takes on its own (daily, on lock, before import) go through here so they are
+// audited like manual ones and trigger retention.
+const createAutomaticSnapshot = (reason) => {
+  if (vaultState.rotating) {
+    throw new Error("Snapshots are paused during key rotation.");
+  }
+  const snapshot = createLocalSnapshot(reason);
+  recordAudit({
+    action: "backup.snapshot.create",
+    entityType: "snapshot",
+    entityId: snapshot.id,
+    details: { reason: snapshot.reason, attachmentFiles: snapshot.attachmentFiles }
+  });
+  pruneLocalSnapshots();
+  return snapshot;
+};
+
+const sanitizeSnapshotScheduleSetting = (key, value) => {
+  const limits = SNAPSHOT_RETENTION_LIMITS[key];
+  if (!limits) return Boolean(value);
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < limits.min || count > limits.max) {
+    throw new Error(`${limits.label} to keep must be between ${limits.min} and ${limits.max}.`);
+  }
+  return count;
+};
+
+const loadSnapshotScheduleSettings = () => {
+  const settings = { ...SNAPSHOT_SCHEDULE_DEFAULTS };
+  for (const key of Object.keys(SNAPSHOT_SCHEDULE_DEFAULTS)) {
+    try {
+      settings[key] = sanitizeSnapshotScheduleSetting(key, getAppSetting(key, SNAPSHOT_SCHEDULE_DEFAULTS[key]));
+    } catch {
+      // keep the default
+    }
+  }
+  snapshotScheduleState.settings = settings;
+};
+
+const clearSnapshotTimer = () => {
+  if (snapshotScheduleState.timer) {
+    clearTimeout(snapshotScheduleState.timer);
+    snapshotScheduleState.timer = null;
+  }
+  snapshotScheduleState.nextRunAt = null;
+};
+
+const armSnapshotTimer = (delayMs) => {
+  snapshotScheduleState.nextRunAt = new Date(Date.now() + delayMs).toISOString();
+  snapshotScheduleState.timer = setTimeout(runScheduledSnapshot, delayMs);
+};
+
+// The daily snapshot only runs while unlocked (so it's audited and includes pending saves); an
+// on-lock snapshot covers the locked period. A missed day catches up shortly after unlock.
+const scheduleNextSnapshot = () => {
+  clearSnapshotTimer();
+  if ((ENCRYPTION_ENABLED && vaultState.locked) || !snapshotScheduleState.settings.dailySnapshots) return;
+  const lastDaily = readLocalSnapshots().find((snapshot) => snapshot.reason === "scheduled:daily");
+  const lastAt = lastDaily ? new Date(lastDaily.createdAt || 0).getTime() : 0;
+  armSnapshotTimer(Math.max(lastAt + SNAPSHOT_DAILY_INTERVAL_MS - Date.now(), SNAPSHOT_CATCH_UP_DELAY_MS));
+};
+
+const runScheduledSnapshot = () => {
+  snapshotScheduleState.timer = null;
+  if (ENCRYPTION_ENABLED && vaultState.locked) return;
+  try {
+    createAutomaticSnapshot("scheduled:daily");
+    persistDb();
+    scheduleNextSnapshot();
+  } catch (error) {
+    console.error("Scheduled snapshot failed", error);
+    armSnapshotTimer(SNAPSHOT_RETRY_DELAY_MS);
+  }
 };
 
 const resolveSnapshotDir = (snapshotId) => {
@@ -851,6 +2616,23 @@ const resolveSnapshotDir = (snapshotId) => {
   return snapshotDir;
 };
 
+// Resolves a stored attachment to a readable plaintext file: the stored file itself when it isn't
+// encrypted, otherwise a decrypted copy in workDir (temporary: true, the caller removes it).
+const resolveAttachmentPlaintextFile = async (attachment, workDir) => {
+  const baseDir = attachmentsRoot();
+  const relPath = String(attachment.storedRelativePath || "");
+  const fullPath = path.resolve(baseDir, relPath);
+  if (!isContainedPath(fullPath, baseDir) || !fs.existsSync(fullPath)) {
+    return null;
+  }
+  if (!(ENCRYPTION_ENABLED && relPath.endsWith(".enc"))) {
+    return { filePath: fullPath, temporary: false };
+  }
+  const tempPath = path.resolve(workDir, randomUUID());
+  await decryptAttachmentFile(fullPath, tempPath, vaultState.vault.fileKey);
+  return { filePath: tempPath, temporary: true };
+};
+
 const readAttachmentPlaintextBuffer = async (attachment) => {
   const baseDir = attachmentsRoot();
   const relPath = String(attachment.storedRelativePath || "");
@@ -945,11 +2727,47 @@ const resolveBackupDatabaseSource = (backupDir) => {
   };
 };
 
-const restoreFromBackupFolder = (backupDir, reason = "restore") => {
+// A restore point sealed under another data key (made before a key rotation, or a v1 backup with no
+// header) brings its own header back, and with it every passphrase that unlocked the vault back then.
+const restorePointHasOtherDataKey = (backupDir, source) => {
+  if (!ENCRYPTION_ENABLED || !source.restoreToEncrypted) return false;
+  const currentHeader = readJsonFile(vaultHeaderPath());
+  if (!currentHeader?.keyId) return false;
+  const restoredHeader = readJsonFile(path.join(backupDir, VAULT_HEADER_FILE_NAME));
+  return restoredHeader?.keyId !== currentHeader.keyId;
+};
+
+// `sourcePath` is what Data Safety reports as the last backup; archive restores pass the archive, not the staging folder.
+// Restoring a point under another data key needs `allowOtherDataKey`, since it undoes a rotation's revocation.
+const restoreFromBackupFolder = (backupDir, reason = "restore", sourcePath = backupDir, options = {}) => {
   const source = resolveBackupDatabaseSource(backupDir);
   if (!source) {
     return { ok: false, error: "Selected folder does not contain a valid backup database file." };
   }
+  const otherDataKey = restorePointHasOtherDataKey(backupDir, source);
+  if (otherDataKey && options.allowOtherDataKey !== true) {
+    return {
+      ok: false,
+      errorCode: "RESTORE_OTHER_DATA_KEY",
+      error:
+        "This restore point was sealed under an earlier data key. Restoring it brings back its vault header, so passphrases that a key rotation revoked will unlock the vault again."
+    };
+  }
+  let blobAttachments;
+  try {
+    blobAttachments = resolveSnapshotBlobAttachments(backupDir);
+  } catch (error) {
+    return { ok: false, error: error?.message || "Snapshot attachments could not be verified." };
+  }
+
+  if (otherDataKey) {
+    recordAudit({
+      action: "backup.restore.otherDataKey",
+      entityType: "backup",
+      details: { reason, backupPath: sourcePath },
+      persist: true
+    });
+  }
 
   let preRestoreSnapshotId = null;
   try {
@@ -960,13 +2778,15 @@ const restoreFromBackupFolder = (backupDir, reason = "restore") => {
   }
 
   try {
-    lockVault();
+    lockVault("restore");
   } catch (error) {
     console.error("Failed to lock vault before restore", error);
   }
 
   try {
     if (fs.existsSync(dbEncPath())) fs.unlinkSync(dbEncPath());
+    fs.rmSync(`${dbEncPath()}.tmp`, { force: true });
+    fs.rmSync(dbJournalPath(), { force: true });
   } catch {
     // ignore
   }
@@ -979,18 +2799,36 @@ const restoreFromBackupFolder = (backupDir, reason = "restore") => {
   const dbTargetPath = source.restoreToEncrypted ? dbEncPath() : dbPlainPath();
   fs.copyFileSync(source.dbSourcePath, dbTargetPath);
 
+  // A v1 backup has no header; dropping the current one lets unlock migrate it afresh.
+  const headerSource = path.join(backupDir, VAULT_HEADER_FILE_NAME);
+  if (source.restoreToEncrypted && fs.existsSync(headerSource)) {
+    fs.copyFileSync(headerSource, vaultHeaderPath());
+  } else {
+    fs.rmSync(vaultHeaderPath(), { force: true });
+  }
+
   const attachmentSource = path.join(backupDir, "attachments");
   const attachmentTarget = attachmentsRoot();
   if (fs.existsSync(attachmentTarget)) {
     fs.rmSync(attachmentTarget, { recursive: true, force: true });
   }
-  const restoredAttachments = copyDirRecursive(attachmentSource, attachmentTarget);
+  let restoredAttachments = 0;
+  if (blobAttachments) {
+    for (const { relativePath, blobPath } of blobAttachments) {
+      const targetPath = path.resolve(attachmentTarget, relativePath);
+      ensureDir(path.dirname(targetPath));
+      fs.copyFileSync(blobPath, targetPath);
+      restoredAttachments += 1;
+    }
+  } else {
+    restoredAttachments = copyDirRecursive(attachmentSource, attachmentTarget);
+  }
 
   const existingMeta = readJsonFile(backupMetaPath()) || {};
   writeJsonFile(backupMetaPath(), {
     ...existingMeta,
     lastRestoreAt: nowIso(),
-    lastBackupPath: backupDir
+    lastBackupPath: sourcePath
   });
 
   return {
@@ -1001,491 +2839,3104 @@ const restoreFromBackupFolder = (backupDir, reason = "restore") => {
   };
 };
 
-const buildDeadlineDashboard = () => {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const projects = all(
-    "SELECT id, matterName, productionDeadline FROM projects WHERE archivedAt IS NULL ORDER BY productionDeadline ASC"
-  );
-  const projectById = new Map(projects.map((project) => [project.id, project]));
-  const rollupMap = new Map(
-    projects.map((project) => [
-      project.id,
-      {
-        projectId: project.id,
-        projectName: project.matterName,
-        productionDeadline: project.productionDeadline,
-        daysToDeadline: null,
-        totalTodos: 0,
-        completedTodos: 0,
-        openTodos: 0,
-        priorityOpenTodos: 0,
-        overdueTimelineItems: 0,
-        upcomingTimelineItems: 0
-      }
-    ])
+// Full backups are one `.ednbackup` file: an 8-byte magic followed by entries of
+// u32 name length | UTF-8 name | u64 size | bytes. The manifest is always the last entry and lists
+// every other entry with its size and SHA-256, so a truncated or tampered archive fails verification.
+const BACKUP_ARCHIVE_MAGIC = Buffer.from("EDNBKUP1", "ascii");
+const BACKUP_ARCHIVE_EXTENSION = "ednbackup";
+const BACKUP_ARCHIVE_FORMAT = "edisconotes.backup-archive";
+const BACKUP_ARCHIVE_VERSION = 1;
+const BACKUP_ARCHIVE_MANIFEST_NAME = "manifest.json";
+const BACKUP_ARCHIVE_MAX_NAME_BYTES = 1024;
+const BACKUP_ARCHIVE_MAX_MANIFEST_BYTES = 64 * 1024 * 1024;
+const BACKUP_ARCHIVE_CHUNK_BYTES = 1024 * 1024;
+const BACKUP_ARCHIVE_DB_NAMES = new Set(["edisconotes.sqlite.enc", "edisconotes.sqlite"]);
+
+const isSafeArchiveEntryName = (name) => {
+  if (name === BACKUP_ARCHIVE_MANIFEST_NAME || name === VAULT_HEADER_FILE_NAME || BACKUP_ARCHIVE_DB_NAMES.has(name)) {
+    return true;
+  }
+  const segments = name.split("/");
+  return (
+    segments.length >= 2 &&
+    segments[0] === "attachments" &&
+    segments.every((segment) => segment && segment !== "." && segment !== ".." && !/[\\:\0]/.test(segment))
   );
+};
 
-  for (const rollup of rollupMap.values()) {
-    const raw = String(rollup.productionDeadline || "").slice(0, 10);
-    if (!raw) continue;
-    const due = new Date(`${raw}T00:00:00`);
-    if (Number.isNaN(due.getTime())) continue;
-    rollup.daysToDeadline = Math.round((due.getTime() - today.getTime()) / 86400000);
-  }
+const writeArchiveEntryHeader = async (handle, name, sizeBytes) => {
+  const nameBytes = Buffer.from(name, "utf8");
+  const header = Buffer.alloc(4 + nameBytes.length + 8);
+  header.writeUInt32BE(nameBytes.length, 0);
+  nameBytes.copy(header, 4);
+  header.writeBigUInt64BE(BigInt(sizeBytes), 4 + nameBytes.length);
+  await handle.write(header);
+};
 
-  const timelineItems = [];
-  for (const task of all("SELECT id, projectId, phase, startDate, endDate FROM timeline_tasks")) {
-    if (!projectById.has(task.projectId)) continue;
-    const dateOnly = String(task.endDate || task.startDate || "").slice(0, 10);
-    if (!dateOnly) continue;
-    const due = new Date(`${dateOnly}T00:00:00`);
-    if (Number.isNaN(due.getTime())) continue;
-    const days = Math.round((due.getTime() - today.getTime()) / 86400000);
-    const item = {
-      id: task.id,
-      projectId: task.projectId,
-      projectName: projectById.get(task.projectId)?.matterName || "Unknown Project",
-      phase: task.phase,
-      dueDate: dateOnly,
-      daysFromNow: days,
-      tone: days < 0 ? "late" : days <= 7 ? "soon" : "normal"
-    };
-    timelineItems.push(item);
-    const rollup = rollupMap.get(task.projectId);
-    if (!rollup) continue;
-    if (days < 0) {
-      rollup.overdueTimelineItems += 1;
-    } else if (days <= 30) {
-      rollup.upcomingTimelineItems += 1;
-    }
-  }
-  timelineItems.sort((a, b) => a.daysFromNow - b.daysFromNow);
+const appendArchiveBuffer = async (handle, name, bytes) => {
+  await writeArchiveEntryHeader(handle, name, bytes.length);
+  await handle.write(bytes);
+  return { name, sizeBytes: bytes.length, sha256: crypto.createHash("sha256").update(bytes).digest("hex") };
+};
 
-  for (const todo of all("SELECT projectId, isCompleted, isPriority FROM todos")) {
-    const rollup = rollupMap.get(todo.projectId);
-    if (!rollup) continue;
-    const completed = Boolean(todo.isCompleted);
-    const priority = Boolean(todo.isPriority);
-    rollup.totalTodos += 1;
-    if (completed) {
-      rollup.completedTodos += 1;
-    } else {
-      rollup.openTodos += 1;
-      if (priority) {
-        rollup.priorityOpenTodos += 1;
-      }
+// Streams a file into the archive, hashing exactly the bytes written; the size is taken from the
+// open handle so a file replaced mid-export is archived as it was when opened.
+const appendArchiveFile = async (handle, name, sourcePath) => {
+  const source = await fsPromises.open(sourcePath, "r");
+  try {
+    const { size } = await source.stat();
+    await writeArchiveEntryHeader(handle, name, size);
+    const hash = crypto.createHash("sha256");
+    const buffer = Buffer.allocUnsafe(BACKUP_ARCHIVE_CHUNK_BYTES);
+    let written = 0;
+    while (written < size) {
+      const { bytesRead } = await source.read(buffer, 0, Math.min(buffer.length, size - written), written);
+      if (!bytesRead) throw new Error(`${name} shrank while it was being archived.`);
+      const chunk = buffer.subarray(0, bytesRead);
+      hash.update(chunk);
+      await handle.write(chunk);
+      written += bytesRead;
     }
+    return { name, sizeBytes: size, sha256: hash.digest("hex") };
+  } finally {
+    await source.close();
   }
-
-  const todoRollups = Array.from(rollupMap.values()).sort((a, b) => {
-    const left = a.daysToDeadline === null ? Number.POSITIVE_INFINITY : a.daysToDeadline;
-    const right = b.daysToDeadline === null ? Number.POSITIVE_INFINITY : b.daysToDeadline;
-    if (left !== right) return left - right;
-    if (b.priorityOpenTodos !== a.priorityOpenTodos) return b.priorityOpenTodos - a.priorityOpenTodos;
-    if (b.openTodos !== a.openTodos) return b.openTodos - a.openTodos;
-    return a.projectName.localeCompare(b.projectName);
-  });
-
-  const overdueTimeline = timelineItems.filter((item) => item.daysFromNow < 0);
-  const upcomingTimeline = timelineItems.filter((item) => item.daysFromNow >= 0);
-  return {
-    generatedAt: nowIso(),
-    totals: {
-      projectsTracked: projects.length,
-      overdueTimeline: overdueTimeline.length,
-      dueWithin7Days: timelineItems.filter((item) => item.daysFromNow >= 0 && item.daysFromNow <= 7).length,
-      dueWithin30Days: timelineItems.filter((item) => item.daysFromNow > 7 && item.daysFromNow <= 30).length,
-      totalTodos: todoRollups.reduce((sum, row) => sum + row.totalTodos, 0),
-      openTodos: todoRollups.reduce((sum, row) => sum + row.openTodos, 0),
-      priorityOpenTodos: todoRollups.reduce((sum, row) => sum + row.priorityOpenTodos, 0),
-      completedTodos: todoRollups.reduce((sum, row) => sum + row.completedTodos, 0)
-    },
-    overdueTimeline: overdueTimeline.slice(0, 10),
-    upcomingTimeline: upcomingTimeline.slice(0, 10),
-    todoRollups: todoRollups.slice(0, 16)
-  };
 };
 
-const makeSnippet = (rawText, query, limit = 120) => {
-  const text = String(rawText || "").replace(/\s+/g, " ").trim();
-  if (!text) return "";
-  const lower = text.toLowerCase();
-  const hit = query ? lower.indexOf(query) : -1;
-  if (hit === -1 || text.length <= limit) {
-    return text.slice(0, limit);
+// Writes the archive next to its destination and renames it into place once fsynced, so the
+// chosen path only ever holds a complete archive. The DB is read up front so it matches the chain head.
+const writeBackupArchiveFile = async (archivePath) => {
+  flushDbNow();
+  const dbStatus = getDatabaseFileStatus();
+  if (!dbStatus.dbPath || !fs.existsSync(dbStatus.dbPath)) {
+    throw new Error("No database file found.");
   }
-  const start = Math.max(0, hit - Math.floor(limit / 3));
-  const end = Math.min(text.length, start + limit);
-  const prefix = start > 0 ? "…" : "";
-  const suffix = end < text.length ? "…" : "";
-  return `${prefix}${text.slice(start, end)}${suffix}`;
-};
+  const dbFileName = path.basename(dbStatus.dbPath);
+  const dbBytes = fs.readFileSync(dbStatus.dbPath);
+  const headerBytes = dbStatus.encrypted && fs.existsSync(vaultHeaderPath()) ? fs.readFileSync(vaultHeaderPath()) : null;
+  const auditChainHead = getAuditChainHead();
+  const createdAt = nowIso();
 
-const includesQuery = (query, ...parts) => {
-  if (!query) return true;
-  return parts.some((part) => String(part || "").toLowerCase().includes(query));
+  const tmpPath = `${archivePath}.${randomUUID()}.tmp`;
+  const handle = await fsPromises.open(tmpPath, "wx", 0o600);
+  const files = [];
+  try {
+    await handle.write(BACKUP_ARCHIVE_MAGIC);
+    files.push(await appendArchiveBuffer(handle, dbFileName, dbBytes));
+    if (headerBytes) files.push(await appendArchiveBuffer(handle, VAULT_HEADER_FILE_NAME, headerBytes));
+    for (const relativePath of listAttachmentStoreFiles()) {
+      const entryName = `attachments/${relativePath.split(path.sep).join("/")}`;
+      files.push(await appendArchiveFile(handle, entryName, path.join(attachmentsRoot(), relativePath)));
+    }
+    const manifest = {
+      format: BACKUP_ARCHIVE_FORMAT,
+      version: BACKUP_ARCHIVE_VERSION,
+      createdAt,
+      dbFileName,
+      encryptedDatabase: dbStatus.encrypted,
+      vaultHeaderIncluded: Boolean(headerBytes),
+      attachmentFiles: files.length - (headerBytes ? 2 : 1),
+      auditChainHead,
+      files
+    };
+    await appendArchiveBuffer(handle, BACKUP_ARCHIVE_MANIFEST_NAME, Buffer.from(JSON.stringify(manifest, null, 2), "utf8"));
+    await handle.sync();
+    await handle.close();
+    await fsPromises.rename(tmpPath, archivePath);
+    return { manifest, sizeBytes: fs.statSync(archivePath).size };
+  } catch (error) {
+    await handle.close().catch(() => {});
+    try {
+      fs.rmSync(tmpPath, { force: true });
+    } catch {
+      destinationBackupState.orphanedTempPaths.add(tmpPath);
+    }
+    throw error;
+  }
 };
 
-const assertUnlocked = () => {
-  if (!ENCRYPTION_ENABLED) {
-    if (!db) {
-      throw new Error("Database not initialized.");
-    }
-    return;
+// Manual and destination exports both go through here. Key rotation refuses to start while one is
+// writing and none starts during a rotation, so an archive never mixes files sealed under two keys.
+const writeBackupArchive = async (archivePath) => {
+  if (vaultState.rotating) {
+    throw new Error("Backups are paused during key rotation.");
   }
-  if (vaultState.locked || !vaultState.vault || !db) {
-    throw new Error("Vault locked.");
+  backupArchiveState.writing += 1;
+  try {
+    return await writeBackupArchiveFile(archivePath);
+  } finally {
+    backupArchiveState.writing -= 1;
   }
 };
 
-const tryCleanupTempFiles = () => {
-  for (const filePath of tempOpenFiles) {
-    try {
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
-    } catch {
-      // Best effort; file may be open by another process.
-    }
+const readArchiveBytes = async (handle, length, position, archiveSize) => {
+  if (position + length > archiveSize) {
+    throw new Error("Archive is truncated.");
   }
-  tempOpenFiles.clear();
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) throw new Error("Archive is truncated.");
+  return buffer;
+};
+
+// Walks every entry once, hashing as it goes. The manifest, database and header are kept in memory
+// for the verifier; with `extractTo`, entries are also written beneath that folder (and nowhere else).
+const readBackupArchive = async (archivePath, { extractTo = null } = {}) => {
+  const handle = await fsPromises.open(archivePath, "r");
+  const entries = [];
+  const kept = new Map();
   try {
-    const root = tempRoot();
-    if (fs.existsSync(root)) {
-      // Remove leftovers from previous runs.
-      for (const name of fs.readdirSync(root)) {
-        const p = path.join(root, name);
-        try {
-          fs.unlinkSync(p);
-        } catch {
-          // ignore
+    const { size: archiveSize } = await handle.stat();
+    const magic = await readArchiveBytes(handle, BACKUP_ARCHIVE_MAGIC.length, 0, archiveSize).catch(() => null);
+    if (!magic || !magic.equals(BACKUP_ARCHIVE_MAGIC)) {
+      throw new Error("File is not an eDisco Pro Notes backup archive.");
+    }
+    let offset = BACKUP_ARCHIVE_MAGIC.length;
+    const seen = new Set();
+    const buffer = Buffer.allocUnsafe(BACKUP_ARCHIVE_CHUNK_BYTES);
+    while (offset < archiveSize) {
+      const nameLength = (await readArchiveBytes(handle, 4, offset, archiveSize)).readUInt32BE(0);
+      if (!nameLength || nameLength > BACKUP_ARCHIVE_MAX_NAME_BYTES) throw new Error("Archive entry name is invalid.");
+      const name = (await readArchiveBytes(handle, nameLength, offset + 4, archiveSize)).toString("utf8");
+      const sizeValue = (await readArchiveBytes(handle, 8, offset + 4 + nameLength, archiveSize)).readBigUInt64BE(0);
+      offset += 4 + nameLength + 8;
+      if (!isSafeArchiveEntryName(name)) throw new Error(`Archive entry "${name}" is not allowed.`);
+      if (seen.has(name)) throw new Error(`Archive entry "${name}" appears twice.`);
+      if (sizeValue > BigInt(archiveSize - offset)) throw new Error("Archive is truncated.");
+      seen.add(name);
+      const sizeBytes = Number(sizeValue);
+
+      const keep = !name.startsWith("attachments/");
+      if (keep && name === BACKUP_ARCHIVE_MANIFEST_NAME && sizeBytes > BACKUP_ARCHIVE_MAX_MANIFEST_BYTES) {
+        throw new Error("Archive manifest is too large.");
+      }
+      let targetPath = null;
+      if (extractTo && !keep) {
+        targetPath = path.resolve(extractTo, ...name.split("/"));
+        if (!isContainedPath(targetPath, extractTo)) throw new Error(`Archive entry "${name}" is not allowed.`);
+        await fsPromises.mkdir(path.dirname(targetPath), { recursive: true });
+      }
+      const output = targetPath ? await fsPromises.open(targetPath, "wx", 0o600) : null;
+      const hash = crypto.createHash("sha256");
+      const parts = [];
+      try {
+        let read = 0;
+        while (read < sizeBytes) {
+          const length = Math.min(buffer.length, sizeBytes - read);
+          const { bytesRead } = await handle.read(buffer, 0, length, offset + read);
+          if (bytesRead !== length) throw new Error("Archive is truncated.");
+          const chunk = buffer.subarray(0, bytesRead);
+          hash.update(chunk);
+          if (keep) parts.push(Buffer.from(chunk));
+          if (output) await output.write(chunk);
+          read += bytesRead;
         }
+      } finally {
+        if (output) await output.close();
       }
+      if (keep) {
+        kept.set(name, Buffer.concat(parts));
+        if (extractTo && name !== BACKUP_ARCHIVE_MANIFEST_NAME) {
+          await fsPromises.writeFile(path.join(extractTo, name), kept.get(name), { mode: 0o600, flag: "wx" });
+        }
+      }
+      entries.push({ name, sizeBytes, sha256: hash.digest("hex") });
+      offset += sizeBytes;
     }
-  } catch {
-    // ignore
+  } finally {
+    await handle.close();
   }
+  return { entries, kept };
 };
 
-const deletePlaintextDbAfterVerifiedMigration = () => {
-  const plain = dbPlainPath();
-  if (!fs.existsSync(plain)) return false;
+const parseBackupArchiveManifest = (entries, kept) => {
+  if (!entries.length || entries[entries.length - 1].name !== BACKUP_ARCHIVE_MANIFEST_NAME) {
+    throw new Error("Archive has no manifest; it may be truncated.");
+  }
+  let manifest;
   try {
-    fs.unlinkSync(plain);
-    return true;
-  } catch (error) {
-    console.error("Failed to remove plaintext DB after migration", error);
-    return false;
+    manifest = JSON.parse(kept.get(BACKUP_ARCHIVE_MANIFEST_NAME).toString("utf8"));
+  } catch {
+    throw new Error("Archive manifest is not valid JSON.");
+  }
+  if (manifest?.format !== BACKUP_ARCHIVE_FORMAT || !Array.isArray(manifest.files)) {
+    throw new Error("Archive manifest is not recognized.");
   }
+  if (manifest.version !== BACKUP_ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${manifest.version} is not supported by this app version.`);
+  }
+  if (!BACKUP_ARCHIVE_DB_NAMES.has(manifest.dbFileName)) {
+    throw new Error("Archive manifest names no database file.");
+  }
+  return manifest;
 };
 
-const migrateAttachmentsToEncryptedIfNeeded = async () => {
-  assertUnlocked();
-  const baseDir = attachmentsRoot();
-  if (!fs.existsSync(baseDir)) return 0;
-
-  const rows = all("SELECT * FROM attachments");
-  let migrated = 0;
-
-  for (const attachment of rows) {
-    try {
-      const rel = String(attachment.storedRelativePath || "");
-      if (!rel || rel.endsWith(".enc")) continue;
+const compareArchiveChecksums = (manifest, entries) => {
+  const actual = new Map(entries.filter((entry) => entry.name !== BACKUP_ARCHIVE_MANIFEST_NAME).map((entry) => [entry.name, entry]));
+  const problems = [];
+  for (const file of manifest.files) {
+    const entry = actual.get(String(file?.name));
+    if (!entry) {
+      problems.push(`${file?.name} is missing`);
+      continue;
+    }
+    actual.delete(entry.name);
+    if (entry.sizeBytes !== file.sizeBytes || entry.sha256 !== file.sha256) problems.push(`${entry.name} does not match its checksum`);
+  }
+  for (const name of actual.keys()) problems.push(`${name} is not listed in the manifest`);
+  if (!manifest.files.some((file) => file?.name === manifest.dbFileName)) problems.push(`${manifest.dbFileName} is missing`);
+  return problems;
+};
 
-      const fullPath = path.resolve(baseDir, rel);
-      if (!isContainedPath(fullPath, baseDir) || !fs.existsSync(fullPath)) continue;
+const archivedAuditChainHead = (database) => {
+  const columns = queryRows(database, "PRAGMA table_info(audit_log)").map((column) => column.name);
+  if (!columns.includes("seq")) return null;
+  const row = queryRows(
+    database,
+    "SELECT seq, entryHash FROM audit_log WHERE seq IS NOT NULL ORDER BY seq DESC LIMIT 1"
+  )[0];
+  return row ? { seq: Number(row.seq), entryHash: String(row.entryHash) } : { seq: 0, entryHash: AUDIT_CHAIN_GENESIS };
+};
 
-      const oldStoredFileName = String(attachment.storedFileName || "");
-      const oldRel = rel;
-      const ext = path.extname(String(attachment.originalFileName || "")) || path.extname(rel) || "";
-      const newStoredFileName = `${randomUUID()}${ext}.enc`;
-      const newRel = path.join(String(attachment.projectId), newStoredFileName);
-      const targetPath = path.resolve(baseDir, newRel);
+// Checks an archive in stages (structure, checksums, passphrase, database) and stops at the first
+// failure. Nothing in the live vault is touched; the archive's own header is unwrapped with `passphrase`.
+const verifyBackupArchive = async (archivePath, passphrase, { extractTo = null } = {}) => {
+  const checks = [];
+  const report = { ok: false, archivePath, createdAt: null, attachmentFiles: 0, sizeBytes: 0, checks };
+  const fail = (check, detail) => {
+    checks.push({ check, ok: false, detail });
+    report.error = detail;
+    return report;
+  };
 
-      const attachmentsDir = getSafeProjectAttachmentDir(String(attachment.projectId));
-      if (!attachmentsDir) continue;
-      ensureDir(attachmentsDir);
-      if (!isContainedPath(targetPath, attachmentsDir)) continue;
+  let entries;
+  let kept;
+  let manifest;
+  try {
+    report.sizeBytes = fs.statSync(archivePath).size;
+    ({ entries, kept } = await readBackupArchive(archivePath, { extractTo }));
+    manifest = parseBackupArchiveManifest(entries, kept);
+  } catch (error) {
+    return fail("structure", error?.message || "Archive could not be read.");
+  }
+  report.createdAt = typeof manifest.createdAt === "string" ? manifest.createdAt : null;
+  report.attachmentFiles = entries.filter((entry) => entry.name.startsWith("attachments/")).length;
+  checks.push({ check: "structure", ok: true, detail: `${entries.length} entries, format v${manifest.version}` });
 
-      await encryptAttachmentFile(fullPath, targetPath, vaultState.vault.fileKey);
+  const problems = compareArchiveChecksums(manifest, entries);
+  if (problems.length) {
+    return fail("checksums", `${problems.length} files failed: ${problems.slice(0, 5).join("; ")}`);
+  }
+  checks.push({ check: "checksums", ok: true, detail: `${manifest.files.length} files match their SHA-256` });
 
-      run(
-        "UPDATE attachments SET storedFileName = ?, storedRelativePath = ? WHERE id = ?",
-        [newStoredFileName, newRel, attachment.id]
+  let dbBytes = kept.get(manifest.dbFileName);
+  if (manifest.dbFileName === "edisconotes.sqlite.enc") {
+    if (typeof passphrase !== "string" || !passphrase) {
+      return fail("passphrase", "Enter the passphrase the backup was made with.");
+    }
+    const headerBytes = kept.get(VAULT_HEADER_FILE_NAME);
+    let opened = null;
+    try {
+      const header = headerBytes ? JSON.parse(headerBytes.toString("utf8")) : null;
+      opened = vaultCrypto.openVaultFromDatabaseEnvelope(dbBytes, passphrase, header);
+      dbBytes = opened.plaintext;
+    } catch (error) {
+      return fail(
+        "passphrase",
+        isDecryptAuthError(error) ? "The passphrase does not open this backup." : error?.message || "Backup could not be decrypted."
       );
+    } finally {
+      if (opened) vaultCrypto.destroyKeyMaterial(opened.vault);
+    }
+    checks.push({ check: "passphrase", ok: true, detail: "Database decrypted with the passphrase" });
+  }
 
-      try {
-        persistDbOrThrow();
-        fs.unlinkSync(fullPath);
-        migrated += 1;
-      } catch (error) {
-        // Roll back DB metadata and remove the newly created encrypted file.
-        console.error("Failed to persist DB after attachment migration; rolling back", error);
-        try {
-          run("UPDATE attachments SET storedFileName = ?, storedRelativePath = ? WHERE id = ?", [
-            oldStoredFileName,
-            oldRel,
-            attachment.id
-          ]);
-          persistDb();
-        } catch {
-          // ignore
-        }
-        try {
-          if (fs.existsSync(targetPath)) fs.unlinkSync(targetPath);
-        } catch {
-          // ignore
-        }
-      }
-    } catch (error) {
-      console.error("Failed to migrate attachment to encrypted storage", error);
+  let database = null;
+  try {
+    await loadSqlJs();
+    database = new SQL.Database(dbBytes);
+    const integrity = queryRows(database, "PRAGMA integrity_check").map((row) => String(Object.values(row)[0]));
+    if (integrity.length !== 1 || integrity[0] !== "ok") {
+      return fail("database", `SQLite integrity check failed: ${integrity.slice(0, 3).join("; ")}`);
     }
+    const head = archivedAuditChainHead(database);
+    const expected = manifest.auditChainHead;
+    if (head && expected && (head.seq !== Number(expected.seq) || head.entryHash !== expected.entryHash)) {
+      return fail("database", "Audit chain head does not match the manifest.");
+    }
+    const projectCount = Number(queryRows(database, "SELECT COUNT(*) AS count FROM projects")[0]?.count || 0);
+    checks.push({ check: "database", ok: true, detail: `${projectCount} projects, audit chain at #${head ? head.seq : 0}` });
+  } catch (error) {
+    return fail("database", error?.message || "Backup database could not be opened.");
+  } finally {
+    if (database) database.close();
   }
 
-  return migrated;
+  report.ok = true;
+  return report;
 };
 
-const unlockVault = async (passphrase) => {
-  if (!ENCRYPTION_ENABLED) {
-    if (!db) {
-      await initDatabase();
+// Extracts into a staging folder while verifying, and only hands the folder to the regular restore
+// once every check has passed. The staging folder is always removed.
+const restoreFromBackupArchive = async (archivePath, passphrase, options = {}) => {
+  const stagingDir = path.resolve(app.getPath("userData"), `restore-staging-${randomUUID()}`);
+  try {
+    ensureDir(stagingDir);
+    const verification = await verifyBackupArchive(archivePath, passphrase, { extractTo: stagingDir });
+    if (!verification.ok) {
+      return { ok: false, error: `Backup failed verification: ${verification.error}`, verification };
     }
-    vaultState.locked = false;
-    return { ok: true, migratedDb: false, migratedAttachments: 0 };
+    return { ...restoreFromBackupFolder(stagingDir, "backup", archivePath, options), verification };
+  } finally {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
   }
+};
 
-  if (typeof passphrase !== "string" || passphrase.length < MIN_PASSPHRASE_LEN) {
-    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LEN} characters.`);
-  }
+// A configured destination (network share, external drive, or any local folder) receives an archive
+// every `intervalHours` while unlocked. Config and last outcome live in `backup-meta.json`.
+// Archive names carry this install's ID, so several workstations can share one destination folder.
+const BACKUP_INSTALL_ID_REGEX = /^[0-9a-f]{12}$/;
 
-  const plainPath = dbPlainPath();
+const updateBackupMeta = (changes) => {
+  const existingMeta = readJsonFile(backupMetaPath()) || {};
+  const nextMeta = { ...existingMeta, ...changes };
+  writeJsonFile(backupMetaPath(), nextMeta);
+  return nextMeta;
+};
 
-  let migratedDb = false;
-  let dbBytes = null;
-  let unlockSource = null;
-  let seededLegacyAttachments = 0;
+const getBackupInstallId = () => {
+  const meta = readJsonFile(backupMetaPath()) || {};
+  if (typeof meta.installId === "string" && BACKUP_INSTALL_ID_REGEX.test(meta.installId)) return meta.installId;
+  return updateBackupMeta({ installId: crypto.randomBytes(6).toString("hex") }).installId;
+};
 
-  const encryptedCandidates = listEncryptedDbCandidates();
-  if (encryptedCandidates.length > 0) {
-    let opened = null;
-    let lastError = null;
-    for (const candidate of encryptedCandidates) {
-      try {
-        const envelope = fs.readFileSync(candidate.dbPath);
-        opened = vaultCrypto.openVaultFromDatabaseEnvelope(envelope, passphrase);
-        unlockSource = candidate;
-        break;
-      } catch (error) {
-        lastError = error;
+const backupArchiveFileName = () =>
+  `edisconotes-backup-${getBackupInstallId()}-${new Date().toISOString().replace(/[:.]/g, "-")}.${BACKUP_ARCHIVE_EXTENSION}`;
+
+const sanitizeBackupDestination = (data, current = BACKUP_DESTINATION_DEFAULTS) => {
+  const next = { ...BACKUP_DESTINATION_DEFAULTS, ...current };
+  if (data?.path !== undefined) {
+    const rawPath = typeof data.path === "string" ? data.path.trim() : "";
+    if (!rawPath) {
+      next.path = null;
+    } else {
+      if (rawPath.length > 1024 || !path.isAbsolute(rawPath)) {
+        throw new Error("Backup destination must be a full folder path.");
       }
-    }
-    if (!opened) {
-      if (isDecryptAuthError(lastError)) {
-        throw new Error("Unable to unlock vault. The passphrase may be incorrect or the encrypted database may be corrupted.");
+      const resolved = path.resolve(rawPath);
+      if (isContainedPath(resolved, app.getPath("userData"))) {
+        throw new Error("Backup destination must be outside the app's data folder.");
       }
-      throw lastError || new Error("Unable to unlock vault.");
-    }
-    vaultState.vault = opened.vault;
-    dbBytes = opened.plaintext;
-  } else {
-    // First-time setup (or plaintext migration). Create new KDF salt/params deterministically for this vault.
-    const salt = crypto.randomBytes(16);
-    vaultState.vault = vaultCrypto.deriveKeysFromPassphrase(passphrase, salt, vaultCrypto.DEFAULT_SCRYPT_PARAMS);
-    if (fs.existsSync(plainPath)) {
-      dbBytes = fs.readFileSync(plainPath);
-      migratedDb = true;
-    } else {
-      dbBytes = null;
+      next.path = resolved;
     }
   }
-
-  await initDatabase(dbBytes);
-  vaultState.locked = false;
-
-  if (unlockSource && unlockSource.source === "legacy") {
-    const sourceAttachmentsRoot = path.resolve(unlockSource.userDataRoot, "attachments");
-    const targetAttachmentsRoot = attachmentsRoot();
-    if (
-      sourceAttachmentsRoot !== targetAttachmentsRoot &&
-      fs.existsSync(sourceAttachmentsRoot) &&
-      countFilesRecursive(targetAttachmentsRoot) === 0
-    ) {
-      seededLegacyAttachments = copyDirRecursive(sourceAttachmentsRoot, targetAttachmentsRoot);
+  if (data?.enabled !== undefined) next.enabled = Boolean(data.enabled);
+  for (const [key, limits] of Object.entries(BACKUP_DESTINATION_LIMITS)) {
+    if (data?.[key] === undefined) continue;
+    const count = Number(data[key]);
+    if (!Number.isInteger(count) || count < limits.min || count > limits.max) {
+      throw new Error(`${limits.label} must be between ${limits.min} and ${limits.max}.`);
     }
+    next[key] = count;
   }
+  if (next.enabled && !next.path) {
+    throw new Error("Choose a backup destination before turning on automatic backups.");
+  }
+  return next;
+};
 
-  // Ensure we write an encrypted DB file immediately (creates it on first-run, or after plaintext migration).
-  persistDbOrThrow();
-
-  // Verify the written file can be decrypted with the provided passphrase before deleting plaintext data.
+const readBackupDestination = (meta = readJsonFile(backupMetaPath()) || {}) => {
   try {
-    const written = fs.readFileSync(dbEncPath());
-    vaultCrypto.openVaultFromDatabaseEnvelope(written, passphrase);
-  } catch (error) {
-    console.error("Encrypted DB verification failed", error);
-    throw new Error("Encrypted database write verification failed.");
+    return sanitizeBackupDestination(meta.destination || {});
+  } catch {
+    return { ...BACKUP_DESTINATION_DEFAULTS };
   }
+};
 
-  if (migratedDb) {
-    deletePlaintextDbAfterVerifiedMigration();
+const checkBackupDestinationReachable = (destinationPath) => {
+  if (!destinationPath) return { reachable: false, reason: "No destination configured." };
+  try {
+    if (!fs.statSync(destinationPath).isDirectory()) {
+      return { reachable: false, reason: "Destination is not a folder." };
+    }
+    fs.accessSync(destinationPath, fs.constants.W_OK);
+    return { reachable: true, reason: null };
+  } catch (error) {
+    return { reachable: false, reason: error?.code === "ENOENT" ? "Destination folder not found." : error?.message || "Destination is not writable." };
   }
+};
 
-  const migratedAttachments = await migrateAttachmentsToEncryptedIfNeeded();
-  const unlockSourceLabel = describeUnlockSource(unlockSource);
-  recordAudit({
-    action: "vault.unlock",
-    entityType: "vault",
-    details: { migratedDb, migratedAttachments, unlockSource: unlockSourceLabel, seededLegacyAttachments },
-    persist: true
-  });
-  return { ok: true, migratedDb, migratedAttachments, unlockSource: unlockSourceLabel, seededLegacyAttachments };
+const describeBackupDestination = (meta = readJsonFile(backupMetaPath()) || {}) => {
+  const destination = readBackupDestination(meta);
+  const reachability = checkBackupDestinationReachable(destination.path);
+  return {
+    ...destination,
+    reachable: reachability.reachable,
+    unreachableReason: reachability.reason,
+    running: destinationBackupState.running,
+    nextRunAt: destinationBackupState.nextRunAt,
+    lastSuccessAt: typeof meta.lastDestinationBackupAt === "string" ? meta.lastDestinationBackupAt : null,
+    lastSuccessPath: typeof meta.lastDestinationBackupPath === "string" ? meta.lastDestinationBackupPath : null,
+    lastFailureAt: typeof meta.lastDestinationFailureAt === "string" ? meta.lastDestinationFailureAt : null,
+    lastFailureReason: typeof meta.lastDestinationFailure === "string" ? meta.lastDestinationFailure : null
+  };
 };
 
-const lockVault = () => {
-  if (!ENCRYPTION_ENABLED) {
+// Only archives this install named are rotated; other files in the folder, including other
+// workstations' archives and exports still in progress, are never touched. Temp files are removed only
+// if this process created them and couldn't clean them up when its export failed.
+const rotateDestinationBackups = (destinationPath, keep) => {
+  const archivePattern = new RegExp(
+    `^edisconotes-backup-${getBackupInstallId()}-\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z\\.${BACKUP_ARCHIVE_EXTENSION}$`
+  );
+  const archives = fs.readdirSync(destinationPath).filter((name) => archivePattern.test(name)).sort().reverse();
+  const removed = [];
+  for (const name of archives.slice(keep)) {
     try {
-      persistDb();
-    } catch {
-      // ignore
+      fs.rmSync(path.join(destinationPath, name), { force: true });
+      removed.push(name);
+    } catch (error) {
+      console.error("Failed to rotate backup archive", name, error);
     }
-    if (db) {
-      try {
-        db.close();
-      } catch {
-        // ignore
-      }
+  }
+  for (const tmpPath of destinationBackupState.orphanedTempPaths) {
+    if (!isContainedPath(tmpPath, destinationPath)) continue;
+    try {
+      fs.rmSync(tmpPath, { force: true });
+      destinationBackupState.orphanedTempPaths.delete(tmpPath);
+      removed.push(path.basename(tmpPath));
+    } catch (error) {
+      console.error("Failed to remove backup temp file", tmpPath, error);
     }
-    db = null;
-    vaultState.locked = false;
-    tryCleanupTempFiles();
-    return true;
   }
+  return removed;
+};
 
-  // Persist/close while we still have the vault keys available.
-  if (db && !vaultState.locked) {
+const runDestinationBackup = async (trigger) => {
+  if (destinationBackupState.running) {
+    throw new Error("A backup to the destination is already running.");
+  }
+  if (vaultState.rotating) {
+    throw new Error("Backups are paused during key rotation.");
+  }
+  const destination = readBackupDestination();
+  destinationBackupState.running = true;
+  try {
+    const reachability = checkBackupDestinationReachable(destination.path);
+    if (!reachability.reachable) throw new Error(reachability.reason);
+    const archivePath = path.join(destination.path, backupArchiveFileName());
+    const { manifest, sizeBytes } = await writeBackupArchive(archivePath);
+    const removedArchives = rotateDestinationBackups(destination.path, destination.keep);
+    updateBackupMeta({
+      lastBackupAt: manifest.createdAt,
+      lastBackupPath: archivePath,
+      lastDestinationBackupAt: manifest.createdAt,
+      lastDestinationBackupPath: archivePath
+    });
     recordAudit({
-      action: "vault.lock",
-      entityType: "vault",
-      persist: false
+      action: "backup.export",
+      entityType: "backup",
+      details: {
+        backupPath: archivePath,
+        trigger,
+        sizeBytes,
+        attachmentFiles: manifest.attachmentFiles,
+        auditChainSeq: manifest.auditChainHead.seq,
+        rotatedArchives: removedArchives.length
+      },
+      persist: true
     });
-    try {
-      persistDb();
-    } catch {
-      // ignore
-    }
+    return { ok: true, backupPath: archivePath, createdAt: manifest.createdAt, sizeBytes, removedArchives };
+  } catch (error) {
+    const reason = error?.message || "Backup to destination failed.";
+    updateBackupMeta({ lastDestinationFailureAt: nowIso(), lastDestinationFailure: reason });
+    recordAudit({
+      action: "backup.destination.failed",
+      entityType: "backup",
+      details: { destination: destination.path, trigger, error: reason },
+      persist: true
+    });
+    return { ok: false, error: reason };
+  } finally {
+    destinationBackupState.running = false;
   }
-  if (db) {
+};
+
+const clearDestinationBackupTimer = () => {
+  if (destinationBackupState.timer) {
+    clearTimeout(destinationBackupState.timer);
+    destinationBackupState.timer = null;
+  }
+  destinationBackupState.nextRunAt = null;
+};
+
+const armDestinationBackupTimer = (delayMs) => {
+  destinationBackupState.nextRunAt = new Date(Date.now() + delayMs).toISOString();
+  destinationBackupState.timer = setTimeout(runScheduledDestinationBackup, delayMs);
+};
+
+// Like the daily snapshot, only runs while unlocked; an overdue export catches up shortly after unlock.
+const scheduleDestinationBackup = () => {
+  clearDestinationBackupTimer();
+  if (ENCRYPTION_ENABLED && vaultState.locked) return;
+  const meta = readJsonFile(backupMetaPath()) || {};
+  const destination = readBackupDestination(meta);
+  if (!destination.enabled || !destination.path) return;
+  const lastAt = new Date(meta.lastDestinationBackupAt || 0).getTime() || 0;
+  const dueIn = lastAt + destination.intervalHours * 60 * 60 * 1000 - Date.now();
+  armDestinationBackupTimer(Math.max(dueIn, BACKUP_DESTINATION_CATCH_UP_DELAY_MS));
+};
+
+const runScheduledDestinationBackup = async () => {
+  destinationBackupState.timer = null;
+  destinationBackupState.nextRunAt = null;
+  if (ENCRYPTION_ENABLED && vaultState.locked) return;
+  const result = await runDestinationBackup("scheduled").catch((error) => ({ ok: false, error: error?.message }));
+  if (ENCRYPTION_ENABLED && vaultState.locked) return;
+  if (result.ok) {
+    scheduleDestinationBackup();
+  } else {
+    console.error("Scheduled destination backup failed", result.error);
+    armDestinationBackupTimer(BACKUP_DESTINATION_RETRY_DELAY_MS);
+  }
+};
+
+const SNAPSHOT_ITEM_TABLES = [
+  { type: "note", table: "notes", keyColumn: "id", labelColumn: "title" },
+  { type: "todo", table: "todos", keyColumn: "id", labelColumn: "text" },
+  { type: "timeline_task", table: "timeline_tasks", keyColumn: "phase", labelColumn: "phase" },
+  { type: "attachment", table: "attachments", keyColumn: "id", labelColumn: "originalFileName" },
+  // Holds go before custodians: restoring a hold resyncs its custodians, and a project restore should
+  // still end with each custodian's snapshot values.
+  {
+    type: "legal_hold",
+    table: "legal_holds",
+    keyColumn: "id",
+    labelColumn: "name",
+    links: [{ table: "legal_hold_recipients", column: "holdId", field: "recipients" }]
+  },
+  { type: "custodian", table: "custodians", keyColumn: "id", labelColumn: "name" },
+  {
+    type: "data_source",
+    table: "data_sources",
+    keyColumn: "id",
+    labelColumn: "description",
+    links: [{ table: "data_source_custody", column: "dataSourceId", field: "custody" }]
+  },
+  { type: "review_metric", table: "review_metrics", keyColumn: "metricDate", labelColumn: "metricDate" },
+  {
+    type: "production",
+    table: "productions",
+    keyColumn: "id",
+    labelColumn: "volumeName",
+    links: [{ table: "production_documents", column: "productionId", field: "documents" }]
+  }
+];
+const SNAPSHOT_DIFF_IGNORED_COLUMNS = new Set(["id", "projectId", "updatedAt", "originId", "originHash"]);
+const SNAPSHOT_RESTORE_MAX_ITEMS = 1000;
+
+// Opens a restore point's DB in memory with the current vault key. Snapshots sealed under an
+// earlier data key (before a rotation) can only be restored in full.
+const openSnapshotDatabase = (snapshotId) => {
+  const snapshotDir = resolveSnapshotDir(snapshotId);
+  const source = resolveBackupDatabaseSource(snapshotDir);
+  if (!source) {
+    throw new Error("Restore point has no database file.");
+  }
+  let dbBytes = fs.readFileSync(source.dbSourcePath);
+  if (source.restoreToEncrypted) {
     try {
-      db.close();
+      dbBytes = vaultCrypto.openDatabaseEnvelope(dbBytes, vaultState.vault);
     } catch {
-      // ignore
+      throw new Error("This restore point was sealed with an earlier vault key. Restore it in full instead.");
     }
   }
-  db = null;
-  if (vaultState.vault) {
-    vaultCrypto.destroyKeyMaterial(vaultState.vault);
+  return {
+    snapshotId: path.basename(snapshotDir),
+    snapshotDir,
+    manifest: readJsonFile(path.join(snapshotDir, "manifest.json")) || {},
+    database: new SQL.Database(dbBytes)
+  };
+};
+
+const snapshotTableRows = (database, table, projectId = null) => {
+  const exists = queryRows(database, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [table]).length > 0;
+  if (!exists) return [];
+  return projectId
+    ? queryRows(database, `SELECT * FROM ${table} WHERE projectId = ?`, [projectId])
+    : queryRows(database, `SELECT * FROM ${table}`);
+};
+
+const changedColumns = (before, after) =>
+  Object.keys(before).filter(
+    (column) =>
+      !SNAPSHOT_DIFF_IGNORED_COLUMNS.has(column) &&
+      Object.prototype.hasOwnProperty.call(after, column) &&
+      JSON.stringify(before[column]) !== JSON.stringify(after[column])
+  );
+
+const groupByProject = (rows) => {
+  const groups = new Map();
+  for (const row of rows) {
+    const key = String(row.projectId);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(row);
   }
-  vaultState.vault = null;
-  vaultState.locked = true;
-  tryCleanupTempFiles();
-  return true;
+  return groups;
 };
 
-const buildNotesMarkdown = (project, notes) => {
-  const lines = [];
-  lines.push(`# ${project.matterName}`);
-  lines.push("");
-  lines.push(`Client: ${project.clientName}`);
-  lines.push(`Billing: ${project.billingCode}`);
-  if (project.relativityUrl) {
-    lines.push(`Relativity: ${project.relativityUrl}`);
+// Link rows (such as a hold's recipients) belong to the item named in `link.column`: they are
+// compared as one extra field of it, and restored or removed along with it.
+const linkSetSignature = (rows) =>
+  rows
+    .map((row) =>
+      JSON.stringify(Object.entries(row).filter(([column]) => !SNAPSHOT_DIFF_IGNORED_COLUMNS.has(column) && column !== "createdAt"))
+    )
+    .sort()
+    .join("\n");
+
+const groupLinkSignatures = (rows, column) => {
+  const groups = new Map();
+  for (const row of rows) {
+    const key = String(row[column]);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(row);
   }
-  lines.push("");
+  return new Map([...groups].map(([key, linkRows]) => [key, linkSetSignature(linkRows)]));
+};
 
-  notes.forEach((note) => {
-    lines.push(`## ${note.title}`);
-    lines.push(`Date: ${note.noteDate}`);
-    lines.push("");
-    const contentLines = String(note.contentMarkdown || "").split("\n");
-    contentLines.forEach((line) => lines.push(line));
-    lines.push("");
+const snapshotLinkRows = (database, link, key) => {
+  const exists = queryRows(database, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [link.table]).length > 0;
+  return exists ? queryRows(database, `SELECT * FROM ${link.table} WHERE ${link.column} = ?`, [key]) : [];
+};
+
+// "added" = only in the live vault (created since the snapshot), "removed" = only in the snapshot.
+const diffSnapshotRows = (spec, snapshotRows, liveRows, links = []) => {
+  const keyOf = (row) => String(row[spec.keyColumn]);
+  const liveByKey = new Map(liveRows.map((row) => [keyOf(row), row]));
+  const snapshotKeys = new Set();
+  const items = [];
+  const describe = (row, change, fields = []) => ({
+    type: spec.type,
+    key: keyOf(row),
+    label: String(row[spec.labelColumn] ?? "").slice(0, 160),
+    change,
+    changedFields: fields
   });
+  for (const row of snapshotRows) {
+    snapshotKeys.add(keyOf(row));
+    const live = liveByKey.get(keyOf(row));
+    if (!live) {
+      items.push(describe(row, "removed"));
+      continue;
+    }
+    const linkFields = links
+      .filter((group) => (group.snapshot.get(keyOf(row)) || "") !== (group.live.get(keyOf(row)) || ""))
+      .map((group) => group.link.field);
+    const fields = [...changedColumns(row, live), ...linkFields];
+    if (fields.length) items.push(describe(row, "changed", fields));
+  }
+  for (const row of liveRows) {
+    if (!snapshotKeys.has(keyOf(row))) items.push(describe(row, "added"));
+  }
+  return items;
+};
 
-  return `${lines.join("\n")}\n`;
+const buildSnapshotDiff = (opened) => {
+  const snapshotProjects = new Map(snapshotTableRows(opened.database, "projects").map((row) => [String(row.id), row]));
+  const liveProjects = new Map(all("SELECT * FROM projects").map((row) => [String(row.id), row]));
+  const tables = SNAPSHOT_ITEM_TABLES.map((spec) => ({
+    spec,
+    snapshot: groupByProject(snapshotTableRows(opened.database, spec.table)),
+    live: groupByProject(all(`SELECT * FROM ${spec.table}`)),
+    links: (spec.links || []).map((link) => ({
+      link,
+      snapshot: groupLinkSignatures(snapshotTableRows(opened.database, link.table), link.column),
+      live: groupLinkSignatures(all(`SELECT * FROM ${link.table}`), link.column)
+    }))
+  }));
+
+  const projects = [];
+  let unchangedProjects = 0;
+  for (const projectId of new Set([...snapshotProjects.keys(), ...liveProjects.keys()])) {
+    const snapshotProject = snapshotProjects.get(projectId);
+    const liveProject = liveProjects.get(projectId);
+    const changedFields = snapshotProject && liveProject ? changedColumns(snapshotProject, liveProject) : [];
+    const items = tables.flatMap(({ spec, snapshot, live, links }) =>
+      diffSnapshotRows(spec, snapshot.get(projectId) || [], live.get(projectId) || [], links)
+    );
+    const change = !liveProject ? "removed" : !snapshotProject ? "added" : changedFields.length ? "changed" : null;
+    if (!change && !items.length) {
+      unchangedProjects += 1;
+      continue;
+    }
+    projects.push({
+      projectId,
+      matterName: String((liveProject || snapshotProject).matterName || ""),
+      change,
+      changedFields,
+      items
+    });
+  }
+  projects.sort((left, right) => left.matterName.localeCompare(right.matterName));
+  return {
+    snapshotId: opened.snapshotId,
+    createdAt: typeof opened.manifest.createdAt === "string" ? opened.manifest.createdAt : null,
+    reason: typeof opened.manifest.reason === "string" ? opened.manifest.reason : "manual",
+    projects,
+    unchangedProjects
+  };
 };
 
-const escapeHtml = (value) =>
-  String(value || "")
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
+const diffLocalSnapshot = (snapshotId) => {
+  assertUnlocked();
+  const opened = openSnapshotDatabase(snapshotId);
+  try {
+    return buildSnapshotDiff(opened);
+  } finally {
+    opened.database.close();
+  }
+};
 
-const renderMarkdownLineAsHtml = (line) => {
-  const safe = escapeHtml(line);
-  if (!safe.trim()) return "<p class=\"note-empty\"></p>";
-  const heading = safe.match(/^(#{1,4})\s+(.+)$/);
-  if (heading) {
-    const level = Math.max(1, Math.min(4, heading[1].length));
-    return `<h${level}>${heading[2]}</h${level}>`;
+const upsertLiveRow = (table, row) => {
+  const liveColumns = new Set(all(`PRAGMA table_info(${table})`).map((column) => column.name));
+  const columns = Object.keys(row).filter((column) => liveColumns.has(column));
+  run(
+    `INSERT OR REPLACE INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+    columns.map((column) => row[column])
+  );
+};
+
+// Copies a snapshot's encrypted attachment back into the live store if the live file is gone.
+// Content-addressed snapshots re-hash the blob first.
+const restoreSnapshotAttachmentFile = (context, row) => {
+  const baseDir = attachmentsRoot();
+  const relativePath = String(row.storedRelativePath || "");
+  const targetPath = path.resolve(baseDir, relativePath);
+  if (!relativePath || !isContainedPath(targetPath, baseDir)) {
+    throw new Error(`Restore point has an invalid path for ${row.originalFileName}.`);
   }
-  const bullet = safe.match(/^\s*[-*•]\s+(.+)$/);
-  if (bullet) {
-    return `<li>${bullet[1]}</li>`;
+  if (fs.existsSync(targetPath)) return;
+
+  let sourcePath = null;
+  if (context.manifest.attachmentStore === "blobs") {
+    const entry = Array.isArray(context.manifest.attachments)
+      ? context.manifest.attachments.find((attachment) => attachment?.path === relativePath)
+      : null;
+    const blobHash = String(entry?.blob || "");
+    if (SHA256_HEX_REGEX.test(blobHash) && fs.existsSync(snapshotBlobPath(blobHash))) {
+      if (hashFileSync(snapshotBlobPath(blobHash)) !== blobHash) {
+        throw new Error(`Stored copy of ${row.originalFileName} is damaged.`);
+      }
+      sourcePath = snapshotBlobPath(blobHash);
+    }
+  } else {
+    const candidate = path.resolve(context.snapshotDir, "attachments", relativePath);
+    if (isContainedPath(candidate, context.snapshotDir) && fs.existsSync(candidate)) sourcePath = candidate;
   }
-  return `<p>${safe}</p>`;
+  if (!sourcePath) {
+    throw new Error(`This restore point has no copy of ${row.originalFileName}.`);
+  }
+  ensureDir(path.dirname(targetPath));
+  const tmpPath = `${targetPath}.tmp`;
+  fs.copyFileSync(sourcePath, tmpPath);
+  fs.renameSync(tmpPath, targetPath);
+  context.createdFiles.push(targetPath);
 };
 
-const buildNotesPdfHtml = (project, notes) => {
-  const noteSections = notes
-    .map((note) => {
-      const lines = String(note.contentMarkdown || "").split("\n");
-      const renderedLines = [];
-      let inList = false;
-      for (const line of lines) {
-        const candidate = renderMarkdownLineAsHtml(line);
-        if (candidate.startsWith("<li>")) {
-          if (!inList) {
-            renderedLines.push("<ul>");
-            inList = true;
-          }
-          renderedLines.push(candidate);
-          continue;
-        }
-        if (inList) {
-          renderedLines.push("</ul>");
-          inList = false;
-        }
-        renderedLines.push(candidate);
-      }
-      if (inList) renderedLines.push("</ul>");
-      return `
-        <section class="note-block">
-          <h2>${escapeHtml(note.title)}</h2>
-          <p class="note-date">Date: ${escapeHtml(note.noteDate)}</p>
-          ${renderedLines.join("\n")}
-        </section>
-      `;
-    })
-    .join("\n");
+const recordSnapshotItemRestore = (context, entityType, entityId, projectId, change, label) => {
+  context.restored.push({ type: entityType, projectId, change });
+  recordAudit({
+    action: "backup.snapshot.restore.item",
+    entityType,
+    entityId,
+    projectId,
+    details: { snapshotId: context.snapshotId, change, label }
+  });
+};
 
-  const relativityRow = project.relativityUrl
-    ? `<p class="meta">Relativity: ${escapeHtml(project.relativityUrl)}</p>`
-    : "";
+const restoreSnapshotProjectRow = (context, projectId) => {
+  const snapshotProject = queryRows(context.database, "SELECT * FROM projects WHERE id = ?", [projectId])[0];
+  if (!snapshotProject) {
+    throw new Error("This project doesn't exist in the restore point.");
+  }
+  const liveProject = get("SELECT * FROM projects WHERE id = ?", [projectId]);
+  if (liveProject && !changedColumns(snapshotProject, liveProject).length) return;
+  upsertLiveRow("projects", snapshotProject);
+  recordSnapshotItemRestore(context, "project", projectId, projectId, liveProject ? "changed" : "removed", snapshotProject.matterName);
+};
 
-  return `
-  <!doctype html>
-  <html>
-    <head>
-      <meta charset="utf-8" />
-      <title>${escapeHtml(project.matterName)} Notes</title>
-      <style>
-        :root { color-scheme: light; }
-        body {
-          font-family: "Segoe UI", "Avenir Next", sans-serif;
+// Swaps an item's live link rows for its snapshot ones (none when `context` is null, i.e. the item is
+// being removed). Returns both sets so callers can resync what the links feed.
+const replaceLiveLinks = (context, spec, key) => {
+  const removed = [];
+  const restored = [];
+  for (const link of spec.links || []) {
+    removed.push(...all(`SELECT * FROM ${link.table} WHERE ${link.column} = ?`, [key]));
+    run(`DELETE FROM ${link.table} WHERE ${link.column} = ?`, [key]);
+    if (!context) continue;
+    for (const row of snapshotLinkRows(context.database, link, key)) {
+      upsertLiveRow(link.table, row);
+      restored.push(row);
+    }
+  }
+  if (spec.type === "legal_hold") {
+    syncCustodianHoldFields(
+      restored.map((row) => row.custodianId),
+      removed.map((row) => row.custodianId)
+    );
+  }
+};
+
+const liveLinksDiffer = (context, spec, key) =>
+  (spec.links || []).some(
+    (link) =>
+      linkSetSignature(snapshotLinkRows(context.database, link, key)) !==
+      linkSetSignature(all(`SELECT * FROM ${link.table} WHERE ${link.column} = ?`, [key]))
+  );
+
+// Puts one item back to its snapshot state: re-inserts or overwrites it, or deletes it if it was
+// created after the snapshot. A missing parent project is restored first.
+const restoreSnapshotItem = (context, spec, projectId, key) => {
+  const select = `SELECT * FROM ${spec.table} WHERE projectId = ? AND ${spec.keyColumn} = ?`;
+  const snapshotRow = snapshotTableRows(context.database, spec.table, projectId).find((row) => String(row[spec.keyColumn]) === key);
+  const liveRow = get(select, [projectId, key]);
+  if (!snapshotRow && !liveRow) return;
+
+  if (!snapshotRow) {
+    run(`DELETE FROM ${spec.table} WHERE projectId = ? AND ${spec.keyColumn} = ?`, [projectId, key]);
+    replaceLiveLinks(null, spec, key);
+    if (spec.type === "attachment") context.filesToDelete.push(String(liveRow.storedRelativePath || ""));
+    if (spec.type === "custodian") {
+      // As when a custodian is deleted by hand: they leave every hold they were on and every source.
+      run("DELETE FROM legal_hold_recipients WHERE custodianId = ?", [key]);
+      run("UPDATE data_sources SET custodianId = NULL WHERE custodianId = ?", [key]);
+    }
+    recordSnapshotItemRestore(context, spec.type, liveRow.id, projectId, "added", liveRow[spec.labelColumn]);
+    return;
+  }
+  const rowChanged = !liveRow || changedColumns(snapshotRow, liveRow).length > 0 || liveLinksDiffer(context, spec, key);
+  if (!rowChanged && spec.type !== "attachment") return;
+  if (!get("SELECT id FROM projects WHERE id = ?", [projectId])) {
+    restoreSnapshotProjectRow(context, projectId);
+  }
+  if (spec.type === "attachment") {
+    const filesBefore = context.createdFiles.length;
+    restoreSnapshotAttachmentFile(context, snapshotRow);
+    if (!rowChanged) {
+      if (context.createdFiles.length > filesBefore) {
+        recordSnapshotItemRestore(context, spec.type, snapshotRow.id, projectId, "file_restored", snapshotRow[spec.labelColumn]);
+      }
+      return;
+    }
+  }
+  if (liveRow && spec.keyColumn !== "id") {
+    run(`DELETE FROM ${spec.table} WHERE projectId = ? AND ${spec.keyColumn} = ?`, [projectId, key]);
+  }
+  upsertLiveRow(spec.table, snapshotRow);
+  replaceLiveLinks(context, spec, key);
+  if (spec.type === "data_source" && snapshotRow.custodianId && !get("SELECT id FROM custodians WHERE id = ?", [snapshotRow.custodianId])) {
+    // The custodian was deleted since; the source comes back unassigned, as a manual delete leaves it.
+    run("UPDATE data_sources SET custodianId = NULL WHERE id = ?", [snapshotRow.id]);
+  }
+  recordSnapshotItemRestore(context, spec.type, snapshotRow.id, projectId, liveRow ? "changed" : "removed", snapshotRow[spec.labelColumn]);
+};
+
+const sanitizeSnapshotRestoreItems = (items) => {
+  if (!Array.isArray(items) || !items.length) {
+    throw new Error("Choose at least one item to restore.");
+  }
+  if (items.length > SNAPSHOT_RESTORE_MAX_ITEMS) {
+    throw new Error(`Restore at most ${SNAPSHOT_RESTORE_MAX_ITEMS} items at a time.`);
+  }
+  return items.map((item) => {
+    const spec = SNAPSHOT_ITEM_TABLES.find((candidate) => candidate.type === item?.type);
+    if (!spec) throw new Error("Unknown item type.");
+    return {
+      spec,
+      projectId: assertUuid(item.projectId, "project ID"),
+      key: ensureText(String(item.key ?? ""), "Item key", { maxLen: 200 })
+    };
+  });
+};
+
+// Restores selected items (or one whole project) from a restore point into the live vault. A
+// pre-restore snapshot is taken first and all row changes apply in one transaction.
+const restoreFromLocalSnapshot = (snapshotId, { items = null, projectId = null }) => {
+  assertUnlocked();
+  if (vaultState.rotating || maintenanceState.running) {
+    throw new Error("Another vault task is running. Try again when it finishes.");
+  }
+  const selected = projectId ? null : sanitizeSnapshotRestoreItems(items);
+  const safeProjectId = projectId ? assertUuid(projectId, "project ID") : null;
+  const opened = openSnapshotDatabase(snapshotId);
+  try {
+    const context = { ...opened, restored: [], createdFiles: [], filesToDelete: [] };
+    if (safeProjectId && !queryRows(opened.database, "SELECT id FROM projects WHERE id = ?", [safeProjectId]).length) {
+      throw new Error("This project doesn't exist in the restore point.");
+    }
+    const preRestoreSnapshot = createLocalSnapshot("pre-item-restore");
+
+    run("BEGIN TRANSACTION");
+    try {
+      if (safeProjectId) {
+        restoreSnapshotProjectRow(context, safeProjectId);
+        for (const spec of SNAPSHOT_ITEM_TABLES) {
+          const keys = new Set([
+            ...snapshotTableRows(opened.database, spec.table, safeProjectId).map((row) => String(row[spec.keyColumn])),
+            ...all(`SELECT ${spec.keyColumn} AS itemKey FROM ${spec.table} WHERE projectId = ?`, [safeProjectId]).map((row) =>
+              String(row.itemKey)
+            )
+          ]);
+          for (const key of keys) restoreSnapshotItem(context, spec, safeProjectId, key);
+        }
+      } else {
+        for (const item of selected) restoreSnapshotItem(context, item.spec, item.projectId, item.key);
+      }
+      run("COMMIT");
+    } catch (error) {
+      run("ROLLBACK");
+      for (const filePath of context.createdFiles) fs.rmSync(filePath, { force: true });
+      throw error;
+    }
+
+    for (const relativePath of context.filesToDelete) {
+      const fullPath = path.resolve(attachmentsRoot(), relativePath);
+      if (relativePath && isContainedPath(fullPath, attachmentsRoot())) fs.rmSync(fullPath, { force: true });
+    }
+    if (safeProjectId) {
+      recordAudit({
+        action: "backup.snapshot.restore.project",
+        entityType: "project",
+        entityId: safeProjectId,
+        projectId: safeProjectId,
+        details: { snapshotId: opened.snapshotId, restoredItems: context.restored.length, preRestoreSnapshotId: preRestoreSnapshot.id }
+      });
+    }
+    persistDb();
+    return { ok: true, restoredItems: context.restored.length, preRestoreSnapshotId: preRestoreSnapshot.id };
+  } finally {
+    opened.database.close();
+  }
+};
+
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+const formatLocalIsoDate = (date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const addDaysToIsoDate = (isoDate, days) => {
+  const date = new Date(`${isoDate}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const daysUntilIsoDate = (isoDate, today) => Math.round((new Date(`${isoDate}T00:00:00`).getTime() - today.getTime()) / 86400000);
+
+// Where one recipient of a hold stands. Acknowledgment is due `acknowledgmentDueDays` after issue; past
+// that it is overdue, and escalated once `escalationAfterDays` more have gone by. Reminders repeat every
+// `reminderIntervalDays` from the last one sent (or the issue date) until the recipient acknowledges.
+const computeHoldRecipientSchedule = (hold, recipient, today) => {
+  const acknowledgeBy = addDaysToIsoDate(hold.issuedAt, Number(hold.acknowledgmentDueDays));
+  if (hold.releasedAt || recipient.acknowledgedAt) {
+    return { acknowledgeBy, pending: false, daysUntilDue: null, overdue: false, escalated: false, nextReminderAt: null };
+  }
+  const daysUntilDue = daysUntilIsoDate(acknowledgeBy, today);
+  const overdue = daysUntilDue < 0;
+  const escalated = overdue && hold.escalationAfterDays !== null && -daysUntilDue >= Number(hold.escalationAfterDays);
+  const nextReminderAt = hold.reminderIntervalDays
+    ? addDaysToIsoDate(recipient.lastReminderAt || hold.issuedAt, Number(hold.reminderIntervalDays))
+    : null;
+  return { acknowledgeBy, pending: true, daysUntilDue, overdue, escalated, nextReminderAt };
+};
+
+const LEGAL_HOLD_RECIPIENT_SELECT = `
+  SELECT r.*, c.name AS custodianName, c.email AS custodianEmail, c.title AS custodianTitle, c.department AS custodianDepartment
+  FROM legal_hold_recipients r
+  JOIN custodians c ON c.id = r.custodianId`;
+
+const describeLegalHold = (hold, recipients, today) => {
+  const described = recipients.map((recipient) => ({
+    id: recipient.id,
+    holdId: recipient.holdId,
+    custodianId: recipient.custodianId,
+    custodianName: recipient.custodianName,
+    custodianEmail: recipient.custodianEmail || null,
+    custodianTitle: recipient.custodianTitle || null,
+    custodianDepartment: recipient.custodianDepartment || null,
+    acknowledgedAt: recipient.acknowledgedAt || null,
+    lastReminderAt: recipient.lastReminderAt || null,
+    schedule: computeHoldRecipientSchedule(hold, recipient, today)
+  }));
+  const reminders = described.map((recipient) => recipient.schedule.nextReminderAt).filter(Boolean).sort();
+  return {
+    ...hold,
+    acknowledgeBy: addDaysToIsoDate(hold.issuedAt, Number(hold.acknowledgmentDueDays)),
+    recipients: described,
+    acknowledgedCount: described.filter((recipient) => recipient.acknowledgedAt).length,
+    overdueCount: described.filter((recipient) => recipient.schedule.overdue).length,
+    escalatedCount: described.filter((recipient) => recipient.schedule.escalated).length,
+    nextReminderAt: reminders[0] || null
+  };
+};
+
+const listProjectLegalHolds = (projectId) => {
+  const today = startOfToday();
+  const recipientsByHold = new Map();
+  for (const recipient of all(`${LEGAL_HOLD_RECIPIENT_SELECT} WHERE r.projectId = ? ORDER BY c.name COLLATE NOCASE ASC`, [projectId])) {
+    if (!recipientsByHold.has(recipient.holdId)) recipientsByHold.set(recipient.holdId, []);
+    recipientsByHold.get(recipient.holdId).push(recipient);
+  }
+  return all("SELECT * FROM legal_holds WHERE projectId = ? ORDER BY releasedAt IS NOT NULL, issuedAt DESC, createdAt DESC", [projectId]).map(
+    (hold) => describeLegalHold(hold, recipientsByHold.get(hold.id) || [], today)
+  );
+};
+
+const getLegalHold = (holdId) => {
+  const hold = get("SELECT * FROM legal_holds WHERE id = ?", [holdId]);
+  if (!hold) return null;
+  const recipients = all(`${LEGAL_HOLD_RECIPIENT_SELECT} WHERE r.holdId = ? ORDER BY c.name COLLATE NOCASE ASC`, [holdId]);
+  return describeLegalHold(hold, recipients, startOfToday());
+};
+
+// Recipients must be custodians of the hold's own project.
+const assertHoldRecipients = (projectId, custodianIds) => {
+  for (const custodianId of custodianIds) {
+    if (!get("SELECT id FROM custodians WHERE id = ? AND projectId = ?", [custodianId, projectId])) {
+      throw new Error("Hold recipients must be custodians of this project.");
+    }
+  }
+};
+
+// Keeps the custodian registry's hold columns in step with the holds each custodian is on: while any hold
+// is active they are on hold (a departed custodian stays departed), noticed on the earliest issue date and
+// acknowledged once every active hold is. When their last hold is released they become released.
+// Custodians on no hold at all keep whatever was entered by hand, unless `unlinkedIds` says a hold
+// edit or delete just took their last hold away: those leave on_hold and lose its notice dates.
+const syncCustodianHoldFields = (custodianIds, unlinkedIds = []) => {
+  const timestamp = nowIso();
+  const unlinked = new Set(unlinkedIds);
+  for (const custodianId of new Set([...custodianIds, ...unlinkedIds])) {
+    const custodian = get("SELECT id, status FROM custodians WHERE id = ?", [custodianId]);
+    if (!custodian) continue;
+    const holds = all(
+      `SELECT h.issuedAt, h.releasedAt, r.acknowledgedAt
+      FROM legal_hold_recipients r
+      JOIN legal_holds h ON h.id = r.holdId
+      WHERE r.custodianId = ?`,
+      [custodianId]
+    );
+    if (!holds.length) {
+      if (unlinked.has(custodianId)) {
+        run(
+          `UPDATE custodians SET status = ?, holdNoticeSentAt = NULL, holdAcknowledgedAt = NULL, updatedAt = ?
+          WHERE id = ?`,
+          [custodian.status === "on_hold" ? "released" : custodian.status, timestamp, custodianId]
+        );
+      }
+      continue;
+    }
+    const active = holds.filter((hold) => !hold.releasedAt);
+    if (!active.length) {
+      if (custodian.status === "on_hold") {
+        run("UPDATE custodians SET status = 'released', updatedAt = ? WHERE id = ?", [timestamp, custodianId]);
+      }
+      continue;
+    }
+    const noticeSentAt = active.map((hold) => hold.issuedAt).sort()[0];
+    const acknowledgedAt = active.every((hold) => hold.acknowledgedAt)
+      ? active.map((hold) => hold.acknowledgedAt).sort()[active.length - 1]
+      : null;
+    run("UPDATE custodians SET status = ?, holdNoticeSentAt = ?, holdAcknowledgedAt = ?, updatedAt = ? WHERE id = ?", [
+      custodian.status === "departed" ? "departed" : "on_hold",
+      noticeSentAt,
+      acknowledgedAt,
+      timestamp,
+      custodianId
+    ]);
+  }
+};
+
+const DATA_SOURCE_SELECT = `
+  SELECT s.*, c.name AS custodianName
+  FROM data_sources s
+  LEFT JOIN custodians c ON c.id = s.custodianId`;
+
+// Chain-of-custody references only list documents that still exist, so a link left behind by a
+// snapshot restore or repair drops out instead of pointing at nothing.
+const describeDataSource = (source) => ({
+  ...source,
+  custodianName: source.custodianName || null,
+  custody: all(
+    `SELECT a.id AS attachmentId, a.originalFileName, a.sizeBytes, a.addedAt
+    FROM data_source_custody l
+    JOIN attachments a ON a.id = l.attachmentId
+    WHERE l.dataSourceId = ?
+    ORDER BY a.originalFileName COLLATE NOCASE ASC`,
+    [source.id]
+  )
+});
+
+const listProjectDataSources = (projectId) =>
+  all(`${DATA_SOURCE_SELECT} WHERE s.projectId = ? ORDER BY s.collectedAt IS NULL, s.collectedAt DESC, s.createdAt DESC`, [
+    projectId
+  ]).map(describeDataSource);
+
+const getDataSource = (dataSourceId) => {
+  const source = get(`${DATA_SOURCE_SELECT} WHERE s.id = ?`, [dataSourceId]);
+  return source ? describeDataSource(source) : null;
+};
+
+// A source's custodian and custody documents must belong to the source's own project.
+const assertDataSourceReferences = (projectId, payload) => {
+  if (payload.custodianId && !get("SELECT id FROM custodians WHERE id = ? AND projectId = ?", [payload.custodianId, projectId])) {
+    throw new Error("Data source custodian must be a custodian of this project.");
+  }
+  for (const attachmentId of payload.custodyAttachmentIds) {
+    if (!get("SELECT id FROM attachments WHERE id = ? AND projectId = ?", [attachmentId, projectId])) {
+      throw new Error("Chain-of-custody documents must be documents of this project.");
+    }
+  }
+};
+
+const replaceDataSourceCustody = (dataSourceId, projectId, attachmentIds, timestamp) => {
+  run("DELETE FROM data_source_custody WHERE dataSourceId = ?", [dataSourceId]);
+  for (const attachmentId of attachmentIds) {
+    run("INSERT INTO data_source_custody (dataSourceId, attachmentId, projectId, createdAt) VALUES (?, ?, ?, ?)", [
+      dataSourceId,
+      attachmentId,
+      projectId,
+      timestamp
+    ]);
+  }
+};
+
+// Collected volume per project. Sources without a size or count yet simply add nothing to the sums.
+const summarizeDataSources = (projectId = null) => {
+  const rows = all(
+    `SELECT projectId, COUNT(*) AS sourceCount, COUNT(collectedAt) AS collectedSources,
+      COALESCE(SUM(sizeGb), 0) AS collectedGb, COALESCE(SUM(itemCount), 0) AS collectedItems
+    FROM data_sources
+    ${projectId ? "WHERE projectId = ?" : ""}
+    GROUP BY projectId`,
+    projectId ? [projectId] : []
+  );
+  return new Map(
+    rows.map((row) => [
+      row.projectId,
+      {
+        sourceCount: Number(row.sourceCount),
+        collectedSources: Number(row.collectedSources),
+        collectedGb: Math.round(Number(row.collectedGb) * 1000) / 1000,
+        collectedItems: Number(row.collectedItems)
+      }
+    ])
+  );
+};
+
+const EMPTY_DATA_SOURCE_SUMMARY = Object.freeze({ sourceCount: 0, collectedSources: 0, collectedGb: 0, collectedItems: 0 });
+
+const listProjectReviewMetrics = (projectId) =>
+  all("SELECT * FROM review_metrics WHERE projectId = ? ORDER BY metricDate ASC", [projectId]);
+
+const diffIsoDays = (fromIsoDate, toIsoDate) =>
+  Math.round((Date.parse(`${toIsoDate}T00:00:00.000Z`) - Date.parse(`${fromIsoDate}T00:00:00.000Z`)) / 86400000);
+
+// Burn-down for the review phase. The review population is the latest "promoted to review" total and
+// each day's reviewed count burns it down. Velocity is the reviewed-per-calendar-day average over the
+// last REVIEW_VELOCITY_WINDOW_DAYS of the log; the finish is projected from the later of the last entry
+// and today, so days without a log entry count as no progress.
+const computeReviewForecast = (entries, reviewPhase, today) => {
+  const reviewStartDate = reviewPhase?.startDate ? String(reviewPhase.startDate).slice(0, 10) : null;
+  const reviewEndDate = reviewPhase?.endDate ? String(reviewPhase.endDate).slice(0, 10) : null;
+  let population = null;
+  let reviewedToDate = 0;
+  const series = entries.map((entry) => {
+    if (entry.documentsPromoted !== null) population = Number(entry.documentsPromoted);
+    reviewedToDate += Number(entry.documentsReviewed || 0);
+    return {
+      date: entry.metricDate,
+      reviewed: reviewedToDate,
+      remaining: population === null ? null : Math.max(0, population - reviewedToDate)
+    };
+  });
+  const forecast = {
+    status: "no_data",
+    reviewStartDate,
+    reviewEndDate,
+    population,
+    reviewedToDate,
+    remaining: null,
+    velocityPerDay: null,
+    latestMetricDate: entries.length ? entries[entries.length - 1].metricDate : null,
+    projectedFinish: null,
+    overrunDays: null,
+    series
+  };
+  if (population === null) return forecast;
+
+  const latest = forecast.latestMetricDate;
+  const windowStart = addDaysToIsoDate(latest, -(REVIEW_VELOCITY_WINDOW_DAYS - 1));
+  const spanStart = entries[0].metricDate > windowStart ? entries[0].metricDate : windowStart;
+  const windowReviewed = entries
+    .filter((entry) => entry.metricDate >= spanStart)
+    .reduce((sum, entry) => sum + Number(entry.documentsReviewed || 0), 0);
+  forecast.remaining = Math.max(0, population - reviewedToDate);
+  forecast.velocityPerDay = Math.round((windowReviewed / (diffIsoDays(spanStart, latest) + 1)) * 10) / 10;
+
+  if (forecast.remaining === 0) {
+    forecast.status = "complete";
+    forecast.projectedFinish = series.find((point) => point.remaining === 0)?.date || latest;
+  } else if (forecast.velocityPerDay > 0) {
+    const todayIso = formatLocalIsoDate(today);
+    const base = latest > todayIso ? latest : todayIso;
+    forecast.status = "on_track";
+    forecast.projectedFinish = addDaysToIsoDate(base, Math.ceil(forecast.remaining / forecast.velocityPerDay));
+  } else {
+    forecast.status = "stalled";
+  }
+  if (reviewEndDate && forecast.projectedFinish) {
+    forecast.overrunDays = diffIsoDays(reviewEndDate, forecast.projectedFinish);
+    if (forecast.status === "on_track" && forecast.overrunDays > 0) forecast.status = "overrun";
+  }
+  return forecast;
+};
+
+const getReviewForecast = (projectId, today = startOfToday()) =>
+  computeReviewForecast(
+    listProjectReviewMetrics(projectId),
+    get("SELECT startDate, endDate FROM timeline_tasks WHERE projectId = ? AND phase = 'Review'", [projectId]),
+    today
+  );
+
+const formatBatesNumber = (production, value) => `${production.batesPrefix}${String(value).padStart(production.batesDigits, "0")}`;
+
+const formatBatesRange = (production, begin = production.batesBegin, end = production.batesEnd) =>
+  begin === end ? formatBatesNumber(production, begin) : `${formatBatesNumber(production, begin)}–${formatBatesNumber(production, end)}`;
+
+// Bates numbers for one prefix should run as a single unbroken sequence across a matter's volumes.
+// Each volume is flagged when its range overlaps another volume's, or when numbers were skipped
+// between it and the volume before it in the sequence. These are warnings; nothing is refused.
+const computeBatesWarnings = (productions) => {
+  const warnings = new Map(productions.map((production) => [production.id, []]));
+  const byPrefix = new Map();
+  for (const production of productions) {
+    if (!byPrefix.has(production.batesPrefix)) byPrefix.set(production.batesPrefix, []);
+    byPrefix.get(production.batesPrefix).push(production);
+  }
+  for (const sequence of byPrefix.values()) {
+    sequence.sort((a, b) => a.batesBegin - b.batesBegin || a.batesEnd - b.batesEnd);
+    let reach = null;
+    for (let index = 0; index < sequence.length; index += 1) {
+      const production = sequence[index];
+      for (const other of sequence) {
+        if (other.id === production.id || other.batesBegin > production.batesEnd || other.batesEnd < production.batesBegin) continue;
+        const overlapBegin = Math.max(other.batesBegin, production.batesBegin);
+        const overlapEnd = Math.min(other.batesEnd, production.batesEnd);
+        warnings.get(production.id).push(`Overlaps ${other.volumeName} at ${formatBatesRange(production, overlapBegin, overlapEnd)}`);
+      }
+      if (reach && production.batesBegin > reach.batesEnd + 1) {
+        warnings
+          .get(production.id)
+          .push(`Gap after ${reach.volumeName}: ${formatBatesRange(production, reach.batesEnd + 1, production.batesBegin - 1)} not produced`);
+      }
+      if (!reach || production.batesEnd > reach.batesEnd) reach = production;
+    }
+  }
+  return warnings;
+};
+
+const listProjectProductions = (projectId) => {
+  const productions = all(
+    "SELECT * FROM productions WHERE projectId = ? ORDER BY producedAt ASC, batesPrefix ASC, batesBegin ASC",
+    [projectId]
+  );
+  const warnings = computeBatesWarnings(productions);
+  return productions.map((production) => ({
+    ...production,
+    batesBeginLabel: formatBatesNumber(production, production.batesBegin),
+    batesEndLabel: formatBatesNumber(production, production.batesEnd),
+    documents: all(
+      `SELECT a.id AS attachmentId, a.originalFileName, a.sizeBytes, a.addedAt
+      FROM production_documents l
+      JOIN attachments a ON a.id = l.attachmentId
+      WHERE l.productionId = ?
+      ORDER BY a.originalFileName COLLATE NOCASE ASC`,
+      [production.id]
+    ),
+    warnings: warnings.get(production.id)
+  }));
+};
+
+// Warnings depend on the matter's other volumes, so a single production is read through the full list.
+const getProduction = (productionId) => {
+  const row = get("SELECT projectId FROM productions WHERE id = ?", [productionId]);
+  return row ? listProjectProductions(row.projectId).find((production) => production.id === productionId) || null : null;
+};
+
+const assertProductionDocuments = (projectId, attachmentIds) => {
+  for (const attachmentId of attachmentIds) {
+    if (!get("SELECT id FROM attachments WHERE id = ? AND projectId = ?", [attachmentId, projectId])) {
+      throw new Error("Linked documents must be documents of this project.");
+    }
+  }
+};
+
+const replaceProductionDocuments = (productionId, projectId, attachmentIds, timestamp) => {
+  run("DELETE FROM production_documents WHERE productionId = ?", [productionId]);
+  for (const attachmentId of attachmentIds) {
+    run("INSERT INTO production_documents (productionId, attachmentId, projectId, createdAt) VALUES (?, ?, ?, ?)", [
+      productionId,
+      attachmentId,
+      projectId,
+      timestamp
+    ]);
+  }
+};
+
+const buildDeadlineDashboard = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const projects = all(
+    "SELECT id, matterName, productionDeadline FROM projects WHERE archivedAt IS NULL ORDER BY productionDeadline ASC"
+  );
+  const projectById = new Map(projects.map((project) => [project.id, project]));
+  const rollupMap = new Map(
+    projects.map((project) => [
+      project.id,
+      {
+        projectId: project.id,
+        projectName: project.matterName,
+        productionDeadline: project.productionDeadline,
+        daysToDeadline: null,
+        totalTodos: 0,
+        completedTodos: 0,
+        openTodos: 0,
+        priorityOpenTodos: 0,
+        overdueTimelineItems: 0,
+        upcomingTimelineItems: 0,
+        ...EMPTY_DATA_SOURCE_SUMMARY
+      }
+    ])
+  );
+
+  for (const [projectId, summary] of summarizeDataSources()) {
+    const rollup = rollupMap.get(projectId);
+    if (rollup) Object.assign(rollup, summary);
+  }
+
+  for (const rollup of rollupMap.values()) {
+    const raw = String(rollup.productionDeadline || "").slice(0, 10);
+    if (!raw) continue;
+    const due = new Date(`${raw}T00:00:00`);
+    if (Number.isNaN(due.getTime())) continue;
+    rollup.daysToDeadline = Math.round((due.getTime() - today.getTime()) / 86400000);
+  }
+
+  const timelineItems = [];
+  for (const task of all("SELECT id, projectId, phase, startDate, endDate FROM timeline_tasks")) {
+    if (!projectById.has(task.projectId)) continue;
+    const dateOnly = String(task.endDate || task.startDate || "").slice(0, 10);
+    if (!dateOnly) continue;
+    const due = new Date(`${dateOnly}T00:00:00`);
+    if (Number.isNaN(due.getTime())) continue;
+    const days = Math.round((due.getTime() - today.getTime()) / 86400000);
+    const item = {
+      id: task.id,
+      projectId: task.projectId,
+      projectName: projectById.get(task.projectId)?.matterName || "Unknown Project",
+      phase: task.phase,
+      dueDate: dateOnly,
+      daysFromNow: days,
+      tone: days < 0 ? "late" : days <= 7 ? "soon" : "normal"
+    };
+    timelineItems.push(item);
+    const rollup = rollupMap.get(task.projectId);
+    if (!rollup) continue;
+    if (days < 0) {
+      rollup.overdueTimelineItems += 1;
+    } else if (days <= 30) {
+      rollup.upcomingTimelineItems += 1;
+    }
+  }
+  timelineItems.sort((a, b) => a.daysFromNow - b.daysFromNow);
+
+  // Each pending recipient lands in one list: overdue acknowledgments first, otherwise their next reminder.
+  const overdueAcknowledgments = [];
+  const upcomingHoldReminders = [];
+  for (const row of all(
+    `SELECT r.id, r.holdId, r.projectId, r.acknowledgedAt, r.lastReminderAt, c.name AS custodianName, h.name AS holdName,
+      h.issuedAt, h.acknowledgmentDueDays, h.reminderIntervalDays, h.escalationAfterDays, h.releasedAt
+    FROM legal_hold_recipients r
+    JOIN legal_holds h ON h.id = r.holdId
+    JOIN custodians c ON c.id = r.custodianId
+    WHERE h.releasedAt IS NULL AND r.acknowledgedAt IS NULL`
+  )) {
+    if (!projectById.has(row.projectId)) continue;
+    const schedule = computeHoldRecipientSchedule(row, row, today);
+    const item = {
+      id: row.id,
+      holdId: row.holdId,
+      projectId: row.projectId,
+      projectName: projectById.get(row.projectId)?.matterName || "Unknown Project",
+      holdName: row.holdName,
+      custodianName: row.custodianName,
+      escalated: schedule.escalated
+    };
+    if (schedule.overdue) {
+      overdueAcknowledgments.push({
+        ...item,
+        kind: "acknowledgment",
+        dueDate: schedule.acknowledgeBy,
+        daysFromNow: schedule.daysUntilDue,
+        tone: "late"
+      });
+      continue;
+    }
+    if (!schedule.nextReminderAt) continue;
+    const days = daysUntilIsoDate(schedule.nextReminderAt, today);
+    if (days > LEGAL_HOLD_REMINDER_WINDOW_DAYS) continue;
+    upcomingHoldReminders.push({
+      ...item,
+      kind: "reminder",
+      dueDate: schedule.nextReminderAt,
+      daysFromNow: days,
+      tone: days <= 0 ? "late" : days <= 3 ? "soon" : "normal"
+    });
+  }
+  overdueAcknowledgments.sort((a, b) => a.daysFromNow - b.daysFromNow);
+  upcomingHoldReminders.sort((a, b) => a.daysFromNow - b.daysFromNow);
+
+  // A review projected to finish after its phase end date, or stalled with work left, is a risk.
+  const reviewRisks = [];
+  const metricsByProject = new Map();
+  for (const entry of all("SELECT * FROM review_metrics ORDER BY metricDate ASC")) {
+    if (!projectById.has(entry.projectId)) continue;
+    if (!metricsByProject.has(entry.projectId)) metricsByProject.set(entry.projectId, []);
+    metricsByProject.get(entry.projectId).push(entry);
+  }
+  for (const [projectId, entries] of metricsByProject) {
+    const reviewPhase = get("SELECT startDate, endDate FROM timeline_tasks WHERE projectId = ? AND phase = 'Review'", [projectId]);
+    const forecast = computeReviewForecast(entries, reviewPhase, today);
+    if (!forecast.reviewEndDate || (forecast.status !== "overrun" && forecast.status !== "stalled")) continue;
+    reviewRisks.push({
+      id: projectId,
+      projectId,
+      projectName: projectById.get(projectId).matterName,
+      status: forecast.status,
+      reviewEndDate: forecast.reviewEndDate,
+      projectedFinish: forecast.projectedFinish,
+      overrunDays: forecast.overrunDays,
+      remaining: forecast.remaining,
+      velocityPerDay: forecast.velocityPerDay,
+      daysFromNow: daysUntilIsoDate(forecast.reviewEndDate, today),
+      tone: "late"
+    });
+  }
+  reviewRisks.sort((a, b) => a.daysFromNow - b.daysFromNow);
+
+  for (const todo of all("SELECT projectId, isCompleted, isPriority FROM todos")) {
+    const rollup = rollupMap.get(todo.projectId);
+    if (!rollup) continue;
+    const completed = Boolean(todo.isCompleted);
+    const priority = Boolean(todo.isPriority);
+    rollup.totalTodos += 1;
+    if (completed) {
+      rollup.completedTodos += 1;
+    } else {
+      rollup.openTodos += 1;
+      if (priority) {
+        rollup.priorityOpenTodos += 1;
+      }
+    }
+  }
+
+  const todoRollups = Array.from(rollupMap.values()).sort((a, b) => {
+    const left = a.daysToDeadline === null ? Number.POSITIVE_INFINITY : a.daysToDeadline;
+    const right = b.daysToDeadline === null ? Number.POSITIVE_INFINITY : b.daysToDeadline;
+    if (left !== right) return left - right;
+    if (b.priorityOpenTodos !== a.priorityOpenTodos) return b.priorityOpenTodos - a.priorityOpenTodos;
+    if (b.openTodos !== a.openTodos) return b.openTodos - a.openTodos;
+    return a.projectName.localeCompare(b.projectName);
+  });
+
+  const overdueTimeline = timelineItems.filter((item) => item.daysFromNow < 0);
+  const upcomingTimeline = timelineItems.filter((item) => item.daysFromNow >= 0);
+  return {
+    generatedAt: nowIso(),
+    totals: {
+      projectsTracked: projects.length,
+      overdueTimeline: overdueTimeline.length,
+      dueWithin7Days: timelineItems.filter((item) => item.daysFromNow >= 0 && item.daysFromNow <= 7).length,
+      dueWithin30Days: timelineItems.filter((item) => item.daysFromNow > 7 && item.daysFromNow <= 30).length,
+      totalTodos: todoRollups.reduce((sum, row) => sum + row.totalTodos, 0),
+      openTodos: todoRollups.reduce((sum, row) => sum + row.openTodos, 0),
+      priorityOpenTodos: todoRollups.reduce((sum, row) => sum + row.priorityOpenTodos, 0),
+      completedTodos: todoRollups.reduce((sum, row) => sum + row.completedTodos, 0),
+      overdueAcknowledgments: overdueAcknowledgments.length,
+      escalatedAcknowledgments: overdueAcknowledgments.filter((item) => item.escalated).length,
+      holdRemindersDue: upcomingHoldReminders.filter((item) => item.daysFromNow <= 0).length,
+      dataSources: todoRollups.reduce((sum, row) => sum + row.sourceCount, 0),
+      collectedGb: Math.round(todoRollups.reduce((sum, row) => sum + row.collectedGb, 0) * 1000) / 1000,
+      collectedItems: todoRollups.reduce((sum, row) => sum + row.collectedItems, 0),
+      reviewRisks: reviewRisks.length
+    },
+    overdueTimeline: overdueTimeline.slice(0, 10),
+    upcomingTimeline: upcomingTimeline.slice(0, 10),
+    overdueAcknowledgments: overdueAcknowledgments.slice(0, 10),
+    upcomingHoldReminders: upcomingHoldReminders.slice(0, 10),
+    reviewRisks: reviewRisks.slice(0, 10),
+    todoRollups: todoRollups.slice(0, 16),
+    collectionRollups: todoRollups
+      .filter((row) => row.sourceCount > 0)
+      .sort((a, b) => b.collectedGb - a.collectedGb || a.projectName.localeCompare(b.projectName))
+      .slice(0, 16)
+  };
+};
+
+const makeSnippet = (rawText, query, limit = 120) => {
+  const text = String(rawText || "").replace(/\s+/g, " ").trim();
+  if (!text) return "";
+  const lower = text.toLowerCase();
+  const hit = query ? lower.indexOf(query) : -1;
+  if (hit === -1 || text.length <= limit) {
+    return text.slice(0, limit);
+  }
+  const start = Math.max(0, hit - Math.floor(limit / 3));
+  const end = Math.min(text.length, start + limit);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  return `${prefix}${text.slice(start, end)}${suffix}`;
+};
+
+const includesQuery = (query, ...parts) => {
+  if (!query) return true;
+  return parts.some((part) => String(part || "").toLowerCase().includes(query));
+};
+
+const assertUnlocked = () => {
+  if (!ENCRYPTION_ENABLED) {
+    if (!db) {
+      throw new Error("Database not initialized.");
+    }
+    return;
+  }
+  if (vaultState.locked || !vaultState.vault || !db) {
+    throw new Error("Vault locked.");
+  }
+  if (vaultState.rotating) {
+    throw new Error("Vault passphrase change in progress. Try again shortly.");
+  }
+  if (vaultState.passphraseResetRequired) {
+    throw new Error("Set a new passphrase to finish vault recovery.");
+  }
+};
+
+const tryCleanupTempFiles = () => {
+  for (const filePath of tempOpenFiles) {
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch {
+      // Best effort; file may be open by another process.
+    }
+  }
+  tempOpenFiles.clear();
+  try {
+    const root = tempRoot();
+    if (fs.existsSync(root)) {
+      // Remove leftovers from previous runs.
+      for (const name of fs.readdirSync(root)) {
+        const p = path.join(root, name);
+        try {
+          fs.unlinkSync(p);
+        } catch {
+          // ignore
+        }
+      }
+    }
+  } catch {
+    // ignore
+  }
+};
+
+const deletePlaintextDbAfterVerifiedMigration = () => {
+  const plain = dbPlainPath();
+  if (!fs.existsSync(plain)) return false;
+  try {
+    fs.unlinkSync(plain);
+    return true;
+  } catch (error) {
+    console.error("Failed to remove plaintext DB after migration", error);
+    return false;
+  }
+};
+
+const migrateAttachmentsToEncryptedIfNeeded = async () => {
+  assertUnlocked();
+  const baseDir = attachmentsRoot();
+  if (!fs.existsSync(baseDir)) return 0;
+
+  const rows = all("SELECT * FROM attachments");
+  let migrated = 0;
+
+  for (const attachment of rows) {
+    try {
+      const rel = String(attachment.storedRelativePath || "");
+      if (!rel || rel.endsWith(".enc")) continue;
+
+      const fullPath = path.resolve(baseDir, rel);
+      if (!isContainedPath(fullPath, baseDir) || !fs.existsSync(fullPath)) continue;
+
+      const oldStoredFileName = String(attachment.storedFileName || "");
+      const oldRel = rel;
+      const ext = path.extname(String(attachment.originalFileName || "")) || path.extname(rel) || "";
+      const newStoredFileName = `${randomUUID()}${ext}.enc`;
+      const newRel = path.join(String(attachment.projectId), newStoredFileName);
+      const targetPath = path.resolve(baseDir, newRel);
+
+      const attachmentsDir = getSafeProjectAttachmentDir(String(attachment.projectId));
+      if (!attachmentsDir) continue;
+      ensureDir(attachmentsDir);
+      if (!isContainedPath(targetPath, attachmentsDir)) continue;
+
+      await encryptAttachmentFile(fullPath, targetPath, vaultState.vault.fileKey);
+
+      run(
+        "UPDATE attachments SET storedFileName = ?, storedRelativePath = ? WHERE id = ?",
+        [newStoredFileName, newRel, attachment.id]
+      );
+
+      try {
+        flushDbNow();
+        fs.unlinkSync(fullPath);
+        migrated += 1;
+      } catch (error) {
+        // Roll back DB metadata and remove the newly created encrypted file.
+        console.error("Failed to persist DB after attachment migration; rolling back", error);
+        try {
+          run("UPDATE attachments SET storedFileName = ?, storedRelativePath = ? WHERE id = ?", [
+            oldStoredFileName,
+            oldRel,
+            attachment.id
+          ]);
+          persistDb();
+        } catch {
+          // ignore
+        }
+        try {
+          if (fs.existsSync(targetPath)) fs.unlinkSync(targetPath);
+        } catch {
+          // ignore
+        }
+      }
+    } catch (error) {
+      console.error("Failed to migrate attachment to encrypted storage", error);
+    }
+  }
+
+  return migrated;
+};
+
+const ATTACHMENT_UPGRADE_SUFFIX = ".upgrading";
+
+// Rewrites legacy single-shot (EDNFILE1) attachments as chunked EDNFILE2 files. Runs in the
+// background after unlock; each file is swapped in only if the vault is still open under the
+// same keys and no key rotation has started.
+const upgradeLegacyAttachments = async () => {
+  const vault = vaultState.vault;
+  const baseDir = attachmentsRoot();
+  if (!vault || !fs.existsSync(baseDir)) return { upgraded: 0, failed: 0 };
+
+  const fileKey = Buffer.from(vault.fileKey);
+  const isCurrentVault = () => !vaultState.locked && !vaultState.rotating && vaultState.vault === vault;
+  let upgraded = 0;
+  let failed = 0;
+  try {
+    for (const relativePath of listFilesRecursive(baseDir)) {
+      if (!isCurrentVault()) break;
+      const fullPath = path.join(baseDir, relativePath);
+      if (relativePath.endsWith(ATTACHMENT_UPGRADE_SUFFIX)) {
+        // Left over from an interrupted pass; the original file is still intact.
+        fs.rmSync(fullPath, { force: true });
+        continue;
+      }
+      if (!relativePath.endsWith(".enc")) continue;
+
+      const stagedPath = `${fullPath}${ATTACHMENT_UPGRADE_SUFFIX}`;
+      const plainPath = path.join(tempRoot(), `${randomUUID()}.upgrade`);
+      try {
+        if (readAttachmentFormat(fullPath).version !== vaultCrypto.FILE_VERSION) continue;
+        ensureDir(tempRoot());
+        await decryptAttachmentFile(fullPath, plainPath, fileKey);
+        await encryptAttachmentFile(plainPath, stagedPath, fileKey);
+        if (!isCurrentVault() || !fs.existsSync(fullPath)) break;
+        replaceFile(stagedPath, fullPath);
+        upgraded += 1;
+      } catch (error) {
+        if (error?.code !== "ENOENT") {
+          failed += 1;
+          console.error("Failed to upgrade attachment encryption format", error);
+        }
+      } finally {
+        fs.rmSync(plainPath, { force: true });
+        fs.rmSync(stagedPath, { force: true });
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  } finally {
+    fileKey.fill(0);
+  }
+
+  if ((upgraded > 0 || failed > 0) && isCurrentVault()) {
+    recordAudit({
+      action: "attachments.encryption.upgrade",
+      entityType: "attachment",
+      details: { upgraded, failed, format: "EDNFILE2" },
+      persist: true
+    });
+  }
+  return { upgraded, failed };
+};
+
+const startLegacyAttachmentUpgrade = () => {
+  if (!ENCRYPTION_ENABLED || attachmentUpgradeState.running) return;
+  attachmentUpgradeState.running = upgradeLegacyAttachments()
+    .catch((error) => console.error("Attachment encryption upgrade failed", error))
+    .finally(() => {
+      attachmentUpgradeState.running = null;
+    });
+};
+
+const MAINTENANCE_REPAIR_CLASSES = ["integrity", "orphans", "missingFiles", "strayFiles", "undecryptable"];
+
+const MAINTENANCE_ORPHAN_TABLES = [
+  { key: "notes", table: "notes", entityType: "note", labelColumn: "title" },
+  { key: "todos", table: "todos", entityType: "todo", labelColumn: "text" },
+  { key: "timelineTasks", table: "timeline_tasks", entityType: "timeline_task", labelColumn: "phase" },
+  { key: "attachments", table: "attachments", entityType: "attachment", labelColumn: "originalFileName" },
+  { key: "custodians", table: "custodians", entityType: "custodian", labelColumn: "name" },
+  { key: "legalHolds", table: "legal_holds", entityType: "legal_hold", labelColumn: "name" },
+  { key: "legalHoldRecipients", table: "legal_hold_recipients", entityType: "legal_hold_recipient", labelColumn: "custodianId" },
+  { key: "dataSources", table: "data_sources", entityType: "data_source", labelColumn: "description" },
+  // Link tables have composite keys; rowid is stable between the check and the repair it feeds.
+  { key: "dataSourceCustody", table: "data_source_custody", entityType: "data_source_custody", labelColumn: "attachmentId", idColumn: "rowid" },
+  { key: "reviewMetrics", table: "review_metrics", entityType: "review_metric", labelColumn: "metricDate" },
+  { key: "productions", table: "productions", entityType: "production", labelColumn: "volumeName" },
+  { key: "productionDocuments", table: "production_documents", entityType: "production_document", labelColumn: "attachmentId", idColumn: "rowid" }
+];
+
+const describeAttachmentRow = (row) => ({
+  id: row.id,
+  projectId: row.projectId,
+  originalFileName: row.originalFileName,
+  storedRelativePath: row.storedRelativePath
+});
+
+const runIntegrityCheck = () => {
+  const messages = all("PRAGMA integrity_check").map((row) => String(Object.values(row)[0]));
+  const ok = messages.length === 1 && messages[0] === "ok";
+  return { ok, messages: ok ? [] : messages.slice(0, 100) };
+};
+
+const findOrphanRows = () => {
+  const orphans = {};
+  for (const { key, table, labelColumn, idColumn = "id" } of MAINTENANCE_ORPHAN_TABLES) {
+    orphans[key] = all(
+      `SELECT ${idColumn} AS id, projectId, ${labelColumn} AS label FROM ${table} WHERE projectId NOT IN (SELECT id FROM projects)`
+    );
+  }
+  return orphans;
+};
+
+const listAttachmentStoreFiles = () =>
+  listFilesRecursive(attachmentsRoot()).filter(
+    (relativePath) => !relativePath.endsWith(".tmp") && !relativePath.endsWith(ATTACHMENT_UPGRADE_SUFFIX)
+  );
+
+const referencedAttachmentPaths = () => {
+  const baseDir = attachmentsRoot();
+  return new Set(
+    all("SELECT storedRelativePath FROM attachments").map((row) => path.resolve(baseDir, String(row.storedRelativePath || "")))
+  );
+};
+
+// Cross-checks attachment rows against the file store. Content verification authenticates every
+// chunk with a private copy of the file key and stops if the vault changes underneath it.
+const inspectAttachmentStore = async (verifyContents) => {
+  const baseDir = attachmentsRoot();
+  const vault = vaultState.vault;
+  const fileKey = verifyContents ? Buffer.from(vault.fileKey) : null;
+  const missingFiles = [];
+  const undecryptable = [];
+  try {
+    for (const row of all("SELECT id, projectId, originalFileName, storedRelativePath FROM attachments")) {
+      const fullPath = path.resolve(baseDir, String(row.storedRelativePath || ""));
+      if (!row.storedRelativePath || !isContainedPath(fullPath, baseDir) || !fs.existsSync(fullPath)) {
+        missingFiles.push(describeAttachmentRow(row));
+        continue;
+      }
+      if (!fileKey || !fullPath.endsWith(".enc")) continue;
+      if (vaultState.locked || vaultState.vault !== vault) {
+        throw new Error("Vault locked during integrity check.");
+      }
+      try {
+        await verifyAttachmentFile(fullPath, fileKey);
+      } catch (error) {
+        undecryptable.push({ ...describeAttachmentRow(row), error: error?.message || String(error) });
+      }
+    }
+  } finally {
+    if (fileKey) fileKey.fill(0);
+  }
+
+  const referenced = referencedAttachmentPaths();
+  const strayFiles = listAttachmentStoreFiles()
+    .filter((relativePath) => !referenced.has(path.resolve(baseDir, relativePath)))
+    .map((relativePath) => ({
+      relativePath,
+      sizeBytes: fs.statSync(path.join(baseDir, relativePath)).size
+    }));
+  return { missingFiles, undecryptable, strayFiles };
+};
+
+const runMaintenanceCheck = async ({ verifyAttachments = true } = {}) => {
+  assertUnlocked();
+  if (vaultState.rotating) {
+    throw new Error("Wait for the key rotation to finish before checking the database.");
+  }
+  if (maintenanceState.running) {
+    throw new Error("A maintenance task is already running.");
+  }
+  maintenanceState.running = true;
+  try {
+    const integrity = runIntegrityCheck();
+    const orphans = findOrphanRows();
+    const attachments = await inspectAttachmentStore(Boolean(verifyAttachments));
+    const summary = {
+      integrityErrors: integrity.messages.length,
+      orphanRows: Object.values(orphans).reduce((total, rows) => total + rows.length, 0),
+      missingAttachmentFiles: attachments.missingFiles.length,
+      strayAttachmentFiles: attachments.strayFiles.length,
+      undecryptableAttachments: attachments.undecryptable.length
+    };
+    const report = {
+      id: randomUUID(),
+      checkedAt: nowIso(),
+      verifiedAttachmentContents: Boolean(verifyAttachments),
+      ok: Object.values(summary).every((count) => count === 0),
+      summary,
+      integrity,
+      orphans,
+      missingAttachmentFiles: attachments.missingFiles,
+      strayAttachmentFiles: attachments.strayFiles,
+      undecryptableAttachments: attachments.undecryptable
+    };
+    maintenanceState.lastReport = report;
+    recordAudit({
+      action: "maintenance.check",
+      entityType: "database",
+      details: { reportId: report.id, verifiedAttachmentContents: report.verifiedAttachmentContents, ...summary },
+      persist: true
+    });
+    return report;
+  } finally {
+    maintenanceState.running = false;
+  }
+};
+
+const quarantineAttachmentFile = (relativePath, quarantineDir) => {
+  const sourcePath = path.resolve(attachmentsRoot(), relativePath);
+  const targetPath = path.resolve(quarantineDir, "attachments", relativePath);
+  if (!isContainedPath(sourcePath, attachmentsRoot()) || !isContainedPath(targetPath, quarantineDir)) {
+    throw new Error("Refusing to quarantine a path outside the attachment store.");
+  }
+  ensureDir(path.dirname(targetPath));
+  fs.renameSync(sourcePath, targetPath);
+  return path.relative(app.getPath("userData"), targetPath);
+};
+
+const ensureRecoveredItemsProject = (state) => {
+  if (state.projectId) return state.projectId;
+  const id = randomUUID();
+  const createdAt = nowIso();
+  const today = createdAt.slice(0, 10);
+  run(
+    `INSERT INTO projects
+    (id, matterName, clientName, billingCode, startDate, productionDeadline, relativityUrl, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [id, `Recovered items (${today})`, "Unknown", "RECOVERED", today, today, null, createdAt, createdAt]
+  );
+  recordAudit({
+    action: "maintenance.repair.recovered_project",
+    entityType: "project",
+    entityId: id,
+    projectId: id
+  });
+  state.projectId = id;
+  return id;
+};
+
+// Applies the selected fixes for the findings in the referenced report. Each finding is re-checked
+// before it's touched and a pre-repair restore point is taken first. Orphans move to a "Recovered
+// items" project and bad or stray files move to quarantine/, but the attachment rows (with their
+// custody and production links) for missing or undecryptable files are deleted; only that restore
+// point and the audit entries keep them.
+const repairFromMaintenanceReport = async (reportId, classes) => {
+  assertUnlocked();
+  const report = maintenanceState.lastReport;
+  if (!report || report.id !== reportId) {
+    throw new Error("Run a fresh integrity check before repairing.");
+  }
+  const selected = Array.isArray(classes) ? MAINTENANCE_REPAIR_CLASSES.filter((name) => classes.includes(name)) : [];
+  if (!selected.length) {
+    throw new Error("Choose at least one kind of problem to repair.");
+  }
+  if (vaultState.rotating || maintenanceState.running) {
+    throw new Error("Another vault task is running. Try again when it finishes.");
+  }
+  maintenanceState.running = true;
+  try {
+    if (attachmentUpgradeState.running) {
+      await attachmentUpgradeState.running;
+    }
+    assertUnlocked();
+    const snapshot = createLocalSnapshot("pre-repair");
+    const quarantineDir = path.join(quarantineRoot(), snapshot.id);
+    const baseDir = attachmentsRoot();
+    const results = {};
+    const recovered = { projectId: null };
+
+    if (selected.includes("integrity") && !report.integrity.ok) {
+      db.exec("REINDEX");
+      const after = runIntegrityCheck();
+      results.integrity = { reindexed: true, ok: after.ok, remainingErrors: after.messages.length };
+      recordAudit({ action: "maintenance.repair.integrity", entityType: "database", details: results.integrity });
+    }
+
+    if (selected.includes("orphans")) {
+      let moved = 0;
+      for (const { key, table, entityType, idColumn = "id" } of MAINTENANCE_ORPHAN_TABLES) {
+        for (const orphan of report.orphans[key]) {
+          const stillOrphaned = get(
+            `SELECT ${idColumn} FROM ${table} WHERE ${idColumn} = ? AND projectId NOT IN (SELECT id FROM projects)`,
+            [orphan.id]
+          );
+          if (!stillOrphaned) continue;
+          const projectId = ensureRecoveredItemsProject(recovered);
+          run(`UPDATE ${table} SET projectId = ? WHERE ${idColumn} = ?`, [projectId, orphan.id]);
+          recordAudit({
+            action: "maintenance.repair.orphan",
+            entityType,
+            entityId: String(orphan.id),
+            projectId,
+            details: { table, previousProjectId: orphan.projectId, label: orphan.label }
+          });
+          moved += 1;
+        }
+      }
+      results.orphans = { moved, recoveredProjectId: recovered.projectId };
+    }
+
+    if (selected.includes("missingFiles")) {
+      let removed = 0;
+      for (const item of report.missingAttachmentFiles) {
+        const row = get("SELECT * FROM attachments WHERE id = ?", [item.id]);
+        if (!row) continue;
+        const fullPath = path.resolve(baseDir, String(row.storedRelativePath || ""));
+        if (row.storedRelativePath && isContainedPath(fullPath, baseDir) && fs.existsSync(fullPath)) continue;
+        run("DELETE FROM data_source_custody WHERE attachmentId = ?", [item.id]);
+        run("DELETE FROM production_documents WHERE attachmentId = ?", [item.id]);
+        run("DELETE FROM attachments WHERE id = ?", [item.id]);
+        recordAudit({
+          action: "maintenance.repair.missing_file",
+          entityType: "attachment",
+          entityId: item.id,
+          projectId: row.projectId,
+          details: { originalFileName: row.originalFileName, storedRelativePath: row.storedRelativePath }
+        });
+        removed += 1;
+      }
+      results.missingFiles = { removedRows: removed };
+    }
+
+    if (selected.includes("undecryptable")) {
+      let quarantined = 0;
+      for (const item of report.undecryptableAttachments) {
+        const row = get("SELECT * FROM attachments WHERE id = ?", [item.id]);
+        if (!row || row.storedRelativePath !== item.storedRelativePath) continue;
+        if (!fs.existsSync(path.resolve(baseDir, String(row.storedRelativePath)))) continue;
+        const quarantinedTo = quarantineAttachmentFile(String(row.storedRelativePath), quarantineDir);
+        run("DELETE FROM data_source_custody WHERE attachmentId = ?", [item.id]);
+        run("DELETE FROM production_documents WHERE attachmentId = ?", [item.id]);
+        run("DELETE FROM attachments WHERE id = ?", [item.id]);
+        recordAudit({
+          action: "maintenance.repair.undecryptable",
+          entityType: "attachment",
+          entityId: item.id,
+          projectId: row.projectId,
+          details: { originalFileName: row.originalFileName, quarantinedTo, error: item.error }
+        });
+        quarantined += 1;
+      }
+      results.undecryptable = { quarantined };
+    }
+
+    if (selected.includes("strayFiles")) {
+      const referenced = referencedAttachmentPaths();
+      let quarantined = 0;
+      for (const item of report.strayAttachmentFiles) {
+        const fullPath = path.resolve(baseDir, item.relativePath);
+        if (!isContainedPath(fullPath, baseDir) || !fs.existsSync(fullPath) || referenced.has(fullPath)) continue;
+        const quarantinedTo = quarantineAttachmentFile(item.relativePath, quarantineDir);
+        recordAudit({
+          action: "maintenance.repair.stray_file",
+          entityType: "attachment",
+          details: { relativePath: item.relativePath, sizeBytes: item.sizeBytes, quarantinedTo }
+        });
+        quarantined += 1;
+      }
+      results.strayFiles = { quarantined };
+    }
+
+    maintenanceState.lastReport = null;
+    recordAudit({
+      action: "maintenance.repair",
+      entityType: "database",
+      details: { reportId, classes: selected, snapshotId: snapshot.id, results }
+    });
+    flushDbNow();
+    return {
+      ok: true,
+      snapshotId: snapshot.id,
+      quarantinePath: fs.existsSync(quarantineDir) ? quarantineDir : null,
+      results
+    };
+  } finally {
+    maintenanceState.running = false;
+  }
+};
+
+// Opens the decrypted DB for the keys already in vaultState. If the schema can't be opened or
+// migrated, the keys are dropped so the vault stays fully locked.
+const openVaultDatabase = async (dbBytes, journalEnvelope = null) => {
+  try {
+    return await initDatabase(dbBytes, { journalEnvelope });
+  } catch (error) {
+    vaultCrypto.destroyKeyMaterial(vaultState.vault);
+    vaultState.vault = null;
+    throw error;
+  }
+};
+
+const unlockVault = async (passphrase) => {
+  if (!ENCRYPTION_ENABLED) {
+    if (!db) {
+      await initDatabase();
+    }
+    vaultState.locked = false;
+    return { ok: true, migratedDb: false, migratedAttachments: 0 };
+  }
+
+  if (typeof passphrase !== "string" || passphrase.length < MIN_PASSPHRASE_LEN) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LEN} characters.`);
+  }
+  assertUnlockAllowed();
+  tryRecoverInterruptedKeyRotation();
+
+  const plainPath = dbPlainPath();
+
+  let migratedDb = false;
+  let migratedKeyHierarchy = false;
+  let dbBytes = null;
+  let unlockSource = null;
+  let seededLegacyAttachments = 0;
+  // Header to write before the first v2 persist (new vault, v1 migration, or legacy root).
+  let pendingHeader = null;
+  // Sealed bytes of the DB file that opened, when it belongs to this vault's current root and key
+  // hierarchy; its journal is replayed on open.
+  let openedEnvelope = null;
+
+  const encryptedCandidates = listEncryptedDbCandidates();
+  if (encryptedCandidates.length > 0) {
+    let opened = null;
+    let openedHeader = null;
+    let lastError = null;
+    for (const candidate of encryptedCandidates) {
+      try {
+        const envelope = fs.readFileSync(candidate.dbPath);
+        const header = readVaultHeader(candidate.userDataRoot);
+        opened = vaultCrypto.openVaultFromDatabaseEnvelope(envelope, passphrase, header);
+        openedHeader = header;
+        unlockSource = candidate;
+        openedEnvelope = candidate.source === "current" ? envelope : null;
+        break;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    if (!opened) {
+      if (isDecryptAuthError(lastError)) {
+        recordUnlockFailure("passphrase");
+        throw new Error("Unable to unlock vault. The passphrase may be incorrect or the encrypted database may be corrupted.");
+      }
+      throw lastError || new Error("Unable to unlock vault.");
+    }
+    if (opened.version === vaultCrypto.DB_VERSION) {
+      // v1 vault: adopt its master key as the data key and wrap it with the same KDF cost.
+      vaultState.vault = vaultCrypto.adoptLegacyVaultKeys(opened.vault);
+      pendingHeader = vaultCrypto.createVaultHeader(vaultState.vault, passphrase, opened.vault.kdfParams);
+      openedEnvelope = null;
+      vaultCrypto.destroyKeyMaterial(opened.vault);
+      migratedKeyHierarchy = true;
+    } else {
+      vaultState.vault = opened.vault;
+      if (unlockSource.source === "legacy") {
+        pendingHeader = openedHeader;
+      }
+    }
+    dbBytes = opened.plaintext;
+  } else {
+    // First-time setup (or plaintext migration). Generate a fresh data key and wrap it with the passphrase.
+    vaultState.vault = vaultCrypto.generateVaultKeys();
+    pendingHeader = vaultCrypto.createVaultHeader(vaultState.vault, passphrase, vaultCrypto.DEFAULT_SCRYPT_PARAMS);
+    if (fs.existsSync(plainPath)) {
+      dbBytes = fs.readFileSync(plainPath);
+      migratedDb = true;
+    } else {
+      dbBytes = null;
+    }
+  }
+
+  const schemaMigration = await openVaultDatabase(dbBytes, openedEnvelope);
+  vaultState.locked = false;
+
+  if (unlockSource && unlockSource.source === "legacy") {
+    const sourceAttachmentsRoot = path.resolve(unlockSource.userDataRoot, "attachments");
+    const targetAttachmentsRoot = attachmentsRoot();
+    if (
+      sourceAttachmentsRoot !== targetAttachmentsRoot &&
+      fs.existsSync(sourceAttachmentsRoot) &&
+      countFilesRecursive(targetAttachmentsRoot) === 0
+    ) {
+      seededLegacyAttachments = copyDirRecursive(sourceAttachmentsRoot, targetAttachmentsRoot);
+    }
+  }
+
+  // The header must land first: until the v2 envelope replaces it, a v1 DB still unlocks (and re-migrates).
+  if (pendingHeader) {
+    writeVaultHeader(pendingHeader);
+  }
+
+  // Ensure we write an encrypted DB file immediately (creates it on first-run, or after plaintext migration).
+  flushDbNow();
+
+  // Verify the written file can be decrypted with the provided passphrase before deleting plaintext data.
+  try {
+    const written = fs.readFileSync(dbEncPath());
+    const verified = vaultCrypto.openVaultFromDatabaseEnvelope(written, passphrase, readVaultHeader());
+    vaultCrypto.destroyKeyMaterial(verified.vault);
+  } catch (error) {
+    console.error("Encrypted DB verification failed", error);
+    throw new Error("Encrypted database write verification failed.");
+  }
+
+  if (migratedDb) {
+    deletePlaintextDbAfterVerifiedMigration();
+  }
+
+  const migratedAttachments = await migrateAttachmentsToEncryptedIfNeeded();
+  const unlockSourceLabel = describeUnlockSource(unlockSource);
+  settleUnlockThrottle();
+  recordSchemaMigrationAudit(schemaMigration);
+  recordAudit({
+    action: "vault.unlock",
+    entityType: "vault",
+    details: {
+      migratedDb,
+      migratedKeyHierarchy,
+      migratedAttachments,
+      unlockSource: unlockSourceLabel,
+      seededLegacyAttachments,
+      replayedJournalRecords: openedEnvelope ? persistState.stats.lastReplay?.records || 0 : 0
+    },
+    persist: true
+  });
+  recordFinishedKeyRotationAudit();
+  loadAutoLockSettings();
+  scheduleAutoLock();
+  loadSnapshotScheduleSettings();
+  scheduleNextSnapshot();
+  scheduleDestinationBackup();
+  startLegacyAttachmentUpgrade();
+  return {
+    ok: true,
+    migratedDb,
+    migratedKeyHierarchy,
+    migratedAttachments,
+    unlockSource: unlockSourceLabel,
+    seededLegacyAttachments,
+    schemaVersion: schemaMigration.toVersion
+  };
+};
+
+const lockVault = (reason = "manual") => {
+  clearAutoLockTimer();
+  clearSnapshotTimer();
+  clearDestinationBackupTimer();
+  clearBundleMergeState();
+  if (!ENCRYPTION_ENABLED) {
+    try {
+      persistDb();
+    } catch {
+      // ignore
+    }
+    if (db) {
+      try {
+        db.close();
+      } catch {
+        // ignore
+      }
+    }
+    db = null;
+    vaultState.locked = false;
+    tryCleanupTempFiles();
+    return true;
+  }
+
+  // Persist/close while we still have the vault keys available. A key rotation whose swap is still
+  // pending must not write: the live DB file may already be sealed with the other key.
+  if (db && !vaultState.locked && reason !== "key-rotation") {
+    recordAudit({
+      action: "vault.lock",
+      entityType: "vault",
+      details: { reason },
+      persist: false
+    });
+    if (snapshotScheduleState.settings.snapshotOnLock && reason !== "quit" && reason !== "restore") {
+      try {
+        createAutomaticSnapshot("scheduled:lock");
+      } catch (error) {
+        console.error("Failed to create on-lock snapshot", error);
+      }
+    }
+    try {
+      flushDbNow();
+    } catch (error) {
+      // The journal still holds anything the full save missed; it is replayed on next unlock.
+      console.error("Failed to flush database before lock", error);
+    }
+  }
+  clearPersistState();
+  if (db) {
+    try {
+      db.close();
+    } catch {
+      // ignore
+    }
+  }
+  db = null;
+  if (vaultState.vault) {
+    vaultCrypto.destroyKeyMaterial(vaultState.vault);
+  }
+  vaultState.vault = null;
+  vaultState.locked = true;
+  vaultState.passphraseResetRequired = false;
+  tryCleanupTempFiles();
+  return true;
+};
+
+const describeAppSettings = () => ({
+  autoLockMinutes: autoLockState.minutes,
+  lockOnSleep: autoLockState.lockOnSleep,
+  ...snapshotScheduleState.settings
+});
+
+const clearAutoLockTimer = () => {
+  if (autoLockState.timer) {
+    clearTimeout(autoLockState.timer);
+    autoLockState.timer = null;
+  }
+};
+
+// Restarted on unlock and on every renderer activity ping.
+const scheduleAutoLock = () => {
+  clearAutoLockTimer();
+  if (!ENCRYPTION_ENABLED || vaultState.locked || autoLockState.minutes <= 0) return;
+  autoLockState.timer = setTimeout(() => {
+    autoLockState.timer = null;
+    autoLockVault("idle").catch((error) => console.error("Auto-lock failed", error));
+  }, autoLockState.minutes * 60 * 1000);
+};
+
+const loadAutoLockSettings = () => {
+  try {
+    autoLockState.minutes = sanitizeAutoLockMinutes(getAppSetting("autoLockMinutes", AUTO_LOCK_DEFAULT_MINUTES));
+  } catch {
+    autoLockState.minutes = AUTO_LOCK_DEFAULT_MINUTES;
+  }
+  autoLockState.lockOnSleep = getAppSetting("lockOnSleep", true) !== false;
+};
+
+const sanitizeAutoLockMinutes = (value) => {
+  const minutes = Number(value);
+  if (!Number.isInteger(minutes) || minutes < 0 || minutes > AUTO_LOCK_MAX_MINUTES) {
+    throw new Error(`Auto-lock timeout must be between 0 and ${AUTO_LOCK_MAX_MINUTES} minutes.`);
+  }
+  return minutes;
+};
+
+// Asks every renderer to flush pending autosaves; resolves when all reply or the timeout passes.
+const requestRendererFlush = () => {
+  const windows = BrowserWindow.getAllWindows().filter((win) => !win.isDestroyed());
+  if (windows.length === 0) return Promise.resolve();
+  const requestId = randomUUID();
+  return new Promise((resolve) => {
+    let remaining = windows.length;
+    const finish = () => {
+      clearTimeout(timeout);
+      autoLockState.pendingFlushes.delete(requestId);
+      resolve();
+    };
+    const timeout = setTimeout(finish, AUTO_LOCK_FLUSH_TIMEOUT_MS);
+    autoLockState.pendingFlushes.set(requestId, () => {
+      remaining -= 1;
+      if (remaining <= 0) finish();
+    });
+    for (const win of windows) {
+      win.webContents.send("vault:flushRequest", requestId);
+    }
+  });
+};
+
+const autoLockVault = async (reason) => {
+  if (!ENCRYPTION_ENABLED || vaultState.locked || !db) return;
+  if (vaultState.rotating) {
+    // Never pull keys out from under a re-encryption; try again after the next interval.
+    scheduleAutoLock();
+    return;
+  }
+  clearAutoLockTimer();
+  await requestRendererFlush();
+  if (vaultState.locked) return;
+  lockVault(reason);
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.isDestroyed()) {
+      win.webContents.send("vault:locked", { reason });
+    }
+  }
+};
+
+// Data key rotation is staged next to the live files and only swapped in once
+// the journal says "commit". A crash before that point discards the staging
+// area; a crash after it rolls the swap forward, so the header, DB and
+// attachments always share one key.
+const writeKeyRotationJournal = (phase) => {
+  const journalPath = keyRotationJournalPath();
+  const tmpPath = `${journalPath}.tmp`;
+  writeJsonFile(tmpPath, { phase, updatedAt: nowIso() });
+  replaceFile(tmpPath, journalPath);
+};
+
+const discardKeyRotationStaging = () => {
+  fs.rmSync(keyRotationStagingRoot(), { recursive: true, force: true });
+  fs.rmSync(keyRotationDbPath(), { force: true });
+  fs.rmSync(keyRotationHeaderPath(), { force: true });
+  fs.rmSync(keyRotationJournalPath(), { force: true });
+};
+
+const commitKeyRotationStaging = () => {
+  const stagingRoot = keyRotationStagingRoot();
+  const liveRoot = attachmentsRoot();
+  const retiredRoot = keyRotationRetiredRoot();
+  if (fs.existsSync(stagingRoot)) {
+    if (fs.existsSync(liveRoot)) {
+      fs.rmSync(retiredRoot, { recursive: true, force: true });
+      fs.renameSync(liveRoot, retiredRoot);
+    }
+    fs.renameSync(stagingRoot, liveRoot);
+  }
+
+  const stagedDbPath = keyRotationDbPath();
+  if (fs.existsSync(stagedDbPath)) {
+    // The .tmp and .bak copies are still sealed with the old key; never leave them behind as unlock candidates.
+    fs.rmSync(`${dbEncPath()}.tmp`, { force: true });
+    fs.rmSync(`${dbEncPath()}.bak`, { force: true });
+    replaceFile(stagedDbPath, dbEncPath());
+    // Any journal extends the old file under the old key; the staged DB already contains its changes.
+    fs.rmSync(dbJournalPath(), { force: true });
+  }
+  if (fs.existsSync(keyRotationHeaderPath())) {
+    replaceFile(keyRotationHeaderPath(), vaultHeaderPath());
+  }
+
+  fs.rmSync(retiredRoot, { recursive: true, force: true });
+  fs.rmSync(keyRotationJournalPath(), { force: true });
+};
+
+// Runs at launch and again before each unlock, so a swap that failed mid-session finishes without a restart.
+const tryRecoverInterruptedKeyRotation = () => {
+  try {
+    const recovered = recoverInterruptedKeyRotation();
+    if (recovered) {
+      console.warn(`Recovered interrupted passphrase change (${recovered}).`);
+      if (recovered === "committed") vaultState.finishedKeyRotation = true;
+    }
+    return recovered;
+  } catch (error) {
+    console.error("Failed to recover interrupted passphrase change", error);
+    return null;
+  }
+};
+
+const recordFinishedKeyRotationAudit = () => {
+  if (!vaultState.finishedKeyRotation) return;
+  vaultState.finishedKeyRotation = false;
+  recordAudit({
+    action: "vault.passphrase.change",
+    entityType: "vault",
+    details: { rotatedDataKey: true, finishedOnUnlock: true },
+    persist: true
+  });
+};
+
+const recoverInterruptedKeyRotation = () => {
+  const journal = readJsonFile(keyRotationJournalPath());
+  if (journal?.phase === "commit") {
+    commitKeyRotationStaging();
+    return "committed";
+  }
+  if (
+    journal ||
+    fs.existsSync(keyRotationStagingRoot()) ||
+    fs.existsSync(keyRotationDbPath()) ||
+    fs.existsSync(keyRotationHeaderPath())
+  ) {
+    discardKeyRotationStaging();
+    return "discarded";
+  }
+  return null;
+};
+
+// Re-encrypts every attachment and the DB under a brand-new data key, staged
+// behind the key rotation journal. Returns swapPending when the staged files are
+// committed but couldn't be swapped in yet; the vault is then locked unsaved.
+const rotateVaultDataKey = async (nextHeader, nextVault, nextPassphrase) => {
+  if (backupArchiveState.writing > 0) {
+    vaultCrypto.destroyKeyMaterial(nextVault);
+    throw new Error("A backup archive is being written. Change the passphrase when it finishes.");
+  }
+  const currentVault = vaultState.vault;
+  let reencryptedAttachments = 0;
+  flushDbNow();
+  discardKeyRotationStaging();
+  vaultState.rotating = true;
+  try {
+    // Let a background format upgrade notice the rotation and stop, and let adds, imports and merges
+    // that were already writing finish, before files are staged.
+    await attachmentUpgradeState.running;
+    await waitForAttachmentWrites();
+    writeKeyRotationJournal("prepare");
+
+    const liveRoot = attachmentsRoot();
+    const stagingRoot = keyRotationStagingRoot();
+    ensureDir(stagingRoot);
+    ensureDir(tempRoot());
+    for (const relativePath of listFilesRecursive(liveRoot)) {
+      if (relativePath.endsWith(".tmp")) continue;
+      const sourcePath = path.join(liveRoot, relativePath);
+      const stagedPath = path.join(stagingRoot, relativePath);
+      await fsPromises.mkdir(path.dirname(stagedPath), { recursive: true });
+      if (!relativePath.endsWith(".enc")) {
+        fs.copyFileSync(sourcePath, stagedPath);
+        continue;
+      }
+      const tempPath = path.resolve(tempRoot(), `${randomUUID()}.tmp`);
+      try {
+        await decryptAttachmentFile(sourcePath, tempPath, currentVault.fileKey);
+        await encryptAttachmentFile(tempPath, stagedPath, nextVault.fileKey);
+      } finally {
+        fs.rmSync(tempPath, { force: true });
+      }
+      reencryptedAttachments += 1;
+    }
+
+    assertNoOpenTransaction();
+    const envelope = vaultCrypto.sealDatabaseBytes(Buffer.from(db.export()), nextVault);
+    const verified = vaultCrypto.openVaultFromDatabaseEnvelope(envelope, nextPassphrase, nextHeader);
+    vaultCrypto.destroyKeyMaterial(verified.vault);
+    fs.writeFileSync(keyRotationDbPath(), envelope);
+    writeJsonFile(keyRotationHeaderPath(), nextHeader);
+
+    writeKeyRotationJournal("commit");
+  } catch (error) {
+    vaultState.rotating = false;
+    vaultCrypto.destroyKeyMaterial(nextVault);
+    try {
+      discardKeyRotationStaging();
+    } catch (cleanupError) {
+      console.error("Failed to discard key rotation staging", cleanupError);
+    }
+    throw error;
+  }
+
+  // Past the commit point the staged files are authoritative. The session only switches keys once
+  // they are live; if the swap fails part-way, neither key matches every live file, so the vault
+  // locks without saving (the staged DB already holds every change) and the next unlock finishes it.
+  try {
+    commitKeyRotationStaging();
+  } catch (error) {
+    console.error("Failed to swap in re-encrypted files; the next unlock finishes it", error);
+    vaultCrypto.destroyKeyMaterial(nextVault);
+    vaultState.rotating = false;
+    lockVault("key-rotation");
+    return { reencryptedAttachments, swapPending: true };
+  }
+  vaultState.vault = nextVault;
+  vaultCrypto.destroyKeyMaterial(currentVault);
+  try {
+    resetDbJournal(hashDbEnvelope(fs.readFileSync(dbEncPath())));
+  } finally {
+    vaultState.rotating = false;
+  }
+  return { reencryptedAttachments, swapPending: false };
+};
+
+const assertVaultPassphrase = (header, passphrase) => {
+  let matches = false;
+  try {
+    const check = vaultCrypto.unwrapVaultHeader(header, passphrase);
+    matches = check.keyId.equals(vaultState.vault.keyId) && crypto.timingSafeEqual(check.dbKey, vaultState.vault.dbKey);
+    vaultCrypto.destroyKeyMaterial(check);
+  } catch (error) {
+    if (!isDecryptAuthError(error)) throw error;
+  }
+  if (!matches) {
+    throw new Error("Current passphrase is incorrect.");
+  }
+};
+
+const changeVaultPassphrase = async (currentPassphrase, nextPassphrase, options = {}) => {
+  assertUnlocked();
+  if (typeof nextPassphrase !== "string" || nextPassphrase.length < MIN_PASSPHRASE_LEN) {
+    throw new Error(`New passphrase must be at least ${MIN_PASSPHRASE_LEN} characters.`);
+  }
+  if (currentPassphrase === nextPassphrase) {
+    throw new Error("New passphrase must be different from the current passphrase.");
+  }
+
+  const header = readVaultHeader();
+  assertVaultPassphrase(header, currentPassphrase);
+
+  const kdfParams = vaultCrypto.getKeySlotParams(header);
+  // Rewrap is the default and never touches attachments. Rotation is the explicit "revoke access" path:
+  // a rewrapped header leaves the old data key in every snapshot and backup header.
+  const rotateDataKey = options?.rotateDataKey === true;
+  // A new data key orphans the recovery slot, which still wraps the old one.
+  const recoveryKeyRemoved = rotateDataKey && vaultCrypto.hasKeySlot(header, "recovery");
+  let reencryptedAttachments = 0;
+  if (rotateDataKey) {
+    const nextVault = vaultCrypto.generateVaultKeys();
+    const nextHeader = vaultCrypto.createVaultHeader(nextVault, nextPassphrase, kdfParams);
+    const rotation = await rotateVaultDataKey(nextHeader, nextVault, nextPassphrase);
+    reencryptedAttachments = rotation.reencryptedAttachments;
+    if (rotation.swapPending) {
+      // The vault is locked; the change is audited by the unlock that finishes the swap.
+      return { ok: true, rotatedDataKey: true, reencryptedAttachments, recoveryKeyRemoved, swapPending: true };
+    }
+  } else {
+    // Only the passphrase slot changes; the data key, DB and attachments stay as they are.
+    const nextHeader = vaultCrypto.withKeySlot(
+      header,
+      vaultCrypto.wrapKeySlot(vaultState.vault, "passphrase", nextPassphrase, kdfParams)
+    );
+    writeVaultHeader(nextHeader);
+  }
+
+  recordAudit({
+    action: "vault.passphrase.change",
+    entityType: "vault",
+    details: { rotatedDataKey: rotateDataKey, reencryptedAttachments, recoveryKeyRemoved },
+    persist: true
+  });
+  return { ok: true, rotatedDataKey: rotateDataKey, reencryptedAttachments, recoveryKeyRemoved };
+};
+
+const describeKdfParams = (params) => {
+  const profile = vaultCrypto.SCRYPT_PROFILES.find(
+    (item) => item.N === params.N && item.r === params.r && item.p === params.p
+  );
+  return { ...params, memoryBytes: vaultCrypto.scryptMemoryBytes(params), profileId: profile ? profile.id : null };
+};
+
+const bundleKdfParams = () => {
+  try {
+    return vaultCrypto.getKeySlotParams(readVaultHeader());
+  } catch {
+    return vaultCrypto.DEFAULT_SCRYPT_PARAMS;
+  }
+};
+
+// Seals a finished bundle ZIP into an EDNBNDL2 envelope one chunk at a time.
+const sealBundleStreamFile = async (sourcePath, destPath, passphrase) => {
+  const stream = vaultCrypto.createBundleStream(passphrase, bundleKdfParams());
+  const input = await fsPromises.open(sourcePath, "r");
+  let output = null;
+  try {
+    output = await fsPromises.open(destPath, "wx", 0o600);
+    const { size } = await input.stat();
+    const chunkCount = Math.max(1, Math.ceil(size / stream.chunkSize));
+    const buffer = Buffer.alloc(stream.chunkSize);
+    await output.write(stream.header);
+    for (let index = 0; index < chunkCount; index += 1) {
+      const expected = Math.min(stream.chunkSize, size - index * stream.chunkSize);
+      const { bytesRead } = await input.read(buffer, 0, expected, index * stream.chunkSize);
+      if (bytesRead !== expected) {
+        throw new Error("Bundle changed while it was being encrypted.");
+      }
+      const isFinal = index === chunkCount - 1;
+      await output.write(vaultCrypto.sealFileChunk(stream.key, stream.header, index, isFinal, buffer.subarray(0, bytesRead)));
+    }
+    await output.sync();
+  } finally {
+    stream.key.fill(0);
+    if (output) await output.close().catch(() => undefined);
+    await input.close().catch(() => undefined);
+  }
+};
+
+// Opens an EDNBNDL2 envelope into a plaintext ZIP. A failure on the first chunk means the passphrase is
+// wrong (reported as an authentication error); later failures mean the file was damaged or altered.
+const openBundleStreamFile = async (sourcePath, destPath, passphrase) => {
+  const input = await fsPromises.open(sourcePath, "r");
+  let output = null;
+  let stream = null;
+  try {
+    const { size } = await input.stat();
+    const prefix = Buffer.alloc(vaultCrypto.BUNDLE_STREAM_HEADER_LEN);
+    const { bytesRead: prefixRead } = await input.read(prefix, 0, prefix.length, 0);
+    stream = vaultCrypto.openBundleStream(prefix.subarray(0, prefixRead), passphrase);
+    if (size < stream.headerLen + vaultCrypto.TAG_LEN) {
+      throw new Error("Encrypted bundle is corrupted (too small).");
+    }
+    output = await fsPromises.open(destPath, "wx", 0o600);
+    const segmentLen = stream.chunkSize + vaultCrypto.TAG_LEN;
+    const buffer = Buffer.alloc(segmentLen);
+    let position = stream.headerLen;
+    for (let index = 0; position < size; index += 1) {
+      const length = Math.min(segmentLen, size - position);
+      const { bytesRead } = await input.read(buffer, 0, length, position);
+      if (bytesRead !== length) {
+        throw new Error("Encrypted bundle is corrupted (short read).");
+      }
+      const isFinal = position + length === size;
+      let plaintext;
+      try {
+        plaintext = vaultCrypto.openFileChunk(stream.key, stream.header, index, isFinal, buffer.subarray(0, length));
+      } catch (error) {
+        if (index === 0) throw error;
+        throw new Error("Encrypted bundle is corrupted or was modified.");
+      }
+      await output.write(plaintext);
+      position += length;
+    }
+  } finally {
+    if (stream) stream.key.fill(0);
+    if (output) await output.close().catch(() => undefined);
+    await input.close().catch(() => undefined);
+  }
+};
+
+const calibrateVaultKdf = async () => {
+  assertUnlocked();
+  const current = describeKdfParams(vaultCrypto.getKeySlotParams(readVaultHeader()));
+  const profiles = await vaultCrypto.benchmarkScryptProfiles();
+  const recommended = vaultCrypto.recommendScryptProfile(profiles, KDF_TARGET_UNLOCK_MS);
+  return { current, profiles, recommendedId: recommended ? recommended.id : null, targetMs: KDF_TARGET_UNLOCK_MS };
+};
+
+// Only the passphrase slot is rewrapped; the recovery code's entropy makes its KDF cost irrelevant.
+// Less total work (N·r·p) or less memory per derivation makes offline guessing cheaper.
+const isWeakerKdf = (to, from) =>
+  to.N * to.r * to.p < from.N * from.r * from.p || vaultCrypto.scryptMemoryBytes(to) < vaultCrypto.scryptMemoryBytes(from);
+
+const upgradeVaultKdf = (passphrase, profileId, options = {}) => {
+  assertUnlocked();
+  const profile = vaultCrypto.SCRYPT_PROFILES.find((item) => item.id === profileId);
+  if (!profile) {
+    throw new Error("Unknown key derivation profile.");
+  }
+  const header = readVaultHeader();
+  assertVaultPassphrase(header, passphrase);
+
+  const from = vaultCrypto.getKeySlotParams(header);
+  const to = { N: profile.N, r: profile.r, p: profile.p };
+  if (from.N === to.N && from.r === to.r && from.p === to.p) {
+    throw new Error("Vault already uses these key derivation parameters.");
+  }
+  const downgrade = isWeakerKdf(to, from);
+  if (downgrade && options?.allowDowngrade !== true) {
+    throw new Error("This profile is weaker than the current one. Confirm the downgrade to apply it.");
+  }
+  writeVaultHeader(vaultCrypto.withKeySlot(header, vaultCrypto.wrapKeySlot(vaultState.vault, "passphrase", passphrase, to)));
+
+  recordAudit({
+    action: "vault.kdf.upgrade",
+    entityType: "vault",
+    details: { from, to, profileId: profile.id, downgrade },
+    persist: true
+  });
+  return { ok: true, kdf: describeKdfParams(to), downgrade };
+};
+
+// Recovery keys are a second slot wrapping the same data key. Using one unlocks
+// the vault in a restricted state; setting a new passphrase consumes the code.
+const createRecoveryKey = (passphrase) => {
+  assertUnlocked();
+  const header = readVaultHeader();
+  assertVaultPassphrase(header, passphrase);
+
+  const recoveryCode = vaultCrypto.generateRecoveryCode();
+  const replacedExisting = vaultCrypto.hasKeySlot(header, "recovery");
+  const slot = vaultCrypto.wrapKeySlot(
+    vaultState.vault,
+    "recovery",
+    vaultCrypto.normalizeRecoveryCode(recoveryCode),
+    vaultCrypto.DEFAULT_SCRYPT_PARAMS
+  );
+  writeVaultHeader(vaultCrypto.withKeySlot(header, slot));
+
+  recordAudit({
+    action: "vault.recovery_key.create",
+    entityType: "vault",
+    details: { replacedExisting },
+    persist: true
+  });
+  return { ok: true, recoveryCode, replacedExisting };
+};
+
+const unlockVaultWithRecoveryKey = async (recoveryCode) => {
+  if (!ENCRYPTION_ENABLED) {
+    throw new Error("Recovery keys are not available when encryption is disabled.");
+  }
+  if (!vaultCrypto.isRecoveryCodeWellFormed(recoveryCode)) {
+    throw new Error("Recovery key should be 24 letters and digits.");
+  }
+  assertUnlockAllowed();
+  tryRecoverInterruptedKeyRotation();
+  const header = readVaultHeader();
+  if (!vaultCrypto.hasKeySlot(header, "recovery")) {
+    throw new Error("No recovery key has been set up for this vault.");
+  }
+
+  let vault = null;
+  try {
+    vault = vaultCrypto.unwrapVaultHeader(header, vaultCrypto.normalizeRecoveryCode(recoveryCode), "recovery");
+  } catch (error) {
+    if (isDecryptAuthError(error)) {
+      recordUnlockFailure("recovery_key");
+      throw new Error("Recovery key is incorrect.");
+    }
+    throw error;
+  }
+
+  let dbBytes = null;
+  let lastError = null;
+  let openedEnvelope = null;
+  for (const candidatePath of [dbEncPath(), `${dbEncPath()}.tmp`, `${dbEncPath()}.bak`]) {
+    if (!fs.existsSync(candidatePath)) continue;
+    try {
+      const envelope = fs.readFileSync(candidatePath);
+      dbBytes = vaultCrypto.openDatabaseEnvelope(envelope, vault);
+      openedEnvelope = envelope;
+      break;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  if (!dbBytes) {
+    vaultCrypto.destroyKeyMaterial(vault);
+    throw lastError || new Error("No encrypted database found.");
+  }
+
+  vaultState.vault = vault;
+  const schemaMigration = await openVaultDatabase(dbBytes, openedEnvelope);
+  vaultState.locked = false;
+  vaultState.passphraseResetRequired = true;
+
+  settleUnlockThrottle();
+  recordSchemaMigrationAudit(schemaMigration);
+  recordAudit({
+    action: "vault.recovery_key.use",
+    entityType: "vault",
+    persist: true
+  });
+  recordFinishedKeyRotationAudit();
+  loadAutoLockSettings();
+  scheduleAutoLock();
+  loadSnapshotScheduleSettings();
+  scheduleNextSnapshot();
+  scheduleDestinationBackup();
+  startLegacyAttachmentUpgrade();
+  return { ok: true, passphraseResetRequired: true };
+};
+
+const completeRecoveryPassphraseReset = (nextPassphrase) => {
+  if (vaultState.locked || !vaultState.vault || !vaultState.passphraseResetRequired) {
+    throw new Error("No vault recovery is in progress.");
+  }
+  if (typeof nextPassphrase !== "string" || nextPassphrase.length < MIN_PASSPHRASE_LEN) {
+    throw new Error(`New passphrase must be at least ${MIN_PASSPHRASE_LEN} characters.`);
+  }
+
+  const header = readVaultHeader();
+  const slot = vaultCrypto.wrapKeySlot(vaultState.vault, "passphrase", nextPassphrase, vaultCrypto.getKeySlotParams(header));
+  writeVaultHeader(vaultCrypto.withoutKeySlot(vaultCrypto.withKeySlot(header, slot), "recovery"));
+  vaultState.passphraseResetRequired = false;
+
+  recordAudit({
+    action: "vault.passphrase.reset",
+    entityType: "vault",
+    details: { via: "recovery_key", recoveryKeyConsumed: true },
+    persist: true
+  });
+  return { ok: true };
+};
+
+const CUSTODIAN_STATUS_LABELS = {
+  identified: "Identified",
+  on_hold: "On hold",
+  released: "Released",
+  departed: "Departed"
+};
+
+const listProjectCustodians = (projectId) =>
+  all("SELECT * FROM custodians WHERE projectId = ? ORDER BY name COLLATE NOCASE ASC, createdAt ASC", [projectId]);
+
+// One line per custodian for the notes exports, e.g. "Jane Roe (CFO, Finance) · jane@x.com · On hold · ...".
+const describeCustodianForExport = (custodian) => {
+  const role = [custodian.title, custodian.department].filter(Boolean).join(", ");
+  const parts = [role ? `${custodian.name} (${role})` : custodian.name];
+  if (custodian.email) parts.push(custodian.email);
+  parts.push(CUSTODIAN_STATUS_LABELS[custodian.status] || custodian.status);
+  if (custodian.holdNoticeSentAt) parts.push(`Hold notice sent ${custodian.holdNoticeSentAt}`);
+  if (custodian.holdAcknowledgedAt) parts.push(`acknowledged ${custodian.holdAcknowledgedAt}`);
+  return parts.join(" · ");
+};
+
+const buildNotesMarkdown = (project, notes, custodians = []) => {
+  const lines = [];
+  lines.push(`# ${project.matterName}`);
+  lines.push("");
+  lines.push(`Client: ${project.clientName}`);
+  lines.push(`Billing: ${project.billingCode}`);
+  if (project.relativityUrl) {
+    lines.push(`Relativity: ${project.relativityUrl}`);
+  }
+  lines.push("");
+
+  if (custodians.length) {
+    lines.push("## Custodians");
+    lines.push("");
+    custodians.forEach((custodian) => lines.push(`- ${describeCustodianForExport(custodian)}`));
+    lines.push("");
+  }
+
+  notes.forEach((note) => {
+    lines.push(`## ${note.title}`);
+    lines.push(`Date: ${note.noteDate}`);
+    lines.push("");
+    const contentLines = String(note.contentMarkdown || "").split("\n");
+    contentLines.forEach((line) => lines.push(line));
+    lines.push("");
+  });
+
+  return `${lines.join("\n")}\n`;
+};
+
+// Plain text to Word paragraphs: "-", "•" or "*" lines become bullets, nested by two-space indents.
+const buildDocxTextParagraphs = (text) =>
+  String(text || "")
+    .split("\n")
+    .map((line) => {
+      if (!line.trim()) {
+        return new Paragraph({ text: "" });
+      }
+      const trimmed = line.replace(/^\s+/, "");
+      const indentLevel = Math.floor((line.length - trimmed.length) / 2);
+      if (/^[-•*]\s+/.test(trimmed)) {
+        return new Paragraph({
+          text: trimmed.replace(/^[-•*]\s+/, ""),
+          bullet: { level: Math.min(indentLevel, 4) }
+        });
+      }
+      return new Paragraph({
+        text: trimmed,
+        spacing: { after: 120 }
+      });
+    });
+
+const DEFAULT_LEGAL_HOLD_NOTICE_TEMPLATE = `To: {{recipientName}}
+Matter: {{matterName}} ({{clientName}}, billing {{billingCode}})
+Date issued: {{issuedAt}}
+
+You are receiving this notice because you may have documents or data relevant to the matter above. Effective immediately, preserve all potentially relevant information, in any form and wherever it is stored, until you are told in writing that this hold is released.
+
+This includes:
+- Email, chat and text messages
+- Documents and files on your computer, network shares and cloud storage
+- Paper records, notebooks and calendars
+- Mobile devices and removable media
+
+Do not delete, alter or discard any of this information, and suspend any automatic deletion you control.
+
+Please confirm that you have read and will comply with this notice by {{acknowledgeBy}}.
+`;
+
+const LEGAL_HOLD_TEMPLATE_FIELD_REGEX = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+// Fills {{field}} placeholders from the project, hold and recipient; unknown placeholders are left as typed.
+const fillLegalHoldTemplate = (template, project, hold, recipient) => {
+  const fields = {
+    matterName: project.matterName,
+    clientName: project.clientName,
+    billingCode: project.billingCode,
+    startDate: project.startDate,
+    productionDeadline: project.productionDeadline,
+    relativityUrl: project.relativityUrl || "",
+    holdName: hold.name,
+    issuedAt: hold.issuedAt,
+    acknowledgeBy: hold.acknowledgeBy,
+    recipientName: recipient?.custodianName || "[Recipient]",
+    recipientTitle: recipient?.custodianTitle || "",
+    recipientDepartment: recipient?.custodianDepartment || "",
+    recipientEmail: recipient?.custodianEmail || "",
+    today: formatLocalIsoDate(new Date())
+  };
+  return template.replace(LEGAL_HOLD_TEMPLATE_FIELD_REGEX, (match, field) =>
+    Object.prototype.hasOwnProperty.call(fields, field) ? String(fields[field] ?? "") : match
+  );
+};
+
+// One notice per recipient, each starting on a new page; a hold without recipients gets one blank notice.
+const buildLegalHoldNoticeDocument = (project, hold) => {
+  const template = hold.noticeTemplate || DEFAULT_LEGAL_HOLD_NOTICE_TEMPLATE;
+  const recipients = hold.recipients.length ? hold.recipients : [null];
+  const paragraphs = [];
+  recipients.forEach((recipient, index) => {
+    paragraphs.push(
+      new Paragraph({
+        text: "Legal Hold Notice",
+        heading: HeadingLevel.TITLE,
+        pageBreakBefore: index > 0
+      })
+    );
+    paragraphs.push(
+      new Paragraph({
+        text: hold.name,
+        heading: HeadingLevel.HEADING_1,
+        spacing: { after: 200 }
+      })
+    );
+    paragraphs.push(...buildDocxTextParagraphs(fillLegalHoldTemplate(template, project, hold, recipient)));
+  });
+  return new Document({
+    sections: [
+      {
+        properties: {},
+        children: paragraphs
+      }
+    ]
+  });
+};
+
+const escapeHtml = (value) =>
+  String(value || "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const renderMarkdownLineAsHtml = (line) => {
+  const safe = escapeHtml(line);
+  if (!safe.trim()) return "<p class=\"note-empty\"></p>";
+  const heading = safe.match(/^(#{1,4})\s+(.+)$/);
+  if (heading) {
+    const level = Math.max(1, Math.min(4, heading[1].length));
+    return `<h${level}>${heading[2]}</h${level}>`;
+  }
+  const bullet = safe.match(/^\s*[-*•]\s+(.+)$/);
+  if (bullet) {
+    return `<li>${bullet[1]}</li>`;
+  }
+  return `<p>${safe}</p>`;
+};
+
+const buildNotesPdfHtml = (project, notes, custodians = []) => {
+  const noteSections = notes
+    .map((note) => {
+      const lines = String(note.contentMarkdown || "").split("\n");
+      const renderedLines = [];
+      let inList = false;
+      for (const line of lines) {
+        const candidate = renderMarkdownLineAsHtml(line);
+        if (candidate.startsWith("<li>")) {
+          if (!inList) {
+            renderedLines.push("<ul>");
+            inList = true;
+          }
+          renderedLines.push(candidate);
+          continue;
+        }
+        if (inList) {
+          renderedLines.push("</ul>");
+          inList = false;
+        }
+        renderedLines.push(candidate);
+      }
+      if (inList) renderedLines.push("</ul>");
+      return `
+        <section class="note-block">
+          <h2>${escapeHtml(note.title)}</h2>
+          <p class="note-date">Date: ${escapeHtml(note.noteDate)}</p>
+          ${renderedLines.join("\n")}
+        </section>
+      `;
+    })
+    .join("\n");
+
+  const custodianSection = custodians.length
+    ? `
+        <section class="note-block">
+          <h2>Custodians</h2>
+          <ul>
+            ${custodians.map((custodian) => `<li>${escapeHtml(describeCustodianForExport(custodian))}</li>`).join("\n")}
+          </ul>
+        </section>
+      `
+    : "";
+
+  const relativityRow = project.relativityUrl
+    ? `<p class="meta">Relativity: ${escapeHtml(project.relativityUrl)}</p>`
+    : "";
+
+  return `
+  <!doctype html>
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <title>${escapeHtml(project.matterName)} Notes</title>
+      <style>
+        :root { color-scheme: light; }
+        body {
+          font-family: "Segoe UI", "Avenir Next", sans-serif;
           color: #111827;
           margin: 28px 34px;
           line-height: 1.45;
@@ -1533,55 +5984,1121 @@ const buildNotesPdfHtml = (project, notes) => {
           margin: 0 0 6px;
           white-space: pre-wrap;
         }
-        .note-empty { min-height: 8px; margin: 0 0 4px; }
-      </style>
-    </head>
-    <body>
-      <header>
-        <h1>${escapeHtml(project.matterName)}</h1>
-        <p class="meta">${escapeHtml(project.clientName)} · Billing ${escapeHtml(project.billingCode)}</p>
-        ${relativityRow}
-      </header>
-      ${noteSections || "<p>No notes available.</p>"}
-    </body>
-  </html>
-  `;
+        .note-empty { min-height: 8px; margin: 0 0 4px; }
+      </style>
+    </head>
+    <body>
+      <header>
+        <h1>${escapeHtml(project.matterName)}</h1>
+        <p class="meta">${escapeHtml(project.clientName)} · Billing ${escapeHtml(project.billingCode)}</p>
+        ${relativityRow}
+      </header>
+      ${custodianSection}
+      ${noteSections || "<p>No notes available.</p>"}
+    </body>
+  </html>
+  `;
+};
+
+// Shared by the production log exports; CSV keeps begin and end Bates in separate columns.
+const PRODUCTION_LOG_COLUMNS = ["Volume", "Bates Range", "Documents", "Pages", "Produced", "Recipient", "Format", "Delivery", "Linked Documents"];
+
+const PRODUCTION_CSV_COLUMNS = [
+  "Volume",
+  "Bates Begin",
+  "Bates End",
+  "Documents",
+  "Pages",
+  "Produced",
+  "Recipient",
+  "Format",
+  "Delivery",
+  "Linked Documents",
+  "Warnings"
+];
+
+const buildProductionLogRow = (production) => [
+  production.volumeName,
+  formatBatesRange(production),
+  production.documentCount === null ? "" : production.documentCount.toLocaleString("en-US"),
+  production.pageCount === null ? "" : production.pageCount.toLocaleString("en-US"),
+  production.producedAt,
+  production.recipient || "",
+  PRODUCTION_FORMAT_LABELS[production.format] || production.format,
+  production.deliveryMethod || "",
+  production.documents.map((document) => document.originalFileName).join(", ")
+];
+
+const summarizeProductionLog = (productions) => {
+  const sum = (key) => productions.reduce((total, production) => total + Number(production[key] || 0), 0);
+  return `${productions.length} volumes · ${sum("documentCount").toLocaleString("en-US")} documents · ${sum("pageCount").toLocaleString("en-US")} pages`;
+};
+
+const buildProductionLogDocument = (project, productions) => {
+  const cell = (text, bold = false) =>
+    new TableCell({ children: [new Paragraph({ children: [new TextRun({ text: String(text), bold, size: 18 })] })] });
+  const children = [
+    new Paragraph({ text: project.matterName, heading: HeadingLevel.TITLE }),
+    new Paragraph({ text: "Production Log", heading: HeadingLevel.HEADING_1 }),
+    new Paragraph({
+      text: `${project.clientName} · Billing ${project.billingCode} · ${summarizeProductionLog(productions)}`,
+      spacing: { after: 200 }
+    })
+  ];
+  if (productions.length) {
+    children.push(
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [
+          new TableRow({ tableHeader: true, children: PRODUCTION_LOG_COLUMNS.map((column) => cell(column, true)) }),
+          ...productions.map((production) => new TableRow({ children: buildProductionLogRow(production).map((value) => cell(value)) }))
+        ]
+      })
+    );
+  } else {
+    children.push(new Paragraph({ text: "No productions logged." }));
+  }
+  const flagged = productions.filter((production) => production.warnings.length);
+  if (flagged.length) {
+    children.push(new Paragraph({ text: "Bates Warnings", heading: HeadingLevel.HEADING_1, spacing: { before: 300 } }));
+    flagged.forEach((production) =>
+      production.warnings.forEach((warning) =>
+        children.push(new Paragraph({ text: `${production.volumeName}: ${warning}`, bullet: { level: 0 } }))
+      )
+    );
+  }
+  return new Document({
+    sections: [
+      {
+        properties: { page: { size: { orientation: PageOrientation.LANDSCAPE } } },
+        children
+      }
+    ]
+  });
+};
+
+const buildProductionLogPdfHtml = (project, productions) => {
+  const rows = productions
+    .map((production) => `<tr>${buildProductionLogRow(production).map((value) => `<td>${escapeHtml(value)}</td>`).join("")}</tr>`)
+    .join("\n");
+  const warnings = productions.flatMap((production) =>
+    production.warnings.map((warning) => `<li>${escapeHtml(`${production.volumeName}: ${warning}`)}</li>`)
+  );
+  return `
+  <!doctype html>
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <title>${escapeHtml(project.matterName)} Production Log</title>
+      <style>
+        :root { color-scheme: light; }
+        body {
+          font-family: "Segoe UI", "Avenir Next", sans-serif;
+          color: #111827;
+          margin: 28px 34px;
+          line-height: 1.45;
+          font-size: 11px;
+        }
+        h1 {
+          margin: 0 0 6px;
+          font-size: 23px;
+        }
+        h2 {
+          margin: 14px 0 6px;
+          font-size: 16px;
+        }
+        .meta {
+          margin: 0 0 12px;
+          color: #4b5563;
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+        th, td {
+          border: 1px solid #e5e7eb;
+          padding: 4px 6px;
+          text-align: left;
+          vertical-align: top;
+        }
+        th {
+          background: #f3f4f6;
+        }
+        tr { break-inside: avoid-page; }
+        ul {
+          margin: 2px 0 8px 18px;
+          padding: 0;
+        }
+      </style>
+    </head>
+    <body>
+      <header>
+        <h1>${escapeHtml(project.matterName)}</h1>
+        <p class="meta">Production Log · ${escapeHtml(project.clientName)} · Billing ${escapeHtml(project.billingCode)} · ${escapeHtml(
+          summarizeProductionLog(productions)
+        )}</p>
+      </header>
+      ${
+        productions.length
+          ? `<table><thead><tr>${PRODUCTION_LOG_COLUMNS.map((column) => `<th>${escapeHtml(column)}</th>`).join("")}</tr></thead><tbody>${rows}</tbody></table>`
+          : "<p>No productions logged.</p>"
+      }
+      ${warnings.length ? `<h2>Bates Warnings</h2><ul>${warnings.join("\n")}</ul>` : ""}
+    </body>
+  </html>
+  `;
+};
+
+const buildProductionLogCsv = (productions) =>
+  [
+    PRODUCTION_CSV_COLUMNS,
+    ...productions.map((production) => [
+      production.volumeName,
+      production.batesBeginLabel,
+      production.batesEndLabel,
+      production.documentCount,
+      production.pageCount,
+      production.producedAt,
+      production.recipient,
+      PRODUCTION_FORMAT_LABELS[production.format] || production.format,
+      production.deliveryMethod,
+      production.documents.map((document) => document.originalFileName).join("; "),
+      production.warnings.join("; ")
+    ])
+  ]
+    .map((row) => row.map(formatCsvCell).join(","))
+    .join("\r\n") + "\r\n";
+
+const createMainWindow = () => {
+  mainWindow = new BrowserWindow({
+    width: 1280,
+    height: 820,
+    minWidth: 1024,
+    minHeight: 680,
+    backgroundColor: "#10151f",
+    webPreferences: {
+      preload: path.join(__dirname, "preload.cjs"),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: true,
+      webSecurity: true,
+      allowRunningInsecureContent: false
+    }
+  });
+
+  mainWindow.webContents.setWindowOpenHandler(() => ({ action: "deny" }));
+  mainWindow.webContents.on("will-navigate", (event, targetUrl) => {
+    if (!isAllowedNavigation(targetUrl)) {
+      event.preventDefault();
+    }
+  });
+  mainWindow.webContents.session.setPermissionRequestHandler((_webContents, _permission, callback) => {
+    callback(false);
+  });
+
+  if (isDev) {
+    mainWindow.loadURL("http://localhost:5173");
+    mainWindow.webContents.openDevTools({ mode: "detach" });
+  } else {
+    const indexPath = path.join(__dirname, "..", "dist", "index.html");
+    mainWindow.loadFile(indexPath);
+  }
+};
+
+// The fields a merge compares. Todo flags are stored as 0/1 but travel as booleans, so they're normalized.
+const BUNDLE_ITEM_FIELDS = {
+  note: ["title", "noteDate", "contentMarkdown"],
+  todo: ["text", "isCompleted", "isPriority", "completedAt"],
+  timeline_task: ["startDate", "endDate"],
+  custodian: ["name", "title", "department", "email", "status", "holdNoticeSentAt", "holdAcknowledgedAt"]
+};
+const BUNDLE_MERGE_COPY_SUFFIX = " (from bundle)";
+
+const bundleFieldValue = (field, value) =>
+  field === "isCompleted" || field === "isPriority" ? Boolean(value) : value === undefined || value === "" ? null : value;
+
+const bundleContentHash = (type, item) =>
+  crypto
+    .createHash("sha256")
+    .update(JSON.stringify(BUNDLE_ITEM_FIELDS[type].map((field) => bundleFieldValue(field, item[field]))))
+    .digest("hex");
+
+const bundleStableId = (value) => (typeof value === "string" && UUID_V4_REGEX.test(value) ? value.toLowerCase() : null);
+
+const bundleBaseHash = (value) => (typeof value === "string" && SHA256_HEX_REGEX.test(value) ? value : null);
+
+const sanitizeBundleNote = (note, timestamp) => ({
+  stableId: bundleStableId(note?.id),
+  baseHash: bundleBaseHash(note?.baseHash),
+  title: ensureText(String(note?.title || "Imported Note"), "Note title", { maxLen: 200 }),
+  noteDate: ensureIsoDate(String(note?.noteDate || new Date().toISOString().slice(0, 10)), "Note date"),
+  contentMarkdown: ensureText(String(note?.contentMarkdown || ""), "Note content", { allowEmpty: true, minLen: 0, trim: false, maxLen: 2_000_000 }),
+  createdAt: typeof note?.createdAt === "string" ? note.createdAt : timestamp,
+  updatedAt: typeof note?.updatedAt === "string" ? note.updatedAt : timestamp
+});
+
+const sanitizeBundleTodo = (todo, timestamp) => ({
+  stableId: bundleStableId(todo?.id),
+  baseHash: bundleBaseHash(todo?.baseHash),
+  text: ensureText(String(todo?.text || ""), "To-do text", { maxLen: 2000 }),
+  isCompleted: Boolean(todo?.isCompleted),
+  isPriority: Boolean(todo?.isPriority),
+  createdAt: typeof todo?.createdAt === "string" ? todo.createdAt : timestamp,
+  completedAt: typeof todo?.completedAt === "string" ? todo.completedAt : null
+});
+
+// Phases without dates carry nothing and are skipped, as the timeline editor does.
+const sanitizeBundleTimelineTask = (task, timestamp) => {
+  const sanitized = sanitizeTimelineInput({
+    phase: task?.phase,
+    startDate: task?.startDate || null,
+    endDate: task?.endDate || null
+  });
+  if (!sanitized.startDate && !sanitized.endDate) return null;
+  return {
+    ...sanitized,
+    stableId: bundleStableId(task?.id),
+    baseHash: bundleBaseHash(task?.baseHash),
+    createdAt: typeof task?.createdAt === "string" ? task.createdAt : timestamp,
+    updatedAt: typeof task?.updatedAt === "string" ? task.updatedAt : timestamp
+  };
+};
+
+const sanitizeBundleCustodian = (custodian, timestamp) => ({
+  ...sanitizeCustodianInput({
+    name: String(custodian?.name || ""),
+    title: custodian?.title ?? null,
+    department: custodian?.department ?? null,
+    email: custodian?.email ?? null,
+    status: CUSTODIAN_STATUSES.has(custodian?.status) ? custodian.status : "identified",
+    holdNoticeSentAt: custodian?.holdNoticeSentAt || null,
+    holdAcknowledgedAt: custodian?.holdAcknowledgedAt || null
+  }),
+  stableId: bundleStableId(custodian?.id),
+  baseHash: bundleBaseHash(custodian?.baseHash),
+  createdAt: typeof custodian?.createdAt === "string" ? custodian.createdAt : timestamp,
+  updatedAt: typeof custodian?.updatedAt === "string" ? custodian.updatedAt : timestamp
+});
+
+// Rows created from a bundle remember its stable ID and the content received. A "keep both" copy
+// gets neither: it is a new item of this vault.
+const bundleOriginColumns = (type, item, copy) =>
+  copy || !item.stableId ? [null, null] : [item.stableId, bundleContentHash(type, item)];
+
+const insertBundleNote = (projectId, note, { copy = false } = {}) => {
+  run(
+    `INSERT INTO notes
+    (id, projectId, title, noteDate, contentMarkdown, createdAt, updatedAt, originId, originHash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      randomUUID(),
+      projectId,
+      copy ? `${note.title.slice(0, 200 - BUNDLE_MERGE_COPY_SUFFIX.length)}${BUNDLE_MERGE_COPY_SUFFIX}` : note.title,
+      note.noteDate,
+      note.contentMarkdown,
+      note.createdAt,
+      note.updatedAt,
+      ...bundleOriginColumns("note", note, copy)
+    ]
+  );
+};
+
+const insertBundleTodo = (projectId, todo, { copy = false } = {}) => {
+  run(
+    `INSERT INTO todos
+    (id, projectId, text, isCompleted, isPriority, createdAt, completedAt, originId, originHash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      randomUUID(),
+      projectId,
+      copy ? `${todo.text.slice(0, 2000 - BUNDLE_MERGE_COPY_SUFFIX.length)}${BUNDLE_MERGE_COPY_SUFFIX}` : todo.text,
+      todo.isCompleted ? 1 : 0,
+      todo.isPriority ? 1 : 0,
+      todo.createdAt,
+      todo.completedAt,
+      ...bundleOriginColumns("todo", todo, copy)
+    ]
+  );
+};
+
+const insertBundleTimelineTask = (projectId, task) => {
+  run(
+    `INSERT INTO timeline_tasks
+    (id, projectId, phase, startDate, endDate, createdAt, updatedAt, originId, originHash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      randomUUID(),
+      projectId,
+      task.phase,
+      task.startDate,
+      task.endDate,
+      task.createdAt,
+      task.updatedAt,
+      ...bundleOriginColumns("timeline_task", task, false)
+    ]
+  );
+};
+
+const insertBundleCustodian = (projectId, custodian, { copy = false } = {}) => {
+  run(
+    `INSERT INTO custodians
+    (id, projectId, name, title, department, email, status, holdNoticeSentAt, holdAcknowledgedAt, createdAt, updatedAt, originId, originHash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      randomUUID(),
+      projectId,
+      copy ? `${custodian.name.slice(0, 200 - BUNDLE_MERGE_COPY_SUFFIX.length)}${BUNDLE_MERGE_COPY_SUFFIX}` : custodian.name,
+      custodian.title,
+      custodian.department,
+      custodian.email,
+      custodian.status,
+      custodian.holdNoticeSentAt,
+      custodian.holdAcknowledgedAt,
+      custodian.createdAt,
+      custodian.updatedAt,
+      ...bundleOriginColumns("custodian", custodian, copy)
+    ]
+  );
+};
+
+// Encrypts one bundle attachment into the attachment store. Runs before the import transaction opens:
+// a full save during an await would end that transaction (see assertNoOpenTransaction).
+const stageBundleAttachment = async (projectId, attachment, zipReader, storedPaths) => {
+  const stored = zipReader
+    ? await writeAttachmentFromBundleEntry(projectId, attachment.originalFileName, zipReader, attachment)
+    : await writeAttachmentFromBase64(projectId, attachment.originalFileName, attachment.dataBase64);
+  storedPaths.push(path.resolve(attachmentsRoot(), stored.storedRelativePath));
+  return { attachment, stored };
+};
+
+const insertBundleAttachment = (projectId, { attachment, stored }, timestamp) => {
+  run(
+    `INSERT INTO attachments
+    (id, projectId, originalFileName, storedFileName, storedRelativePath, sizeBytes, addedAt, originId)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      randomUUID(),
+      projectId,
+      attachment.originalFileName,
+      stored.storedFileName,
+      stored.storedRelativePath,
+      stored.sizeBytes,
+      attachment.addedAt || timestamp,
+      attachment.stableId || null
+    ]
+  );
+};
+
+// v1 bundles carry attachments inline as base64, so their limits are checked on the encoded text.
+const validateJsonBundleAttachments = (attachments) => {
+  if (attachments.length > PROJECT_BUNDLE_MAX_ATTACHMENTS) {
+    return { ok: false, errorCode: "ATTACHMENTS_TOO_MANY", error: "Bundle has too many attachments." };
+  }
+
+  let decodedAttachmentTotal = 0;
+  const validatedAttachments = [];
+  for (const attachment of attachments) {
+    const originalFileName = ensureText(String(attachment?.originalFileName || "attachment.bin"), "Attachment name", { maxLen: 260 });
+    const dataBase64 = ensureText(String(attachment?.dataBase64 || ""), "Attachment bytes", { maxLen: PROJECT_BUNDLE_MAX_ATTACHMENT_BYTES * 2 });
+    const decodedBytes = estimateBase64DecodedBytes(dataBase64);
+    if (decodedBytes > PROJECT_BUNDLE_MAX_ATTACHMENT_BYTES) {
+      return { ok: false, errorCode: "ATTACHMENT_TOO_LARGE", error: `Attachment ${originalFileName} exceeds size limit.` };
+    }
+    decodedAttachmentTotal += decodedBytes;
+    if (decodedAttachmentTotal > PROJECT_BUNDLE_MAX_TOTAL_ATTACHMENT_BYTES) {
+      return { ok: false, errorCode: "ATTACHMENTS_TOTAL_TOO_LARGE", error: "Bundle attachments exceed total size limit." };
+    }
+    validatedAttachments.push({
+      originalFileName,
+      dataBase64,
+      addedAt: typeof attachment?.addedAt === "string" ? attachment.addedAt : null
+    });
+  }
+  return { ok: true, attachments: validatedAttachments };
+};
+
+// v2 attachments reference ZIP entries. Entry sizes were already capped when the directory was read;
+// here every entry must be claimed by exactly one attachment, and nothing else may ride along.
+const validateZipBundleAttachments = (attachments, zipReader) => {
+  if (attachments.length > PROJECT_BUNDLE_ZIP_MAX_ATTACHMENTS) {
+    return { ok: false, errorCode: "ATTACHMENTS_TOO_MANY", error: "Bundle has too many attachments." };
+  }
+
+  const claimedEntries = new Set();
+  const validatedAttachments = [];
+  for (const attachment of attachments) {
+    const originalFileName = ensureText(String(attachment?.originalFileName || "attachment.bin"), "Attachment name", { maxLen: 260 });
+    const entry = typeof attachment?.entry === "string" ? attachment.entry : "";
+    if (!PROJECT_BUNDLE_ATTACHMENT_ENTRY_REGEX.test(entry) || !zipReader.entries.has(entry) || claimedEntries.has(entry)) {
+      return { ok: false, errorCode: "BUNDLE_INVALID_ENTRY", error: `Attachment ${originalFileName} does not match a bundle entry.` };
+    }
+    claimedEntries.add(entry);
+    const sha256 = attachment?.sha256 === undefined || attachment?.sha256 === null ? null : String(attachment.sha256);
+    if (sha256 !== null && !/^[a-f0-9]{64}$/.test(sha256)) {
+      return { ok: false, errorCode: "BUNDLE_INVALID_ENTRY", error: `Attachment ${originalFileName} has an invalid checksum.` };
+    }
+    validatedAttachments.push({
+      stableId: bundleStableId(attachment?.id),
+      originalFileName,
+      entry,
+      sha256,
+      addedAt: typeof attachment?.addedAt === "string" ? attachment.addedAt : null
+    });
+  }
+  for (const name of zipReader.entries.keys()) {
+    if (name !== PROJECT_BUNDLE_MANIFEST_NAME && !claimedEntries.has(name)) {
+      return { ok: false, errorCode: "BUNDLE_UNEXPECTED_ENTRY", error: `Bundle contains an unexpected entry: ${name}` };
+    }
+  }
+  return { ok: true, attachments: validatedAttachments };
+};
+
+const ZIP_LIMIT_ERROR_CODES = {
+  ZIP_TOO_MANY_ENTRIES: "ATTACHMENTS_TOO_MANY",
+  ZIP_ENTRY_TOO_LARGE: "ATTACHMENT_TOO_LARGE",
+  ZIP_TOTAL_TOO_LARGE: "ATTACHMENTS_TOTAL_TOO_LARGE"
+};
+
+// Opens a v2 bundle ZIP and reads bundle.json. Every structural and size check runs here, before
+// a single attachment byte is extracted.
+const openZipBundle = async (zipPath) => {
+  let zipReader;
+  try {
+    zipReader = await bundleZip.openZipReader(zipPath, {
+      maxEntries: PROJECT_BUNDLE_ZIP_MAX_ATTACHMENTS + 1,
+      maxEntryBytes: (name) =>
+        name === PROJECT_BUNDLE_MANIFEST_NAME ? PROJECT_BUNDLE_ZIP_MAX_MANIFEST_BYTES : PROJECT_BUNDLE_ZIP_MAX_ATTACHMENT_BYTES,
+      maxTotalBytes: PROJECT_BUNDLE_ZIP_MAX_TOTAL_BYTES
+    });
+  } catch (error) {
+    return { ok: false, errorCode: ZIP_LIMIT_ERROR_CODES[error?.code] || "BUNDLE_INVALID_ARCHIVE", error: error?.message || "Bundle archive is invalid." };
+  }
+  const manifest = zipReader.entries.get(PROJECT_BUNDLE_MANIFEST_NAME);
+  if (!manifest) {
+    await zipReader.close();
+    return { ok: false, errorCode: "BUNDLE_INVALID_ARCHIVE", error: "Bundle archive has no bundle.json." };
+  }
+  try {
+    const payload = JSON.parse((await zipReader.readEntryBuffer(manifest)).toString("utf8"));
+    return { ok: true, payload, zipReader };
+  } catch (error) {
+    await zipReader.close();
+    if (error instanceof SyntaxError) {
+      return { ok: false, errorCode: "BUNDLE_INVALID_JSON", error: "Bundle metadata is not valid JSON." };
+    }
+    return { ok: false, errorCode: "BUNDLE_INVALID_ARCHIVE", error: error?.message || "Bundle archive is invalid." };
+  }
+};
+
+// Identifies the bundle by its first bytes and opens it: a v2 ZIP (plain or in an EDNBNDL2 envelope,
+// decrypted to workDir) or a v1 JSON file (plain or EDNBNDL1). Encrypted bundles without the right
+// passphrase return a fresh import token so the renderer can ask again.
+const loadProjectBundle = async (bundlePath, transferPassphrase, workDir) => {
+  let stat;
+  let prefix;
+  try {
+    stat = fs.statSync(bundlePath);
+    if (!stat.isFile()) {
+      return { ok: false, errorCode: "BUNDLE_INVALID_TYPE", error: "Bundle path is not a file." };
+    }
+    const fd = fs.openSync(bundlePath, "r");
+    try {
+      prefix = Buffer.alloc(16);
+      prefix = prefix.subarray(0, fs.readSync(fd, prefix, 0, prefix.length, 0));
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return { ok: false, errorCode: "BUNDLE_READ_FAILED", error: "Could not read bundle file." };
+  }
+
+  const streamed = vaultCrypto.isBundleStreamEnvelope(prefix);
+  const encrypted = streamed || vaultCrypto.isBundleEnvelope(prefix);
+  const askForPassphrase = (errorCode, error) => {
+    bundleImportState.token = randomUUID();
+    bundleImportState.bundlePath = bundlePath;
+    return { ok: false, errorCode, error, encrypted: true, importToken: bundleImportState.token };
+  };
+  if (encrypted && !transferPassphrase) {
+    return askForPassphrase("BUNDLE_PASSPHRASE_REQUIRED", "This bundle is encrypted. Enter its transfer passphrase.");
+  }
+
+  if (streamed || bundleZip.isZipFile(prefix)) {
+    let zipPath = bundlePath;
+    if (streamed) {
+      zipPath = path.join(workDir, "bundle.zip");
+      try {
+        await openBundleStreamFile(bundlePath, zipPath, transferPassphrase);
+      } catch (error) {
+        if (isDecryptAuthError(error)) {
+          return askForPassphrase("BUNDLE_WRONG_PASSPHRASE", "Transfer passphrase is incorrect.");
+        }
+        return { ok: false, errorCode: "BUNDLE_INVALID_ENVELOPE", error: error?.message || "Encrypted bundle could not be opened." };
+      }
+    }
+    const opened = await openZipBundle(zipPath);
+    return opened.ok ? { ...opened, encrypted, version: PROJECT_BUNDLE_VERSION } : opened;
+  }
+
+  if (stat.size > PROJECT_BUNDLE_MAX_BYTES) {
+    return { ok: false, errorCode: "BUNDLE_TOO_LARGE", error: "Bundle exceeds max allowed size." };
+  }
+  let bundleBytes;
+  try {
+    bundleBytes = fs.readFileSync(bundlePath);
+  } catch {
+    return { ok: false, errorCode: "BUNDLE_READ_FAILED", error: "Could not read bundle file." };
+  }
+  if (encrypted) {
+    try {
+      bundleBytes = vaultCrypto.openBundleEnvelope(bundleBytes, transferPassphrase);
+    } catch (error) {
+      if (isDecryptAuthError(error)) {
+        return askForPassphrase("BUNDLE_WRONG_PASSPHRASE", "Transfer passphrase is incorrect.");
+      }
+      return { ok: false, errorCode: "BUNDLE_INVALID_ENVELOPE", error: error?.message || "Encrypted bundle could not be opened." };
+    }
+  }
+  try {
+    return { ok: true, payload: JSON.parse(bundleBytes.toString("utf8")), zipReader: null, encrypted, version: PROJECT_BUNDLE_JSON_VERSION };
+  } catch {
+    return { ok: false, errorCode: "BUNDLE_INVALID_JSON", error: "Bundle file is not valid JSON." };
+  }
 };
 
-const createMainWindow = () => {
-  mainWindow = new BrowserWindow({
-    width: 1280,
-    height: 820,
-    minWidth: 1024,
-    minHeight: 680,
-    backgroundColor: "#10151f",
-    webPreferences: {
-      preload: path.join(__dirname, "preload.cjs"),
-      contextIsolation: true,
-      nodeIntegration: false,
-      sandbox: true,
-      webSecurity: true,
-      allowRunningInsecureContent: false
+const importProjectBundle = async (bundlePath, { payload, zipReader, encrypted, version }) => {
+  if (!payload || typeof payload !== "object") {
+    return { ok: false, errorCode: "BUNDLE_INVALID_PAYLOAD", error: "Bundle payload is invalid." };
+  }
+  if (payload.format !== PROJECT_BUNDLE_FORMAT || Number(payload.version) !== version) {
+    return { ok: false, errorCode: "BUNDLE_UNSUPPORTED_FORMAT", error: "Bundle format is not supported." };
+  }
+  if (!payload.project || typeof payload.project !== "object") {
+    return { ok: false, errorCode: "BUNDLE_MISSING_PROJECT", error: "Bundle project payload is missing." };
+  }
+
+  const notes = Array.isArray(payload.notes) ? payload.notes : [];
+  const todos = Array.isArray(payload.todos) ? payload.todos : [];
+  const timelineTasks = Array.isArray(payload.timelineTasks) ? payload.timelineTasks : [];
+  const custodians = Array.isArray(payload.custodians) ? payload.custodians : [];
+  const attachments = Array.isArray(payload.attachments) ? payload.attachments : [];
+
+  const validated = zipReader ? validateZipBundleAttachments(attachments, zipReader) : validateJsonBundleAttachments(attachments);
+  if (!validated.ok) {
+    return validated;
+  }
+  const validatedAttachments = validated.attachments;
+
+  const importedProject = {
+    matterName: findUniqueImportedMatterName(String(payload.project.matterName || "Imported Matter")),
+    clientName: ensureText(String(payload.project.clientName || "Imported Client"), "Client name", { maxLen: 200 }),
+    billingCode: ensureText(String(payload.project.billingCode || "IMPORTED"), "Billing code", { maxLen: 120 }),
+    startDate: ensureIsoDate(String(payload.project.startDate || new Date().toISOString().slice(0, 10)), "Start date"),
+    productionDeadline: ensureIsoDate(
+      String(payload.project.productionDeadline || new Date().toISOString().slice(0, 10)),
+      "Production deadline"
+    ),
+    relativityUrl: payload.project.relativityUrl ? ensureHttpUrl(payload.project.relativityUrl, "Relativity URL", { allowNull: true }) : null
+  };
+
+  if (snapshotScheduleState.settings.snapshotBeforeImport) {
+    try {
+      createAutomaticSnapshot("pre-import");
+    } catch (error) {
+      return {
+        ok: false,
+        errorCode: "SNAPSHOT_FAILED",
+        error: `Could not create a restore point before import: ${error?.message || "unknown error"}`
+      };
     }
-  });
+  }
 
-  mainWindow.webContents.setWindowOpenHandler(() => ({ action: "deny" }));
-  mainWindow.webContents.on("will-navigate", (event, targetUrl) => {
-    if (!isAllowedNavigation(targetUrl)) {
-      event.preventDefault();
+  const projectId = randomUUID();
+  const timestamp = nowIso();
+  const storedPaths = [];
+
+  try {
+    const bundleNotes = notes.map((note) => sanitizeBundleNote(note, timestamp));
+    const bundleTodos = todos.map((todo) => sanitizeBundleTodo(todo, timestamp));
+    const bundleTimeline = timelineTasks.map((task) => sanitizeBundleTimelineTask(task, timestamp)).filter(Boolean);
+    const bundleCustodians = custodians.map((custodian) => sanitizeBundleCustodian(custodian, timestamp));
+    const stagedAttachments = [];
+    for (const attachment of validatedAttachments) {
+      stagedAttachments.push(await stageBundleAttachment(projectId, attachment, zipReader, storedPaths));
+    }
+
+    run("BEGIN TRANSACTION");
+    run(
+      `INSERT INTO projects
+      (id, matterName, clientName, billingCode, startDate, productionDeadline, relativityUrl, createdAt, updatedAt, originId)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        projectId,
+        importedProject.matterName,
+        importedProject.clientName,
+        importedProject.billingCode,
+        importedProject.startDate,
+        importedProject.productionDeadline,
+        importedProject.relativityUrl,
+        timestamp,
+        timestamp,
+        bundleStableId(payload.project.id)
+      ]
+    );
+
+    for (const note of bundleNotes) insertBundleNote(projectId, note);
+    for (const todo of bundleTodos) insertBundleTodo(projectId, todo);
+    for (const task of bundleTimeline) insertBundleTimelineTask(projectId, task);
+    for (const custodian of bundleCustodians) insertBundleCustodian(projectId, custodian);
+    const importedNotes = bundleNotes.length;
+    const importedTodos = bundleTodos.length;
+    const importedTimeline = bundleTimeline.length;
+    const importedCustodians = bundleCustodians.length;
+
+    for (const staged of stagedAttachments) insertBundleAttachment(projectId, staged, timestamp);
+    const importedAttachments = stagedAttachments.length;
+
+    run("COMMIT");
+    recordAudit({
+      action: "project.bundle.import",
+      entityType: "project",
+      entityId: projectId,
+      projectId,
+      details: {
+        bundlePath,
+        encrypted,
+        formatVersion: version,
+        importedNotes,
+        importedTodos,
+        importedTimeline,
+        importedCustodians,
+        importedAttachments
+      }
+    });
+    persistDb();
+    return {
+      ok: true,
+      project: get("SELECT * FROM projects WHERE id = ?", [projectId]),
+      counts: {
+        notes: importedNotes,
+        todos: importedTodos,
+        timelineTasks: importedTimeline,
+        custodians: importedCustodians,
+        attachments: importedAttachments
+      }
+    };
+  } catch (error) {
+    try {
+      run("ROLLBACK");
+    } catch {
+      // ignore
+    }
+    for (const storedPath of storedPaths) fs.rmSync(storedPath, { force: true });
+    console.error("Project bundle import failed", error);
+    return { ok: false, errorCode: "BUNDLE_IMPORT_FAILED", error: error?.message || "Failed to import bundle." };
+  }
+};
+
+// Resolves which bundle file an import or merge reads: a fresh file dialog, or the file chosen earlier
+// when resuming with the import token from an encrypted-bundle prompt.
+const chooseProjectBundlePath = async (options, title) => {
+  const transferPassphrase = typeof options?.transferPassphrase === "string" ? options.transferPassphrase : "";
+  let bundlePath;
+  if (options?.importToken !== undefined) {
+    // Resuming an encrypted import: the path comes from the earlier dialog, never from the renderer.
+    if (!bundleImportState.token || options.importToken !== bundleImportState.token) {
+      return { ok: false, errorCode: "BUNDLE_IMPORT_EXPIRED", error: "Choose the bundle file again." };
+    }
+    bundlePath = bundleImportState.bundlePath;
+  } else {
+    const result = await dialog.showOpenDialog({
+      title,
+      properties: ["openFile"],
+      filters: [{ name: "eDisco Project Bundle", extensions: ["ediscobundle", "json"] }]
+    });
+    if (result.canceled || !result.filePaths?.length) {
+      return { ok: false, canceled: true };
+    }
+    bundlePath = result.filePaths[0];
+  }
+  bundleImportState.token = null;
+  bundleImportState.bundlePath = null;
+  return { ok: true, bundlePath, transferPassphrase };
+};
+
+const clearBundleMergeState = () => {
+  bundleMergeState.token = null;
+  bundleMergeState.projectId = null;
+  bundleMergeState.bundlePath = null;
+  bundleMergeState.transferPassphrase = null;
+  bundleMergeState.payloadHash = null;
+};
+
+// "kept" = only this vault changed the item since the last exchange, so there is nothing to take.
+const classifyBundleMergeItem = (type, theirs, mine) => {
+  if (!mine) return "added";
+  const mineHash = bundleContentHash(type, mine);
+  const theirsHash = bundleContentHash(type, theirs);
+  if (mineHash === theirsHash) return null;
+  if (theirsHash === mine.originHash || theirsHash === theirs.baseHash) return "kept";
+  if (mineHash === theirs.baseHash || mineHash === mine.originHash) return "changed";
+  return "conflict";
+};
+
+// Matches a v2 bundle's items to the target project: notes, to-dos and custodians by the stable IDs they carry,
+// timeline phases by phase, documents by stable ID (documents are only ever added).
+const planBundleMerge = (project, payload, zipReader) => {
+  const notes = Array.isArray(payload.notes) ? payload.notes : [];
+  const todos = Array.isArray(payload.todos) ? payload.todos : [];
+  const timelineTasks = Array.isArray(payload.timelineTasks) ? payload.timelineTasks : [];
+  const custodians = Array.isArray(payload.custodians) ? payload.custodians : [];
+  const attachments = Array.isArray(payload.attachments) ? payload.attachments : [];
+  const carriesIds =
+    zipReader &&
+    bundleStableId(payload.project?.id) &&
+    [...notes, ...todos, ...custodians, ...attachments].every((item) => bundleStableId(item?.id));
+  if (!carriesIds) {
+    return {
+      ok: false,
+      errorCode: "BUNDLE_MERGE_UNSUPPORTED",
+      error: "This bundle has no item IDs (it was exported by an older version). Import it as a new project instead."
+    };
+  }
+  const validated = validateZipBundleAttachments(attachments, zipReader);
+  if (!validated.ok) {
+    return validated;
+  }
+
+  const timestamp = nowIso();
+  const specs = [
+    {
+      type: "note",
+      table: "notes",
+      items: notes.map((note) => sanitizeBundleNote(note, timestamp)),
+      keyOf: (item) => item.stableId,
+      rowKey: (row) => row.originId || row.id,
+      labelOf: (item) => item.title
+    },
+    {
+      type: "todo",
+      table: "todos",
+      items: todos.map((todo) => sanitizeBundleTodo(todo, timestamp)),
+      keyOf: (item) => item.stableId,
+      rowKey: (row) => row.originId || row.id,
+      labelOf: (item) => item.text
+    },
+    {
+      type: "timeline_task",
+      table: "timeline_tasks",
+      items: timelineTasks.map((task) => sanitizeBundleTimelineTask(task, timestamp)).filter(Boolean),
+      keyOf: (item) => item.phase,
+      rowKey: (row) => row.phase,
+      labelOf: (item) => item.phase
+    },
+    {
+      type: "custodian",
+      table: "custodians",
+      items: custodians.map((custodian) => sanitizeBundleCustodian(custodian, timestamp)),
+      keyOf: (item) => item.stableId,
+      rowKey: (row) => row.originId || row.id,
+      labelOf: (item) => item.name
+    }
+  ];
+
+  const items = [];
+  let unchanged = 0;
+  for (const spec of specs) {
+    const rows = new Map();
+    for (const row of all(`SELECT * FROM ${spec.table} WHERE projectId = ?`, [project.id])) {
+      if (!rows.has(spec.rowKey(row))) rows.set(spec.rowKey(row), row);
+    }
+    const seen = new Set();
+    for (const theirs of spec.items) {
+      const key = spec.keyOf(theirs);
+      if (seen.has(key)) {
+        return { ok: false, errorCode: "BUNDLE_INVALID_PAYLOAD", error: "Bundle lists the same item twice." };
+      }
+      seen.add(key);
+      const mine = rows.get(key) || null;
+      const change = classifyBundleMergeItem(spec.type, theirs, mine);
+      if (!change) {
+        unchanged += 1;
+        continue;
+      }
+      items.push({
+        type: spec.type,
+        key,
+        label: String(spec.labelOf(theirs)).slice(0, 160),
+        mineLabel: mine ? String(spec.labelOf(mine)).slice(0, 160) : null,
+        change,
+        changedFields: mine
+          ? BUNDLE_ITEM_FIELDS[spec.type].filter(
+              (field) => JSON.stringify(bundleFieldValue(field, mine[field])) !== JSON.stringify(bundleFieldValue(field, theirs[field]))
+            )
+          : [],
+        theirs,
+        mine
+      });
+    }
+  }
+
+  const localAttachmentIds = new Set(
+    all("SELECT id, originId FROM attachments WHERE projectId = ?", [project.id]).map((row) => row.originId || row.id)
+  );
+  for (const attachment of validated.attachments) {
+    if (localAttachmentIds.has(attachment.stableId)) {
+      unchanged += 1;
+      continue;
+    }
+    items.push({
+      type: "attachment",
+      key: attachment.stableId,
+      label: attachment.originalFileName.slice(0, 160),
+      mineLabel: null,
+      change: "added",
+      changedFields: [],
+      theirs: attachment,
+      mine: null
+    });
+  }
+
+  return { ok: true, items, unchanged, sameProject: bundleStableId(payload.project.id) === (project.originId || project.id) };
+};
+
+const describeBundleMergePlan = (project, payload, plan, encrypted) => ({
+  projectId: project.id,
+  matterName: project.matterName,
+  bundleMatterName: String(payload.project?.matterName || ""),
+  sameProject: plan.sameProject,
+  exportedAt: typeof payload.exportedAt === "string" ? payload.exportedAt : null,
+  encrypted,
+  items: plan.items
+    .filter((item) => item.change !== "kept")
+    .map(({ type, key, label, mineLabel, change, changedFields }) => ({ type, key, label, mineLabel, change, changedFields })),
+  unchanged: plan.unchanged,
+  keptLocal: plan.items.filter((item) => item.change === "kept").length
+});
+
+const BUNDLE_MERGE_TABLES = { note: "notes", todo: "todos", timeline_task: "timeline_tasks", custodian: "custodians" };
+
+const takeTheirsBundleItem = (item) => {
+  const originHash = bundleContentHash(item.type, item.theirs);
+  const { theirs, mine } = item;
+  if (item.type === "note") {
+    run("UPDATE notes SET title = ?, noteDate = ?, contentMarkdown = ?, updatedAt = ?, originHash = ? WHERE id = ?", [
+      theirs.title,
+      theirs.noteDate,
+      theirs.contentMarkdown,
+      theirs.updatedAt,
+      originHash,
+      mine.id
+    ]);
+  } else if (item.type === "todo") {
+    run("UPDATE todos SET text = ?, isCompleted = ?, isPriority = ?, completedAt = ?, originHash = ? WHERE id = ?", [
+      theirs.text,
+      theirs.isCompleted ? 1 : 0,
+      theirs.isPriority ? 1 : 0,
+      theirs.completedAt,
+      originHash,
+      mine.id
+    ]);
+  } else if (item.type === "custodian") {
+    run(
+      `UPDATE custodians
+      SET name = ?, title = ?, department = ?, email = ?, status = ?, holdNoticeSentAt = ?, holdAcknowledgedAt = ?, updatedAt = ?, originHash = ?
+      WHERE id = ?`,
+      [
+        theirs.name,
+        theirs.title,
+        theirs.department,
+        theirs.email,
+        theirs.status,
+        theirs.holdNoticeSentAt,
+        theirs.holdAcknowledgedAt,
+        theirs.updatedAt,
+        originHash,
+        mine.id
+      ]
+    );
+  } else {
+    run("UPDATE timeline_tasks SET startDate = ?, endDate = ?, updatedAt = ?, originHash = ? WHERE id = ?", [
+      theirs.startDate,
+      theirs.endDate,
+      theirs.updatedAt,
+      originHash,
+      mine.id
+    ]);
+  }
+};
+
+// Keeping this vault's version still records theirs as seen, so the same version isn't offered again.
+const markBundleItemSeen = (item) => {
+  run(`UPDATE ${BUNDLE_MERGE_TABLES[item.type]} SET originHash = ? WHERE id = ?`, [
+    bundleContentHash(item.type, item.theirs),
+    item.mine.id
+  ]);
+};
+
+const applyBundleMergePlan = async (project, plan, zipReader, resolutions, { bundlePath, encrypted }) => {
+  for (const item of plan.items) {
+    if (item.change !== "conflict") continue;
+    const resolution = resolutions?.[`${item.type}:${item.key}`];
+    const allowed = item.type === "timeline_task" ? ["mine", "theirs"] : ["mine", "theirs", "both"];
+    if (!allowed.includes(resolution)) {
+      return { ok: false, errorCode: "BUNDLE_MERGE_UNRESOLVED", error: `Choose how to resolve "${item.label}".` };
+    }
+    item.resolution = resolution;
+  }
+
+  if (snapshotScheduleState.settings.snapshotBeforeImport) {
+    try {
+      createAutomaticSnapshot("pre-import");
+    } catch (error) {
+      return {
+        ok: false,
+        errorCode: "SNAPSHOT_FAILED",
+        error: `Could not create a restore point before merging: ${error?.message || "unknown error"}`
+      };
+    }
+  }
+
+  const timestamp = nowIso();
+  const storedPaths = [];
+  const counts = { added: 0, updated: 0, keptMine: 0, keptBoth: 0, attachments: 0 };
+  try {
+    const stagedAttachments = new Map();
+    for (const item of plan.items) {
+      if (item.type === "attachment") {
+        stagedAttachments.set(item, await stageBundleAttachment(project.id, item.theirs, zipReader, storedPaths));
+      }
     }
+
+    run("BEGIN TRANSACTION");
+    for (const item of plan.items) {
+      if (item.type === "attachment") {
+        insertBundleAttachment(project.id, stagedAttachments.get(item), timestamp);
+        counts.attachments += 1;
+      } else if (item.change === "added") {
+        if (item.type === "note") insertBundleNote(project.id, item.theirs);
+        else if (item.type === "todo") insertBundleTodo(project.id, item.theirs);
+        else if (item.type === "custodian") insertBundleCustodian(project.id, item.theirs);
+        else insertBundleTimelineTask(project.id, item.theirs);
+        counts.added += 1;
+      } else if (item.change === "changed" || item.resolution === "theirs") {
+        takeTheirsBundleItem(item);
+        counts.updated += 1;
+      } else if (item.change === "kept" || item.resolution === "mine") {
+        markBundleItemSeen(item);
+        if (item.resolution) counts.keptMine += 1;
+      } else {
+        markBundleItemSeen(item);
+        if (item.type === "note") insertBundleNote(project.id, item.theirs, { copy: true });
+        else if (item.type === "custodian") insertBundleCustodian(project.id, item.theirs, { copy: true });
+        else insertBundleTodo(project.id, item.theirs, { copy: true });
+        counts.keptBoth += 1;
+      }
+    }
+    run("UPDATE projects SET updatedAt = ? WHERE id = ?", [timestamp, project.id]);
+    run("COMMIT");
+  } catch (error) {
+    try {
+      run("ROLLBACK");
+    } catch {
+      // ignore
+    }
+    for (const storedPath of storedPaths) fs.rmSync(storedPath, { force: true });
+    console.error("Project bundle merge failed", error);
+    return { ok: false, errorCode: "BUNDLE_MERGE_FAILED", error: error?.message || "Failed to merge bundle." };
+  }
+
+  recordAudit({
+    action: "project.bundle.merge",
+    entityType: "project",
+    entityId: project.id,
+    projectId: project.id,
+    details: { bundlePath, encrypted, sameProject: plan.sameProject, ...counts }
   });
-  mainWindow.webContents.session.setPermissionRequestHandler((_webContents, _permission, callback) => {
-    callback(false);
+  persistDb();
+  return { ok: true, project: get("SELECT * FROM projects WHERE id = ?", [project.id]), counts };
+};
+
+// Opens the bundle into a temp work folder, runs `callback(loaded)` and always cleans up.
+const withProjectBundle = async (bundlePath, transferPassphrase, callback) => {
+  ensureDir(tempRoot());
+  const workDir = fs.mkdtempSync(path.join(tempRoot(), "bundle-import-"));
+  let loaded = null;
+  try {
+    loaded = await loadProjectBundle(bundlePath, transferPassphrase, workDir);
+    if (!loaded.ok) {
+      return loaded;
+    }
+    return await callback(loaded);
+  } finally {
+    if (loaded?.zipReader) await loaded.zipReader.close().catch(() => undefined);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+};
+
+const hashBundlePayload = (payload) => crypto.createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+
+const previewBundleMerge = async (projectId, bundlePath, transferPassphrase) => {
+  const project = get("SELECT * FROM projects WHERE id = ?", [projectId]);
+  if (!project) {
+    return { ok: false, error: "Project not found." };
+  }
+  clearBundleMergeState();
+  return withProjectBundle(bundlePath, transferPassphrase, async ({ payload, zipReader, encrypted }) => {
+    if (!payload || typeof payload !== "object" || payload.format !== PROJECT_BUNDLE_FORMAT) {
+      return { ok: false, errorCode: "BUNDLE_UNSUPPORTED_FORMAT", error: "Bundle format is not supported." };
+    }
+    let plan;
+    try {
+      plan = planBundleMerge(project, payload, zipReader);
+    } catch (error) {
+      return { ok: false, errorCode: "BUNDLE_INVALID_PAYLOAD", error: error?.message || "Bundle payload is invalid." };
+    }
+    if (!plan.ok) {
+      return plan;
+    }
+    bundleMergeState.token = randomUUID();
+    bundleMergeState.projectId = project.id;
+    bundleMergeState.bundlePath = bundlePath;
+    bundleMergeState.transferPassphrase = encrypted ? transferPassphrase : null;
+    bundleMergeState.payloadHash = hashBundlePayload(payload);
+    return { ok: true, mergeToken: bundleMergeState.token, preview: describeBundleMergePlan(project, payload, plan, encrypted) };
   });
+};
 
-  if (isDev) {
-    mainWindow.loadURL("http://localhost:5173");
-    mainWindow.webContents.openDevTools({ mode: "detach" });
-  } else {
-    const indexPath = path.join(__dirname, "..", "dist", "index.html");
-    mainWindow.loadFile(indexPath);
+const applyBundleMerge = async (mergeToken, resolutions) => {
+  if (!bundleMergeState.token || mergeToken !== bundleMergeState.token) {
+    return { ok: false, errorCode: "BUNDLE_MERGE_EXPIRED", error: "Preview the bundle again before merging." };
+  }
+  const { projectId, bundlePath, transferPassphrase, payloadHash } = bundleMergeState;
+  const project = get("SELECT * FROM projects WHERE id = ?", [projectId]);
+  if (!project) {
+    clearBundleMergeState();
+    return { ok: false, error: "Project not found." };
+  }
+  const result = await withProjectBundle(bundlePath, transferPassphrase || "", async ({ payload, zipReader, encrypted }) => {
+    if (hashBundlePayload(payload) !== payloadHash) {
+      return { ok: false, errorCode: "BUNDLE_CHANGED", error: "The bundle file changed after it was previewed. Preview it again." };
+    }
+    let plan;
+    try {
+      plan = planBundleMerge(project, payload, zipReader);
+    } catch (error) {
+      return { ok: false, errorCode: "BUNDLE_INVALID_PAYLOAD", error: error?.message || "Bundle payload is invalid." };
+    }
+    if (!plan.ok) {
+      return plan;
+    }
+    return applyBundleMergePlan(project, plan, zipReader, resolutions, { bundlePath, encrypted });
+  });
+  // A missing choice leaves the preview open; anything else (including success) ends it.
+  if (result.errorCode !== "BUNDLE_MERGE_UNRESOLVED") {
+    clearBundleMergeState();
   }
+  return result;
 };
 
 const registerIpc = () => {
@@ -1589,19 +7106,118 @@ const registerIpc = () => {
     return {
       locked: vaultState.locked,
       hasEncryptedDb: hasEncryptedDb(),
-      hasPlaintextDb: hasPlaintextDb()
+      hasPlaintextDb: hasPlaintextDb(),
+      hasRecoveryKey: ENCRYPTION_ENABLED && vaultCrypto.hasKeySlot(readVaultHeader(), "recovery"),
+      passphraseResetRequired: vaultState.passphraseResetRequired,
+      failedUnlockAttempts: readUnlockThrottle().failedAttempts,
+      unlockRetryAt: getUnlockRetryAt()
     };
   });
 
-  ipcMain.handle("vault:unlock", async (_event, passphrase) => {
+  ipcMain.handle("vault:unlock", async (_event, passphrase) => {
+    if (!vaultState.locked) {
+      return { ok: true, migratedDb: false, migratedAttachments: 0 };
+    }
+    return unlockVault(passphrase);
+  });
+
+  ipcMain.handle("vault:lock", () => {
+    return lockVault();
+  });
+
+  ipcMain.handle("vault:changePassphrase", async (_event, currentPassphrase, nextPassphrase, options) => {
+    try {
+      return await changeVaultPassphrase(currentPassphrase, nextPassphrase, options);
+    } catch (error) {
+      return { ok: false, error: error?.message || "Failed to change passphrase." };
+    }
+  });
+
+  ipcMain.on("vault:activity", () => {
+    if (!vaultState.locked) {
+      scheduleAutoLock();
+    }
+  });
+
+  ipcMain.on("vault:flushed", (_event, requestId) => {
+    const onFlushed = autoLockState.pendingFlushes.get(requestId);
+    if (onFlushed) onFlushed();
+  });
+
+  ipcMain.handle("settings:get", () => {
+    assertUnlocked();
+    return describeAppSettings();
+  });
+
+  ipcMain.handle("settings:update", (_event, data) => {
+    assertUnlocked();
+    const changes = {};
+    if (data?.autoLockMinutes !== undefined) {
+      changes.autoLockMinutes = sanitizeAutoLockMinutes(data.autoLockMinutes);
+    }
+    if (data?.lockOnSleep !== undefined) {
+      changes.lockOnSleep = Boolean(data.lockOnSleep);
+    }
+    for (const key of Object.keys(SNAPSHOT_SCHEDULE_DEFAULTS)) {
+      if (data?.[key] !== undefined) {
+        changes[key] = sanitizeSnapshotScheduleSetting(key, data[key]);
+      }
+    }
+    for (const [key, value] of Object.entries(changes)) {
+      setAppSetting(key, value);
+    }
+    loadAutoLockSettings();
+    scheduleAutoLock();
+    loadSnapshotScheduleSettings();
+    scheduleNextSnapshot();
+    recordAudit({
+      action: "settings.update",
+      entityType: "settings",
+      details: changes
+    });
+    pruneLocalSnapshots();
+    persistDb();
+    return describeAppSettings();
+  });
+
+  ipcMain.handle("vault:kdfStatus", () => {
+    assertUnlocked();
+    return describeKdfParams(vaultCrypto.getKeySlotParams(readVaultHeader()));
+  });
+
+  ipcMain.handle("vault:calibrateKdf", async () => {
+    return calibrateVaultKdf();
+  });
+
+  ipcMain.handle("vault:upgradeKdf", (_event, passphrase, profileId, options) => {
+    try {
+      return upgradeVaultKdf(passphrase, profileId, options);
+    } catch (error) {
+      return { ok: false, error: error?.message || "Failed to update key derivation." };
+    }
+  });
+
+  ipcMain.handle("vault:createRecoveryKey", (_event, passphrase) => {
+    try {
+      return createRecoveryKey(passphrase);
+    } catch (error) {
+      return { ok: false, error: error?.message || "Failed to create recovery key." };
+    }
+  });
+
+  ipcMain.handle("vault:unlockWithRecoveryKey", async (_event, recoveryCode) => {
     if (!vaultState.locked) {
-      return { ok: true, migratedDb: false, migratedAttachments: 0 };
+      return { ok: true, passphraseResetRequired: vaultState.passphraseResetRequired };
     }
-    return unlockVault(passphrase);
+    return unlockVaultWithRecoveryKey(recoveryCode);
   });
 
-  ipcMain.handle("vault:lock", () => {
-    return lockVault();
+  ipcMain.handle("vault:completeRecovery", (_event, nextPassphrase) => {
+    try {
+      return completeRecoveryPassphraseReset(nextPassphrase);
+    } catch (error) {
+      return { ok: false, error: error?.message || "Failed to set new passphrase." };
+    }
   });
 
   ipcMain.handle("projects:list", (_event, includeArchived = false) => {
@@ -1626,238 +7242,897 @@ const registerIpc = () => {
     const id = randomUUID();
     const timestamp = nowIso();
     run(
-      `INSERT INTO projects
-      (id, matterName, clientName, billingCode, startDate, productionDeadline, relativityUrl, createdAt, updatedAt)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)` ,
+      `INSERT INTO projects
+      (id, matterName, clientName, billingCode, startDate, productionDeadline, relativityUrl, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)` ,
+      [
+        id,
+        payload.matterName,
+        payload.clientName,
+        payload.billingCode,
+        payload.startDate,
+        payload.productionDeadline,
+        payload.relativityUrl,
+        timestamp,
+        timestamp
+      ]
+    );
+    recordAudit({
+      action: "project.create",
+      entityType: "project",
+      entityId: id,
+      projectId: id,
+      details: { matterName: payload.matterName, clientName: payload.clientName, billingCode: payload.billingCode }
+    });
+    persistDb();
+    return get("SELECT * FROM projects WHERE id = ?", [id]);
+  });
+
+  ipcMain.handle("projects:update", (_event, projectId, data) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const payload = sanitizeProjectInput(data);
+    const timestamp = nowIso();
+    run(
+      `UPDATE projects
+      SET matterName = ?, clientName = ?, billingCode = ?, startDate = ?, productionDeadline = ?, relativityUrl = ?, updatedAt = ?
+      WHERE id = ?`,
+      [
+        payload.matterName,
+        payload.clientName,
+        payload.billingCode,
+        payload.startDate,
+        payload.productionDeadline,
+        payload.relativityUrl,
+        timestamp,
+        safeProjectId
+      ]
+    );
+    recordAudit({
+      action: "project.update",
+      entityType: "project",
+      entityId: safeProjectId,
+      projectId: safeProjectId,
+      details: { matterName: payload.matterName, clientName: payload.clientName, billingCode: payload.billingCode }
+    });
+    persistDb();
+    return get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+  });
+
+  ipcMain.handle("projects:archive", (_event, projectId) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const timestamp = nowIso();
+    run("UPDATE projects SET archivedAt = ?, updatedAt = ? WHERE id = ?", [timestamp, timestamp, safeProjectId]);
+    recordAudit({
+      action: "project.archive",
+      entityType: "project",
+      entityId: safeProjectId,
+      projectId: safeProjectId
+    });
+    persistDb();
+    return true;
+  });
+
+  ipcMain.handle("projects:restore", (_event, projectId) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const timestamp = nowIso();
+    run("UPDATE projects SET archivedAt = NULL, updatedAt = ? WHERE id = ?", [timestamp, safeProjectId]);
+    recordAudit({
+      action: "project.restore",
+      entityType: "project",
+      entityId: safeProjectId,
+      projectId: safeProjectId
+    });
+    persistDb();
+    return get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+  });
+
+  ipcMain.handle("projects:pin", (_event, projectId, isPinned) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const safePinned = ensureBoolean(isPinned, "Pinned state");
+    const timestamp = nowIso();
+    run("UPDATE projects SET isPinned = ?, updatedAt = ? WHERE id = ?", [safePinned ? 1 : 0, timestamp, safeProjectId]);
+    recordAudit({
+      action: "project.pin",
+      entityType: "project",
+      entityId: safeProjectId,
+      projectId: safeProjectId,
+      details: { isPinned: safePinned }
+    });
+    persistDb();
+    return get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+  });
+
+  ipcMain.handle("notes:list", (_event, projectId) => {
+    assertUnlocked();
+    if (!isValidProjectId(projectId)) {
+      return [];
+    }
+    return all("SELECT * FROM notes WHERE projectId = ? ORDER BY noteDate DESC, createdAt DESC", [projectId]);
+  });
+
+  ipcMain.handle("notes:create", (_event, projectId, data) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const payload = sanitizeNoteInput(data);
+    const id = randomUUID();
+    const timestamp = nowIso();
+    run(
+      `INSERT INTO notes
+      (id, projectId, title, noteDate, contentMarkdown, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, safeProjectId, payload.title, payload.noteDate, payload.contentMarkdown, timestamp, timestamp]
+    );
+    recordAudit({
+      action: "note.create",
+      entityType: "note",
+      entityId: id,
+      projectId: safeProjectId,
+      details: { title: payload.title, noteDate: payload.noteDate, contentLength: payload.contentMarkdown.length }
+    });
+    persistDb();
+    return get("SELECT * FROM notes WHERE id = ?", [id]);
+  });
+
+  ipcMain.handle("notes:update", (_event, noteId, data) => {
+    assertUnlocked();
+    const safeNoteId = assertUuid(noteId, "note ID");
+    const payload = sanitizeNoteInput(data);
+    const timestamp = nowIso();
+    run(
+      "UPDATE notes SET title = ?, contentMarkdown = ?, updatedAt = ? WHERE id = ?",
+      [payload.title, payload.contentMarkdown, timestamp, safeNoteId]
+    );
+    const current = get("SELECT projectId FROM notes WHERE id = ?", [safeNoteId]);
+    recordAudit({
+      action: "note.update",
+      entityType: "note",
+      entityId: safeNoteId,
+      projectId: current?.projectId || null,
+      details: { title: payload.title, contentLength: payload.contentMarkdown.length }
+    });
+    persistDb();
+    return get("SELECT * FROM notes WHERE id = ?", [safeNoteId]);
+  });
+
+  ipcMain.handle("notes:delete", (_event, noteId) => {
+    assertUnlocked();
+    const safeNoteId = assertUuid(noteId, "note ID");
+    const current = get("SELECT projectId, title FROM notes WHERE id = ?", [safeNoteId]);
+    run("DELETE FROM notes WHERE id = ?", [safeNoteId]);
+    recordAudit({
+      action: "note.delete",
+      entityType: "note",
+      entityId: safeNoteId,
+      projectId: current?.projectId || null,
+      details: { title: current?.title || null }
+    });
+    persistDb();
+    return true;
+  });
+
+  ipcMain.handle("todos:list", (_event, projectId) => {
+    assertUnlocked();
+    if (!isValidProjectId(projectId)) {
+      return [];
+    }
+    return all("SELECT * FROM todos WHERE projectId = ? ORDER BY createdAt ASC", [projectId]);
+  });
+
+  ipcMain.handle("todos:create", (_event, projectId, data) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const payload = sanitizeTodoInput(data);
+    const id = randomUUID();
+    const timestamp = nowIso();
+    run(
+      "INSERT INTO todos (id, projectId, text, isCompleted, isPriority, createdAt) VALUES (?, ?, ?, ?, ?, ?)",
+      [id, safeProjectId, payload.text, payload.isCompleted ? 1 : 0, payload.isPriority ? 1 : 0, timestamp]
+    );
+    recordAudit({
+      action: "todo.create",
+      entityType: "todo",
+      entityId: id,
+      projectId: safeProjectId,
+      details: { isPriority: payload.isPriority, isCompleted: payload.isCompleted }
+    });
+    persistDb();
+    return get("SELECT * FROM todos WHERE id = ?", [id]);
+  });
+
+  ipcMain.handle("todos:update", (_event, todoId, data) => {
+    assertUnlocked();
+    const safeTodoId = assertUuid(todoId, "to-do ID");
+    const current = get("SELECT projectId FROM todos WHERE id = ?", [safeTodoId]);
+    const payload = sanitizeTodoInput(data);
+    const completedAt = payload.isCompleted ? nowIso() : null;
+    run(
+      "UPDATE todos SET text = ?, isCompleted = ?, isPriority = ?, completedAt = ? WHERE id = ?",
+      [payload.text, payload.isCompleted ? 1 : 0, payload.isPriority ? 1 : 0, completedAt, safeTodoId]
+    );
+    recordAudit({
+      action: "todo.update",
+      entityType: "todo",
+      entityId: safeTodoId,
+      projectId: current?.projectId || null,
+      details: { isPriority: payload.isPriority, isCompleted: payload.isCompleted }
+    });
+    persistDb();
+    return get("SELECT * FROM todos WHERE id = ?", [safeTodoId]);
+  });
+
+  ipcMain.handle("todos:delete", (_event, todoId) => {
+    assertUnlocked();
+    const safeTodoId = assertUuid(todoId, "to-do ID");
+    const current = get("SELECT projectId FROM todos WHERE id = ?", [safeTodoId]);
+    run("DELETE FROM todos WHERE id = ?", [safeTodoId]);
+    recordAudit({
+      action: "todo.delete",
+      entityType: "todo",
+      entityId: safeTodoId,
+      projectId: current?.projectId || null
+    });
+    persistDb();
+    return true;
+  });
+
+  ipcMain.handle("custodians:list", (_event, projectId) => {
+    assertUnlocked();
+    if (!isValidProjectId(projectId)) {
+      return [];
+    }
+    return listProjectCustodians(projectId);
+  });
+
+  ipcMain.handle("custodians:create", (_event, projectId, data) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const payload = sanitizeCustodianInput(data);
+    const id = randomUUID();
+    const timestamp = nowIso();
+    run(
+      `INSERT INTO custodians
+      (id, projectId, name, title, department, email, status, holdNoticeSentAt, holdAcknowledgedAt, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
-        payload.matterName,
-        payload.clientName,
-        payload.billingCode,
-        payload.startDate,
-        payload.productionDeadline,
-        payload.relativityUrl,
+        safeProjectId,
+        payload.name,
+        payload.title,
+        payload.department,
+        payload.email,
+        payload.status,
+        payload.holdNoticeSentAt,
+        payload.holdAcknowledgedAt,
         timestamp,
         timestamp
       ]
     );
     recordAudit({
-      action: "project.create",
-      entityType: "project",
+      action: "custodian.create",
+      entityType: "custodian",
       entityId: id,
-      projectId: id,
-      details: { matterName: payload.matterName, clientName: payload.clientName, billingCode: payload.billingCode }
+      projectId: safeProjectId,
+      details: { status: payload.status }
     });
     persistDb();
-    return get("SELECT * FROM projects WHERE id = ?", [id]);
+    return get("SELECT * FROM custodians WHERE id = ?", [id]);
   });
 
-  ipcMain.handle("projects:update", (_event, projectId, data) => {
+  ipcMain.handle("custodians:update", (_event, custodianId, data) => {
     assertUnlocked();
-    const safeProjectId = assertUuid(projectId, "project ID");
-    const payload = sanitizeProjectInput(data);
-    const timestamp = nowIso();
+    const safeCustodianId = assertUuid(custodianId, "custodian ID");
+    const current = get("SELECT projectId, status FROM custodians WHERE id = ?", [safeCustodianId]);
+    const payload = sanitizeCustodianInput(data);
     run(
-      `UPDATE projects
-      SET matterName = ?, clientName = ?, billingCode = ?, startDate = ?, productionDeadline = ?, relativityUrl = ?, updatedAt = ?
+      `UPDATE custodians
+      SET name = ?, title = ?, department = ?, email = ?, status = ?, holdNoticeSentAt = ?, holdAcknowledgedAt = ?, updatedAt = ?
       WHERE id = ?`,
       [
-        payload.matterName,
-        payload.clientName,
-        payload.billingCode,
-        payload.startDate,
-        payload.productionDeadline,
-        payload.relativityUrl,
-        timestamp,
-        safeProjectId
+        payload.name,
+        payload.title,
+        payload.department,
+        payload.email,
+        payload.status,
+        payload.holdNoticeSentAt,
+        payload.holdAcknowledgedAt,
+        nowIso(),
+        safeCustodianId
       ]
     );
     recordAudit({
-      action: "project.update",
-      entityType: "project",
-      entityId: safeProjectId,
-      projectId: safeProjectId,
-      details: { matterName: payload.matterName, clientName: payload.clientName, billingCode: payload.billingCode }
+      action: "custodian.update",
+      entityType: "custodian",
+      entityId: safeCustodianId,
+      projectId: current?.projectId || null,
+      details: { status: payload.status, previousStatus: current?.status || null }
     });
     persistDb();
-    return get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+    return get("SELECT * FROM custodians WHERE id = ?", [safeCustodianId]);
   });
 
-  ipcMain.handle("projects:archive", (_event, projectId) => {
+  ipcMain.handle("custodians:delete", (_event, custodianId) => {
     assertUnlocked();
-    const safeProjectId = assertUuid(projectId, "project ID");
-    const timestamp = nowIso();
-    run("UPDATE projects SET archivedAt = ?, updatedAt = ? WHERE id = ?", [timestamp, timestamp, safeProjectId]);
+    const safeCustodianId = assertUuid(custodianId, "custodian ID");
+    const current = get("SELECT projectId FROM custodians WHERE id = ?", [safeCustodianId]);
+    run("DELETE FROM legal_hold_recipients WHERE custodianId = ?", [safeCustodianId]);
+    run("UPDATE data_sources SET custodianId = NULL WHERE custodianId = ?", [safeCustodianId]);
+    run("DELETE FROM custodians WHERE id = ?", [safeCustodianId]);
     recordAudit({
-      action: "project.archive",
-      entityType: "project",
-      entityId: safeProjectId,
-      projectId: safeProjectId
+      action: "custodian.delete",
+      entityType: "custodian",
+      entityId: safeCustodianId,
+      projectId: current?.projectId || null
     });
     persistDb();
     return true;
   });
 
-  ipcMain.handle("projects:restore", (_event, projectId) => {
+  ipcMain.handle("holds:list", (_event, projectId) => {
+    assertUnlocked();
+    if (!isValidProjectId(projectId)) {
+      return [];
+    }
+    return listProjectLegalHolds(projectId);
+  });
+
+  ipcMain.handle("holds:noticeTemplate", () => {
+    assertUnlocked();
+    return { template: DEFAULT_LEGAL_HOLD_NOTICE_TEMPLATE };
+  });
+
+  ipcMain.handle("holds:create", (_event, projectId, data) => {
     assertUnlocked();
     const safeProjectId = assertUuid(projectId, "project ID");
+    const payload = sanitizeLegalHoldInput(data);
+    assertHoldRecipients(safeProjectId, payload.custodianIds);
+    const id = randomUUID();
     const timestamp = nowIso();
-    run("UPDATE projects SET archivedAt = NULL, updatedAt = ? WHERE id = ?", [timestamp, safeProjectId]);
+    run("BEGIN TRANSACTION");
+    try {
+      run(
+        `INSERT INTO legal_holds
+        (id, projectId, name, issuedAt, acknowledgmentDueDays, reminderIntervalDays, escalationAfterDays, releasedAt, noticeTemplate, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          safeProjectId,
+          payload.name,
+          payload.issuedAt,
+          payload.acknowledgmentDueDays,
+          payload.reminderIntervalDays,
+          payload.escalationAfterDays,
+          payload.releasedAt,
+          payload.noticeTemplate,
+          timestamp,
+          timestamp
+        ]
+      );
+      for (const custodianId of payload.custodianIds) {
+        run(
+          "INSERT INTO legal_hold_recipients (id, holdId, projectId, custodianId, createdAt) VALUES (?, ?, ?, ?, ?)",
+          [randomUUID(), id, safeProjectId, custodianId, timestamp]
+        );
+      }
+      syncCustodianHoldFields(payload.custodianIds);
+      run("COMMIT");
+    } catch (error) {
+      run("ROLLBACK");
+      throw error;
+    }
     recordAudit({
-      action: "project.restore",
-      entityType: "project",
-      entityId: safeProjectId,
-      projectId: safeProjectId
+      action: "hold.create",
+      entityType: "legal_hold",
+      entityId: id,
+      projectId: safeProjectId,
+      details: { issuedAt: payload.issuedAt, recipients: payload.custodianIds.length }
     });
     persistDb();
-    return get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+    return getLegalHold(id);
   });
 
-  ipcMain.handle("projects:pin", (_event, projectId, isPinned) => {
+  ipcMain.handle("holds:update", (_event, holdId, data) => {
     assertUnlocked();
-    const safeProjectId = assertUuid(projectId, "project ID");
-    const safePinned = ensureBoolean(isPinned, "Pinned state");
+    const safeHoldId = assertUuid(holdId, "legal hold ID");
+    const current = get("SELECT * FROM legal_holds WHERE id = ?", [safeHoldId]);
+    if (!current) {
+      throw new Error("Legal hold not found.");
+    }
+    const payload = sanitizeLegalHoldInput(data);
+    assertHoldRecipients(current.projectId, payload.custodianIds);
+    const existing = all("SELECT custodianId FROM legal_hold_recipients WHERE holdId = ?", [safeHoldId]).map((row) => row.custodianId);
+    const keep = new Set(payload.custodianIds);
+    const removed = existing.filter((custodianId) => !keep.has(custodianId));
+    const added = payload.custodianIds.filter((custodianId) => !existing.includes(custodianId));
     const timestamp = nowIso();
-    run("UPDATE projects SET isPinned = ?, updatedAt = ? WHERE id = ?", [safePinned ? 1 : 0, timestamp, safeProjectId]);
+    run("BEGIN TRANSACTION");
+    try {
+      run(
+        `UPDATE legal_holds
+        SET name = ?, issuedAt = ?, acknowledgmentDueDays = ?, reminderIntervalDays = ?, escalationAfterDays = ?, releasedAt = ?,
+          noticeTemplate = ?, updatedAt = ?
+        WHERE id = ?`,
+        [
+          payload.name,
+          payload.issuedAt,
+          payload.acknowledgmentDueDays,
+          payload.reminderIntervalDays,
+          payload.escalationAfterDays,
+          payload.releasedAt,
+          payload.noticeTemplate,
+          timestamp,
+          safeHoldId
+        ]
+      );
+      for (const custodianId of removed) {
+        run("DELETE FROM legal_hold_recipients WHERE holdId = ? AND custodianId = ?", [safeHoldId, custodianId]);
+      }
+      for (const custodianId of added) {
+        run(
+          "INSERT INTO legal_hold_recipients (id, holdId, projectId, custodianId, createdAt) VALUES (?, ?, ?, ?, ?)",
+          [randomUUID(), safeHoldId, current.projectId, custodianId, timestamp]
+        );
+      }
+      syncCustodianHoldFields([...existing, ...added], removed);
+      run("COMMIT");
+    } catch (error) {
+      run("ROLLBACK");
+      throw error;
+    }
     recordAudit({
-      action: "project.pin",
-      entityType: "project",
-      entityId: safeProjectId,
-      projectId: safeProjectId,
-      details: { isPinned: safePinned }
+      action: payload.releasedAt && !current.releasedAt ? "hold.release" : "hold.update",
+      entityType: "legal_hold",
+      entityId: safeHoldId,
+      projectId: current.projectId,
+      details: { releasedAt: payload.releasedAt, addedRecipients: added.length, removedRecipients: removed.length }
     });
     persistDb();
-    return get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+    return getLegalHold(safeHoldId);
   });
 
-  ipcMain.handle("notes:list", (_event, projectId) => {
+  ipcMain.handle("holds:delete", (_event, holdId) => {
+    assertUnlocked();
+    const safeHoldId = assertUuid(holdId, "legal hold ID");
+    const current = get("SELECT projectId FROM legal_holds WHERE id = ?", [safeHoldId]);
+    const custodianIds = all("SELECT custodianId FROM legal_hold_recipients WHERE holdId = ?", [safeHoldId]).map((row) => row.custodianId);
+    run("DELETE FROM legal_hold_recipients WHERE holdId = ?", [safeHoldId]);
+    run("DELETE FROM legal_holds WHERE id = ?", [safeHoldId]);
+    syncCustodianHoldFields([], custodianIds);
+    recordAudit({
+      action: "hold.delete",
+      entityType: "legal_hold",
+      entityId: safeHoldId,
+      projectId: current?.projectId || null
+    });
+    persistDb();
+    return true;
+  });
+
+  ipcMain.handle("holds:acknowledge", (_event, recipientId, acknowledgedAt) => {
+    assertUnlocked();
+    const safeRecipientId = assertUuid(recipientId, "hold recipient ID");
+    const recipient = get(
+      "SELECT r.*, h.issuedAt FROM legal_hold_recipients r JOIN legal_holds h ON h.id = r.holdId WHERE r.id = ?",
+      [safeRecipientId]
+    );
+    if (!recipient) {
+      throw new Error("Hold recipient not found.");
+    }
+    const date = ensureIsoDate(acknowledgedAt, "Acknowledged date", { allowNull: true });
+    if (date && date < recipient.issuedAt) {
+      throw new Error("Acknowledged date must be on or after the hold's issued date.");
+    }
+    run("UPDATE legal_hold_recipients SET acknowledgedAt = ? WHERE id = ?", [date, safeRecipientId]);
+    syncCustodianHoldFields([recipient.custodianId]);
+    recordAudit({
+      action: "hold.acknowledge",
+      entityType: "legal_hold",
+      entityId: recipient.holdId,
+      projectId: recipient.projectId,
+      details: { custodianId: recipient.custodianId, acknowledgedAt: date }
+    });
+    persistDb();
+    return getLegalHold(recipient.holdId);
+  });
+
+  // Records that a reminder went out today to everyone on the hold who hasn't acknowledged yet.
+  ipcMain.handle("holds:recordReminder", (_event, holdId) => {
+    assertUnlocked();
+    const safeHoldId = assertUuid(holdId, "legal hold ID");
+    const hold = get("SELECT * FROM legal_holds WHERE id = ?", [safeHoldId]);
+    if (!hold) {
+      throw new Error("Legal hold not found.");
+    }
+    if (hold.releasedAt) {
+      throw new Error("This hold has been released.");
+    }
+    const today = formatLocalIsoDate(new Date());
+    const pending = all("SELECT id FROM legal_hold_recipients WHERE holdId = ? AND acknowledgedAt IS NULL", [safeHoldId]);
+    run("UPDATE legal_hold_recipients SET lastReminderAt = ? WHERE holdId = ? AND acknowledgedAt IS NULL", [today, safeHoldId]);
+    recordAudit({
+      action: "hold.reminder",
+      entityType: "legal_hold",
+      entityId: safeHoldId,
+      projectId: hold.projectId,
+      details: { remindedAt: today, recipients: pending.length }
+    });
+    persistDb();
+    return getLegalHold(safeHoldId);
+  });
+
+  ipcMain.handle("dataSources:list", (_event, projectId) => {
     assertUnlocked();
     if (!isValidProjectId(projectId)) {
       return [];
     }
-    return all("SELECT * FROM notes WHERE projectId = ? ORDER BY noteDate DESC, createdAt DESC", [projectId]);
+    return listProjectDataSources(projectId);
   });
 
-  ipcMain.handle("notes:create", (_event, projectId, data) => {
+  ipcMain.handle("dataSources:summary", (_event, projectId) => {
+    assertUnlocked();
+    if (!isValidProjectId(projectId)) {
+      return { ...EMPTY_DATA_SOURCE_SUMMARY };
+    }
+    return summarizeDataSources(projectId).get(projectId) || { ...EMPTY_DATA_SOURCE_SUMMARY };
+  });
+
+  ipcMain.handle("dataSources:create", (_event, projectId, data) => {
     assertUnlocked();
     const safeProjectId = assertUuid(projectId, "project ID");
-    const payload = sanitizeNoteInput(data);
+    const payload = sanitizeDataSourceInput(data);
+    assertDataSourceReferences(safeProjectId, payload);
     const id = randomUUID();
     const timestamp = nowIso();
-    run(
-      `INSERT INTO notes
-      (id, projectId, title, noteDate, contentMarkdown, createdAt, updatedAt)
-      VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [id, safeProjectId, payload.title, payload.noteDate, payload.contentMarkdown, timestamp, timestamp]
-    );
+    run("BEGIN TRANSACTION");
+    try {
+      run(
+        `INSERT INTO data_sources
+        (id, projectId, sourceType, description, custodianId, collectionMethod, collectedAt, sizeGb, itemCount, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          safeProjectId,
+          payload.sourceType,
+          payload.description,
+          payload.custodianId,
+          payload.collectionMethod,
+          payload.collectedAt,
+          payload.sizeGb,
+          payload.itemCount,
+          timestamp,
+          timestamp
+        ]
+      );
+      replaceDataSourceCustody(id, safeProjectId, payload.custodyAttachmentIds, timestamp);
+      run("COMMIT");
+    } catch (error) {
+      run("ROLLBACK");
+      throw error;
+    }
     recordAudit({
-      action: "note.create",
-      entityType: "note",
+      action: "data_source.create",
+      entityType: "data_source",
       entityId: id,
       projectId: safeProjectId,
-      details: { title: payload.title, noteDate: payload.noteDate, contentLength: payload.contentMarkdown.length }
+      details: {
+        sourceType: payload.sourceType,
+        sizeGb: payload.sizeGb,
+        itemCount: payload.itemCount,
+        custodyDocuments: payload.custodyAttachmentIds.length
+      }
     });
     persistDb();
-    return get("SELECT * FROM notes WHERE id = ?", [id]);
+    return getDataSource(id);
   });
 
-  ipcMain.handle("notes:update", (_event, noteId, data) => {
+  ipcMain.handle("dataSources:update", (_event, dataSourceId, data) => {
     assertUnlocked();
-    const safeNoteId = assertUuid(noteId, "note ID");
-    const payload = sanitizeNoteInput(data);
+    const safeDataSourceId = assertUuid(dataSourceId, "data source ID");
+    const current = get("SELECT projectId FROM data_sources WHERE id = ?", [safeDataSourceId]);
+    if (!current) {
+      throw new Error("Data source not found.");
+    }
+    const payload = sanitizeDataSourceInput(data);
+    assertDataSourceReferences(current.projectId, payload);
     const timestamp = nowIso();
-    run(
-      "UPDATE notes SET title = ?, contentMarkdown = ?, updatedAt = ? WHERE id = ?",
-      [payload.title, payload.contentMarkdown, timestamp, safeNoteId]
-    );
-    const current = get("SELECT projectId FROM notes WHERE id = ?", [safeNoteId]);
+    run("BEGIN TRANSACTION");
+    try {
+      run(
+        `UPDATE data_sources
+        SET sourceType = ?, description = ?, custodianId = ?, collectionMethod = ?, collectedAt = ?, sizeGb = ?, itemCount = ?, updatedAt = ?
+        WHERE id = ?`,
+        [
+          payload.sourceType,
+          payload.description,
+          payload.custodianId,
+          payload.collectionMethod,
+          payload.collectedAt,
+          payload.sizeGb,
+          payload.itemCount,
+          timestamp,
+          safeDataSourceId
+        ]
+      );
+      replaceDataSourceCustody(safeDataSourceId, current.projectId, payload.custodyAttachmentIds, timestamp);
+      run("COMMIT");
+    } catch (error) {
+      run("ROLLBACK");
+      throw error;
+    }
     recordAudit({
-      action: "note.update",
-      entityType: "note",
-      entityId: safeNoteId,
-      projectId: current?.projectId || null,
-      details: { title: payload.title, contentLength: payload.contentMarkdown.length }
+      action: "data_source.update",
+      entityType: "data_source",
+      entityId: safeDataSourceId,
+      projectId: current.projectId,
+      details: {
+        sourceType: payload.sourceType,
+        sizeGb: payload.sizeGb,
+        itemCount: payload.itemCount,
+        custodyDocuments: payload.custodyAttachmentIds.length
+      }
     });
     persistDb();
-    return get("SELECT * FROM notes WHERE id = ?", [safeNoteId]);
+    return getDataSource(safeDataSourceId);
   });
 
-  ipcMain.handle("notes:delete", (_event, noteId) => {
+  ipcMain.handle("dataSources:delete", (_event, dataSourceId) => {
     assertUnlocked();
-    const safeNoteId = assertUuid(noteId, "note ID");
-    const current = get("SELECT projectId, title FROM notes WHERE id = ?", [safeNoteId]);
-    run("DELETE FROM notes WHERE id = ?", [safeNoteId]);
+    const safeDataSourceId = assertUuid(dataSourceId, "data source ID");
+    const current = get("SELECT projectId, sourceType FROM data_sources WHERE id = ?", [safeDataSourceId]);
+    run("DELETE FROM data_source_custody WHERE dataSourceId = ?", [safeDataSourceId]);
+    run("DELETE FROM data_sources WHERE id = ?", [safeDataSourceId]);
     recordAudit({
-      action: "note.delete",
-      entityType: "note",
-      entityId: safeNoteId,
+      action: "data_source.delete",
+      entityType: "data_source",
+      entityId: safeDataSourceId,
       projectId: current?.projectId || null,
-      details: { title: current?.title || null }
+      details: { sourceType: current?.sourceType || null }
     });
     persistDb();
     return true;
   });
 
-  ipcMain.handle("todos:list", (_event, projectId) => {
+  ipcMain.handle("metrics:list", (_event, projectId) => {
     assertUnlocked();
     if (!isValidProjectId(projectId)) {
-      return [];
+      return { entries: [], forecast: computeReviewForecast([], null, startOfToday()) };
     }
-    return all("SELECT * FROM todos WHERE projectId = ? ORDER BY createdAt ASC", [projectId]);
+    return { entries: listProjectReviewMetrics(projectId), forecast: getReviewForecast(projectId) };
   });
 
-  ipcMain.handle("todos:create", (_event, projectId, data) => {
+  ipcMain.handle("metrics:create", (_event, projectId, data) => {
     assertUnlocked();
     const safeProjectId = assertUuid(projectId, "project ID");
-    const payload = sanitizeTodoInput(data);
+    const payload = sanitizeReviewMetricInput(data);
+    if (get("SELECT id FROM review_metrics WHERE projectId = ? AND metricDate = ?", [safeProjectId, payload.metricDate])) {
+      throw new Error("Metrics for that date are already logged; edit that entry instead.");
+    }
     const id = randomUUID();
     const timestamp = nowIso();
     run(
-      "INSERT INTO todos (id, projectId, text, isCompleted, isPriority, createdAt) VALUES (?, ?, ?, ?, ?, ?)",
-      [id, safeProjectId, payload.text, payload.isCompleted ? 1 : 0, payload.isPriority ? 1 : 0, timestamp]
+      `INSERT INTO review_metrics
+      (id, projectId, metricDate, documentsProcessed, gbProcessed, documentsPromoted, documentsReviewed, documentsProduced, reviewerCount, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        safeProjectId,
+        payload.metricDate,
+        payload.documentsProcessed,
+        payload.gbProcessed,
+        payload.documentsPromoted,
+        payload.documentsReviewed,
+        payload.documentsProduced,
+        payload.reviewerCount,
+        timestamp,
+        timestamp
+      ]
     );
     recordAudit({
-      action: "todo.create",
-      entityType: "todo",
+      action: "review_metric.create",
+      entityType: "review_metric",
       entityId: id,
       projectId: safeProjectId,
-      details: { isPriority: payload.isPriority, isCompleted: payload.isCompleted }
+      details: { metricDate: payload.metricDate, documentsReviewed: payload.documentsReviewed }
     });
     persistDb();
-    return get("SELECT * FROM todos WHERE id = ?", [id]);
+    return get("SELECT * FROM review_metrics WHERE id = ?", [id]);
   });
 
-  ipcMain.handle("todos:update", (_event, todoId, data) => {
+  ipcMain.handle("metrics:update", (_event, metricId, data) => {
     assertUnlocked();
-    const safeTodoId = assertUuid(todoId, "to-do ID");
-    const current = get("SELECT projectId FROM todos WHERE id = ?", [safeTodoId]);
-    const payload = sanitizeTodoInput(data);
-    const completedAt = payload.isCompleted ? nowIso() : null;
+    const safeMetricId = assertUuid(metricId, "metrics entry ID");
+    const current = get("SELECT projectId FROM review_metrics WHERE id = ?", [safeMetricId]);
+    if (!current) {
+      throw new Error("Metrics entry not found.");
+    }
+    const payload = sanitizeReviewMetricInput(data);
+    if (
+      get("SELECT id FROM review_metrics WHERE projectId = ? AND metricDate = ? AND id != ?", [
+        current.projectId,
+        payload.metricDate,
+        safeMetricId
+      ])
+    ) {
+      throw new Error("Metrics for that date are already logged; edit that entry instead.");
+    }
     run(
-      "UPDATE todos SET text = ?, isCompleted = ?, isPriority = ?, completedAt = ? WHERE id = ?",
-      [payload.text, payload.isCompleted ? 1 : 0, payload.isPriority ? 1 : 0, completedAt, safeTodoId]
+      `UPDATE review_metrics
+      SET metricDate = ?, documentsProcessed = ?, gbProcessed = ?, documentsPromoted = ?, documentsReviewed = ?, documentsProduced = ?,
+        reviewerCount = ?, updatedAt = ?
+      WHERE id = ?`,
+      [
+        payload.metricDate,
+        payload.documentsProcessed,
+        payload.gbProcessed,
+        payload.documentsPromoted,
+        payload.documentsReviewed,
+        payload.documentsProduced,
+        payload.reviewerCount,
+        nowIso(),
+        safeMetricId
+      ]
     );
     recordAudit({
-      action: "todo.update",
-      entityType: "todo",
-      entityId: safeTodoId,
-      projectId: current?.projectId || null,
-      details: { isPriority: payload.isPriority, isCompleted: payload.isCompleted }
+      action: "review_metric.update",
+      entityType: "review_metric",
+      entityId: safeMetricId,
+      projectId: current.projectId,
+      details: { metricDate: payload.metricDate, documentsReviewed: payload.documentsReviewed }
+    });
+    persistDb();
+    return get("SELECT * FROM review_metrics WHERE id = ?", [safeMetricId]);
+  });
+
+  ipcMain.handle("metrics:delete", (_event, metricId) => {
+    assertUnlocked();
+    const safeMetricId = assertUuid(metricId, "metrics entry ID");
+    const current = get("SELECT projectId, metricDate FROM review_metrics WHERE id = ?", [safeMetricId]);
+    run("DELETE FROM review_metrics WHERE id = ?", [safeMetricId]);
+    recordAudit({
+      action: "review_metric.delete",
+      entityType: "review_metric",
+      entityId: safeMetricId,
+      projectId: current?.projectId || null,
+      details: { metricDate: current?.metricDate || null }
+    });
+    persistDb();
+    return true;
+  });
+
+  ipcMain.handle("productions:list", (_event, projectId) => {
+    assertUnlocked();
+    if (!isValidProjectId(projectId)) {
+      return [];
+    }
+    return listProjectProductions(projectId);
+  });
+
+  ipcMain.handle("productions:create", (_event, projectId, data) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const payload = sanitizeProductionInput(data);
+    assertProductionDocuments(safeProjectId, payload.attachmentIds);
+    const id = randomUUID();
+    const timestamp = nowIso();
+    run("BEGIN TRANSACTION");
+    try {
+      run(
+        `INSERT INTO productions
+        (id, projectId, volumeName, batesPrefix, batesBegin, batesEnd, batesDigits, documentCount, pageCount, producedAt, recipient, format,
+          deliveryMethod, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          safeProjectId,
+          payload.volumeName,
+          payload.batesPrefix,
+          payload.batesBegin,
+          payload.batesEnd,
+          payload.batesDigits,
+          payload.documentCount,
+          payload.pageCount,
+          payload.producedAt,
+          payload.recipient,
+          payload.format,
+          payload.deliveryMethod,
+          timestamp,
+          timestamp
+        ]
+      );
+      replaceProductionDocuments(id, safeProjectId, payload.attachmentIds, timestamp);
+      run("COMMIT");
+    } catch (error) {
+      run("ROLLBACK");
+      throw error;
+    }
+    const production = getProduction(id);
+    recordAudit({
+      action: "production.create",
+      entityType: "production",
+      entityId: id,
+      projectId: safeProjectId,
+      details: {
+        volumeName: payload.volumeName,
+        batesRange: formatBatesRange(payload),
+        documentCount: payload.documentCount,
+        warnings: production.warnings.length
+      }
+    });
+    persistDb();
+    return production;
+  });
+
+  ipcMain.handle("productions:update", (_event, productionId, data) => {
+    assertUnlocked();
+    const safeProductionId = assertUuid(productionId, "production ID");
+    const current = get("SELECT projectId FROM productions WHERE id = ?", [safeProductionId]);
+    if (!current) {
+      throw new Error("Production not found.");
+    }
+    const payload = sanitizeProductionInput(data);
+    assertProductionDocuments(current.projectId, payload.attachmentIds);
+    const timestamp = nowIso();
+    run("BEGIN TRANSACTION");
+    try {
+      run(
+        `UPDATE productions
+        SET volumeName = ?, batesPrefix = ?, batesBegin = ?, batesEnd = ?, batesDigits = ?, documentCount = ?, pageCount = ?, producedAt = ?,
+          recipient = ?, format = ?, deliveryMethod = ?, updatedAt = ?
+        WHERE id = ?`,
+        [
+          payload.volumeName,
+          payload.batesPrefix,
+          payload.batesBegin,
+          payload.batesEnd,
+          payload.batesDigits,
+          payload.documentCount,
+          payload.pageCount,
+          payload.producedAt,
+          payload.recipient,
+          payload.format,
+          payload.deliveryMethod,
+          timestamp,
+          safeProductionId
+        ]
+      );
+      replaceProductionDocuments(safeProductionId, current.projectId, payload.attachmentIds, timestamp);
+      run("COMMIT");
+    } catch (error) {
+      run("ROLLBACK");
+      throw error;
+    }
+    const production = getProduction(safeProductionId);
+    recordAudit({
+      action: "production.update",
+      entityType: "production",
+      entityId: safeProductionId,
+      projectId: current.projectId,
+      details: {
+        volumeName: payload.volumeName,
+        batesRange: formatBatesRange(payload),
+        documentCount: payload.documentCount,
+        warnings: production.warnings.length
+      }
     });
     persistDb();
-    return get("SELECT * FROM todos WHERE id = ?", [safeTodoId]);
+    return production;
   });
 
-  ipcMain.handle("todos:delete", (_event, todoId) => {
+  ipcMain.handle("productions:delete", (_event, productionId) => {
     assertUnlocked();
-    const safeTodoId = assertUuid(todoId, "to-do ID");
-    const current = get("SELECT projectId FROM todos WHERE id = ?", [safeTodoId]);
-    run("DELETE FROM todos WHERE id = ?", [safeTodoId]);
+    const safeProductionId = assertUuid(productionId, "production ID");
+    const current = get("SELECT projectId, volumeName FROM productions WHERE id = ?", [safeProductionId]);
+    run("DELETE FROM production_documents WHERE productionId = ?", [safeProductionId]);
+    run("DELETE FROM productions WHERE id = ?", [safeProductionId]);
     recordAudit({
-      action: "todo.delete",
-      entityType: "todo",
-      entityId: safeTodoId,
-      projectId: current?.projectId || null
+      action: "production.delete",
+      entityType: "production",
+      entityId: safeProductionId,
+      projectId: current?.projectId || null,
+      details: { volumeName: current?.volumeName || null }
     });
     persistDb();
     return true;
@@ -1867,7 +8142,7 @@ const registerIpc = () => {
     assertUnlocked();
     const query = String(rawQuery || "").trim().toLowerCase();
     if (!query) {
-      return { query: "", projects: [], notes: [], todos: [], attachments: [] };
+      return { query: "", projects: [], notes: [], todos: [], custodians: [], attachments: [] };
     }
 
     const projects = all(
@@ -1917,6 +8192,25 @@ const registerIpc = () => {
       if (todoHits.length >= 20) break;
     }
 
+    const custodianHits = [];
+    for (const custodian of all(
+      "SELECT id, projectId, name, title, department, email, status FROM custodians ORDER BY updatedAt DESC"
+    )) {
+      if (!projectById.has(custodian.projectId)) continue;
+      if (!includesQuery(query, custodian.name, custodian.title, custodian.department, custodian.email)) continue;
+      const project = projectById.get(custodian.projectId);
+      custodianHits.push({
+        id: custodian.id,
+        projectId: custodian.projectId,
+        projectName: project?.matterName || "Unknown Project",
+        name: custodian.name,
+        title: custodian.title || null,
+        department: custodian.department || null,
+        status: custodian.status
+      });
+      if (custodianHits.length >= 20) break;
+    }
+
     const attachmentHits = [];
     for (const attachment of all("SELECT id, projectId, originalFileName, sizeBytes, addedAt FROM attachments ORDER BY addedAt DESC")) {
       if (!projectById.has(attachment.projectId)) continue;
@@ -1938,6 +8232,7 @@ const registerIpc = () => {
       projects: projectHits,
       notes: noteHits,
       todos: todoHits,
+      custodians: custodianHits,
       attachments: attachmentHits
     };
   });
@@ -1960,59 +8255,61 @@ const registerIpc = () => {
     ensureDir(attachmentsDir);
 
     const inserted = [];
-    for (const sourcePath of filePaths) {
-      try {
-        if (typeof sourcePath !== "string" || sourcePath.length === 0) {
-          continue;
-        }
-        const resolvedSourcePath = path.resolve(sourcePath);
-        if (!fs.existsSync(resolvedSourcePath)) {
-          continue;
-        }
-        const sourceStat = fs.statSync(resolvedSourcePath);
-        if (!sourceStat.isFile()) {
-          continue;
-        }
-        if (sourceStat.size > 1024 * 1024 * 1024) {
-          // Limit individual files to 1GB to avoid abuse and accidental resource exhaustion.
-          continue;
-        }
-        const originalFileName = path.basename(resolvedSourcePath);
-        const ext = path.extname(originalFileName);
-        const storedFileName = ENCRYPTION_ENABLED ? `${randomUUID()}${ext}.enc` : `${randomUUID()}${ext}`;
-        const storedRelativePath = path.join(safeProjectId, storedFileName);
-        const destPath = path.resolve(attachmentsDir, storedFileName);
-        if (!isContainedPath(destPath, attachmentsDir)) {
-          continue;
-        }
+    await withAttachmentWrites(async () => {
+      for (const sourcePath of filePaths) {
+        try {
+          if (typeof sourcePath !== "string" || sourcePath.length === 0) {
+            continue;
+          }
+          const resolvedSourcePath = path.resolve(sourcePath);
+          if (!fs.existsSync(resolvedSourcePath)) {
+            continue;
+          }
+          const sourceStat = fs.statSync(resolvedSourcePath);
+          if (!sourceStat.isFile()) {
+            continue;
+          }
+          if (sourceStat.size > 1024 * 1024 * 1024) {
+            // Limit individual files to 1GB to avoid abuse and accidental resource exhaustion.
+            continue;
+          }
+          const originalFileName = path.basename(resolvedSourcePath);
+          const ext = path.extname(originalFileName);
+          const storedFileName = ENCRYPTION_ENABLED ? `${randomUUID()}${ext}.enc` : `${randomUUID()}${ext}`;
+          const storedRelativePath = path.join(safeProjectId, storedFileName);
+          const destPath = path.resolve(attachmentsDir, storedFileName);
+          if (!isContainedPath(destPath, attachmentsDir)) {
+            continue;
+          }
 
-        if (ENCRYPTION_ENABLED) {
-          await encryptAttachmentFile(resolvedSourcePath, destPath, vaultState.vault.fileKey);
-        } else {
-          fs.copyFileSync(resolvedSourcePath, destPath);
+          if (ENCRYPTION_ENABLED) {
+            await encryptAttachmentFile(resolvedSourcePath, destPath, vaultState.vault.fileKey);
+          } else {
+            fs.copyFileSync(resolvedSourcePath, destPath);
+          }
+          const id = randomUUID();
+          const addedAt = nowIso();
+
+          run(
+            `INSERT INTO attachments
+            (id, projectId, originalFileName, storedFileName, storedRelativePath, sizeBytes, addedAt)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, safeProjectId, originalFileName, storedFileName, storedRelativePath, sourceStat.size, addedAt]
+          );
+          recordAudit({
+            action: "attachment.add",
+            entityType: "attachment",
+            entityId: id,
+            projectId: safeProjectId,
+            details: { originalFileName, sizeBytes: sourceStat.size }
+          });
+
+          inserted.push(get("SELECT * FROM attachments WHERE id = ?", [id]));
+        } catch (error) {
+          console.error("Failed to add attachment", error);
         }
-        const id = randomUUID();
-        const addedAt = nowIso();
-
-        run(
-          `INSERT INTO attachments
-          (id, projectId, originalFileName, storedFileName, storedRelativePath, sizeBytes, addedAt)
-          VALUES (?, ?, ?, ?, ?, ?, ?)`,
-          [id, safeProjectId, originalFileName, storedFileName, storedRelativePath, sourceStat.size, addedAt]
-        );
-        recordAudit({
-          action: "attachment.add",
-          entityType: "attachment",
-          entityId: id,
-          projectId: safeProjectId,
-          details: { originalFileName, sizeBytes: sourceStat.size }
-        });
-
-        inserted.push(get("SELECT * FROM attachments WHERE id = ?", [id]));
-      } catch (error) {
-        console.error("Failed to add attachment", error);
       }
-    }
+    });
 
     persistDb();
     return inserted;
@@ -2153,6 +8450,8 @@ const registerIpc = () => {
         console.error("Failed to delete attachment file", error);
       }
     }
+    run("DELETE FROM data_source_custody WHERE attachmentId = ?", [safeAttachmentId]);
+    run("DELETE FROM production_documents WHERE attachmentId = ?", [safeAttachmentId]);
     run("DELETE FROM attachments WHERE id = ?", [safeAttachmentId]);
     recordAudit({
       action: "attachment.delete",
@@ -2276,7 +8575,31 @@ const registerIpc = () => {
     return listLocalSnapshots(limit);
   });
 
-  ipcMain.handle("backup:restoreSnapshot", (_event, snapshotId) => {
+  ipcMain.handle("backup:diffSnapshot", (_event, snapshotId) => {
+    try {
+      return { ok: true, diff: diffLocalSnapshot(snapshotId) };
+    } catch (error) {
+      return { ok: false, error: error?.message || "Could not compare restore point." };
+    }
+  });
+
+  ipcMain.handle("backup:restoreSnapshotItems", (_event, snapshotId, items) => {
+    try {
+      return restoreFromLocalSnapshot(snapshotId, { items });
+    } catch (error) {
+      return { ok: false, error: error?.message || "Item restore failed." };
+    }
+  });
+
+  ipcMain.handle("backup:restoreSnapshotProject", (_event, snapshotId, projectId) => {
+    try {
+      return restoreFromLocalSnapshot(snapshotId, { projectId });
+    } catch (error) {
+      return { ok: false, error: error?.message || "Project restore failed." };
+    }
+  });
+
+  ipcMain.handle("backup:restoreSnapshot", (_event, snapshotId, options) => {
     try {
       recordAudit({
         action: "backup.snapshot.restore.request",
@@ -2285,7 +8608,9 @@ const registerIpc = () => {
         persist: true
       });
       const snapshotDir = resolveSnapshotDir(snapshotId);
-      const result = restoreFromBackupFolder(snapshotDir, "snapshot");
+      const result = restoreFromBackupFolder(snapshotDir, "snapshot", snapshotDir, {
+        allowOtherDataKey: options?.allowOtherDataKey === true
+      });
       if (!result.ok) return result;
       setTimeout(() => {
         app.relaunch();
@@ -2299,78 +8624,134 @@ const registerIpc = () => {
 
   ipcMain.handle("backup:export", async () => {
     assertUnlocked();
-    persistDbOrThrow();
-
-    const result = await dialog.showOpenDialog({
-      title: "Choose Backup Destination",
-      properties: ["openDirectory", "createDirectory"]
+    const destination = readBackupDestination();
+    const result = await dialog.showSaveDialog({
+      title: "Save Backup Archive",
+      defaultPath: destination.path ? path.join(destination.path, backupArchiveFileName()) : backupArchiveFileName(),
+      filters: [{ name: "eDisco Pro Notes Backup", extensions: [BACKUP_ARCHIVE_EXTENSION] }]
     });
-    if (result.canceled || !result.filePaths?.length) {
+    if (result.canceled || !result.filePath) {
       return { ok: false, canceled: true };
     }
 
-    const selectedDir = result.filePaths[0];
-    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const backupDir = path.resolve(selectedDir, `edisconotes-backup-${stamp}`);
-    ensureDir(backupDir);
-
-    const dbStatus = getDatabaseFileStatus();
-    if (!dbStatus.dbPath || !fs.existsSync(dbStatus.dbPath)) {
-      return { ok: false, error: "No database file found." };
+    const archivePath = result.filePath;
+    let written;
+    try {
+      written = await writeBackupArchive(archivePath);
+    } catch (error) {
+      return { ok: false, error: error?.message || "Backup export failed." };
     }
-    const dbFileName = path.basename(dbStatus.dbPath);
-    fs.copyFileSync(dbStatus.dbPath, path.join(backupDir, dbFileName));
-
-    const attachmentSource = attachmentsRoot();
-    const attachmentTarget = path.join(backupDir, "attachments");
-    const copiedAttachments = copyDirRecursive(attachmentSource, attachmentTarget);
-    const createdAt = nowIso();
-    const manifest = {
-      createdAt,
-      dbFileName,
-      encryptedDatabase: dbStatus.encrypted,
-      attachmentFiles: copiedAttachments
-    };
-    writeJsonFile(path.join(backupDir, "manifest.json"), manifest);
-    const existingMeta = readJsonFile(backupMetaPath()) || {};
-    writeJsonFile(backupMetaPath(), {
-      ...existingMeta,
-      lastBackupAt: createdAt,
-      lastBackupPath: backupDir
-    });
+    const { manifest, sizeBytes } = written;
+    updateBackupMeta({ lastBackupAt: manifest.createdAt, lastBackupPath: archivePath });
     recordAudit({
       action: "backup.export",
       entityType: "backup",
-      details: { backupPath: backupDir, attachmentFiles: copiedAttachments },
+      details: {
+        backupPath: archivePath,
+        sizeBytes,
+        attachmentFiles: manifest.attachmentFiles,
+        auditChainSeq: manifest.auditChainHead.seq
+      },
       persist: true
     });
 
     return {
       ok: true,
-      backupPath: backupDir,
-      createdAt,
-      attachmentFiles: copiedAttachments
+      backupPath: archivePath,
+      createdAt: manifest.createdAt,
+      attachmentFiles: manifest.attachmentFiles,
+      sizeBytes
     };
   });
 
-  ipcMain.handle("backup:restore", async () => {
+  ipcMain.handle("backup:chooseDestination", async () => {
+    const result = await dialog.showOpenDialog({
+      title: "Choose Backup Destination",
+      properties: ["openDirectory", "createDirectory"]
+    });
+    if (result.canceled || !result.filePaths?.length) {
+      return { ok: false, canceled: true };
+    }
+    return { ok: true, path: result.filePaths[0] };
+  });
+
+  ipcMain.handle("backup:updateDestination", (_event, data) => {
+    assertUnlocked();
+    let destination;
+    try {
+      destination = sanitizeBackupDestination(data, readBackupDestination());
+    } catch (error) {
+      return { ok: false, error: error?.message || "Backup destination is invalid." };
+    }
+    const nextMeta = updateBackupMeta({ destination });
+    recordAudit({
+      action: "backup.destination.update",
+      entityType: "backup",
+      details: destination
+    });
+    persistDb();
+    scheduleDestinationBackup();
+    return { ok: true, destination: describeBackupDestination(nextMeta) };
+  });
+
+  ipcMain.handle("backup:runDestination", async () => {
+    assertUnlocked();
+    const result = await runDestinationBackup("manual");
+    scheduleDestinationBackup();
+    return result;
+  });
+
+  ipcMain.handle("backup:chooseArchive", async () => {
     const result = await dialog.showOpenDialog({
-      title: "Select Backup Folder",
-      properties: ["openDirectory"]
+      title: "Select Backup Archive",
+      properties: ["openFile"],
+      filters: [{ name: "eDisco Pro Notes Backup", extensions: [BACKUP_ARCHIVE_EXTENSION] }]
     });
     if (result.canceled || !result.filePaths?.length) {
       return { ok: false, canceled: true };
     }
+    return { ok: true, archivePath: result.filePaths[0] };
+  });
+
+  ipcMain.handle("backup:verify", async (_event, archivePath, passphrase) => {
+    if (typeof archivePath !== "string" || !path.isAbsolute(archivePath) || !fs.existsSync(archivePath)) {
+      return { ok: false, error: "Backup archive not found." };
+    }
+    const report = await verifyBackupArchive(archivePath, passphrase);
+    recordAudit({
+      action: "backup.verify",
+      entityType: "backup",
+      details: { backupPath: archivePath, ok: report.ok, failedCheck: report.checks.find((check) => !check.ok)?.check || null },
+      persist: true
+    });
+    return { ok: true, report };
+  });
 
-    const backupDir = result.filePaths[0];
+  ipcMain.handle("backup:restoreArchive", async (_event, archivePath, passphrase, options) => {
+    if (typeof archivePath !== "string" || !path.isAbsolute(archivePath) || !fs.existsSync(archivePath)) {
+      return { ok: false, error: "Backup archive not found." };
+    }
     recordAudit({
       action: "backup.restore.request",
       entityType: "backup",
-      details: { backupPath: backupDir },
+      details: { backupPath: archivePath },
       persist: true
     });
-    const restoreResult = restoreFromBackupFolder(backupDir, "backup");
+    let restoreResult;
+    try {
+      restoreResult = await restoreFromBackupArchive(archivePath, passphrase, {
+        allowOtherDataKey: options?.allowOtherDataKey === true
+      });
+    } catch (error) {
+      return { ok: false, error: error?.message || "Backup restore failed." };
+    }
     if (!restoreResult.ok) {
+      recordAudit({
+        action: "backup.restore.rejected",
+        entityType: "backup",
+        details: { backupPath: archivePath, error: restoreResult.error },
+        persist: true
+      });
       return restoreResult;
     }
 
@@ -2382,320 +8763,247 @@ const registerIpc = () => {
     return restoreResult;
   });
 
-  ipcMain.handle("projects:exportBundle", async (_event, projectId) => {
-    assertUnlocked();
-    const safeProjectId = assertUuid(projectId, "project ID");
-    const project = get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
-    if (!project) {
-      return { ok: false, error: "Project not found." };
-    }
-
-    const notes = all("SELECT * FROM notes WHERE projectId = ? ORDER BY noteDate DESC, createdAt DESC", [safeProjectId]);
-    const todos = all("SELECT * FROM todos WHERE projectId = ? ORDER BY createdAt ASC", [safeProjectId]);
-    const timelineTasks = all("SELECT * FROM timeline_tasks WHERE projectId = ? ORDER BY updatedAt DESC", [safeProjectId]);
-    const attachments = all("SELECT * FROM attachments WHERE projectId = ? ORDER BY addedAt DESC", [safeProjectId]);
-
-    const bundleAttachments = [];
-    let exportedAttachments = 0;
-    for (const attachment of attachments) {
-      try {
-        const bytes = await readAttachmentPlaintextBuffer(attachment);
-        if (!bytes) continue;
-        bundleAttachments.push({
-          originalFileName: attachment.originalFileName,
-          addedAt: attachment.addedAt,
-          sizeBytes: Number(attachment.sizeBytes || bytes.length),
-          dataBase64: bytes.toString("base64")
-        });
-        exportedAttachments += 1;
-      } catch (error) {
-        console.error("Failed to include attachment in project bundle", error);
+  // Folder backups from earlier versions carry no checksums; they are restored as before.
+  // A restore that needs confirmation returns the folder; the renderer confirms and passes it back.
+  ipcMain.handle("backup:restore", async (_event, options) => {
+    let backupDir;
+    if (typeof options?.backupPath === "string") {
+      if (!path.isAbsolute(options.backupPath) || !fs.existsSync(options.backupPath)) {
+        return { ok: false, error: "Backup folder not found." };
       }
+      backupDir = options.backupPath;
+    } else {
+      const result = await dialog.showOpenDialog({
+        title: "Select Backup Folder",
+        properties: ["openDirectory"]
+      });
+      if (result.canceled || !result.filePaths?.length) {
+        return { ok: false, canceled: true };
+      }
+      backupDir = result.filePaths[0];
     }
 
-    const bundle = {
-      format: PROJECT_BUNDLE_FORMAT,
-      version: PROJECT_BUNDLE_VERSION,
-      exportedAt: nowIso(),
-      project: {
-        matterName: project.matterName,
-        clientName: project.clientName,
-        billingCode: project.billingCode,
-        startDate: project.startDate,
-        productionDeadline: project.productionDeadline,
-        relativityUrl: project.relativityUrl || null
-      },
-      notes: notes.map((item) => ({
-        title: item.title,
-        noteDate: item.noteDate,
-        contentMarkdown: item.contentMarkdown,
-        createdAt: item.createdAt,
-        updatedAt: item.updatedAt
-      })),
-      todos: todos.map((item) => ({
-        text: item.text,
-        isCompleted: Boolean(item.isCompleted),
-        isPriority: Boolean(item.isPriority),
-        createdAt: item.createdAt,
-        completedAt: item.completedAt || null
-      })),
-      timelineTasks: timelineTasks.map((item) => ({
-        phase: item.phase,
-        startDate: item.startDate || null,
-        endDate: item.endDate || null,
-        createdAt: item.createdAt,
-        updatedAt: item.updatedAt
-      })),
-      attachments: bundleAttachments
-    };
-
-    const { canceled, filePath } = await dialog.showSaveDialog({
-      title: "Export Project Bundle",
-      defaultPath: `${project.matterName.replace(/[^a-z0-9-_]+/gi, "_")}.ediscobundle`,
-      filters: [{ name: "eDisco Project Bundle", extensions: ["ediscobundle", "json"] }]
-    });
-
-    if (canceled || !filePath) {
-      return { ok: false, canceled: true };
-    }
-
-    fs.writeFileSync(filePath, `${JSON.stringify(bundle, null, 2)}\n`, "utf8");
     recordAudit({
-      action: "project.bundle.export",
-      entityType: "project",
-      entityId: safeProjectId,
-      projectId: safeProjectId,
-      details: { filePath, notes: notes.length, todos: todos.length, attachments: exportedAttachments },
+      action: "backup.restore.request",
+      entityType: "backup",
+      details: { backupPath: backupDir },
       persist: true
     });
-    return {
-      ok: true,
-      filePath,
-      notes: notes.length,
-      todos: todos.length,
-      attachments: exportedAttachments
-    };
-  });
-
-  ipcMain.handle("projects:importBundle", async () => {
-    assertUnlocked();
-    const result = await dialog.showOpenDialog({
-      title: "Import Project Bundle",
-      properties: ["openFile"],
-      filters: [{ name: "eDisco Project Bundle", extensions: ["ediscobundle", "json"] }]
+    const restoreResult = restoreFromBackupFolder(backupDir, "backup", backupDir, {
+      allowOtherDataKey: options?.allowOtherDataKey === true
     });
-    if (result.canceled || !result.filePaths?.length) {
-      return { ok: false, canceled: true };
-    }
-
-    const bundlePath = result.filePaths[0];
-    let stat;
-    try {
-      stat = fs.statSync(bundlePath);
-    } catch {
-      return { ok: false, errorCode: "BUNDLE_READ_FAILED", error: "Could not read bundle file." };
-    }
-    if (!stat.isFile()) {
-      return { ok: false, errorCode: "BUNDLE_INVALID_TYPE", error: "Bundle path is not a file." };
-    }
-    if (stat.size > PROJECT_BUNDLE_MAX_BYTES) {
-      return { ok: false, errorCode: "BUNDLE_TOO_LARGE", error: "Bundle exceeds max allowed size." };
-    }
-
-    let payload;
-    try {
-      payload = JSON.parse(fs.readFileSync(bundlePath, "utf8"));
-    } catch {
-      return { ok: false, errorCode: "BUNDLE_INVALID_JSON", error: "Bundle file is not valid JSON." };
+    if (!restoreResult.ok) {
+      return { ...restoreResult, backupPath: backupDir };
     }
 
-    if (!payload || typeof payload !== "object") {
-      return { ok: false, errorCode: "BUNDLE_INVALID_PAYLOAD", error: "Bundle payload is invalid." };
-    }
-    if (payload.format !== PROJECT_BUNDLE_FORMAT || Number(payload.version) !== PROJECT_BUNDLE_VERSION) {
-      return { ok: false, errorCode: "BUNDLE_UNSUPPORTED_FORMAT", error: "Bundle format is not supported." };
-    }
-    if (!payload.project || typeof payload.project !== "object") {
-      return { ok: false, errorCode: "BUNDLE_MISSING_PROJECT", error: "Bundle project payload is missing." };
-    }
+    setTimeout(() => {
+      app.relaunch();
+      app.exit(0);
+    }, 150);
 
-    const notes = Array.isArray(payload.notes) ? payload.notes : [];
-    const todos = Array.isArray(payload.todos) ? payload.todos : [];
-    const timelineTasks = Array.isArray(payload.timelineTasks) ? payload.timelineTasks : [];
-    const attachments = Array.isArray(payload.attachments) ? payload.attachments : [];
+    return restoreResult;
+  });
 
-    if (attachments.length > PROJECT_BUNDLE_MAX_ATTACHMENTS) {
-      return { ok: false, errorCode: "ATTACHMENTS_TOO_MANY", error: "Bundle has too many attachments." };
+  ipcMain.handle("projects:exportBundle", async (_event, projectId, options) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const transferPassphrase = typeof options?.transferPassphrase === "string" ? options.transferPassphrase : "";
+    const encrypted = transferPassphrase.length > 0;
+    if (encrypted && transferPassphrase.length < MIN_PASSPHRASE_LEN) {
+      return { ok: false, error: `Transfer passphrase must be at least ${MIN_PASSPHRASE_LEN} characters.` };
     }
-
-    let decodedAttachmentTotal = 0;
-    const validatedAttachments = [];
-    for (const attachment of attachments) {
-      const originalFileName = ensureText(String(attachment?.originalFileName || "attachment.bin"), "Attachment name", { maxLen: 260 });
-      const dataBase64 = ensureText(String(attachment?.dataBase64 || ""), "Attachment bytes", { maxLen: PROJECT_BUNDLE_MAX_ATTACHMENT_BYTES * 2 });
-      const decodedBytes = estimateBase64DecodedBytes(dataBase64);
-      if (decodedBytes > PROJECT_BUNDLE_MAX_ATTACHMENT_BYTES) {
-        return { ok: false, errorCode: "ATTACHMENT_TOO_LARGE", error: `Attachment ${originalFileName} exceeds size limit.` };
-      }
-      decodedAttachmentTotal += decodedBytes;
-      if (decodedAttachmentTotal > PROJECT_BUNDLE_MAX_TOTAL_ATTACHMENT_BYTES) {
-        return { ok: false, errorCode: "ATTACHMENTS_TOTAL_TOO_LARGE", error: "Bundle attachments exceed total size limit." };
-      }
-      validatedAttachments.push({
-        originalFileName,
-        dataBase64,
-        addedAt: typeof attachment?.addedAt === "string" ? attachment.addedAt : null
-      });
+    const project = get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+    if (!project) {
+      return { ok: false, error: "Project not found." };
     }
 
-    const importedProject = {
-      matterName: findUniqueImportedMatterName(String(payload.project.matterName || "Imported Matter")),
-      clientName: ensureText(String(payload.project.clientName || "Imported Client"), "Client name", { maxLen: 200 }),
-      billingCode: ensureText(String(payload.project.billingCode || "IMPORTED"), "Billing code", { maxLen: 120 }),
-      startDate: ensureIsoDate(String(payload.project.startDate || new Date().toISOString().slice(0, 10)), "Start date"),
-      productionDeadline: ensureIsoDate(
-        String(payload.project.productionDeadline || new Date().toISOString().slice(0, 10)),
-        "Production deadline"
-      ),
-      relativityUrl: payload.project.relativityUrl ? ensureHttpUrl(payload.project.relativityUrl, "Relativity URL", { allowNull: true }) : null
-    };
-
-    const projectId = randomUUID();
-    const timestamp = nowIso();
-
-    try {
-      run("BEGIN TRANSACTION");
-      run(
-        `INSERT INTO projects
-        (id, matterName, clientName, billingCode, startDate, productionDeadline, relativityUrl, createdAt, updatedAt)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          projectId,
-          importedProject.matterName,
-          importedProject.clientName,
-          importedProject.billingCode,
-          importedProject.startDate,
-          importedProject.productionDeadline,
-          importedProject.relativityUrl,
-          timestamp,
-          timestamp
-        ]
-      );
-
-      let importedNotes = 0;
-      for (const note of notes) {
-        const noteId = randomUUID();
-        run(
-          `INSERT INTO notes
-          (id, projectId, title, noteDate, contentMarkdown, createdAt, updatedAt)
-          VALUES (?, ?, ?, ?, ?, ?, ?)`,
-          [
-            noteId,
-            projectId,
-            ensureText(String(note?.title || "Imported Note"), "Note title", { maxLen: 200 }),
-            ensureIsoDate(String(note?.noteDate || new Date().toISOString().slice(0, 10)), "Note date"),
-            ensureText(String(note?.contentMarkdown || ""), "Note content", { allowEmpty: true, minLen: 0, trim: false, maxLen: 2_000_000 }),
-            typeof note?.createdAt === "string" ? note.createdAt : timestamp,
-            typeof note?.updatedAt === "string" ? note.updatedAt : timestamp
-          ]
-        );
-        importedNotes += 1;
-      }
+    const notes = all("SELECT * FROM notes WHERE projectId = ? ORDER BY noteDate DESC, createdAt DESC", [safeProjectId]);
+    const todos = all("SELECT * FROM todos WHERE projectId = ? ORDER BY createdAt ASC", [safeProjectId]);
+    const timelineTasks = all("SELECT * FROM timeline_tasks WHERE projectId = ? ORDER BY updatedAt DESC", [safeProjectId]);
+    const custodians = listProjectCustodians(safeProjectId);
+    const attachments = all("SELECT * FROM attachments WHERE projectId = ? ORDER BY addedAt DESC", [safeProjectId]);
 
-      let importedTodos = 0;
-      for (const todo of todos) {
-        const todoId = randomUUID();
-        const todoText = ensureText(String(todo?.text || ""), "To-do text", { maxLen: 2000 });
-        const isCompleted = Boolean(todo?.isCompleted);
-        const isPriority = Boolean(todo?.isPriority);
-        run(
-          "INSERT INTO todos (id, projectId, text, isCompleted, isPriority, createdAt, completedAt) VALUES (?, ?, ?, ?, ?, ?, ?)",
-          [todoId, projectId, todoText, isCompleted ? 1 : 0, isPriority ? 1 : 0, todo?.createdAt || timestamp, todo?.completedAt || null]
-        );
-        importedTodos += 1;
-      }
+    const { canceled, filePath } = await dialog.showSaveDialog({
+      title: "Export Project Bundle",
+      defaultPath: `${project.matterName.replace(/[^a-z0-9-_]+/gi, "_")}.ediscobundle`,
+      filters: [{ name: "eDisco Project Bundle", extensions: ["ediscobundle"] }]
+    });
 
-      let importedTimeline = 0;
-      for (const task of timelineTasks) {
-        const sanitized = sanitizeTimelineInput({
-          phase: task?.phase,
-          startDate: task?.startDate || null,
-          endDate: task?.endDate || null
-        });
-        if (!sanitized.startDate && !sanitized.endDate) continue;
-        const timelineId = randomUUID();
-        run(
-          `INSERT INTO timeline_tasks
-          (id, projectId, phase, startDate, endDate, createdAt, updatedAt)
-          VALUES (?, ?, ?, ?, ?, ?, ?)`,
-          [
-            timelineId,
-            projectId,
-            sanitized.phase,
-            sanitized.startDate,
-            sanitized.endDate,
-            typeof task?.createdAt === "string" ? task.createdAt : timestamp,
-            typeof task?.updatedAt === "string" ? task.updatedAt : timestamp
-          ]
-        );
-        importedTimeline += 1;
-      }
+    if (canceled || !filePath) {
+      return { ok: false, canceled: true };
+    }
 
-      let importedAttachments = 0;
-      for (const attachment of validatedAttachments) {
-        const stored = await writeAttachmentFromBase64(projectId, attachment.originalFileName, attachment.dataBase64);
-        const attachmentId = randomUUID();
-        run(
-          `INSERT INTO attachments
-          (id, projectId, originalFileName, storedFileName, storedRelativePath, sizeBytes, addedAt)
-          VALUES (?, ?, ?, ?, ?, ?, ?)`,
-          [
-            attachmentId,
-            projectId,
-            attachment.originalFileName,
-            stored.storedFileName,
-            stored.storedRelativePath,
-            stored.sizeBytes,
-            attachment.addedAt || timestamp
-          ]
-        );
-        importedAttachments += 1;
+    // Attachments are decrypted one at a time into a private work folder and streamed into the ZIP, so
+    // memory use doesn't grow with the project. The bundle only replaces filePath once it is complete.
+    ensureDir(tempRoot());
+    const workDir = fs.mkdtempSync(path.join(tempRoot(), "bundle-export-"));
+    const zipPath = encrypted ? path.join(workDir, "bundle.zip") : `${filePath}.${randomUUID()}.tmp`;
+    const sealedPath = `${filePath}.${randomUUID()}.tmp`;
+    const bundleAttachments = [];
+    let writer = null;
+    try {
+      writer = await bundleZip.createZipWriter(zipPath);
+      for (const attachment of attachments) {
+        let source = null;
+        try {
+          source = await resolveAttachmentPlaintextFile(attachment, workDir);
+          if (!source) continue;
+          const entryName = `attachments/${bundleAttachments.length + 1}`;
+          const entry = await writer.addFile(entryName, source.filePath);
+          bundleAttachments.push({
+            id: attachment.originId || attachment.id,
+            originalFileName: attachment.originalFileName,
+            addedAt: attachment.addedAt,
+            sizeBytes: entry.size,
+            entry: entryName,
+            sha256: entry.sha256
+          });
+        } catch (error) {
+          // A half-written entry can't be skipped inside the ZIP, so only decrypt failures are tolerated.
+          if (!source) {
+            console.error("Failed to include attachment in project bundle", error);
+            continue;
+          }
+          throw error;
+        } finally {
+          if (source?.temporary) fs.rmSync(source.filePath, { force: true });
+        }
       }
 
-      run("COMMIT");
-      recordAudit({
-        action: "project.bundle.import",
-        entityType: "project",
-        entityId: projectId,
-        projectId,
-        details: {
-          bundlePath,
-          importedNotes,
-          importedTodos,
-          importedTimeline,
-          importedAttachments
-        }
-      });
-      persistDb();
-      return {
-        ok: true,
-        project: get("SELECT * FROM projects WHERE id = ?", [projectId]),
-        counts: {
-          notes: importedNotes,
-          todos: importedTodos,
-          timelineTasks: importedTimeline,
-          attachments: importedAttachments
-        }
+      const bundle = {
+        format: PROJECT_BUNDLE_FORMAT,
+        version: PROJECT_BUNDLE_VERSION,
+        exportedAt: nowIso(),
+        project: {
+          id: project.originId || project.id,
+          matterName: project.matterName,
+          clientName: project.clientName,
+          billingCode: project.billingCode,
+          startDate: project.startDate,
+          productionDeadline: project.productionDeadline,
+          relativityUrl: project.relativityUrl || null
+        },
+        notes: notes.map((item) => ({
+          id: item.originId || item.id,
+          baseHash: item.originHash || null,
+          title: item.title,
+          noteDate: item.noteDate,
+          contentMarkdown: item.contentMarkdown,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt
+        })),
+        todos: todos.map((item) => ({
+          id: item.originId || item.id,
+          baseHash: item.originHash || null,
+          text: item.text,
+          isCompleted: Boolean(item.isCompleted),
+          isPriority: Boolean(item.isPriority),
+          createdAt: item.createdAt,
+          completedAt: item.completedAt || null
+        })),
+        timelineTasks: timelineTasks.map((item) => ({
+          id: item.originId || item.id,
+          baseHash: item.originHash || null,
+          phase: item.phase,
+          startDate: item.startDate || null,
+          endDate: item.endDate || null,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt
+        })),
+        custodians: custodians.map((item) => ({
+          id: item.originId || item.id,
+          baseHash: item.originHash || null,
+          name: item.name,
+          title: item.title || null,
+          department: item.department || null,
+          email: item.email || null,
+          status: item.status,
+          holdNoticeSentAt: item.holdNoticeSentAt || null,
+          holdAcknowledgedAt: item.holdAcknowledgedAt || null,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt
+        })),
+        attachments: bundleAttachments,
+        auditChainHead: getAuditChainHead()
       };
-    } catch (error) {
-      try {
-        run("ROLLBACK");
-      } catch {
-        // ignore
+
+      await writer.addBuffer(PROJECT_BUNDLE_MANIFEST_NAME, Buffer.from(`${JSON.stringify(bundle, null, 2)}\n`, "utf8"));
+      await writer.close();
+      writer = null;
+      if (encrypted) {
+        // Bundles are sealed with this machine's calibrated KDF cost; the parameters travel in the envelope.
+        await sealBundleStreamFile(zipPath, sealedPath, transferPassphrase);
+        fs.renameSync(sealedPath, filePath);
+      } else {
+        fs.renameSync(zipPath, filePath);
       }
-      console.error("Project bundle import failed", error);
-      return { ok: false, errorCode: "BUNDLE_IMPORT_FAILED", error: error?.message || "Failed to import bundle." };
+    } catch (error) {
+      if (writer) await writer.abort();
+      fs.rmSync(zipPath, { force: true });
+      fs.rmSync(sealedPath, { force: true });
+      console.error("Project bundle export failed", error);
+      return { ok: false, error: error?.message || "Failed to export bundle." };
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+    const exportedAttachments = bundleAttachments.length;
+    recordAudit({
+      action: "project.bundle.export",
+      entityType: "project",
+      entityId: safeProjectId,
+      projectId: safeProjectId,
+      details: {
+        filePath,
+        encrypted,
+        notes: notes.length,
+        todos: todos.length,
+        custodians: custodians.length,
+        attachments: exportedAttachments
+      },
+      persist: true
+    });
+    return {
+      ok: true,
+      filePath,
+      encrypted,
+      notes: notes.length,
+      todos: todos.length,
+      custodians: custodians.length,
+      attachments: exportedAttachments
+    };
+  });
+
+  ipcMain.handle("projects:importBundle", async (_event, options) => {
+    assertUnlocked();
+    const chosen = await chooseProjectBundlePath(options, "Import Project Bundle");
+    if (!chosen.ok) {
+      return chosen;
     }
+    return withProjectBundle(chosen.bundlePath, chosen.transferPassphrase, (loaded) =>
+      withAttachmentWrites(() => importProjectBundle(chosen.bundlePath, loaded))
+    );
+  });
+
+  ipcMain.handle("projects:previewBundleMerge", async (_event, projectId, options) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const chosen = await chooseProjectBundlePath(options, "Merge Project Bundle");
+    if (!chosen.ok) {
+      return chosen;
+    }
+    return previewBundleMerge(safeProjectId, chosen.bundlePath, chosen.transferPassphrase);
+  });
+
+  ipcMain.handle("projects:applyBundleMerge", async (_event, mergeToken, resolutions) => {
+    assertUnlocked();
+    return withAttachmentWrites(() =>
+      applyBundleMerge(mergeToken, resolutions && typeof resolutions === "object" ? resolutions : {})
+    );
+  });
+
+  ipcMain.handle("projects:discardBundleMerge", () => {
+    clearBundleMergeState();
+    return true;
   });
 
   ipcMain.handle("dashboard:deadlines", () => {
@@ -2715,10 +9023,103 @@ const registerIpc = () => {
     }
     sql += " ORDER BY timestamp DESC LIMIT ?";
     params.push(safeLimit);
-    return all(sql, params).map((row) => ({
-      ...row,
-      details: row.detailsJson ? readJsonSafe(row.detailsJson) : null
-    }));
+    return all(sql, params).map(toAuditEntry);
+  });
+
+  ipcMain.handle("maintenance:check", async (_event, options = {}) => {
+    try {
+      const report = await runMaintenanceCheck({ verifyAttachments: options?.verifyAttachments !== false });
+      return { ok: true, report };
+    } catch (error) {
+      return { ok: false, error: error?.message || "Integrity check failed." };
+    }
+  });
+
+  ipcMain.handle("maintenance:repair", async (_event, reportId, classes) => {
+    try {
+      return await repairFromMaintenanceReport(reportId, classes);
+    } catch (error) {
+      return { ok: false, error: error?.message || "Repair failed." };
+    }
+  });
+
+  ipcMain.handle("diagnostics:persistence", () => {
+    assertUnlocked();
+    const { stats } = persistState;
+    return {
+      flushScheduled: Boolean(persistState.timer),
+      dirtySince: persistState.dirtySince ? new Date(persistState.dirtySince).toISOString() : null,
+      journalRecords: persistState.journalSeq,
+      journalBytes: persistState.journalBytes,
+      pendingStatements: persistState.pendingStatements.length,
+      fullFlushes: stats.fullFlushes,
+      lastFullFlushMs: stats.lastFullFlushMs,
+      avgFullFlushMs: stats.fullFlushes ? Math.round((stats.totalFullFlushMs / stats.fullFlushes) * 10) / 10 : null,
+      maxFullFlushMs: stats.maxFullFlushMs,
+      lastFullFlushAt: stats.lastFullFlushAt,
+      lastFullFlushBytes: stats.lastFullFlushBytes,
+      journalAppends: stats.journalAppends,
+      lastJournalAppendMs: stats.lastJournalAppendMs,
+      avgJournalAppendMs: stats.journalAppends
+        ? Math.round((stats.totalJournalAppendMs / stats.journalAppends) * 10) / 10
+        : null,
+      maxJournalAppendMs: stats.maxJournalAppendMs,
+      lastReplay: stats.lastReplay,
+      lastError: stats.lastError
+    };
+  });
+
+  ipcMain.handle("audit:query", (_event, filters = {}) => {
+    assertUnlocked();
+    return queryAuditLog(filters);
+  });
+
+  ipcMain.handle("audit:facets", () => {
+    assertUnlocked();
+    return getAuditFacets();
+  });
+
+  ipcMain.handle("audit:export", async (_event, rawFilters = {}, format = "csv") => {
+    assertUnlocked();
+    if (format !== "csv" && format !== "json") {
+      return { ok: false, error: "Unsupported export format." };
+    }
+    let filters;
+    try {
+      filters = sanitizeAuditFilters(rawFilters);
+    } catch (error) {
+      return { ok: false, error: error?.message || "Invalid audit log filters." };
+    }
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    const { canceled, filePath } = await dialog.showSaveDialog({
+      title: "Export Audit Log",
+      defaultPath: `edisconotes-audit-log-${stamp}.${format}`,
+      filters: format === "csv" ? [{ name: "CSV", extensions: ["csv"] }] : [{ name: "JSON", extensions: ["json"] }]
+    });
+    if (canceled || !filePath) {
+      return { ok: false, canceled: true };
+    }
+
+    let entries;
+    try {
+      entries = writeAuditExport(filePath, format, filters);
+    } catch (error) {
+      return { ok: false, error: error?.message || "Audit log export failed." };
+    }
+    recordAudit({
+      action: "audit.export",
+      entityType: "audit",
+      projectId: filters.projectId,
+      details: { filePath, format, entries, filters },
+      persist: true
+    });
+    return { ok: true, filePath, entries };
+  });
+
+  ipcMain.handle("audit:verify", () => {
+    assertUnlocked();
+    return verifyAuditChain();
   });
 
   ipcMain.handle("notes:exportDocx", async (_event, projectId) => {
@@ -2732,6 +9133,7 @@ const registerIpc = () => {
       "SELECT * FROM notes WHERE projectId = ? ORDER BY noteDate DESC, createdAt DESC",
       [safeProjectId]
     );
+    const custodians = listProjectCustodians(safeProjectId);
 
     const paragraphs = [];
     paragraphs.push(
@@ -2756,6 +9158,23 @@ const registerIpc = () => {
       );
     }
 
+    if (custodians.length) {
+      paragraphs.push(
+        new Paragraph({
+          text: "Custodians",
+          heading: HeadingLevel.HEADING_1
+        })
+      );
+      custodians.forEach((custodian) => {
+        paragraphs.push(
+          new Paragraph({
+            text: describeCustodianForExport(custodian),
+            bullet: { level: 0 }
+          })
+        );
+      });
+    }
+
     notes.forEach((note) => {
       paragraphs.push(
         new Paragraph({
@@ -2770,32 +9189,7 @@ const registerIpc = () => {
         })
       );
 
-      const lines = String(note.contentMarkdown || "").split("\n");
-      lines.forEach((line) => {
-        if (!line.trim()) {
-          paragraphs.push(new Paragraph({ text: "" }));
-          return;
-        }
-        const trimmed = line.replace(/^\s+/, "");
-        const indentLevel = Math.floor((line.length - trimmed.length) / 2);
-        const isBullet = /^[-•*]\s+/.test(trimmed);
-        const text = trimmed.replace(/^[-•*]\s+/, "");
-        if (isBullet) {
-          paragraphs.push(
-            new Paragraph({
-              text,
-              bullet: { level: Math.min(indentLevel, 4) }
-            })
-          );
-        } else {
-          paragraphs.push(
-            new Paragraph({
-              text,
-              spacing: { after: 120 }
-            })
-          );
-        }
-      });
+      paragraphs.push(...buildDocxTextParagraphs(note.contentMarkdown));
     });
 
     const doc = new Document({
@@ -2824,7 +9218,43 @@ const registerIpc = () => {
       entityType: "project",
       entityId: safeProjectId,
       projectId: safeProjectId,
-      details: { filePath, noteCount: notes.length },
+      details: { filePath, noteCount: notes.length, custodianCount: custodians.length },
+      persist: true
+    });
+    return { ok: true, filePath };
+  });
+
+  ipcMain.handle("holds:exportNotice", async (_event, holdId) => {
+    assertUnlocked();
+    const safeHoldId = assertUuid(holdId, "legal hold ID");
+    const hold = getLegalHold(safeHoldId);
+    if (!hold) {
+      return { ok: false, error: "Legal hold not found." };
+    }
+    const project = get("SELECT * FROM projects WHERE id = ?", [hold.projectId]);
+    if (!project) {
+      return { ok: false, error: "Project not found." };
+    }
+    const doc = buildLegalHoldNoticeDocument(project, hold);
+
+    const { canceled, filePath } = await dialog.showSaveDialog({
+      title: "Export Hold Notice",
+      defaultPath: `${project.matterName.replace(/[^a-z0-9-_]+/gi, "_")}-${hold.name.replace(/[^a-z0-9-_]+/gi, "_")}-hold-notice.docx`,
+      filters: [{ name: "Word Document", extensions: ["docx"] }]
+    });
+
+    if (canceled || !filePath) {
+      return { ok: false, canceled: true };
+    }
+
+    const buffer = await Packer.toBuffer(doc);
+    fs.writeFileSync(filePath, buffer);
+    recordAudit({
+      action: "hold.notice.export",
+      entityType: "legal_hold",
+      entityId: safeHoldId,
+      projectId: hold.projectId,
+      details: { filePath, recipients: hold.recipients.length, customTemplate: Boolean(hold.noticeTemplate) },
       persist: true
     });
     return { ok: true, filePath };
@@ -2841,6 +9271,7 @@ const registerIpc = () => {
       "SELECT * FROM notes WHERE projectId = ? ORDER BY noteDate DESC, createdAt DESC",
       [safeProjectId]
     );
+    const custodians = listProjectCustodians(safeProjectId);
 
     const { canceled, filePath } = await dialog.showSaveDialog({
       title: "Export Notes as PDF",
@@ -2862,7 +9293,7 @@ const registerIpc = () => {
     });
 
     try {
-      const html = buildNotesPdfHtml(project, notes);
+      const html = buildNotesPdfHtml(project, notes, custodians);
       await printWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
       const pdfBuffer = await printWindow.webContents.printToPDF({
         printBackground: true,
@@ -2875,7 +9306,7 @@ const registerIpc = () => {
         entityType: "project",
         entityId: safeProjectId,
         projectId: safeProjectId,
-        details: { filePath, noteCount: notes.length },
+        details: { filePath, noteCount: notes.length, custodianCount: custodians.length },
         persist: true
       });
       return { ok: true, filePath };
@@ -2901,7 +9332,8 @@ const registerIpc = () => {
       "SELECT * FROM notes WHERE projectId = ? ORDER BY noteDate DESC, createdAt DESC",
       [safeProjectId]
     );
-    const markdown = buildNotesMarkdown(project, notes);
+    const custodians = listProjectCustodians(safeProjectId);
+    const markdown = buildNotesMarkdown(project, notes, custodians);
     const { canceled, filePath } = await dialog.showSaveDialog({
       title: "Export Notes as Markdown",
       defaultPath: `${project.matterName.replace(/[^a-z0-9-_]+/gi, "_")}-notes.md`,
@@ -2918,7 +9350,128 @@ const registerIpc = () => {
       entityType: "project",
       entityId: safeProjectId,
       projectId: safeProjectId,
-      details: { filePath, noteCount: notes.length },
+      details: { filePath, noteCount: notes.length, custodianCount: custodians.length },
+      persist: true
+    });
+    return { ok: true, filePath };
+  });
+
+  ipcMain.handle("productions:exportDocx", async (_event, projectId) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const project = get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+    if (!project) {
+      return { ok: false, error: "Project not found." };
+    }
+    const productions = listProjectProductions(safeProjectId);
+    const doc = buildProductionLogDocument(project, productions);
+
+    const { canceled, filePath } = await dialog.showSaveDialog({
+      title: "Export Production Log",
+      defaultPath: `${project.matterName.replace(/[^a-z0-9-_]+/gi, "_")}-production-log.docx`,
+      filters: [{ name: "Word Document", extensions: ["docx"] }]
+    });
+
+    if (canceled || !filePath) {
+      return { ok: false, canceled: true };
+    }
+
+    const buffer = await Packer.toBuffer(doc);
+    fs.writeFileSync(filePath, buffer);
+    recordAudit({
+      action: "production.export.docx",
+      entityType: "project",
+      entityId: safeProjectId,
+      projectId: safeProjectId,
+      details: { filePath, productionCount: productions.length },
+      persist: true
+    });
+    return { ok: true, filePath };
+  });
+
+  ipcMain.handle("productions:exportPdf", async (_event, projectId) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const project = get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+    if (!project) {
+      return { ok: false, error: "Project not found." };
+    }
+    const productions = listProjectProductions(safeProjectId);
+
+    const { canceled, filePath } = await dialog.showSaveDialog({
+      title: "Export Production Log as PDF",
+      defaultPath: `${project.matterName.replace(/[^a-z0-9-_]+/gi, "_")}-production-log.pdf`,
+      filters: [{ name: "PDF", extensions: ["pdf"] }]
+    });
+    if (canceled || !filePath) {
+      return { ok: false, canceled: true };
+    }
+
+    const printWindow = new BrowserWindow({
+      show: false,
+      backgroundColor: "#ffffff",
+      webPreferences: {
+        sandbox: true,
+        contextIsolation: true,
+        nodeIntegration: false
+      }
+    });
+
+    try {
+      const html = buildProductionLogPdfHtml(project, productions);
+      await printWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+      const pdfBuffer = await printWindow.webContents.printToPDF({
+        printBackground: true,
+        pageSize: "A4",
+        landscape: true,
+        marginsType: 1
+      });
+      fs.writeFileSync(filePath, pdfBuffer);
+      recordAudit({
+        action: "production.export.pdf",
+        entityType: "project",
+        entityId: safeProjectId,
+        projectId: safeProjectId,
+        details: { filePath, productionCount: productions.length },
+        persist: true
+      });
+      return { ok: true, filePath };
+    } finally {
+      try {
+        if (!printWindow.isDestroyed()) {
+          printWindow.close();
+        }
+      } catch {
+        // ignore
+      }
+    }
+  });
+
+  ipcMain.handle("productions:exportCsv", async (_event, projectId) => {
+    assertUnlocked();
+    const safeProjectId = assertUuid(projectId, "project ID");
+    const project = get("SELECT * FROM projects WHERE id = ?", [safeProjectId]);
+    if (!project) {
+      return { ok: false, error: "Project not found." };
+    }
+    const productions = listProjectProductions(safeProjectId);
+    const { canceled, filePath } = await dialog.showSaveDialog({
+      title: "Export Production Log as CSV",
+      defaultPath: `${project.matterName.replace(/[^a-z0-9-_]+/gi, "_")}-production-log.csv`,
+      filters: [{ name: "CSV", extensions: ["csv"] }]
+    });
+
+    if (canceled || !filePath) {
+      return { ok: false, canceled: true };
+    }
+
+    fs.writeFileSync(filePath, buildProductionLogCsv(productions), "utf8");
+    recordAudit({
+      action: "production.export.csv",
+      entityType: "project",
+      entityId: safeProjectId,
+      projectId: safeProjectId,
+      details: { filePath, productionCount: productions.length },
       persist: true
     });
     return { ok: true, filePath };
@@ -2934,6 +9487,7 @@ app.whenReady().then(async () => {
 
   // Best-effort cleanup of any leftover decrypted temp files from prior runs/crashes.
   tryCleanupTempFiles();
+  tryRecoverInterruptedKeyRotation();
   if (!ENCRYPTION_ENABLED) {
     await initDatabase();
     vaultState.locked = false;
@@ -2942,6 +9496,13 @@ app.whenReady().then(async () => {
   registerIpc();
   createMainWindow();
 
+  for (const eventName of ["suspend", "lock-screen"]) {
+    powerMonitor.on(eventName, () => {
+      if (!autoLockState.lockOnSleep) return;
+      autoLockVault(eventName).catch((error) => console.error("Auto-lock failed", error));
+    });
+  }
+
   app.on("activate", () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createMainWindow();
@@ -2952,7 +9513,9 @@ app.whenReady().then(async () => {
 app.on("window-all-closed", () => {
   if (process.platform !== "darwin") {
     try {
-      persistDb();
+      flushDbNow();
+    } catch (error) {
+      console.error("Failed to flush database on close", error);
     } finally {
       tryCleanupTempFiles();
       app.quit();
@@ -2962,9 +9525,11 @@ app.on("window-all-closed", () => {
 
 app.on("before-quit", () => {
   try {
-    persistDb();
+    flushDbNow();
+  } catch (error) {
+    console.error("Failed to flush database on quit", error);
   } finally {
     tryCleanupTempFiles();
-    lockVault();
+    lockVault("quit");
   }
 });
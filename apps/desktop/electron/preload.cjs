@@ -4,6 +4,33 @@ contextBridge.exposeInMainWorld("edisconotes", {
   vaultStatus: () => ipcRenderer.invoke("vault:status"),
   vaultUnlock: (passphrase) => ipcRenderer.invoke("vault:unlock", passphrase),
   vaultLock: () => ipcRenderer.invoke("vault:lock"),
+  vaultChangePassphrase: (currentPassphrase, nextPassphrase, options) =>
+    ipcRenderer.invoke("vault:changePassphrase", currentPassphrase, nextPassphrase, options),
+  vaultCreateRecoveryKey: (passphrase) => ipcRenderer.invoke("vault:createRecoveryKey", passphrase),
+  vaultUnlockWithRecoveryKey: (recoveryCode) => ipcRenderer.invoke("vault:unlockWithRecoveryKey", recoveryCode),
+  vaultCompleteRecovery: (nextPassphrase) => ipcRenderer.invoke("vault:completeRecovery", nextPassphrase),
+  vaultKdfStatus: () => ipcRenderer.invoke("vault:kdfStatus"),
+  vaultCalibrateKdf: () => ipcRenderer.invoke("vault:calibrateKdf"),
+  vaultUpgradeKdf: (passphrase, profileId, options) => ipcRenderer.invoke("vault:upgradeKdf", passphrase, profileId, options),
+  vaultActivity: () => ipcRenderer.send("vault:activity"),
+  onVaultFlushRequest: (handler) => {
+    const listener = async (_event, requestId) => {
+      try {
+        await handler();
+      } finally {
+        ipcRenderer.send("vault:flushed", requestId);
+      }
+    };
+    ipcRenderer.on("vault:flushRequest", listener);
+    return () => ipcRenderer.removeListener("vault:flushRequest", listener);
+  },
+  onVaultLocked: (handler) => {
+    const listener = (_event, payload) => handler(payload);
+    ipcRenderer.on("vault:locked", listener);
+    return () => ipcRenderer.removeListener("vault:locked", listener);
+  },
+  getAppSettings: () => ipcRenderer.invoke("settings:get"),
+  updateAppSettings: (data) => ipcRenderer.invoke("settings:update", data),
   getDeadlineDashboard: () => ipcRenderer.invoke("dashboard:deadlines"),
   listProjects: (includeArchived) => ipcRenderer.invoke("projects:list", includeArchived),
   getProject: (projectId) => ipcRenderer.invoke("projects:get", projectId),
@@ -12,8 +39,11 @@ contextBridge.exposeInMainWorld("edisconotes", {
   archiveProject: (projectId) => ipcRenderer.invoke("projects:archive", projectId),
   restoreProject: (projectId) => ipcRenderer.invoke("projects:restore", projectId),
   pinProject: (projectId, isPinned) => ipcRenderer.invoke("projects:pin", projectId, isPinned),
-  exportProjectBundle: (projectId) => ipcRenderer.invoke("projects:exportBundle", projectId),
-  importProjectBundle: () => ipcRenderer.invoke("projects:importBundle"),
+  exportProjectBundle: (projectId, options) => ipcRenderer.invoke("projects:exportBundle", projectId, options),
+  importProjectBundle: (options) => ipcRenderer.invoke("projects:importBundle", options),
+  previewBundleMerge: (projectId, options) => ipcRenderer.invoke("projects:previewBundleMerge", projectId, options),
+  applyBundleMerge: (mergeToken, resolutions) => ipcRenderer.invoke("projects:applyBundleMerge", mergeToken, resolutions),
+  discardBundleMerge: () => ipcRenderer.invoke("projects:discardBundleMerge"),
   listNotes: (projectId) => ipcRenderer.invoke("notes:list", projectId),
   createNote: (projectId, data) => ipcRenderer.invoke("notes:create", projectId, data),
   updateNote: (noteId, data) => ipcRenderer.invoke("notes:update", noteId, data),
@@ -22,6 +52,34 @@ contextBridge.exposeInMainWorld("edisconotes", {
   createTodo: (projectId, data) => ipcRenderer.invoke("todos:create", projectId, data),
   updateTodo: (todoId, data) => ipcRenderer.invoke("todos:update", todoId, data),
   deleteTodo: (todoId) => ipcRenderer.invoke("todos:delete", todoId),
+  listCustodians: (projectId) => ipcRenderer.invoke("custodians:list", projectId),
+  createCustodian: (projectId, data) => ipcRenderer.invoke("custodians:create", projectId, data),
+  updateCustodian: (custodianId, data) => ipcRenderer.invoke("custodians:update", custodianId, data),
+  deleteCustodian: (custodianId) => ipcRenderer.invoke("custodians:delete", custodianId),
+  listLegalHolds: (projectId) => ipcRenderer.invoke("holds:list", projectId),
+  getLegalHoldTemplate: () => ipcRenderer.invoke("holds:noticeTemplate"),
+  createLegalHold: (projectId, data) => ipcRenderer.invoke("holds:create", projectId, data),
+  updateLegalHold: (holdId, data) => ipcRenderer.invoke("holds:update", holdId, data),
+  deleteLegalHold: (holdId) => ipcRenderer.invoke("holds:delete", holdId),
+  acknowledgeLegalHold: (recipientId, acknowledgedAt) => ipcRenderer.invoke("holds:acknowledge", recipientId, acknowledgedAt),
+  recordLegalHoldReminder: (holdId) => ipcRenderer.invoke("holds:recordReminder", holdId),
+  exportLegalHoldNotice: (holdId) => ipcRenderer.invoke("holds:exportNotice", holdId),
+  listDataSources: (projectId) => ipcRenderer.invoke("dataSources:list", projectId),
+  getDataSourceSummary: (projectId) => ipcRenderer.invoke("dataSources:summary", projectId),
+  createDataSource: (projectId, data) => ipcRenderer.invoke("dataSources:create", projectId, data),
+  updateDataSource: (dataSourceId, data) => ipcRenderer.invoke("dataSources:update", dataSourceId, data),
+  deleteDataSource: (dataSourceId) => ipcRenderer.invoke("dataSources:delete", dataSourceId),
+  listReviewMetrics: (projectId) => ipcRenderer.invoke("metrics:list", projectId),
+  createReviewMetric: (projectId, data) => ipcRenderer.invoke("metrics:create", projectId, data),
+  updateReviewMetric: (metricId, data) => ipcRenderer.invoke("metrics:update", metricId, data),
+  deleteReviewMetric: (metricId) => ipcRenderer.invoke("metrics:delete", metricId),
+  listProductions: (projectId) => ipcRenderer.invoke("productions:list", projectId),
+  createProduction: (projectId, data) => ipcRenderer.invoke("productions:create", projectId, data),
+  updateProduction: (productionId, data) => ipcRenderer.invoke("productions:update", productionId, data),
+  deleteProduction: (productionId) => ipcRenderer.invoke("productions:delete", productionId),
+  exportProductionLogDocx: (projectId) => ipcRenderer.invoke("productions:exportDocx", projectId),
+  exportProductionLogPdf: (projectId) => ipcRenderer.invoke("productions:exportPdf", projectId),
+  exportProductionLogCsv: (projectId) => ipcRenderer.invoke("productions:exportCsv", projectId),
   listAttachments: (projectId) => ipcRenderer.invoke("attachments:list", projectId),
   addAttachments: (projectId, filePaths) => ipcRenderer.invoke("attachments:add", projectId, filePaths),
   openAttachment: (attachmentId) => ipcRenderer.invoke("attachments:open", attachmentId),
@@ -31,12 +89,30 @@ contextBridge.exposeInMainWorld("edisconotes", {
   searchGlobal: (query) => ipcRenderer.invoke("search:global", query),
   openExternalUrl: (targetUrl) => ipcRenderer.invoke("system:openExternal", targetUrl),
   listAuditLog: (limit, projectId) => ipcRenderer.invoke("audit:list", limit, projectId),
+  verifyAuditLog: () => ipcRenderer.invoke("audit:verify"),
+  queryAuditLog: (filters) => ipcRenderer.invoke("audit:query", filters),
+  getAuditFacets: () => ipcRenderer.invoke("audit:facets"),
+  exportAuditLog: (filters, format) => ipcRenderer.invoke("audit:export", filters, format),
   backupStatus: () => ipcRenderer.invoke("backup:status"),
+  getPersistenceDiagnostics: () => ipcRenderer.invoke("diagnostics:persistence"),
+  maintenanceCheck: (options) => ipcRenderer.invoke("maintenance:check", options),
+  maintenanceRepair: (reportId, classes) => ipcRenderer.invoke("maintenance:repair", reportId, classes),
   createBackupSnapshot: (reason) => ipcRenderer.invoke("backup:createSnapshot", reason),
   listBackupSnapshots: (limit) => ipcRenderer.invoke("backup:listSnapshots", limit),
-  restoreBackupSnapshot: (snapshotId) => ipcRenderer.invoke("backup:restoreSnapshot", snapshotId),
+  restoreBackupSnapshot: (snapshotId, options) => ipcRenderer.invoke("backup:restoreSnapshot", snapshotId, options),
+  diffBackupSnapshot: (snapshotId) => ipcRenderer.invoke("backup:diffSnapshot", snapshotId),
+  restoreBackupSnapshotItems: (snapshotId, items) => ipcRenderer.invoke("backup:restoreSnapshotItems", snapshotId, items),
+  restoreBackupSnapshotProject: (snapshotId, projectId) =>
+    ipcRenderer.invoke("backup:restoreSnapshotProject", snapshotId, projectId),
   exportBackup: () => ipcRenderer.invoke("backup:export"),
-  restoreBackup: () => ipcRenderer.invoke("backup:restore"),
+  chooseBackupDestination: () => ipcRenderer.invoke("backup:chooseDestination"),
+  updateBackupDestination: (data) => ipcRenderer.invoke("backup:updateDestination", data),
+  runBackupDestination: () => ipcRenderer.invoke("backup:runDestination"),
+  chooseBackupArchive: () => ipcRenderer.invoke("backup:chooseArchive"),
+  verifyBackupArchive: (archivePath, passphrase) => ipcRenderer.invoke("backup:verify", archivePath, passphrase),
+  restoreBackupArchive: (archivePath, passphrase, options) =>
+    ipcRenderer.invoke("backup:restoreArchive", archivePath, passphrase, options),
+  restoreBackup: (options) => ipcRenderer.invoke("backup:restore", options),
   openFileDialog: () => ipcRenderer.invoke("dialog:openFiles"),
   exportNotesDocx: (projectId) => ipcRenderer.invoke("notes:exportDocx", projectId),
   exportNotesPdf: (projectId) => ipcRenderer.invoke("notes:exportPdf", projectId),
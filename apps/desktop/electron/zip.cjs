@@ -0,0 +1,407 @@
+const fs = require("fs");
+const fsPromises = require("fs/promises");
+const path = require("path");
+const zlib = require("zlib");
+const crypto = require("crypto");
+
+// Minimal ZIP support for project bundles (no ZIP64, no encryption, no multi-disk).
+// Entries are stored (method 0) or raw-deflated (method 8). The writer streams file entries and
+// patches each local header once the CRC and sizes are known, so no data descriptors are written.
+// The reader trusts only the central directory, cross-checks every local header against it, and
+// enforces caller limits while streaming, so a crafted archive can't escape or balloon.
+
+const LOCAL_HEADER_SIG = 0x04034b50;
+const CENTRAL_HEADER_SIG = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIG = 0x06054b50;
+const LOCAL_HEADER_LEN = 30;
+const CENTRAL_HEADER_LEN = 46;
+const END_OF_CENTRAL_DIR_LEN = 22;
+const MAX_COMMENT_LEN = 0xffff;
+const ZIP32_LIMIT = 0xffffffff;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION_NEEDED = 20;
+const STREAM_CHUNK_BYTES = 1024 * 1024;
+const MAX_NAME_BYTES = 1024;
+// Deflate tops out near 1032:1; anything claiming more than this is treated as a zip bomb.
+const MAX_COMPRESSION_RATIO = 200;
+const RATIO_CHECK_MIN_BYTES = 1024 * 1024;
+// Compressed input is fed to the inflater in small pieces, so one write inflates to at most ~16 MiB.
+const INFLATE_INPUT_CHUNK_BYTES = 16 * 1024;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc32 = (crc, bytes) => {
+  let c = ~crc >>> 0;
+  for (let index = 0; index < bytes.length; index += 1) c = CRC32_TABLE[(c ^ bytes[index]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+};
+
+// DOS date/time in local time, as ZIP tools expect.
+const dosDateTime = (date = new Date()) => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+// Limit violations carry a code so callers can report them the same way as their other size checks.
+const limitError = (code, message) => Object.assign(new Error(message), { code });
+
+const isSafeEntryName = (name) => {
+  if (!name || Buffer.byteLength(name, "utf8") > MAX_NAME_BYTES) return false;
+  if (name.startsWith("/") || name.includes("\\") || name.includes("\0") || /^[a-z]:/i.test(name)) return false;
+  return name.split("/").every((segment) => segment && segment !== "." && segment !== "..");
+};
+
+const buildLocalHeader = (nameBytes, method, stamp, crc32, compressedSize, size) => {
+  const header = Buffer.alloc(LOCAL_HEADER_LEN + nameBytes.length);
+  header.writeUInt32LE(LOCAL_HEADER_SIG, 0);
+  header.writeUInt16LE(VERSION_NEEDED, 4);
+  header.writeUInt16LE(FLAG_UTF8, 6);
+  header.writeUInt16LE(method, 8);
+  header.writeUInt16LE(stamp.time, 10);
+  header.writeUInt16LE(stamp.date, 12);
+  header.writeUInt32LE(crc32, 14);
+  header.writeUInt32LE(compressedSize, 18);
+  header.writeUInt32LE(size, 22);
+  header.writeUInt16LE(nameBytes.length, 26);
+  header.writeUInt16LE(0, 28);
+  nameBytes.copy(header, LOCAL_HEADER_LEN);
+  return header;
+};
+
+const buildCentralHeader = (entry) => {
+  const header = Buffer.alloc(CENTRAL_HEADER_LEN + entry.nameBytes.length);
+  header.writeUInt32LE(CENTRAL_HEADER_SIG, 0);
+  header.writeUInt16LE(VERSION_NEEDED, 4);
+  header.writeUInt16LE(VERSION_NEEDED, 6);
+  header.writeUInt16LE(FLAG_UTF8, 8);
+  header.writeUInt16LE(entry.method, 10);
+  header.writeUInt16LE(entry.stamp.time, 12);
+  header.writeUInt16LE(entry.stamp.date, 14);
+  header.writeUInt32LE(entry.crc32, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.nameBytes.length, 28);
+  header.writeUInt32LE(entry.localHeaderOffset, 42);
+  entry.nameBytes.copy(header, CENTRAL_HEADER_LEN);
+  return header;
+};
+
+// Writes a ZIP to `filePath` (created exclusively). Call close() to write the central directory;
+// abort() closes and removes the partial file.
+const createZipWriter = async (filePath) => {
+  const handle = await fsPromises.open(filePath, "wx", 0o600);
+  const entries = [];
+  const names = new Set();
+  let offset = 0;
+
+  const write = async (bytes, position = null) => {
+    await handle.write(bytes, 0, bytes.length, position);
+    if (position === null) offset += bytes.length;
+  };
+
+  const beginEntry = (name) => {
+    if (!isSafeEntryName(name) || names.has(name)) throw new Error(`Invalid ZIP entry name: ${name}`);
+    names.add(name);
+    return { name, nameBytes: Buffer.from(name, "utf8"), stamp: dosDateTime(), localHeaderOffset: offset };
+  };
+
+  const finishEntry = (entry) => {
+    if (entry.compressedSize > ZIP32_LIMIT || entry.size > ZIP32_LIMIT || offset > ZIP32_LIMIT) {
+      throw new Error("Bundle is too large for the ZIP format (4 GB).");
+    }
+    entries.push(entry);
+    return { name: entry.name, size: entry.size, crc32: entry.crc32, sha256: entry.sha256 };
+  };
+
+  const addBuffer = async (name, bytes, { compress = true } = {}) => {
+    const entry = beginEntry(name);
+    const data = compress ? zlib.deflateRawSync(bytes) : bytes;
+    Object.assign(entry, {
+      method: compress ? METHOD_DEFLATE : METHOD_STORE,
+      crc32: updateCrc32(0, bytes),
+      size: bytes.length,
+      compressedSize: data.length,
+      sha256: crypto.createHash("sha256").update(bytes).digest("hex")
+    });
+    await write(buildLocalHeader(entry.nameBytes, entry.method, entry.stamp, entry.crc32, entry.compressedSize, entry.size));
+    await write(data);
+    return finishEntry(entry);
+  };
+
+  // Streams a file in as a stored entry; the local header is patched with the CRC and size afterwards.
+  const addFile = async (name, sourcePath) => {
+    const entry = beginEntry(name);
+    await write(buildLocalHeader(entry.nameBytes, METHOD_STORE, entry.stamp, 0, 0, 0));
+    const source = await fsPromises.open(sourcePath, "r");
+    const hash = crypto.createHash("sha256");
+    let crc32 = 0;
+    let size = 0;
+    try {
+      const buffer = Buffer.allocUnsafe(STREAM_CHUNK_BYTES);
+      for (;;) {
+        const { bytesRead } = await source.read(buffer, 0, buffer.length, size);
+        if (!bytesRead) break;
+        const chunk = buffer.subarray(0, bytesRead);
+        crc32 = updateCrc32(crc32, chunk);
+        hash.update(chunk);
+        await write(chunk);
+        size += bytesRead;
+        if (size > ZIP32_LIMIT) throw new Error("Bundle is too large for the ZIP format (4 GB).");
+      }
+    } finally {
+      await source.close();
+    }
+    Object.assign(entry, { method: METHOD_STORE, crc32, size, compressedSize: size, sha256: hash.digest("hex") });
+    await write(buildLocalHeader(entry.nameBytes, METHOD_STORE, entry.stamp, crc32, size, size), entry.localHeaderOffset);
+    return finishEntry(entry);
+  };
+
+  const close = async () => {
+    const centralOffset = offset;
+    for (const entry of entries) await write(buildCentralHeader(entry));
+    const centralSize = offset - centralOffset;
+    if (offset > ZIP32_LIMIT || entries.length > 0xffff) {
+      throw new Error("Bundle is too large for the ZIP format (4 GB).");
+    }
+    const end = Buffer.alloc(END_OF_CENTRAL_DIR_LEN);
+    end.writeUInt32LE(END_OF_CENTRAL_DIR_SIG, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(centralOffset, 16);
+    await write(end);
+    await handle.sync();
+    await handle.close();
+  };
+
+  const abort = async () => {
+    await handle.close().catch(() => undefined);
+    fs.rmSync(filePath, { force: true });
+  };
+
+  return { addBuffer, addFile, close, abort };
+};
+
+const readExactly = async (handle, length, position) => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) throw new Error("ZIP file is truncated.");
+  return buffer;
+};
+
+const findEndOfCentralDirectory = async (handle, fileSize) => {
+  if (fileSize < END_OF_CENTRAL_DIR_LEN) throw new Error("File is not a ZIP archive.");
+  const tailLength = Math.min(fileSize, END_OF_CENTRAL_DIR_LEN + MAX_COMMENT_LEN);
+  const tail = await readExactly(handle, tailLength, fileSize - tailLength);
+  for (let index = tail.length - END_OF_CENTRAL_DIR_LEN; index >= 0; index -= 1) {
+    if (tail.readUInt32LE(index) === END_OF_CENTRAL_DIR_SIG && index + END_OF_CENTRAL_DIR_LEN + tail.readUInt16LE(index + 20) === tail.length) {
+      return tail.subarray(index, index + END_OF_CENTRAL_DIR_LEN);
+    }
+  }
+  throw new Error("File is not a ZIP archive.");
+};
+
+// Opens a ZIP for reading and validates its directory against `limits`:
+// { maxEntries, maxEntryBytes(name) -> number, maxTotalBytes }. Entries must have safe, unique names,
+// use store or deflate, lie inside the file without overlapping, and claim a plausible ratio.
+const openZipReader = async (filePath, limits) => {
+  const handle = await fsPromises.open(filePath, "r");
+  try {
+    const { size: fileSize } = await handle.stat();
+    const end = await findEndOfCentralDirectory(handle, fileSize);
+    if (end.readUInt16LE(4) !== 0 || end.readUInt16LE(6) !== 0 || end.readUInt16LE(8) !== end.readUInt16LE(10)) {
+      throw new Error("Multi-part ZIP archives are not supported.");
+    }
+    const entryCount = end.readUInt16LE(10);
+    const centralSize = end.readUInt32LE(12);
+    const centralOffset = end.readUInt32LE(16);
+    if (entryCount > limits.maxEntries) throw limitError("ZIP_TOO_MANY_ENTRIES", "Bundle has too many entries.");
+    if (centralOffset + centralSize > fileSize) throw new Error("ZIP directory is out of bounds.");
+
+    const central = await readExactly(handle, centralSize, centralOffset);
+    const entries = new Map();
+    let position = 0;
+    let totalBytes = 0;
+    for (let index = 0; index < entryCount; index += 1) {
+      if (position + CENTRAL_HEADER_LEN > central.length || central.readUInt32LE(position) !== CENTRAL_HEADER_SIG) {
+        throw new Error("ZIP directory is corrupted.");
+      }
+      const flags = central.readUInt16LE(position + 8);
+      const method = central.readUInt16LE(position + 10);
+      const crc32 = central.readUInt32LE(position + 16);
+      const compressedSize = central.readUInt32LE(position + 20);
+      const size = central.readUInt32LE(position + 24);
+      const nameLength = central.readUInt16LE(position + 28);
+      const extraLength = central.readUInt16LE(position + 30);
+      const commentLength = central.readUInt16LE(position + 32);
+      const localHeaderOffset = central.readUInt32LE(position + 42);
+      const nameEnd = position + CENTRAL_HEADER_LEN + nameLength;
+      if (nameEnd > central.length) throw new Error("ZIP directory is corrupted.");
+      const name = central.subarray(position + CENTRAL_HEADER_LEN, nameEnd).toString("utf8");
+      position = nameEnd + extraLength + commentLength;
+
+      if (!isSafeEntryName(name)) throw new Error(`Bundle entry "${name}" is not allowed.`);
+      if (entries.has(name)) throw new Error(`Bundle entry "${name}" appears twice.`);
+      if (flags & FLAG_ENCRYPTED) throw new Error("Encrypted ZIP entries are not supported.");
+      if (method !== METHOD_STORE && method !== METHOD_DEFLATE) throw new Error(`Bundle entry "${name}" uses an unsupported compression method.`);
+      if (method === METHOD_STORE && compressedSize !== size) throw new Error(`Bundle entry "${name}" has inconsistent sizes.`);
+      if (size > limits.maxEntryBytes(name)) throw limitError("ZIP_ENTRY_TOO_LARGE", `Bundle entry "${name}" exceeds the size limit.`);
+      if (method === METHOD_DEFLATE && size > RATIO_CHECK_MIN_BYTES && size > compressedSize * MAX_COMPRESSION_RATIO) {
+        throw new Error(`Bundle entry "${name}" has an implausible compression ratio.`);
+      }
+      totalBytes += size;
+      if (totalBytes > limits.maxTotalBytes) throw limitError("ZIP_TOTAL_TOO_LARGE", "Bundle contents exceed the total size limit.");
+      entries.set(name, { name, flags, method, crc32, compressedSize, size, localHeaderOffset, dataOffset: null });
+    }
+
+    // Local headers must agree with the directory, and entry data must not overlap (a classic bomb trick).
+    const spans = [];
+    for (const entry of entries.values()) {
+      const local = await readExactly(handle, LOCAL_HEADER_LEN, entry.localHeaderOffset);
+      if (local.readUInt32LE(0) !== LOCAL_HEADER_SIG || local.readUInt16LE(8) !== entry.method) {
+        throw new Error(`Bundle entry "${entry.name}" has a mismatched local header.`);
+      }
+      const nameLength = local.readUInt16LE(26);
+      const extraLength = local.readUInt16LE(28);
+      const localName = (await readExactly(handle, nameLength, entry.localHeaderOffset + LOCAL_HEADER_LEN)).toString("utf8");
+      if (localName !== entry.name) throw new Error(`Bundle entry "${entry.name}" has a mismatched local header.`);
+      entry.dataOffset = entry.localHeaderOffset + LOCAL_HEADER_LEN + nameLength + extraLength;
+      if (entry.dataOffset + entry.compressedSize > centralOffset) throw new Error(`Bundle entry "${entry.name}" is out of bounds.`);
+      spans.push([entry.localHeaderOffset, entry.dataOffset + entry.compressedSize]);
+    }
+    spans.sort((a, b) => a[0] - b[0]);
+    for (let index = 1; index < spans.length; index += 1) {
+      if (spans[index][0] < spans[index - 1][1]) throw new Error("Bundle entries overlap.");
+    }
+
+    // Streams one entry's data through `onChunk`, verifying size and CRC. Inflated output is capped at
+    // the declared size as it is produced, so a lying header can't make it produce (or buffer) more.
+    const streamEntry = async (entry, onChunk) => {
+      let produced = 0;
+      let crc32 = 0;
+      const accept = async (chunk) => {
+        produced += chunk.length;
+        if (produced > entry.size) throw new Error(`Bundle entry "${entry.name}" is larger than declared.`);
+        crc32 = updateCrc32(crc32, chunk);
+        await onChunk(chunk);
+      };
+      const inflater = entry.method === METHOD_DEFLATE ? zlib.createInflateRaw() : null;
+      const pending = [];
+      let inflated = 0;
+      let oversized = false;
+      let inflateError = null;
+      if (inflater) {
+        inflater.on("data", (chunk) => {
+          inflated += chunk.length;
+          if (inflated > entry.size) {
+            oversized = true;
+            inflater.destroy();
+            return;
+          }
+          pending.push(chunk);
+        });
+        inflater.on("error", (error) => {
+          inflateError = error;
+        });
+      }
+      const drain = async () => {
+        if (oversized) throw new Error(`Bundle entry "${entry.name}" is larger than declared.`);
+        while (pending.length) await accept(pending.shift());
+        if (inflateError) throw new Error(`Bundle entry "${entry.name}" is corrupted.`);
+      };
+      const buffer = Buffer.allocUnsafe(inflater ? INFLATE_INPUT_CHUNK_BYTES : STREAM_CHUNK_BYTES);
+      let read = 0;
+      while (read < entry.compressedSize) {
+        const length = Math.min(buffer.length, entry.compressedSize - read);
+        const { bytesRead } = await handle.read(buffer, 0, length, entry.dataOffset + read);
+        if (bytesRead !== length) throw new Error("ZIP file is truncated.");
+        read += bytesRead;
+        const chunk = Buffer.from(buffer.subarray(0, bytesRead));
+        if (inflater) {
+          // A destroyed inflater may never call back, so "close" settles the write too.
+          await new Promise((resolve) => {
+            inflater.once("close", resolve);
+            inflater.write(chunk, () => {
+              inflater.off("close", resolve);
+              resolve();
+            });
+          });
+          await drain();
+        } else {
+          await accept(chunk);
+        }
+      }
+      if (inflater) {
+        await new Promise((resolve) => inflater.end(resolve));
+        await new Promise((resolve) => setImmediate(resolve));
+        await drain();
+      }
+      if (produced !== entry.size || crc32 !== entry.crc32) {
+        throw new Error(`Bundle entry "${entry.name}" failed its checksum.`);
+      }
+    };
+
+    const readEntryBuffer = async (entry) => {
+      const parts = [];
+      await streamEntry(entry, (chunk) => {
+        parts.push(chunk);
+      });
+      return Buffer.concat(parts);
+    };
+
+    // Extracts to `destPath` (created exclusively) and returns the SHA-256 of the content.
+    const extractEntry = async (entry, destPath) => {
+      await fsPromises.mkdir(path.dirname(destPath), { recursive: true });
+      const output = await fsPromises.open(destPath, "wx", 0o600);
+      const hash = crypto.createHash("sha256");
+      try {
+        await streamEntry(entry, async (chunk) => {
+          hash.update(chunk);
+          await output.write(chunk);
+        });
+      } catch (error) {
+        await output.close().catch(() => undefined);
+        fs.rmSync(destPath, { force: true });
+        throw error;
+      }
+      await output.close();
+      return hash.digest("hex");
+    };
+
+    return {
+      entries,
+      readEntryBuffer,
+      extractEntry,
+      close: () => handle.close()
+    };
+  } catch (error) {
+    await handle.close().catch(() => undefined);
+    throw error;
+  }
+};
+
+const isZipFile = (prefixBytes) => {
+  const buf = Buffer.from(prefixBytes);
+  return buf.length >= 4 && buf.readUInt32LE(0) === LOCAL_HEADER_SIG;
+};
+
+module.exports = {
+  createZipWriter,
+  openZipReader,
+  isZipFile,
+  isSafeEntryName
+};
@@ -3,15 +3,32 @@ import GanttChart, { GanttRow } from "./timeline/GanttChart";
 import TimelinePanel, { TimelinePhaseValue } from "./timeline/TimelinePanel";
 import { PHASE_COLOR_MAP, PROJECT_COLOR_PALETTE, TIMELINE_PHASES } from "./timeline/constants";
 import { isValidRange, projectColorForId } from "./timeline/utils";
+import AuditLogViewer from "./audit/AuditLogViewer";
+import { formatAuditAction } from "./audit/utils";
+import SnapshotDiffViewer from "./snapshots/SnapshotDiffViewer";
+import BackupArchiveDialog from "./backup/BackupArchiveDialog";
+import BackupDestinationPanel from "./backup/BackupDestinationPanel";
+import TransferPassphraseDialog from "./bundles/TransferPassphraseDialog";
+import BundleMergeDialog from "./bundles/BundleMergeDialog";
+import CustodiansPanel from "./custodians/CustodiansPanel";
+import DataSourcesPanel from "./collections/DataSourcesPanel";
+import ReviewMetricsPanel from "./metrics/ReviewMetricsPanel";
+import ProductionsPanel from "./productions/ProductionsPanel";
+import { formatGb, formatItemCount } from "./collections/constants";
+import { CUSTODIAN_STATUS_LABELS } from "./custodians/constants";
+import KdfSettingsPanel from "./KdfSettingsPanel";
+import MaintenancePanel from "./MaintenancePanel";
+import RecoveryCodeNotice from "./RecoveryCodeNotice";
 
 const DEFAULT_TEMPLATE = `Collections\n  • …\n  • …\n\nProcessing\n  • …\n  • …\n\nTAR\n  • …\n  • …\n\nReview\n  • …\n  • …\n\nPost-processing\n  • …\n  • …\n\nProduction\n  • …\n  • …\n\nProject Completion\n  • …\n  • …\n`;
 
-const tabs = ["Notes", "Timelines", "To-Do", "Documents"] as const;
+const tabs = ["Notes", "Timelines", "To-Do", "Custodians", "Data Sources", "Productions", "Documents"] as const;
 
 type TabKey = (typeof tabs)[number];
 
 type ExportStatus = "idle" | "working" | "done" | "error";
 type NoteSaveStatus = "idle" | "saving" | "saved" | "error";
+type NoteSaveDraft = { id: string; title: string; content: string; noteDate: string };
 type SearchScope = "project" | "global";
 type BackupActionStatus = "idle" | "working" | "done" | "error";
 type ThemeMode = "light" | "dark";
@@ -81,10 +98,37 @@ const formatDaysLabel = (days: number | null | undefined) => {
   return `${days}d left`;
 };
 
-const formatAuditAction = (value: string) =>
-  value
-    .replace(/[._]+/g, " ")
-    .replace(/\b\w/g, (char) => char.toUpperCase());
+const AUDIT_CHAIN_BREAK_LABELS: Record<NonNullable<AuditChainVerification["firstBreak"]>["reason"], string> = {
+  missing_entries: "entries missing before this point",
+  duplicate_sequence: "duplicate sequence number",
+  broken_link: "link to previous entry broken",
+  content_mismatch: "entry content altered",
+  unchained_entry: "entry outside the chain"
+};
+
+const describeAuditChain = (verification: AuditChainVerification) => {
+  if (verification.ok) {
+    return `Chain intact · ${verification.verifiedEntries} entries · head ${verification.head.entryHash.slice(0, 12)}`;
+  }
+  const firstBreak = verification.firstBreak;
+  if (!firstBreak) return "Chain broken.";
+  const where = firstBreak.seq === null ? "an unsequenced entry" : `entry #${firstBreak.seq}`;
+  const what = firstBreak.action ? ` (${formatAuditAction(firstBreak.action)})` : "";
+  return `Chain broken at ${where}${what}: ${AUDIT_CHAIN_BREAK_LABELS[firstBreak.reason]}.`;
+};
+
+const describePersistDiagnostics = (diagnostics: PersistenceDiagnostics) => {
+  const parts: string[] = [];
+  if (diagnostics.lastFullFlushMs !== null) {
+    parts.push(`full save ${diagnostics.lastFullFlushMs} ms (avg ${diagnostics.avgFullFlushMs} ms, max ${diagnostics.maxFullFlushMs} ms)`);
+  }
+  if (diagnostics.lastJournalAppendMs !== null) {
+    parts.push(`journal write ${diagnostics.lastJournalAppendMs} ms (avg ${diagnostics.avgJournalAppendMs} ms)`);
+  }
+  parts.push(diagnostics.journalRecords ? `${diagnostics.journalRecords} journaled changes awaiting full save` : "all changes saved");
+  if (diagnostics.lastError) parts.push(`last error: ${diagnostics.lastError}`);
+  return parts.join(" · ");
+};
 
 const escapeHtml = (value: string) =>
   value
@@ -559,6 +603,18 @@ const NOTE_TEMPLATES = [
 
 const ACCENT_PRESETS = ["#35d0a6", "#3a86ff", "#f97316", "#ef4444", "#14b8a6", "#a855f7"] as const;
 
+const MIN_PASSPHRASE_LEN = 12;
+
+const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60] as const;
+const SNAPSHOT_RETENTION_OPTIONS: Array<{ key: "keepDailySnapshots" | "keepWeeklySnapshots" | "keepMonthlySnapshots"; label: string; values: number[] }> = [
+  { key: "keepDailySnapshots", label: "Daily", values: [3, 7, 14, 30] },
+  { key: "keepWeeklySnapshots", label: "Weekly", values: [0, 4, 8, 12] },
+  { key: "keepMonthlySnapshots", label: "Monthly", values: [0, 3, 6, 12] }
+];
+const ACTIVITY_PING_INTERVAL_MS = 30_000;
+
+const emptyPassphraseForm = { current: "", next: "", confirm: "", rotateDataKey: false };
+
 const App: React.FC = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [projectSearch, setProjectSearch] = useState("");
@@ -572,6 +628,8 @@ const App: React.FC = () => {
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
   const [noteDraft, setNoteDraft] = useState("");
   const [noteTitle, setNoteTitle] = useState("");
+  // The note noteDraft/noteTitle were loaded from; lags selectedNoteId by one render after a switch.
+  const [draftNoteId, setDraftNoteId] = useState<string | null>(null);
   const [noteSaveStatus, setNoteSaveStatus] = useState<NoteSaveStatus>("idle");
   const [richToolState, setRichToolState] = useState<RichToolState>({
     header: false,
@@ -620,6 +678,7 @@ const App: React.FC = () => {
   const [previewAttachmentId, setPreviewAttachmentId] = useState<string | null>(null);
   const [previewResult, setPreviewResult] = useState<AttachmentPreviewResult | null>(null);
   const [backupStatus, setBackupStatus] = useState<BackupStatus | null>(null);
+  const [persistDiagnostics, setPersistDiagnostics] = useState<PersistenceDiagnostics | null>(null);
   const [dataSafetyExpanded, setDataSafetyExpanded] = useState(false);
   const [backupActionStatus, setBackupActionStatus] = useState<BackupActionStatus>("idle");
   const [backupActionMessage, setBackupActionMessage] = useState<string | null>(null);
@@ -629,6 +688,26 @@ const App: React.FC = () => {
   const [snapshotActionMessage, setSnapshotActionMessage] = useState<string | null>(null);
   const [snapshotItems, setSnapshotItems] = useState<BackupSnapshot[]>([]);
   const [auditLogItems, setAuditLogItems] = useState<AuditLogEntry[]>([]);
+  const [auditChain, setAuditChain] = useState<AuditChainVerification | null>(null);
+  const [auditChainChecking, setAuditChainChecking] = useState(false);
+  const [showAuditViewer, setShowAuditViewer] = useState(false);
+  const [comparingSnapshot, setComparingSnapshot] = useState<BackupSnapshot | null>(null);
+  const [showBackupArchiveDialog, setShowBackupArchiveDialog] = useState(false);
+  const [bundlePassphrasePrompt, setBundlePassphrasePrompt] = useState<
+    { mode: "export" } | { mode: "import" | "merge"; importToken: string; error: string | null } | null
+  >(null);
+  const [bundleMerge, setBundleMerge] = useState<{ mergeToken: string; preview: BundleMergePreview } | null>(null);
+  const [projectDataRevision, setProjectDataRevision] = useState(0);
+  const [collectionSummary, setCollectionSummary] = useState<DataSourceSummary | null>(null);
+  const [passphraseForm, setPassphraseForm] = useState(emptyPassphraseForm);
+  const [passphraseStatus, setPassphraseStatus] = useState<BackupActionStatus>("idle");
+  const [passphraseMessage, setPassphraseMessage] = useState<string | null>(null);
+  const [hasRecoveryKey, setHasRecoveryKey] = useState(false);
+  const [recoveryKeyPassphrase, setRecoveryKeyPassphrase] = useState("");
+  const [recoveryKeyStatus, setRecoveryKeyStatus] = useState<BackupActionStatus>("idle");
+  const [recoveryKeyMessage, setRecoveryKeyMessage] = useState<string | null>(null);
+  const [newRecoveryCode, setNewRecoveryCode] = useState<string | null>(null);
+  const [appSettings, setAppSettings] = useState<AppSettings | null>(null);
   const [deadlineDashboard, setDeadlineDashboard] = useState<DeadlineDashboard | null>(null);
   const [dashboardRefreshing, setDashboardRefreshing] = useState(false);
   const [a11yAuditOpen, setA11yAuditOpen] = useState(false);
@@ -656,6 +735,9 @@ const App: React.FC = () => {
 
   const saveResetTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const saveSnapshotRef = useRef<{ id: string; title: string; content: string } | null>(null);
+  // Autosaves still debouncing, by note, and saves already sent; a vault lock flushes and awaits both.
+  const pendingNoteSavesRef = useRef(new Map<string, NoteSaveDraft>());
+  const noteSavesInFlightRef = useRef(new Set<Promise<unknown>>());
   const projectMatterInputRef = useRef<HTMLInputElement | null>(null);
   const archiveCancelButtonRef = useRef<HTMLButtonElement | null>(null);
   const quickSearchInputRef = useRef<HTMLInputElement | null>(null);
@@ -718,11 +800,12 @@ const App: React.FC = () => {
   }, []);
 
   const refreshSafetyData = useCallback(async () => {
-    const [backupResult, snapshotResult, auditResult, dashboardResult] = await Promise.allSettled([
+    const [backupResult, snapshotResult, auditResult, dashboardResult, diagnosticsResult] = await Promise.allSettled([
       window.edisconotes.backupStatus(),
       window.edisconotes.listBackupSnapshots(12),
       window.edisconotes.listAuditLog(30),
-      window.edisconotes.getDeadlineDashboard()
+      window.edisconotes.getDeadlineDashboard(),
+      window.edisconotes.getPersistenceDiagnostics()
     ]);
 
     if (backupResult.status === "fulfilled") {
@@ -748,8 +831,32 @@ const App: React.FC = () => {
     } else {
       console.error("Failed to load deadline dashboard", dashboardResult.reason);
     }
+
+    if (diagnosticsResult.status === "fulfilled") {
+      setPersistDiagnostics(diagnosticsResult.value);
+    } else {
+      console.error("Failed to load persistence diagnostics", diagnosticsResult.reason);
+    }
+  }, []);
+
+  const verifyAuditChainNow = useCallback(async () => {
+    setAuditChainChecking(true);
+    try {
+      setAuditChain(await window.edisconotes.verifyAuditLog());
+    } catch (error) {
+      console.error("Failed to verify audit log chain", error);
+      setAuditChain(null);
+    } finally {
+      setAuditChainChecking(false);
+    }
   }, []);
 
+  useEffect(() => {
+    if (dataSafetyExpanded) {
+      void verifyAuditChainNow();
+    }
+  }, [dataSafetyExpanded, verifyAuditChainNow]);
+
   const refreshDashboardNow = useCallback(async () => {
     setDashboardRefreshing(true);
     try {
@@ -774,6 +881,31 @@ const App: React.FC = () => {
     setGlobalSearch(null);
   }, []);
 
+  const openProjectTimelines = useCallback((projectId: string) => {
+    setSelectedProjectId(projectId);
+    setActiveTab("Timelines");
+    setTimelineView("project");
+    setQuickSearch("");
+    setSearchScope("project");
+    setGlobalSearch(null);
+  }, []);
+
+  const openProjectDataSources = useCallback((projectId: string) => {
+    setSelectedProjectId(projectId);
+    setActiveTab("Data Sources");
+    setQuickSearch("");
+    setSearchScope("project");
+    setGlobalSearch(null);
+  }, []);
+
+  const openProjectLegalHolds = useCallback((projectId: string) => {
+    setSelectedProjectId(projectId);
+    setActiveTab("Custodians");
+    setQuickSearch("");
+    setSearchScope("project");
+    setGlobalSearch(null);
+  }, []);
+
   useEffect(() => {
     refreshSafetyData();
     const interval = window.setInterval(refreshSafetyData, 15000);
@@ -842,8 +974,24 @@ const App: React.FC = () => {
         setSelectedNoteId(noteItems[0].id);
       }
     });
+  }, [selectedProjectId, projectDataRevision]);
+
+  const refreshCollectionSummary = useCallback(async () => {
+    if (!selectedProjectId) {
+      setCollectionSummary(null);
+      return;
+    }
+    try {
+      setCollectionSummary(await window.edisconotes.getDataSourceSummary(selectedProjectId));
+    } catch (error) {
+      console.error("Failed to load collection summary", error);
+    }
   }, [selectedProjectId]);
 
+  useEffect(() => {
+    void refreshCollectionSummary();
+  }, [refreshCollectionSummary, projectDataRevision]);
+
   useEffect(() => {
     if (!pendingNoteSelectionId) return;
     if (!notes.some((note) => note.id === pendingNoteSelectionId)) return;
@@ -897,12 +1045,14 @@ const App: React.FC = () => {
     if (!selectedNote) {
       setNoteDraft("");
       setNoteTitle("");
+      setDraftNoteId(null);
       setNoteSaveStatus("idle");
       saveSnapshotRef.current = null;
       return;
     }
     setNoteDraft(selectedNote.contentMarkdown);
     setNoteTitle(selectedNote.title);
+    setDraftNoteId(selectedNote.id);
     setNoteSaveStatus("idle");
     saveSnapshotRef.current = {
       id: selectedNote.id,
@@ -1026,8 +1176,30 @@ const App: React.FC = () => {
     };
   }, [refreshRichToolState, selectedNoteId]);
 
+  const saveNoteDraft = useCallback((draft: NoteSaveDraft) => {
+    if (pendingNoteSavesRef.current.get(draft.id) === draft) {
+      pendingNoteSavesRef.current.delete(draft.id);
+    }
+    const saving = window.edisconotes
+      .updateNote(draft.id, { title: draft.title, noteDate: draft.noteDate, contentMarkdown: draft.content })
+      .then((updated) => {
+        setNotes((prev) => prev.map((note) => (note.id === updated.id ? updated : note)));
+        if (saveSnapshotRef.current?.id === updated.id) {
+          saveSnapshotRef.current = { id: updated.id, title: updated.title, content: updated.contentMarkdown };
+        }
+      });
+    const tracked = saving.catch(() => undefined).finally(() => noteSavesInFlightRef.current.delete(tracked));
+    noteSavesInFlightRef.current.add(tracked);
+    return saving;
+  }, []);
+
   useEffect(() => {
-    if (!selectedNoteId) return;
+    // An edit still debouncing when the user switched notes saves right away.
+    for (const pending of pendingNoteSavesRef.current.values()) {
+      if (pending.id === selectedNoteId) continue;
+      saveNoteDraft(pending).catch((error) => console.error("Note autosave failed", error));
+    }
+    if (!selectedNoteId || draftNoteId !== selectedNoteId) return;
 
     const nextTitle = noteTitle.trim() || "Untitled Note";
     const snapshot = saveSnapshotRef.current;
@@ -1037,25 +1209,22 @@ const App: React.FC = () => {
       snapshot.title === nextTitle &&
       snapshot.content === noteDraft
     ) {
+      pendingNoteSavesRef.current.delete(selectedNoteId);
       return;
     }
 
     setNoteSaveStatus("saving");
+    const draft: NoteSaveDraft = {
+      id: selectedNoteId,
+      title: nextTitle,
+      content: noteDraft,
+      noteDate: selectedNote?.noteDate || new Date().toISOString().slice(0, 10)
+    };
+    pendingNoteSavesRef.current.set(selectedNoteId, draft);
 
     const handler = setTimeout(() => {
-      window.edisconotes
-        .updateNote(selectedNoteId, {
-          title: nextTitle,
-          noteDate: selectedNote?.noteDate || new Date().toISOString().slice(0, 10),
-          contentMarkdown: noteDraft
-        })
-        .then((updated) => {
-          setNotes((prev) => prev.map((note) => (note.id === updated.id ? updated : note)));
-          saveSnapshotRef.current = {
-            id: updated.id,
-            title: updated.title,
-            content: updated.contentMarkdown
-          };
+      saveNoteDraft(draft)
+        .then(() => {
           setNoteSaveStatus("saved");
           if (saveResetTimerRef.current) {
             clearTimeout(saveResetTimerRef.current);
@@ -1069,7 +1238,40 @@ const App: React.FC = () => {
     }, 600);
 
     return () => clearTimeout(handler);
-  }, [noteDraft, noteTitle, selectedNoteId, selectedNote?.noteDate]);
+  }, [noteDraft, noteTitle, selectedNoteId, draftNoteId, selectedNote?.noteDate, saveNoteDraft]);
+
+  // Saves every autosave still debouncing, for any note, and waits for saves already in flight (used before auto-lock).
+  const flushPendingNoteSaves = useCallback(async () => {
+    for (const pending of [...pendingNoteSavesRef.current.values()]) {
+      saveNoteDraft(pending).catch((error) => console.error("Note flush before lock failed", error));
+    }
+    await Promise.all([...noteSavesInFlightRef.current]);
+  }, [saveNoteDraft]);
+
+  useEffect(() => {
+    const offFlush = window.edisconotes.onVaultFlushRequest(flushPendingNoteSaves);
+    const offLocked = window.edisconotes.onVaultLocked(() => {
+      window.location.reload();
+    });
+    return () => {
+      offFlush();
+      offLocked();
+    };
+  }, [flushPendingNoteSaves]);
+
+  useEffect(() => {
+    // Throttled pings keep the main-process idle timer from firing while the user is working.
+    let lastPingAt = 0;
+    const onActivity = () => {
+      const now = Date.now();
+      if (now - lastPingAt < ACTIVITY_PING_INTERVAL_MS) return;
+      lastPingAt = now;
+      window.edisconotes.vaultActivity();
+    };
+    const events = ["mousedown", "mousemove", "keydown", "wheel", "touchstart"] as const;
+    events.forEach((eventName) => window.addEventListener(eventName, onActivity, { passive: true }));
+    return () => events.forEach((eventName) => window.removeEventListener(eventName, onActivity));
+  }, []);
 
   useEffect(() => {
     if (timelineView !== "all") return;
@@ -1185,6 +1387,23 @@ const App: React.FC = () => {
     requestAnimationFrame(() => projectMatterInputRef.current?.focus());
   }, [showProjectForm]);
 
+  useEffect(() => {
+    if (!showSettings) {
+      // A recovery key is displayed once; closing Settings discards it.
+      setNewRecoveryCode(null);
+      setRecoveryKeyMessage(null);
+      return;
+    }
+    window.edisconotes
+      .vaultStatus()
+      .then((status) => setHasRecoveryKey(Boolean(status.hasRecoveryKey)))
+      .catch((error) => console.error("Failed to load vault status", error));
+    window.edisconotes
+      .getAppSettings()
+      .then(setAppSettings)
+      .catch((error) => console.error("Failed to load settings", error));
+  }, [showSettings]);
+
   useEffect(() => {
     if (!showArchiveConfirm) return;
     requestAnimationFrame(() => archiveCancelButtonRef.current?.focus());
@@ -1342,7 +1561,7 @@ const App: React.FC = () => {
 
   const openGlobalResult = (
     projectId: string,
-    target: "project" | "note" | "todo" | "document",
+    target: "project" | "note" | "todo" | "custodian" | "document",
     targetId?: string
   ) => {
     setSelectedProjectId(projectId);
@@ -1357,6 +1576,10 @@ const App: React.FC = () => {
       setActiveTab("To-Do");
       return;
     }
+    if (target === "custodian") {
+      setActiveTab("Custodians");
+      return;
+    }
     if (target === "document") {
       setActiveTab("Documents");
       return;
@@ -1386,7 +1609,9 @@ const App: React.FC = () => {
       const result = await window.edisconotes.exportBackup();
       if (result.ok) {
         setBackupActionStatus("done");
-        setBackupActionMessage(`Backup created at ${result.backupPath}`);
+        setBackupActionMessage(
+          `Backup archive saved to ${result.backupPath} (${formatBytes(result.sizeBytes ?? 0)}, ${result.attachmentFiles ?? 0} documents)`
+        );
         refreshSafetyData();
       } else if (!result.canceled) {
         setBackupActionStatus("error");
@@ -1401,15 +1626,23 @@ const App: React.FC = () => {
     }
   };
 
-  const restoreBackup = async () => {
+  const restoreFolderBackup = async () => {
+    setShowBackupArchiveDialog(false);
     const confirmed = window.confirm(
-      "Restore will replace current local data and restart the app. Continue?"
+      "Folder backups carry no checksums and are restored unverified. Restore will replace current local data and restart the app. Continue?"
     );
     if (!confirmed) return;
     setBackupActionMessage(null);
     setBackupActionStatus("working");
     try {
-      const result = await window.edisconotes.restoreBackup();
+      let result = await window.edisconotes.restoreBackup();
+      if (result.errorCode === "RESTORE_OTHER_DATA_KEY") {
+        if (!window.confirm(`${result.error} Restore it anyway?`)) {
+          setBackupActionStatus("idle");
+          return;
+        }
+        result = await window.edisconotes.restoreBackup({ backupPath: result.backupPath, allowOtherDataKey: true });
+      }
       if (result.relaunching) {
         setBackupActionStatus("done");
         setBackupActionMessage("Restoring backup and restarting...");
@@ -1454,7 +1687,14 @@ const App: React.FC = () => {
     setSnapshotActionStatus("working");
     setSnapshotActionMessage(null);
     try {
-      const result = await window.edisconotes.restoreBackupSnapshot(snapshotId);
+      let result = await window.edisconotes.restoreBackupSnapshot(snapshotId);
+      if (result.errorCode === "RESTORE_OTHER_DATA_KEY") {
+        if (!window.confirm(`${result.error} Restore it anyway?`)) {
+          setSnapshotActionStatus("idle");
+          return;
+        }
+        result = await window.edisconotes.restoreBackupSnapshot(snapshotId, { allowOtherDataKey: true });
+      }
       if (result.relaunching) {
         setSnapshotActionStatus("done");
         setSnapshotActionMessage("Restoring from restore point and restarting...");
@@ -1473,16 +1713,17 @@ const App: React.FC = () => {
     }
   };
 
-  const exportProjectBundle = async () => {
+  const exportProjectBundle = async (transferPassphrase: string) => {
     if (!selectedProject) return;
+    setBundlePassphrasePrompt(null);
     setBundleActionStatus("working");
     setBundleActionMessage(null);
     try {
-      const result = await window.edisconotes.exportProjectBundle(selectedProject.id);
+      const result = await window.edisconotes.exportProjectBundle(selectedProject.id, { transferPassphrase });
       if (result.ok) {
         setBundleActionStatus("done");
         setBundleActionMessage(
-          `Bundle exported (${result.notes || 0} notes, ${result.todos || 0} tasks, ${result.attachments || 0} files).`
+          `${result.encrypted ? "Encrypted bundle" : "Unencrypted bundle"} exported (${result.notes || 0} notes, ${result.todos || 0} tasks, ${result.custodians || 0} custodians, ${result.attachments || 0} files).`
         );
         refreshSafetyData();
       } else if (!result.canceled) {
@@ -1498,11 +1739,22 @@ const App: React.FC = () => {
     }
   };
 
-  const importProjectBundle = async () => {
+  const importProjectBundle = async (options?: { importToken: string; transferPassphrase: string }) => {
+    setBundlePassphrasePrompt(null);
     setBundleActionStatus("working");
     setBundleActionMessage(null);
     try {
-      const result = await window.edisconotes.importProjectBundle();
+      const result = await window.edisconotes.importProjectBundle(options);
+      if (result.importToken) {
+        // Encrypted bundle: ask for (or re-ask for) the transfer passphrase, then resume with the token.
+        setBundleActionStatus("idle");
+        setBundlePassphrasePrompt({
+          mode: "import",
+          importToken: result.importToken,
+          error: result.errorCode === "BUNDLE_WRONG_PASSPHRASE" ? result.error || "Transfer passphrase is incorrect." : null
+        });
+        return;
+      }
       if (result.ok && result.project) {
         const importedProject = result.project;
         setProjects((prev) => [importedProject, ...prev.filter((item) => item.id !== importedProject.id)]);
@@ -1510,7 +1762,7 @@ const App: React.FC = () => {
         setBundleActionStatus("done");
         const counts = result.counts;
         setBundleActionMessage(
-          `Project imported (${counts?.notes || 0} notes, ${counts?.todos || 0} tasks, ${counts?.attachments || 0} files).`
+          `Project imported (${counts?.notes || 0} notes, ${counts?.todos || 0} tasks, ${counts?.custodians || 0} custodians, ${counts?.attachments || 0} files).`
         );
         refreshSafetyData();
       } else if (!result.canceled) {
@@ -1526,6 +1778,43 @@ const App: React.FC = () => {
     }
   };
 
+  const previewBundleMerge = async (options?: { importToken: string; transferPassphrase: string }) => {
+    if (!selectedProject) return;
+    setBundlePassphrasePrompt(null);
+    setBundleActionStatus("working");
+    setBundleActionMessage(null);
+    try {
+      const result = await window.edisconotes.previewBundleMerge(selectedProject.id, options);
+      if (result.importToken) {
+        setBundleActionStatus("idle");
+        setBundlePassphrasePrompt({
+          mode: "merge",
+          importToken: result.importToken,
+          error: result.errorCode === "BUNDLE_WRONG_PASSPHRASE" ? result.error || "Transfer passphrase is incorrect." : null
+        });
+        return;
+      }
+      if (result.ok && result.mergeToken && result.preview) {
+        setBundleActionStatus("idle");
+        setBundleMerge({ mergeToken: result.mergeToken, preview: result.preview });
+      } else if (!result.canceled) {
+        setBundleActionStatus("error");
+        setBundleActionMessage(result.error || "Could not read the bundle for merging.");
+      } else {
+        setBundleActionStatus("idle");
+      }
+    } catch (error) {
+      console.error("Bundle merge preview failed", error);
+      setBundleActionStatus("error");
+      setBundleActionMessage("Could not read the bundle for merging.");
+    }
+  };
+
+  const closeBundleMerge = () => {
+    setBundleMerge(null);
+    void window.edisconotes.discardBundleMerge();
+  };
+
   const lockVaultNow = async () => {
     const confirmed = window.confirm("Lock vault now? You will need your passphrase to unlock.");
     if (!confirmed) return;
@@ -1546,6 +1835,80 @@ const App: React.FC = () => {
     }
   };
 
+  const changePassphrase = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (passphraseForm.next !== passphraseForm.confirm) {
+      setPassphraseStatus("error");
+      setPassphraseMessage("New passphrases do not match.");
+      return;
+    }
+    setPassphraseStatus("working");
+    setPassphraseMessage(passphraseForm.rotateDataKey ? "Re-encrypting vault. Keep the app open…" : "Updating passphrase…");
+    try {
+      const result = await window.edisconotes.vaultChangePassphrase(passphraseForm.current, passphraseForm.next, {
+        rotateDataKey: passphraseForm.rotateDataKey
+      });
+      if (result.ok && result.swapPending) {
+        // The vault locked itself: the re-encrypted files are saved but could not replace the live ones yet.
+        window.alert(
+          "Passphrase changed and data key rotated, but the re-encrypted files could not be swapped in yet. The vault is locked; unlock with the new passphrase to finish."
+        );
+        window.location.reload();
+      } else if (result.ok) {
+        setPassphraseStatus("done");
+        setPassphraseMessage(
+          result.rotatedDataKey
+            ? `Passphrase changed and data key rotated. Re-encrypted ${result.reencryptedAttachments || 0} files.${
+                result.recoveryKeyRemoved ? " The old recovery key no longer works; generate a new one." : ""
+              }`
+            : "Passphrase changed."
+        );
+        if (result.recoveryKeyRemoved) setHasRecoveryKey(false);
+        setPassphraseForm(emptyPassphraseForm);
+        refreshSafetyData();
+      } else {
+        setPassphraseStatus("error");
+        setPassphraseMessage(result.error || "Passphrase change failed.");
+      }
+    } catch (error) {
+      console.error("Passphrase change failed", error);
+      setPassphraseStatus("error");
+      setPassphraseMessage("Passphrase change failed.");
+    }
+  };
+
+  const updateAppSettings = async (changes: Partial<AppSettings>) => {
+    try {
+      setAppSettings(await window.edisconotes.updateAppSettings(changes));
+    } catch (error) {
+      console.error("Failed to update settings", error);
+    }
+  };
+
+  const createRecoveryKey = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setRecoveryKeyStatus("working");
+    setRecoveryKeyMessage(null);
+    try {
+      const result = await window.edisconotes.vaultCreateRecoveryKey(recoveryKeyPassphrase);
+      if (result.ok && result.recoveryCode) {
+        setRecoveryKeyStatus("done");
+        setRecoveryKeyMessage(result.replacedExisting ? "New recovery key created. The previous one no longer works." : null);
+        setNewRecoveryCode(result.recoveryCode);
+        setHasRecoveryKey(true);
+        setRecoveryKeyPassphrase("");
+        refreshSafetyData();
+      } else {
+        setRecoveryKeyStatus("error");
+        setRecoveryKeyMessage(result.error || "Recovery key creation failed.");
+      }
+    } catch (error) {
+      console.error("Recovery key creation failed", error);
+      setRecoveryKeyStatus("error");
+      setRecoveryKeyMessage("Recovery key creation failed.");
+    }
+  };
+
   const runAccessibilityAudit = () => {
     const controls = Array.from(document.querySelectorAll("button, input, select, textarea, a[href]"));
     const unlabeled = controls.filter((element) => {
@@ -1667,6 +2030,7 @@ const App: React.FC = () => {
     if (!note) return;
     if (!window.confirm(`Delete note \"${note.title}\"?`)) return;
 
+    pendingNoteSavesRef.current.delete(noteId);
     await window.edisconotes.deleteNote(noteId);
     setNotes((prev) => {
       const next = prev.filter((item) => item.id !== noteId);
@@ -2008,6 +2372,7 @@ const App: React.FC = () => {
       globalSearch.projects.length > 0 ||
       globalSearch.notes.length > 0 ||
       globalSearch.todos.length > 0 ||
+      globalSearch.custodians.length > 0 ||
       globalSearch.attachments.length > 0
     );
   }, [globalSearch]);
@@ -2174,6 +2539,9 @@ const App: React.FC = () => {
             {selectedProject ? (
               <p className="subline">
                 {selectedProject.clientName} · Billing {selectedProject.billingCode} · Deadline {formatDate(selectedProject.productionDeadline)}
+                {collectionSummary && collectionSummary.sourceCount > 0
+                  ? ` · Collected ${formatGb(collectionSummary.collectedGb)} / ${formatItemCount(collectionSummary.collectedItems)} from ${collectionSummary.sourceCount} sources`
+                  : ""}
               </p>
             ) : (
               <p className="subline">
@@ -2331,6 +2699,26 @@ const App: React.FC = () => {
                 </div>
               </div>
             ) : null}
+            {globalSearch?.custodians.length ? (
+              <div className="global-search-group">
+                <h4>Custodians</h4>
+                <div className="global-search-items">
+                  {globalSearch.custodians.map((custodian) => (
+                    <button
+                      key={custodian.id}
+                      type="button"
+                      className="global-search-item"
+                      onClick={() => openGlobalResult(custodian.projectId, "custodian")}
+                    >
+                      <strong>{custodian.projectName} · {custodian.name}</strong>
+                      <span>
+                        {[custodian.title, custodian.department, CUSTODIAN_STATUS_LABELS[custodian.status]].filter(Boolean).join(" · ")}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : null}
             {globalSearch?.attachments.length ? (
               <div className="global-search-group">
                 <h4>Documents</h4>
@@ -2389,6 +2777,17 @@ const App: React.FC = () => {
                   <span className="deadline-chip dashboard-chip late">Overdue {deadlineDashboard?.totals.overdueTimeline || 0}</span>
                   <span className="deadline-chip dashboard-chip soon">Due 7d {deadlineDashboard?.totals.dueWithin7Days || 0}</span>
                   <span className="deadline-chip dashboard-chip normal">Open tasks {deadlineDashboard?.totals.openTodos || 0}</span>
+                  {deadlineDashboard?.totals.reviewRisks ? (
+                    <span className="deadline-chip dashboard-chip late">Review overrun {deadlineDashboard.totals.reviewRisks}</span>
+                  ) : null}
+                  {deadlineDashboard?.totals.dataSources ? (
+                    <span className="deadline-chip dashboard-chip normal">Collected {formatGb(deadlineDashboard.totals.collectedGb)}</span>
+                  ) : null}
+                  {deadlineDashboard?.totals.overdueAcknowledgments ? (
+                    <span className="deadline-chip dashboard-chip late">
+                      Hold acks overdue {deadlineDashboard.totals.overdueAcknowledgments}
+                    </span>
+                  ) : null}
                 </div>
               </div>
             </div>
@@ -2398,10 +2797,33 @@ const App: React.FC = () => {
               <div className="deadline-dashboard-grid">
                 <div className="deadline-dashboard-column">
                   <h4>Timeline Risk Queue</h4>
-                  {deadlineDashboard.overdueTimeline.length === 0 && deadlineDashboard.upcomingTimeline.length === 0 ? (
+                  {deadlineDashboard.overdueTimeline.length === 0 &&
+                  deadlineDashboard.upcomingTimeline.length === 0 &&
+                  deadlineDashboard.reviewRisks.length === 0 ? (
                     <p className="muted">No tracked timeline deadlines yet.</p>
                   ) : (
                     <div className="timeline-summary-list">
+                      {deadlineDashboard.reviewRisks.map((item) => (
+                        <button
+                          key={`review-${item.id}`}
+                          type="button"
+                          className="timeline-summary-row review-risk-row"
+                          onClick={() => openProjectTimelines(item.projectId)}
+                        >
+                          <div>
+                            <p className="timeline-summary-project">{item.projectName}</p>
+                            <p className="muted">
+                              {item.status === "overrun" && item.projectedFinish
+                                ? `Review projected to finish ${formatDate(item.projectedFinish)}, ${item.overrunDays}d late`
+                                : `Review stalled · ${(item.remaining || 0).toLocaleString()} documents left`}
+                            </p>
+                          </div>
+                          <div className={`timeline-summary-due ${item.tone}`}>
+                            <strong>{formatDate(item.reviewEndDate)}</strong>
+                            <span>Review end</span>
+                          </div>
+                        </button>
+                      ))}
                       {[...deadlineDashboard.overdueTimeline, ...deadlineDashboard.upcomingTimeline.slice(0, 6)].map((item) => (
                         <div key={item.id} className="timeline-summary-row">
                           <div>
@@ -2450,6 +2872,61 @@ const App: React.FC = () => {
                     </div>
                   )}
                 </div>
+                <div className="deadline-dashboard-column">
+                  <h4>Collected Volume</h4>
+                  {deadlineDashboard.collectionRollups.length === 0 ? (
+                    <p className="muted">No data sources logged yet.</p>
+                  ) : (
+                    <div className="todo-rollup-list">
+                      {deadlineDashboard.collectionRollups.slice(0, 8).map((row) => (
+                        <button
+                          key={row.projectId}
+                          type="button"
+                          className="todo-rollup-row"
+                          onClick={() => openProjectDataSources(row.projectId)}
+                        >
+                          <div>
+                            <strong>{row.projectName}</strong>
+                            <p className="muted">
+                              {formatItemCount(row.collectedItems)} · {row.collectedSources}/{row.sourceCount} sources collected
+                            </p>
+                          </div>
+                          <span className="deadline-chip dashboard-chip normal">{formatGb(row.collectedGb)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="deadline-dashboard-column">
+                  <h4>Legal Hold Follow-ups</h4>
+                  {deadlineDashboard.overdueAcknowledgments.length === 0 && deadlineDashboard.upcomingHoldReminders.length === 0 ? (
+                    <p className="muted">No hold acknowledgments overdue or reminders coming up.</p>
+                  ) : (
+                    <div className="todo-rollup-list">
+                      {[...deadlineDashboard.overdueAcknowledgments, ...deadlineDashboard.upcomingHoldReminders].map((item) => (
+                        <button
+                          key={`${item.kind}-${item.id}`}
+                          type="button"
+                          className="todo-rollup-row"
+                          onClick={() => openProjectLegalHolds(item.projectId)}
+                        >
+                          <div>
+                            <strong>{item.projectName} · {item.custodianName}</strong>
+                            <p className="muted">
+                              {item.holdName} ·{" "}
+                              {item.kind === "acknowledgment"
+                                ? `acknowledgment was due ${formatDate(item.dueDate)}${item.escalated ? " · escalate" : ""}`
+                                : `reminder ${item.daysFromNow <= 0 ? "due now" : `on ${formatDate(item.dueDate)}`}`}
+                            </p>
+                          </div>
+                          <span className={`deadline-chip dashboard-chip ${item.tone}`}>
+                            {item.kind === "acknowledgment" ? formatDaysLabel(item.daysFromNow) : item.daysFromNow <= 0 ? "Remind" : `${item.daysFromNow}d`}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
             )}
           </section>
@@ -2496,7 +2973,7 @@ const App: React.FC = () => {
                   <button
                     type="button"
                     className="ghost"
-                    onClick={restoreBackup}
+                    onClick={() => setShowBackupArchiveDialog(true)}
                     disabled={backupActionStatus === "working" || snapshotActionStatus === "working" || bundleActionStatus === "working"}
                   >
                     Restore Backup
@@ -2512,7 +2989,7 @@ const App: React.FC = () => {
                   <button
                     type="button"
                     className="ghost"
-                    onClick={exportProjectBundle}
+                    onClick={() => setBundlePassphrasePrompt({ mode: "export" })}
                     disabled={backupActionStatus === "working" || snapshotActionStatus === "working" || bundleActionStatus === "working"}
                   >
                     Export Project Bundle
@@ -2520,11 +2997,25 @@ const App: React.FC = () => {
                   <button
                     type="button"
                     className="ghost"
-                    onClick={importProjectBundle}
+                    onClick={() => importProjectBundle()}
                     disabled={backupActionStatus === "working" || snapshotActionStatus === "working" || bundleActionStatus === "working"}
                   >
                     {bundleActionStatus === "working" ? "Working..." : "Import Project Bundle"}
                   </button>
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() => previewBundleMerge()}
+                    disabled={
+                      !selectedProject ||
+                      backupActionStatus === "working" ||
+                      snapshotActionStatus === "working" ||
+                      bundleActionStatus === "working"
+                    }
+                    title="Bring a colleague's updated bundle into the selected project"
+                  >
+                    Merge Bundle Into Project
+                  </button>
                 </div>
                 <div className="data-safety-grid">
                   <p className="muted">
@@ -2537,6 +3028,15 @@ const App: React.FC = () => {
                     Last restore: {backupStatus?.lastRestoreAt ? formatDateTime(backupStatus.lastRestoreAt) : "No restore yet"}
                   </p>
                   <p className="muted">Storage: {backupStatus?.dbPath || "Vault file unavailable"}</p>
+                  <p className="muted">
+                    Next automatic restore point:{" "}
+                    {backupStatus?.nextScheduledSnapshotAt ? formatDateTime(backupStatus.nextScheduledSnapshotAt) : "Not scheduled"}
+                  </p>
+                  <p className="muted">Restore points use: {backupStatus ? formatBytes(backupStatus.snapshotsBytes) : "Unknown"}</p>
+                  <p className="muted">
+                    Save latency:{" "}
+                    {persistDiagnostics ? describePersistDiagnostics(persistDiagnostics) : "Unavailable"}
+                  </p>
                 </div>
                 {backupActionMessage && (
                   <p className="muted" aria-live="polite">
@@ -2553,6 +3053,7 @@ const App: React.FC = () => {
                     {bundleActionMessage}
                   </p>
                 )}
+                <BackupDestinationPanel destination={backupStatus?.destination ?? null} onChanged={() => void refreshSafetyData()} />
                 <div className="snapshot-panel">
                   <div className="a11y-audit-head">
                     <strong>Restore Points</strong>
@@ -2570,18 +3071,47 @@ const App: React.FC = () => {
                               {snapshot.reason} · {snapshot.attachmentFiles} files · {snapshot.encryptedDatabase ? "encrypted DB" : "plaintext DB"}
                             </p>
                           </div>
-                          <button type="button" className="ghost" onClick={() => restoreSnapshot(snapshot.id)}>
-                            Restore
-                          </button>
+                          <div className="snapshot-row-actions">
+                            <button type="button" className="ghost" onClick={() => setComparingSnapshot(snapshot)}>
+                              Compare
+                            </button>
+                            <button type="button" className="ghost" onClick={() => restoreSnapshot(snapshot.id)}>
+                              Restore
+                            </button>
+                          </div>
                         </div>
                       ))}
                     </div>
                   )}
                 </div>
+                <MaintenancePanel
+                  onRepaired={() => {
+                    void refreshSafetyData();
+                    window.edisconotes.listProjects().then(setProjects);
+                  }}
+                />
                 <div className="audit-log-panel">
                   <div className="a11y-audit-head">
                     <strong>Audit Log</strong>
-                    <span className="muted">Latest activity</span>
+                    <button type="button" className="ghost" onClick={() => setShowAuditViewer(true)}>
+                      Open Full Log
+                    </button>
+                  </div>
+                  <div className="audit-chain-status">
+                    <p
+                      className={auditChain && !auditChain.ok ? "a11y-audit-result fail" : "muted"}
+                      aria-live="polite"
+                      title={auditChain ? `Head ${auditChain.head.entryHash}` : undefined}
+                    >
+                      {auditChainChecking
+                        ? "Verifying hash chain..."
+                        : auditChain
+                          ? describeAuditChain(auditChain)
+                          : "Hash chain not verified yet."}
+                    </p>
+                    <button type="button" className="ghost" onClick={verifyAuditChainNow} disabled={auditChainChecking}>
+                      Verify Chain
+                    </button>
                   </div>
                   {auditLogItems.length === 0 ? (
                     <p className="muted">No audit events captured yet.</p>
@@ -2903,6 +3433,15 @@ const App: React.FC = () => {
                     ))}
                   </div>
                 )}
+                {timelineView === "project" && (
+                  <ReviewMetricsPanel
+                    projectId={selectedProject.id}
+                    reviewStartDate={timelineValues.Review?.startDate || ""}
+                    reviewEndDate={timelineValues.Review?.endDate || ""}
+                    dataRevision={projectDataRevision}
+                    onChanged={refreshSafetyData}
+                  />
+                )}
               </div>
             )}
 
@@ -2986,6 +3525,44 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {activeTab === "Custodians" && (
+              <div role="tabpanel" id={tabPanelId("Custodians")} aria-labelledby={tabId("Custodians")} className="custodians-panel">
+                <CustodiansPanel
+                  projectId={selectedProject.id}
+                  dataRevision={projectDataRevision}
+                  quickQuery={quickQuery}
+                  onChanged={refreshSafetyData}
+                />
+              </div>
+            )}
+
+            {activeTab === "Data Sources" && (
+              <div role="tabpanel" id={tabPanelId("Data Sources")} aria-labelledby={tabId("Data Sources")} className="custodians-panel">
+                <DataSourcesPanel
+                  projectId={selectedProject.id}
+                  attachments={attachments}
+                  dataRevision={projectDataRevision}
+                  quickQuery={quickQuery}
+                  onChanged={() => {
+                    void refreshCollectionSummary();
+                    refreshSafetyData();
+                  }}
+                />
+              </div>
+            )}
+
+            {activeTab === "Productions" && (
+              <div role="tabpanel" id={tabPanelId("Productions")} aria-labelledby={tabId("Productions")} className="custodians-panel">
+                <ProductionsPanel
+                  projectId={selectedProject.id}
+                  attachments={attachments}
+                  dataRevision={projectDataRevision}
+                  quickQuery={quickQuery}
+                  onChanged={refreshSafetyData}
+                />
+              </div>
+            )}
+
             {activeTab === "Documents" && (
               <div role="tabpanel" id={tabPanelId("Documents")} aria-labelledby={tabId("Documents")} className="documents-panel">
                 <div className="documents-actions">
@@ -3343,11 +3920,76 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {comparingSnapshot && (
+        <SnapshotDiffViewer
+          snapshot={comparingSnapshot}
+          onClose={() => setComparingSnapshot(null)}
+          onRestored={() => {
+            void refreshSafetyData();
+            window.edisconotes.listProjects().then(setProjects);
+            setProjectDataRevision((revision) => revision + 1);
+          }}
+        />
+      )}
+      {bundlePassphrasePrompt && (
+        <TransferPassphraseDialog
+          mode={bundlePassphrasePrompt.mode === "export" ? "export" : "import"}
+          minLength={MIN_PASSPHRASE_LEN}
+          error={bundlePassphrasePrompt.mode === "export" ? null : bundlePassphrasePrompt.error}
+          onCancel={() => setBundlePassphrasePrompt(null)}
+          onSubmit={(transferPassphrase) => {
+            if (bundlePassphrasePrompt.mode === "export") {
+              void exportProjectBundle(transferPassphrase);
+            } else if (bundlePassphrasePrompt.mode === "merge") {
+              void previewBundleMerge({ importToken: bundlePassphrasePrompt.importToken, transferPassphrase });
+            } else {
+              void importProjectBundle({ importToken: bundlePassphrasePrompt.importToken, transferPassphrase });
+            }
+          }}
+        />
+      )}
+      {bundleMerge && (
+        <BundleMergeDialog
+          mergeToken={bundleMerge.mergeToken}
+          preview={bundleMerge.preview}
+          onClose={closeBundleMerge}
+          onMerged={(counts) => {
+            setBundleMerge(null);
+            setBundleActionStatus("done");
+            setBundleActionMessage(
+              `Bundle merged (${counts.added} added, ${counts.updated} updated, ${counts.keptBoth} kept as copies, ${counts.attachments} files).`
+            );
+            void refreshSafetyData();
+            window.edisconotes.listProjects().then(setProjects);
+            setProjectDataRevision((revision) => revision + 1);
+          }}
+        />
+      )}
+      {showBackupArchiveDialog && (
+        <BackupArchiveDialog
+          onClose={() => setShowBackupArchiveDialog(false)}
+          onRestoreFolder={restoreFolderBackup}
+          onRestarting={() => {
+            setBackupActionStatus("done");
+            setBackupActionMessage("Restoring backup and restarting...");
+          }}
+        />
+      )}
+      {showAuditViewer && (
+        <AuditLogViewer
+          projects={projects}
+          onClose={() => {
+            setShowAuditViewer(false);
+            void refreshSafetyData();
+          }}
+        />
+      )}
+
       {showSettings && (
         <div className="modal-backdrop" onClick={() => setShowSettings(false)}>
           <div className="modal settings-modal" onClick={(event) => event.stopPropagation()}>
-            <h3>Appearance Settings</h3>
-            <p className="muted">Set app theme and accent color for your workflow.</p>
+            <h3>Settings</h3>
+            <p className="muted">Set app theme, accent color, and vault security for your workflow.</p>
             <div className="settings-group">
               <p className="settings-label">Theme</p>
               <div className="settings-options">
@@ -3399,6 +4041,200 @@ const App: React.FC = () => {
                 ))}
               </div>
             </div>
+            <div className="settings-group">
+              <p className="settings-label">Auto-Lock</p>
+              <div className="settings-options">
+                {AUTO_LOCK_OPTIONS.map((minutes) => (
+                  <label key={minutes} className="settings-option">
+                    <input
+                      type="radio"
+                      name="autoLockMinutes"
+                      value={minutes}
+                      checked={appSettings?.autoLockMinutes === minutes}
+                      disabled={!appSettings}
+                      onChange={() => updateAppSettings({ autoLockMinutes: minutes })}
+                    />
+                    <span>{minutes === 0 ? "Never" : `${minutes} min`}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="settings-options">
+                <label className="settings-option">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(appSettings?.lockOnSleep)}
+                    disabled={!appSettings}
+                    onChange={(event) => updateAppSettings({ lockOnSleep: event.target.checked })}
+                  />
+                  <span>Lock when the computer sleeps or the screen locks</span>
+                </label>
+              </div>
+            </div>
+            <div className="settings-group">
+              <p className="settings-label">Automatic Restore Points</p>
+              <div className="settings-options">
+                <label className="settings-option">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(appSettings?.dailySnapshots)}
+                    disabled={!appSettings}
+                    onChange={(event) => updateAppSettings({ dailySnapshots: event.target.checked })}
+                  />
+                  <span>Daily</span>
+                </label>
+                <label className="settings-option">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(appSettings?.snapshotOnLock)}
+                    disabled={!appSettings}
+                    onChange={(event) => updateAppSettings({ snapshotOnLock: event.target.checked })}
+                  />
+                  <span>When the vault locks</span>
+                </label>
+                <label className="settings-option">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(appSettings?.snapshotBeforeImport)}
+                    disabled={!appSettings}
+                    onChange={(event) => updateAppSettings({ snapshotBeforeImport: event.target.checked })}
+                  />
+                  <span>Before importing a bundle</span>
+                </label>
+              </div>
+              <p className="muted">Keep the newest automatic restore point of each recent day, week and month. Manual restore points are never pruned.</p>
+              <div className="settings-options">
+                {SNAPSHOT_RETENTION_OPTIONS.map((option) => (
+                  <label key={option.key} className="settings-option">
+                    <span>{option.label}</span>
+                    <select
+                      value={appSettings?.[option.key] ?? ""}
+                      disabled={!appSettings}
+                      onChange={(event) => updateAppSettings({ [option.key]: Number(event.target.value) })}
+                    >
+                      {option.values.map((value) => (
+                        <option key={value} value={value}>
+                          {value}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="settings-group">
+              <p className="settings-label">Vault Passphrase</p>
+              <form onSubmit={changePassphrase} className="project-form settings-form">
+                <label>
+                  Current Passphrase
+                  <input
+                    type="password"
+                    value={passphraseForm.current}
+                    onChange={(event) => setPassphraseForm({ ...passphraseForm, current: event.target.value })}
+                    autoComplete="current-password"
+                  />
+                </label>
+                <div className="form-row">
+                  <label>
+                    New Passphrase
+                    <input
+                      type="password"
+                      value={passphraseForm.next}
+                      onChange={(event) => setPassphraseForm({ ...passphraseForm, next: event.target.value })}
+                      autoComplete="new-password"
+                      placeholder={`At least ${MIN_PASSPHRASE_LEN} characters`}
+                    />
+                  </label>
+                  <label>
+                    Confirm New Passphrase
+                    <input
+                      type="password"
+                      value={passphraseForm.confirm}
+                      onChange={(event) => setPassphraseForm({ ...passphraseForm, confirm: event.target.value })}
+                      autoComplete="new-password"
+                    />
+                  </label>
+                </div>
+                <label className="settings-check">
+                  <input
+                    type="checkbox"
+                    checked={passphraseForm.rotateDataKey}
+                    onChange={(event) => setPassphraseForm({ ...passphraseForm, rotateDataKey: event.target.checked })}
+                  />
+                  <span>Revoke access: rotate the data key</span>
+                </label>
+                <p className="muted">
+                  {passphraseForm.rotateDataKey
+                    ? "Re-encrypts the database and every attachment under a new data key, so the old passphrase no longer opens this vault. Restore points and backups made earlier keep the old key; restoring one asks for confirmation first. Other actions are paused until it finishes."
+                    : "Only the key wrapper changes; attachments are not touched. Snapshots and backups keep the old wrapper, so the old passphrase still opens them. To take access away from someone who knew the old passphrase, revoke access instead."}
+                </p>
+                {passphraseMessage && (
+                  <p className={passphraseStatus === "error" ? "muted save-error" : "muted"} aria-live="polite">
+                    {passphraseMessage}
+                  </p>
+                )}
+                <div className="form-actions">
+                  <button
+                    type="submit"
+                    className="ghost"
+                    disabled={
+                      passphraseStatus === "working" ||
+                      !passphraseForm.current ||
+                      passphraseForm.next.length < MIN_PASSPHRASE_LEN ||
+                      !passphraseForm.confirm
+                    }
+                  >
+                    {passphraseStatus === "working" ? "Working..." : "Change Passphrase"}
+                  </button>
+                </div>
+              </form>
+            </div>
+            <KdfSettingsPanel />
+            <div className="settings-group">
+              <p className="settings-label">Recovery Key</p>
+              {newRecoveryCode ? (
+                <RecoveryCodeNotice
+                  code={newRecoveryCode}
+                  onDone={() => setNewRecoveryCode(null)}
+                  buttonClassName="ghost"
+                  doneClassName="primary"
+                />
+              ) : (
+                <form onSubmit={createRecoveryKey} className="project-form settings-form">
+                  <p className="muted">
+                    {hasRecoveryKey
+                      ? "A recovery key is set up. Generating a new one replaces it."
+                      : "No recovery key is set up. Without one, a forgotten passphrase means resetting the vault."}
+                  </p>
+                  <label>
+                    Current Passphrase
+                    <input
+                      type="password"
+                      value={recoveryKeyPassphrase}
+                      onChange={(event) => setRecoveryKeyPassphrase(event.target.value)}
+                      autoComplete="current-password"
+                    />
+                  </label>
+                  <div className="form-actions">
+                    <button
+                      type="submit"
+                      className="ghost"
+                      disabled={recoveryKeyStatus === "working" || !recoveryKeyPassphrase}
+                    >
+                      {recoveryKeyStatus === "working"
+                        ? "Working..."
+                        : hasRecoveryKey
+                          ? "Replace Recovery Key"
+                          : "Generate Recovery Key"}
+                    </button>
+                  </div>
+                </form>
+              )}
+              {recoveryKeyMessage && (
+                <p className={recoveryKeyStatus === "error" ? "muted save-error" : "muted"} aria-live="polite">
+                  {recoveryKeyMessage}
+                </p>
+              )}
+            </div>
             <div className="form-actions">
               <button type="button" className="primary" onClick={() => setShowSettings(false)}>
                 Done
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from "react";
+
+type PanelStatus = "idle" | "working" | "done" | "error";
+
+const formatMemory = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MiB`;
+
+const formatParams = (params: { N: number; r: number; p: number }) =>
+  `N=2^${Math.round(Math.log2(params.N))}, r=${params.r}, p=${params.p}`;
+
+// Mirrors main's check: less total work or less memory than the current parameters.
+const isWeakerThan = (profile: { N: number; r: number; p: number; memoryBytes: number }, current: VaultKdfParams) =>
+  profile.N * profile.r * profile.p < current.N * current.r * current.p || profile.memoryBytes < current.memoryBytes;
+
+const KdfSettingsPanel: React.FC = () => {
+  const [current, setCurrent] = useState<VaultKdfParams | null>(null);
+  const [calibration, setCalibration] = useState<VaultKdfCalibration | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [status, setStatus] = useState<PanelStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.edisconotes
+      .vaultKdfStatus()
+      .then(setCurrent)
+      .catch((error) => console.error("Failed to load key derivation settings", error));
+  }, []);
+
+  const runBenchmark = async () => {
+    setStatus("working");
+    setMessage("Measuring unlock time on this machine…");
+    try {
+      const result = await window.edisconotes.vaultCalibrateKdf();
+      setCalibration(result);
+      setCurrent(result.current);
+      setSelectedId(result.recommendedId);
+      setStatus("idle");
+      setMessage(
+        result.recommendedId
+          ? null
+          : `No profile unlocks within ${result.targetMs} ms here; keep the current setting or pick one knowingly.`
+      );
+    } catch (error) {
+      console.error("Key derivation benchmark failed", error);
+      setStatus("error");
+      setMessage("Benchmark failed.");
+    }
+  };
+
+  const applyProfile = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!selectedId) return;
+    const profile = calibration?.profiles.find((item) => item.id === selectedId);
+    const downgrade = Boolean(profile && current && isWeakerThan(profile, current));
+    if (
+      downgrade &&
+      !window.confirm(
+        "This profile is weaker than the current one, so a stolen vault header would be cheaper to attack. The downgrade is recorded in the audit log. Apply it anyway?"
+      )
+    ) {
+      return;
+    }
+    setStatus("working");
+    setMessage("Rewrapping vault key…");
+    try {
+      const result = await window.edisconotes.vaultUpgradeKdf(passphrase, selectedId, { allowDowngrade: downgrade });
+      if (result.ok && result.kdf) {
+        setCurrent(result.kdf);
+        setPassphrase("");
+        setStatus("done");
+        setMessage("Key derivation updated. The next unlock uses the new parameters.");
+      } else {
+        setStatus("error");
+        setMessage(result.error || "Key derivation update failed.");
+      }
+    } catch (error) {
+      console.error("Key derivation update failed", error);
+      setStatus("error");
+      setMessage("Key derivation update failed.");
+    }
+  };
+
+  return (
+    <div className="settings-group">
+      <p className="settings-label">Key Derivation</p>
+      <p className="muted">
+        {current
+          ? `Current: ${formatParams(current)} (${formatMemory(current.memoryBytes)} per unlock).`
+          : "Current parameters unavailable."}
+      </p>
+      {calibration ? (
+        <form onSubmit={applyProfile} className="project-form settings-form">
+          <div className="settings-options">
+            {calibration.profiles.map((profile) => (
+              <label key={profile.id} className="settings-option">
+                <input
+                  type="radio"
+                  name="kdfProfile"
+                  value={profile.id}
+                  checked={selectedId === profile.id}
+                  onChange={() => setSelectedId(profile.id)}
+                />
+                <span>
+                  {profile.label}: {formatParams(profile)}, {formatMemory(profile.memoryBytes)}, {profile.elapsedMs} ms
+                  {profile.id === calibration.recommendedId ? " (recommended)" : ""}
+                  {profile.id === current?.profileId ? " (current)" : ""}
+                  {current && isWeakerThan(profile, current) ? " (weaker than current)" : ""}
+                </span>
+              </label>
+            ))}
+          </div>
+          <label>
+            Current Passphrase
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              autoComplete="current-password"
+            />
+          </label>
+          <div className="form-actions">
+            <button type="button" className="ghost" onClick={runBenchmark} disabled={status === "working"}>
+              Re-run Benchmark
+            </button>
+            <button
+              type="submit"
+              className="ghost"
+              disabled={status === "working" || !passphrase || !selectedId || selectedId === current?.profileId}
+            >
+              {status === "working" ? "Working..." : "Apply"}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="form-actions">
+          <button type="button" className="ghost" onClick={runBenchmark} disabled={status === "working"}>
+            {status === "working" ? "Working..." : "Benchmark This Machine"}
+          </button>
+        </div>
+      )}
+      {message && (
+        <p className={status === "error" ? "muted save-error" : "muted"} aria-live="polite">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default KdfSettingsPanel;
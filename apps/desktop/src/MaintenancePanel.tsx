@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+
+type MaintenancePanelProps = {
+  onRepaired: () => void;
+};
+
+type PanelStatus = "idle" | "checking" | "repairing" | "error";
+
+type IssueClass = {
+  id: MaintenanceRepairClass;
+  label: string;
+  fix: string;
+  count: (report: MaintenanceReport) => number;
+  examples: (report: MaintenanceReport) => string[];
+};
+
+const EXAMPLE_LIMIT = 5;
+
+const ISSUE_CLASSES: IssueClass[] = [
+  {
+    id: "integrity",
+    label: "SQLite integrity errors",
+    fix: "rebuild indexes",
+    count: (report) => report.summary.integrityErrors,
+    examples: (report) => report.integrity.messages
+  },
+  {
+    id: "orphans",
+    label: "Items whose project no longer exists",
+    fix: "move to a Recovered items project",
+    count: (report) => report.summary.orphanRows,
+    examples: (report) =>
+      [
+        ...report.orphans.notes,
+        ...report.orphans.todos,
+        ...report.orphans.timelineTasks,
+        ...report.orphans.attachments,
+        ...report.orphans.custodians,
+        ...report.orphans.legalHolds,
+        ...report.orphans.legalHoldRecipients,
+        ...report.orphans.dataSources,
+        ...report.orphans.dataSourceCustody,
+        ...report.orphans.reviewMetrics,
+        ...report.orphans.productions,
+        ...report.orphans.productionDocuments
+      ].map((row) => row.label || row.id)
+  },
+  {
+    id: "missingFiles",
+    label: "Documents whose file is missing",
+    fix: "remove the document entry",
+    count: (report) => report.summary.missingAttachmentFiles,
+    examples: (report) => report.missingAttachmentFiles.map((item) => item.originalFileName)
+  },
+  {
+    id: "undecryptable",
+    label: "Documents that fail decryption",
+    fix: "quarantine the file and remove the entry",
+    count: (report) => report.summary.undecryptableAttachments,
+    examples: (report) => report.undecryptableAttachments.map((item) => item.originalFileName)
+  },
+  {
+    id: "strayFiles",
+    label: "Files with no document entry",
+    fix: "quarantine the file",
+    count: (report) => report.summary.strayAttachmentFiles,
+    examples: (report) => report.strayAttachmentFiles.map((item) => item.relativePath)
+  }
+];
+
+const describeRepair = (result: MaintenanceRepairResult) => {
+  const parts: string[] = [];
+  const { results } = result;
+  if (results?.integrity) parts.push(results.integrity.ok ? "indexes rebuilt" : `${results.integrity.remainingErrors} integrity errors remain`);
+  if (results?.orphans) parts.push(`${results.orphans.moved} items recovered`);
+  if (results?.missingFiles) parts.push(`${results.missingFiles.removedRows} entries removed`);
+  if (results?.undecryptable) parts.push(`${results.undecryptable.quarantined} damaged files quarantined`);
+  if (results?.strayFiles) parts.push(`${results.strayFiles.quarantined} stray files quarantined`);
+  return `Repair complete: ${parts.join(", ") || "nothing to change"}. Restore point ${result.snapshotId} was created first.`;
+};
+
+const MaintenancePanel: React.FC<MaintenancePanelProps> = ({ onRepaired }) => {
+  const [report, setReport] = useState<MaintenanceReport | null>(null);
+  const [selected, setSelected] = useState<MaintenanceRepairClass[]>([]);
+  const [status, setStatus] = useState<PanelStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const runCheck = async () => {
+    setStatus("checking");
+    setMessage(null);
+    try {
+      const result = await window.edisconotes.maintenanceCheck();
+      if (result.ok && result.report) {
+        const found = result.report;
+        setReport(found);
+        setSelected(ISSUE_CLASSES.filter((issue) => issue.count(found) > 0).map((issue) => issue.id));
+        setStatus("idle");
+      } else {
+        setStatus("error");
+        setMessage(result.error || "Integrity check failed.");
+      }
+    } catch (error) {
+      console.error("Integrity check failed", error);
+      setStatus("error");
+      setMessage("Integrity check failed.");
+    }
+  };
+
+  const toggleClass = (id: MaintenanceRepairClass) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]));
+  };
+
+  const runRepair = async () => {
+    if (!report || selected.length === 0) return;
+    const confirmed = window.confirm(
+      "A restore point will be created, then the selected problems will be repaired. Damaged and stray files are moved to quarantine, not deleted. Continue?"
+    );
+    if (!confirmed) return;
+    setStatus("repairing");
+    setMessage(null);
+    try {
+      const result = await window.edisconotes.maintenanceRepair(report.id, selected);
+      if (result.ok) {
+        setReport(null);
+        setSelected([]);
+        setStatus("idle");
+        setMessage(describeRepair(result));
+        onRepaired();
+      } else {
+        setStatus("error");
+        setMessage(result.error || "Repair failed.");
+      }
+    } catch (error) {
+      console.error("Repair failed", error);
+      setStatus("error");
+      setMessage("Repair failed.");
+    }
+  };
+
+  const busy = status === "checking" || status === "repairing";
+  const issues = report ? ISSUE_CLASSES.filter((issue) => issue.count(report) > 0) : [];
+
+  return (
+    <div className="maintenance-panel">
+      <div className="a11y-audit-head">
+        <strong>Database Integrity</strong>
+        <button type="button" className="ghost" onClick={runCheck} disabled={busy}>
+          {status === "checking" ? "Checking..." : "Run Check"}
+        </button>
+      </div>
+      {report && (
+        <p className={report.ok ? "a11y-audit-result pass" : "a11y-audit-result fail"}>
+          <strong>{report.ok ? "No problems found" : `${issues.length} kinds of problem found`}</strong> · checked{" "}
+          {new Date(report.checkedAt).toLocaleString()}
+        </p>
+      )}
+      {issues.length > 0 && (
+        <div className="maintenance-issues">
+          {issues.map((issue) => {
+            const examples = issue.examples(report as MaintenanceReport);
+            return (
+              <label key={issue.id} className="maintenance-issue">
+                <input type="checkbox" checked={selected.includes(issue.id)} onChange={() => toggleClass(issue.id)} disabled={busy} />
+                <span>
+                  <strong>
+                    {issue.label} ({issue.count(report as MaintenanceReport)})
+                  </strong>
+                  <span className="muted"> · {issue.fix}</span>
+                  <span className="muted maintenance-examples">
+                    {examples.slice(0, EXAMPLE_LIMIT).join(", ")}
+                    {examples.length > EXAMPLE_LIMIT ? `, +${examples.length - EXAMPLE_LIMIT} more` : ""}
+                  </span>
+                </span>
+              </label>
+            );
+          })}
+          <div className="form-actions">
+            <button type="button" className="ghost" onClick={runRepair} disabled={busy || selected.length === 0}>
+              {status === "repairing" ? "Repairing..." : "Repair Selected"}
+            </button>
+          </div>
+        </div>
+      )}
+      {message && (
+        <p className={status === "error" ? "muted save-error" : "muted"} aria-live="polite">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MaintenancePanel;
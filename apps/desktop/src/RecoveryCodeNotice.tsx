@@ -0,0 +1,66 @@
+import React, { useState } from "react";
+
+type Props = {
+  code: string;
+  onDone: () => void;
+  doneLabel?: string;
+  buttonClassName?: string;
+  doneClassName?: string;
+};
+
+const PRINT_BODY_CLASS = "printing-recovery-code";
+
+const RecoveryCodeNotice: React.FC<Props> = ({ code, onDone, doneLabel = "Done", buttonClassName, doneClassName }) => {
+  const [saved, setSaved] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const printCode = () => {
+    // Print styles hide everything except the recovery sheet while this class is set.
+    document.body.classList.add(PRINT_BODY_CLASS);
+    const cleanup = () => {
+      document.body.classList.remove(PRINT_BODY_CLASS);
+      window.removeEventListener("afterprint", cleanup);
+    };
+    window.addEventListener("afterprint", cleanup);
+    window.print();
+  };
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy recovery key", error);
+    }
+  };
+
+  return (
+    <div className="recovery-code">
+      <div className="recovery-code-print">
+        <p className="recovery-code-title">eDisco Pro Notes vault recovery key</p>
+        <p className="recovery-code-value">{code}</p>
+        <p className="recovery-code-note">Generated {new Date().toLocaleString()}. Works once; set a new passphrase after using it.</p>
+      </div>
+      <p className="recovery-code-note">
+        This code is shown only once. Print it or store it away from this computer. Anyone holding it can unlock the vault.
+      </p>
+      <div className="recovery-code-actions">
+        <button type="button" className={buttonClassName} onClick={printCode}>
+          Print
+        </button>
+        <button type="button" className={buttonClassName} onClick={copyCode}>
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      <label className="recovery-code-confirm">
+        <input type="checkbox" checked={saved} onChange={(event) => setSaved(event.target.checked)} />
+        <span>I have printed or stored this recovery key</span>
+      </label>
+      <button type="button" className={doneClassName} disabled={!saved} onClick={onDone}>
+        {doneLabel}
+      </button>
+    </div>
+  );
+};
+
+export default RecoveryCodeNotice;
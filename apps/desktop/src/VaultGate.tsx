@@ -1,6 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
-
-type VaultStatus = { locked: boolean; hasEncryptedDb: boolean; hasPlaintextDb: boolean };
+import RecoveryCodeNotice from "./RecoveryCodeNotice";
 
 type Props = {
   children: React.ReactNode;
@@ -10,6 +9,13 @@ const MIN_PASSPHRASE_LEN = 12;
 
 const maskInfo = (text: string) => text;
 
+const formatWait = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}:${String(seconds).padStart(2, "0")}` : `${seconds}s`;
+};
+
 const VaultGate: React.FC<Props> = ({ children }) => {
   const [status, setStatus] = useState<VaultStatus | null>(null);
   const [passphrase, setPassphrase] = useState("");
@@ -17,6 +23,11 @@ const VaultGate: React.FC<Props> = ({ children }) => {
   const [working, setWorking] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [info, setInfo] = useState<string | null>(null);
+  const [useRecoveryKey, setUseRecoveryKey] = useState(false);
+  const [recoveryCodeInput, setRecoveryCodeInput] = useState("");
+  const [newRecoveryCode, setNewRecoveryCode] = useState<string | null>(null);
+  const [recoveryKeyFailed, setRecoveryKeyFailed] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
 
   useEffect(() => {
     window.edisconotes
@@ -28,32 +39,94 @@ const VaultGate: React.FC<Props> = ({ children }) => {
       });
   }, []);
 
+  const retryInMs = status?.unlockRetryAt ? new Date(status.unlockRetryAt).getTime() - now : 0;
+  const waiting = Boolean(status?.locked) && retryInMs > 0;
+
+  useEffect(() => {
+    if (!status?.unlockRetryAt) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [status?.unlockRetryAt]);
+
   const mode = useMemo(() => {
     if (!status) return "loading" as const;
-    if (!status.locked) return "unlocked" as const;
-    return status.hasEncryptedDb ? ("unlock" as const) : ("create" as const);
-  }, [status]);
+    if (newRecoveryCode) return "recovery-code" as const;
+    if (recoveryKeyFailed) return "recovery-failed" as const;
+    if (!status.locked) return status.passphraseResetRequired ? ("reset" as const) : ("unlocked" as const);
+    if (!status.hasEncryptedDb) return "create" as const;
+    return useRecoveryKey ? ("recover" as const) : ("unlock" as const);
+  }, [status, newRecoveryCode, recoveryKeyFailed, useRecoveryKey]);
 
   const canSubmit = useMemo(() => {
-    if (working) return false;
+    if (working || waiting) return false;
+    if (mode === "recover") return recoveryCodeInput.trim().length > 0;
     if (!passphrase || passphrase.length < MIN_PASSPHRASE_LEN) return false;
-    if (mode === "create" && passphrase !== confirm) return false;
-    return mode === "create" || mode === "unlock";
-  }, [working, passphrase, confirm, mode]);
+    if ((mode === "create" || mode === "reset") && passphrase !== confirm) return false;
+    return mode === "create" || mode === "unlock" || mode === "reset";
+  }, [working, waiting, passphrase, confirm, recoveryCodeInput, mode]);
+
+  const onRecover = async () => {
+    const result = await window.edisconotes.vaultUnlockWithRecoveryKey(recoveryCodeInput);
+    setRecoveryCodeInput("");
+    setUseRecoveryKey(false);
+    setStatus(await window.edisconotes.vaultStatus());
+    if (result.passphraseResetRequired) {
+      setInfo("Recovery key accepted. Set a new passphrase to finish unlocking.");
+    }
+  };
+
+  const onResetPassphrase = async () => {
+    const result = await window.edisconotes.vaultCompleteRecovery(passphrase);
+    if (!result.ok) {
+      setError(result.error || "Failed to set new passphrase.");
+      return;
+    }
+    setPassphrase("");
+    setConfirm("");
+    setStatus(await window.edisconotes.vaultStatus());
+  };
 
   const onSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     setError(null);
     setInfo(null);
 
-    if (mode === "create" && passphrase !== confirm) {
+    if ((mode === "create" || mode === "reset") && passphrase !== confirm) {
       setError("Passphrases do not match.");
       return;
     }
 
     setWorking(true);
     try {
+      if (mode === "recover") {
+        await onRecover();
+        return;
+      }
+      if (mode === "reset") {
+        await onResetPassphrase();
+        return;
+      }
       const result = await window.edisconotes.vaultUnlock(passphrase);
+      if (mode === "create") {
+        // Offer the recovery key before the workspace opens; it is never shown again.
+        // If that fails the vault still works, but the gate stays up until the user has read why.
+        let recoveryError: string | null = null;
+        try {
+          const recovery = await window.edisconotes.vaultCreateRecoveryKey(passphrase);
+          if (recovery.ok && recovery.recoveryCode) {
+            setNewRecoveryCode(recovery.recoveryCode);
+          } else {
+            recoveryError = recovery.error || "Unknown error.";
+          }
+        } catch (recoveryException: any) {
+          recoveryError = typeof recoveryException?.message === "string" ? recoveryException.message : "Unknown error.";
+        }
+        if (recoveryError) {
+          console.error("Failed to create recovery key", recoveryError);
+          setError(`Your vault is encrypted, but its recovery key could not be created: ${recoveryError}`);
+          setRecoveryKeyFailed(true);
+        }
+      }
       const next = await window.edisconotes.vaultStatus();
       setStatus(next);
       setPassphrase("");
@@ -71,6 +144,14 @@ const VaultGate: React.FC<Props> = ({ children }) => {
     } catch (e: any) {
       const message = typeof e?.message === "string" ? e.message : "Unlock failed.";
       setError(maskInfo(message));
+      // Pick up the new backoff window after a failed attempt.
+      window.edisconotes
+        .vaultStatus()
+        .then((next) => {
+          setNow(Date.now());
+          setStatus(next);
+        })
+        .catch(() => undefined);
     } finally {
       setWorking(false);
     }
@@ -80,14 +161,27 @@ const VaultGate: React.FC<Props> = ({ children }) => {
     return <>{children}</>;
   }
 
+  const subtitle =
+    mode === "loading"
+      ? "Loading…"
+      : mode === "create"
+        ? "Set an encryption passphrase"
+        : mode === "recover"
+          ? "Unlock with recovery key"
+          : mode === "reset"
+            ? "Choose a new passphrase"
+            : mode === "recovery-code"
+              ? "Save your recovery key"
+              : mode === "recovery-failed"
+                ? "Recovery key not created"
+                : "Unlock encrypted vault";
+
   return (
     <div className="vault-gate">
       <div className="vault-card">
         <div className="vault-header">
           <div className="vault-title">eDisco Pro Notes</div>
-          <div className="vault-subtitle">
-            {mode === "loading" ? "Loading…" : mode === "create" ? "Set an encryption passphrase" : "Unlock encrypted vault"}
-          </div>
+          <div className="vault-subtitle">{subtitle}</div>
         </div>
 
         {status?.hasPlaintextDb && status?.locked && !status?.hasEncryptedDb ? (
@@ -102,47 +196,119 @@ const VaultGate: React.FC<Props> = ({ children }) => {
           </div>
         ) : null}
 
-        {error ? <div className="vault-banner vault-banner-error">{error}</div> : null}
+        {error && !waiting ? <div className="vault-banner vault-banner-error">{error}</div> : null}
+        {waiting ? (
+          <div className="vault-banner vault-banner-warn" aria-live="polite">
+            {status?.failedUnlockAttempts || 0} failed unlock attempts. Try again in {formatWait(retryInMs)}.
+          </div>
+        ) : null}
         {info ? <div className="vault-banner vault-banner-ok">{info}</div> : null}
 
-        <form onSubmit={onSubmit} className="vault-form">
-          <label className="vault-label">
-            <div className="vault-label-text">Passphrase</div>
-            <input
-              className="vault-input"
-              type="password"
-              value={passphrase}
-              onChange={(e) => setPassphrase(e.target.value)}
-              autoFocus
-              autoComplete="current-password"
-              placeholder={`At least ${MIN_PASSPHRASE_LEN} characters`}
-            />
-          </label>
-
-          {mode === "create" ? (
-            <label className="vault-label">
-              <div className="vault-label-text">Confirm passphrase</div>
-              <input
-                className="vault-input"
-                type="password"
-                value={confirm}
-                onChange={(e) => setConfirm(e.target.value)}
-                autoComplete="new-password"
-                placeholder="Re-enter passphrase"
-              />
-            </label>
-          ) : null}
-
-          {mode === "create" ? (
+        {mode === "recovery-code" && newRecoveryCode ? (
+          <RecoveryCodeNotice
+            code={newRecoveryCode}
+            onDone={() => setNewRecoveryCode(null)}
+            doneLabel="Continue"
+            buttonClassName="vault-button-secondary"
+            doneClassName="vault-button"
+          />
+        ) : mode === "recovery-failed" ? (
+          <div className="vault-form">
             <div className="vault-note">
-              If you forget your passphrase, encrypted data cannot be recovered.
+              Until you have one, a forgotten passphrase means resetting the vault.
+              Generate a recovery key from Settings → Recovery Key.
             </div>
-          ) : null}
+            <button
+              className="vault-button"
+              type="button"
+              onClick={() => {
+                setRecoveryKeyFailed(false);
+                setError(null);
+              }}
+            >
+              Continue
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={onSubmit} className="vault-form">
+            {mode === "recover" ? (
+              <label className="vault-label">
+                <div className="vault-label-text">Recovery key</div>
+                <input
+                  className="vault-input"
+                  type="text"
+                  value={recoveryCodeInput}
+                  onChange={(e) => setRecoveryCodeInput(e.target.value)}
+                  autoFocus
+                  autoComplete="off"
+                  spellCheck={false}
+                  placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                />
+              </label>
+            ) : (
+              <label className="vault-label">
+                <div className="vault-label-text">{mode === "reset" ? "New passphrase" : "Passphrase"}</div>
+                <input
+                  className="vault-input"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoFocus
+                  autoComplete={mode === "unlock" ? "current-password" : "new-password"}
+                  placeholder={`At least ${MIN_PASSPHRASE_LEN} characters`}
+                />
+              </label>
+            )}
+
+            {mode === "create" || mode === "reset" ? (
+              <label className="vault-label">
+                <div className="vault-label-text">Confirm passphrase</div>
+                <input
+                  className="vault-input"
+                  type="password"
+                  value={confirm}
+                  onChange={(e) => setConfirm(e.target.value)}
+                  autoComplete="new-password"
+                  placeholder="Re-enter passphrase"
+                />
+              </label>
+            ) : null}
+
+            {mode === "create" ? (
+              <div className="vault-note">
+                Next you will get a one-time recovery key. Without it or your passphrase, encrypted data cannot be recovered.
+              </div>
+            ) : null}
+
+            {mode === "reset" ? (
+              <div className="vault-note">The recovery key you used stops working once the new passphrase is set.</div>
+            ) : null}
+
+            <button className="vault-button" type="submit" disabled={!canSubmit}>
+              {working
+                ? "Working…"
+                : mode === "create"
+                  ? "Enable Encryption"
+                  : mode === "reset"
+                    ? "Set Passphrase"
+                    : "Unlock"}
+            </button>
 
-          <button className="vault-button" type="submit" disabled={!canSubmit}>
-            {working ? "Working…" : mode === "create" ? "Enable Encryption" : "Unlock"}
-          </button>
-        </form>
+            {mode === "unlock" || mode === "recover" ? (
+              <button
+                type="button"
+                className="vault-link"
+                onClick={() => {
+                  setUseRecoveryKey(mode === "unlock");
+                  setError(null);
+                  setInfo(null);
+                }}
+              >
+                {mode === "unlock" ? "Forgot passphrase? Use recovery key" : "Use passphrase instead"}
+              </button>
+            ) : null}
+          </form>
+        )}
       </div>
     </div>
   );
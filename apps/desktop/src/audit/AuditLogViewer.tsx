@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { formatAuditAction, formatAuditDetails, localDayStartIso } from "./utils";
+
+type AuditLogViewerProps = {
+  projects: Array<Pick<Project, "id" | "matterName">>;
+  onClose: () => void;
+};
+
+type FilterForm = {
+  fromDate: string;
+  toDate: string;
+  actionPrefix: string;
+  entityType: string;
+  projectId: string;
+};
+
+type ViewerStatus = "idle" | "loading" | "exporting" | "error";
+
+const PAGE_SIZE = 50;
+
+const emptyFilterForm: FilterForm = {
+  fromDate: "",
+  toDate: "",
+  actionPrefix: "",
+  entityType: "",
+  projectId: ""
+};
+
+const toAuditFilters = (form: FilterForm): AuditLogFilters => ({
+  from: localDayStartIso(form.fromDate),
+  to: localDayStartIso(form.toDate, 1),
+  actionPrefix: form.actionPrefix.trim() || null,
+  entityType: form.entityType || null,
+  projectId: form.projectId || null
+});
+
+const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ projects, onClose }) => {
+  const [form, setForm] = useState<FilterForm>(emptyFilterForm);
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>(() => toAuditFilters(emptyFilterForm));
+  const [facets, setFacets] = useState<AuditLogFacets>({ actionPrefixes: [], entityTypes: [] });
+  const [items, setItems] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [status, setStatus] = useState<ViewerStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const projectNames = useMemo(() => new Map(projects.map((project) => [project.id, project.matterName])), [projects]);
+
+  const loadPage = useCallback(async (filters: AuditLogFilters, cursor: string | null) => {
+    setStatus("loading");
+    setMessage(null);
+    try {
+      const page = await window.edisconotes.queryAuditLog({ ...filters, cursor, limit: PAGE_SIZE });
+      setItems((prev) => (cursor ? [...prev, ...page.items] : page.items));
+      if (!cursor) setTotal(page.total);
+      setNextCursor(page.nextCursor);
+      setStatus("idle");
+    } catch (error) {
+      console.error("Failed to query audit log", error);
+      setStatus("error");
+      setMessage(error instanceof Error ? error.message : "Failed to load audit log.");
+    }
+  }, []);
+
+  useEffect(() => {
+    window.edisconotes
+      .getAuditFacets()
+      .then(setFacets)
+      .catch((error) => console.error("Failed to load audit log filters", error));
+  }, []);
+
+  useEffect(() => {
+    void loadPage(appliedFilters, null);
+  }, [appliedFilters, loadPage]);
+
+  const applyFilters = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (form.fromDate && form.toDate && form.fromDate > form.toDate) {
+      setStatus("error");
+      setMessage("Start date must be on or before end date.");
+      return;
+    }
+    setAppliedFilters(toAuditFilters(form));
+  };
+
+  const resetFilters = () => {
+    setForm(emptyFilterForm);
+    setAppliedFilters(toAuditFilters(emptyFilterForm));
+  };
+
+  const exportLog = async (format: "csv" | "json") => {
+    setStatus("exporting");
+    setMessage(null);
+    try {
+      const result = await window.edisconotes.exportAuditLog(appliedFilters, format);
+      if (result.ok) {
+        setStatus("idle");
+        setMessage(`Exported ${result.entries ?? 0} entries to ${result.filePath}.`);
+      } else if (result.canceled) {
+        setStatus("idle");
+      } else {
+        setStatus("error");
+        setMessage(result.error || "Audit log export failed.");
+      }
+    } catch (error) {
+      console.error("Audit log export failed", error);
+      setStatus("error");
+      setMessage("Audit log export failed.");
+    }
+  };
+
+  const busy = status === "loading" || status === "exporting";
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal audit-viewer-modal" onClick={(event) => event.stopPropagation()}>
+        <div className="audit-viewer-head">
+          <div>
+            <h3>Audit Log</h3>
+            <p className="muted">{total === null ? "Loading..." : `${total} matching entries`}</p>
+          </div>
+          <button type="button" className="ghost" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <form className="audit-viewer-filters" onSubmit={applyFilters}>
+          <label>
+            From
+            <input type="date" value={form.fromDate} onChange={(event) => setForm((prev) => ({ ...prev, fromDate: event.target.value }))} />
+          </label>
+          <label>
+            To
+            <input type="date" value={form.toDate} onChange={(event) => setForm((prev) => ({ ...prev, toDate: event.target.value }))} />
+          </label>
+          <label>
+            Action
+            <input
+              type="text"
+              list="audit-action-prefixes"
+              placeholder="e.g. vault.*"
+              value={form.actionPrefix}
+              onChange={(event) => setForm((prev) => ({ ...prev, actionPrefix: event.target.value }))}
+            />
+            <datalist id="audit-action-prefixes">
+              {facets.actionPrefixes.map((prefix) => (
+                <option key={prefix} value={prefix} />
+              ))}
+            </datalist>
+          </label>
+          <label>
+            Entity
+            <select value={form.entityType} onChange={(event) => setForm((prev) => ({ ...prev, entityType: event.target.value }))}>
+              <option value="">All</option>
+              {facets.entityTypes.map((entityType) => (
+                <option key={entityType} value={entityType}>
+                  {entityType}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Project
+            <select value={form.projectId} onChange={(event) => setForm((prev) => ({ ...prev, projectId: event.target.value }))}>
+              <option value="">All</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.matterName}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="form-actions">
+            <button type="button" className="ghost" onClick={resetFilters} disabled={busy}>
+              Reset
+            </button>
+            <button type="submit" className="ghost" disabled={busy}>
+              Apply
+            </button>
+          </div>
+        </form>
+        <div className="audit-viewer-actions">
+          <button type="button" className="ghost" onClick={() => exportLog("csv")} disabled={busy || !total}>
+            {status === "exporting" ? "Exporting..." : "Export CSV"}
+          </button>
+          <button type="button" className="ghost" onClick={() => exportLog("json")} disabled={busy || !total}>
+            Export JSON
+          </button>
+        </div>
+        {message && (
+          <p className={status === "error" ? "muted save-error" : "muted"} aria-live="polite">
+            {message}
+          </p>
+        )}
+        <div className="audit-viewer-list">
+          {items.length === 0 && status !== "loading" ? (
+            <p className="muted">No audit events match these filters.</p>
+          ) : (
+            items.map((entry) => (
+              <div key={entry.id} className="audit-log-row">
+                <div>
+                  <p>
+                    <strong>{formatAuditAction(entry.action)}</strong>
+                    <span className="muted">
+                      {" "}
+                      · {entry.entityType}
+                      {entry.projectId ? ` · ${projectNames.get(entry.projectId) || entry.projectId}` : ""}
+                    </span>
+                  </p>
+                  {entry.details && <p className="muted audit-viewer-details">{formatAuditDetails(entry.details)}</p>}
+                </div>
+                <span className="muted">{new Date(entry.timestamp).toLocaleString()}</span>
+              </div>
+            ))
+          )}
+        </div>
+        {nextCursor && (
+          <div className="form-actions">
+            <button type="button" className="ghost" onClick={() => loadPage(appliedFilters, nextCursor)} disabled={busy}>
+              {status === "loading" ? "Loading..." : "Load More"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
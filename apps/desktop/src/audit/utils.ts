@@ -0,0 +1,20 @@
+export const formatAuditAction = (value: string) =>
+  value
+    .replace(/[._]+/g, " ")
+    .replace(/\b\w/g, (char) => char.toUpperCase());
+
+export const formatAuditDetails = (details?: Record<string, unknown> | null) => {
+  if (!details || typeof details !== "object") return "";
+  return Object.entries(details)
+    .map(([key, value]) => `${key}: ${value !== null && typeof value === "object" ? JSON.stringify(value) : String(value)}`)
+    .join(" · ");
+};
+
+// Date inputs are local calendar days; the audit filter range is [start of `from`, start of the day after `to`).
+export const localDayStartIso = (value: string, dayOffset = 0) => {
+  if (!value) return null;
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return null;
+  date.setDate(date.getDate() + dayOffset);
+  return date.toISOString();
+};
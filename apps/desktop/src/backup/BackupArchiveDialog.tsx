@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+
+type BackupArchiveDialogProps = {
+  onClose: () => void;
+  onRestoreFolder: () => void;
+  onRestarting: () => void;
+};
+
+type DialogStatus = "idle" | "verifying" | "restoring" | "error";
+
+const CHECK_LABELS: Record<BackupArchiveCheck, string> = {
+  structure: "Archive structure",
+  checksums: "File checksums (SHA-256)",
+  passphrase: "Passphrase test-decrypt",
+  database: "Database integrity"
+};
+
+const BackupArchiveDialog: React.FC<BackupArchiveDialogProps> = ({ onClose, onRestoreFolder, onRestarting }) => {
+  const [archivePath, setArchivePath] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [report, setReport] = useState<BackupArchiveReport | null>(null);
+  const [status, setStatus] = useState<DialogStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const chooseArchive = async () => {
+    const result = await window.edisconotes.chooseBackupArchive();
+    if (result.ok && result.archivePath) {
+      setArchivePath(result.archivePath);
+      setReport(null);
+      setMessage(null);
+      setStatus("idle");
+    }
+  };
+
+  const verifyArchive = async () => {
+    if (!archivePath) return;
+    setStatus("verifying");
+    setMessage(null);
+    try {
+      const result = await window.edisconotes.verifyBackupArchive(archivePath, passphrase);
+      if (result.ok && result.report) {
+        setReport(result.report);
+        setStatus(result.report.ok ? "idle" : "error");
+      } else {
+        setStatus("error");
+        setMessage(result.error || "Backup verification failed.");
+      }
+    } catch (error) {
+      console.error("Backup verification failed", error);
+      setStatus("error");
+      setMessage("Backup verification failed.");
+    }
+  };
+
+  const restoreArchive = async () => {
+    if (!archivePath) return;
+    const confirmed = window.confirm(
+      "The archive will be verified again, then restored over current local data and the app will restart. Continue?"
+    );
+    if (!confirmed) return;
+    setStatus("restoring");
+    setMessage(null);
+    try {
+      let result = await window.edisconotes.restoreBackupArchive(archivePath, passphrase);
+      if (result.errorCode === "RESTORE_OTHER_DATA_KEY") {
+        if (result.verification) setReport(result.verification);
+        if (!window.confirm(`${result.error} Restore it anyway?`)) {
+          setStatus("idle");
+          return;
+        }
+        result = await window.edisconotes.restoreBackupArchive(archivePath, passphrase, { allowOtherDataKey: true });
+      }
+      if (result.verification) setReport(result.verification);
+      if (result.relaunching) {
+        setMessage("Restoring backup and restarting...");
+        onRestarting();
+        return;
+      }
+      setStatus("error");
+      setMessage(result.error || "Backup restore failed.");
+    } catch (error) {
+      console.error("Backup restore failed", error);
+      setStatus("error");
+      setMessage("Backup restore failed.");
+    }
+  };
+
+  const busy = status === "verifying" || status === "restoring";
+
+  return (
+    <div className="modal-backdrop" onClick={busy ? undefined : onClose}>
+      <div className="modal backup-archive-modal" onClick={(event) => event.stopPropagation()}>
+        <div className="audit-viewer-head">
+          <div>
+            <h3>Restore Backup</h3>
+            <p className="muted">Archives are verified before anything is replaced.</p>
+          </div>
+          <button type="button" className="ghost" onClick={onClose} disabled={busy}>
+            Close
+          </button>
+        </div>
+        <div className="backup-archive-source">
+          <button type="button" className="ghost" onClick={chooseArchive} disabled={busy}>
+            Choose Archive
+          </button>
+          <span className="muted">{archivePath || "No archive selected"}</span>
+        </div>
+        <label>
+          Backup Passphrase
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            autoComplete="current-password"
+            disabled={busy}
+          />
+        </label>
+        {report && (
+          <div className="backup-archive-checks">
+            <p className={report.ok ? "a11y-audit-result pass" : "a11y-audit-result fail"}>
+              <strong>{report.ok ? "Archive verified" : "Archive failed verification"}</strong>
+              {report.createdAt ? ` · created ${new Date(report.createdAt).toLocaleString()}` : ""} · {report.attachmentFiles} documents
+            </p>
+            <ul>
+              {report.checks.map((check) => (
+                <li key={check.check} className={check.ok ? "pass" : "fail"}>
+                  <strong>{CHECK_LABELS[check.check]}</strong> <span className="muted">· {check.detail}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {message && (
+          <p className={status === "error" ? "muted save-error" : "muted"} aria-live="polite">
+            {message}
+          </p>
+        )}
+        <div className="form-actions">
+          <button type="button" className="ghost" onClick={onRestoreFolder} disabled={busy}>
+            Restore Older Folder Backup
+          </button>
+          <button type="button" className="ghost" onClick={verifyArchive} disabled={busy || !archivePath}>
+            {status === "verifying" ? "Verifying..." : "Verify"}
+          </button>
+          <button type="button" onClick={restoreArchive} disabled={busy || !archivePath}>
+            {status === "restoring" ? "Restoring..." : "Verify and Restore"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupArchiveDialog;
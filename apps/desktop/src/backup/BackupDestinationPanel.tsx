@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from "react";
+
+type BackupDestinationPanelProps = {
+  destination: BackupDestinationStatus | null;
+  onChanged: () => void;
+};
+
+type PanelStatus = "idle" | "saving" | "running" | "error";
+
+const INTERVAL_OPTIONS = [
+  { hours: 1, label: "Every hour" },
+  { hours: 4, label: "Every 4 hours" },
+  { hours: 12, label: "Every 12 hours" },
+  { hours: 24, label: "Daily" },
+  { hours: 168, label: "Weekly" }
+];
+
+const formatWhen = (value: string | null) => (value ? new Date(value).toLocaleString() : null);
+
+const BackupDestinationPanel: React.FC<BackupDestinationPanelProps> = ({ destination, onChanged }) => {
+  const [form, setForm] = useState<BackupDestinationSettings>({ path: null, enabled: false, intervalHours: 24, keep: 7 });
+  const [status, setStatus] = useState<PanelStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!destination) return;
+    setForm({
+      path: destination.path,
+      enabled: destination.enabled,
+      intervalHours: destination.intervalHours,
+      keep: destination.keep
+    });
+  }, [destination?.path, destination?.enabled, destination?.intervalHours, destination?.keep]);
+
+  const browse = async () => {
+    const result = await window.edisconotes.chooseBackupDestination();
+    if (result.ok && result.path) setForm((prev) => ({ ...prev, path: result.path ?? null }));
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setStatus("saving");
+    setMessage(null);
+    try {
+      const result = await window.edisconotes.updateBackupDestination(form);
+      if (result.ok) {
+        setStatus("idle");
+        setMessage("Backup destination saved.");
+        onChanged();
+      } else {
+        setStatus("error");
+        setMessage(result.error || "Could not save the backup destination.");
+      }
+    } catch (error) {
+      console.error("Failed to save backup destination", error);
+      setStatus("error");
+      setMessage("Could not save the backup destination.");
+    }
+  };
+
+  const runNow = async () => {
+    setStatus("running");
+    setMessage(null);
+    try {
+      const result = await window.edisconotes.runBackupDestination();
+      if (result.ok) {
+        setStatus("idle");
+        const rotated = result.removedArchives?.length ? `, ${result.removedArchives.length} older archives removed` : "";
+        setMessage(`Backup saved to ${result.backupPath}${rotated}.`);
+      } else {
+        setStatus("error");
+        setMessage(result.error || "Backup to destination failed.");
+      }
+    } catch (error) {
+      console.error("Backup to destination failed", error);
+      setStatus("error");
+      setMessage("Backup to destination failed.");
+    }
+    onChanged();
+  };
+
+  const busy = status === "saving" || status === "running" || Boolean(destination?.running);
+  const saved = destination?.path || null;
+
+  return (
+    <div className="backup-destination-panel">
+      <div className="a11y-audit-head">
+        <strong>Backup Destination</strong>
+        <button type="button" className="ghost" onClick={runNow} disabled={busy || !saved}>
+          {status === "running" || destination?.running ? "Backing up..." : "Back Up Now"}
+        </button>
+      </div>
+      {saved && (
+        <div className="data-safety-grid">
+          <p className={destination?.reachable ? "muted" : "muted save-error"}>
+            Destination: {destination?.reachable ? "Reachable" : `Unreachable (${destination?.unreachableReason})`}
+          </p>
+          <p className="muted">Last success: {formatWhen(destination?.lastSuccessAt ?? null) || "None yet"}</p>
+          <p className={destination?.lastFailureAt ? "muted save-error" : "muted"}>
+            Last failure:{" "}
+            {destination?.lastFailureAt ? `${formatWhen(destination.lastFailureAt)} · ${destination.lastFailureReason}` : "None"}
+          </p>
+          <p className="muted">
+            Next automatic backup: {destination?.enabled ? formatWhen(destination.nextRunAt) || "Not scheduled" : "Off"}
+          </p>
+        </div>
+      )}
+      <form onSubmit={save} className="project-form backup-destination-form">
+        <label>
+          Folder
+          <div className="backup-archive-source">
+            <input
+              type="text"
+              value={form.path || ""}
+              onChange={(event) => setForm({ ...form, path: event.target.value || null })}
+              placeholder="Network share or external drive folder"
+              disabled={busy}
+            />
+            <button type="button" className="ghost" onClick={browse} disabled={busy}>
+              Browse
+            </button>
+          </div>
+        </label>
+        <div className="form-row">
+          <label>
+            Automatic Backup
+            <select
+              value={form.enabled ? String(form.intervalHours) : "off"}
+              onChange={(event) =>
+                setForm(
+                  event.target.value === "off"
+                    ? { ...form, enabled: false }
+                    : { ...form, enabled: true, intervalHours: Number(event.target.value) }
+                )
+              }
+              disabled={busy}
+            >
+              <option value="off">Off</option>
+              {INTERVAL_OPTIONS.map((option) => (
+                <option key={option.hours} value={option.hours}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Archives to Keep
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={form.keep}
+              onChange={(event) => setForm({ ...form, keep: Number(event.target.value) })}
+              disabled={busy}
+            />
+          </label>
+        </div>
+        <div className="form-actions">
+          <button type="submit" className="ghost" disabled={busy}>
+            {status === "saving" ? "Saving..." : "Save Destination"}
+          </button>
+        </div>
+      </form>
+      {message && (
+        <p className={status === "error" ? "muted save-error" : "muted"} aria-live="polite">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BackupDestinationPanel;
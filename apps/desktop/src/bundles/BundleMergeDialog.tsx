@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+
+type BundleMergeDialogProps = {
+  mergeToken: string;
+  preview: BundleMergePreview;
+  onClose: () => void;
+  onMerged: (counts: BundleMergeCounts) => void;
+};
+
+type DialogStatus = "idle" | "merging" | "error";
+
+const ITEM_TYPE_LABELS: Record<SnapshotItemType, string> = {
+  note: "Note",
+  todo: "To-do",
+  timeline_task: "Timeline phase",
+  attachment: "Document",
+  custodian: "Custodian",
+  legal_hold: "Legal hold",
+  data_source: "Data source",
+  review_metric: "Review metrics",
+  production: "Production"
+};
+
+// Worded from this vault's point of view, with what merging will do.
+const CHANGE_LABELS: Record<BundleMergeItem["change"], string> = {
+  added: "New in bundle · will be added",
+  changed: "Changed in bundle · will be updated",
+  conflict: "Changed on both sides"
+};
+
+const RESOLUTION_LABELS: Record<BundleMergeResolution, string> = {
+  mine: "Keep mine",
+  theirs: "Take theirs",
+  both: "Keep both"
+};
+
+const itemKey = (item: Pick<BundleMergeItem, "type" | "key">) => `${item.type}:${item.key}`;
+
+const BundleMergeDialog: React.FC<BundleMergeDialogProps> = ({ mergeToken, preview, onClose, onMerged }) => {
+  const [resolutions, setResolutions] = useState<Record<string, BundleMergeResolution>>(() =>
+    Object.fromEntries(preview.items.filter((item) => item.change === "conflict").map((item) => [itemKey(item), "mine"]))
+  );
+  const [status, setStatus] = useState<DialogStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const conflicts = preview.items.filter((item) => item.change === "conflict").length;
+
+  const merge = async () => {
+    setStatus("merging");
+    setMessage(null);
+    try {
+      const result = await window.edisconotes.applyBundleMerge(mergeToken, resolutions);
+      if (result.ok && result.counts) {
+        onMerged(result.counts);
+        return;
+      }
+      setStatus("error");
+      setMessage(result.error || "Bundle merge failed.");
+    } catch (error) {
+      console.error("Bundle merge failed", error);
+      setStatus("error");
+      setMessage("Bundle merge failed.");
+    }
+  };
+
+  const busy = status === "merging";
+
+  return (
+    <div className="modal-backdrop" onClick={busy ? undefined : onClose}>
+      <div className="modal bundle-merge-modal" onClick={(event) => event.stopPropagation()}>
+        <div className="audit-viewer-head">
+          <div>
+            <h3>Merge Bundle Into {preview.matterName}</h3>
+            <p className="muted">
+              {preview.bundleMatterName}
+              {preview.exportedAt ? ` · exported ${new Date(preview.exportedAt).toLocaleString()}` : ""}
+              {preview.encrypted ? " · encrypted" : ""}
+            </p>
+          </div>
+          <button type="button" className="ghost" onClick={onClose} disabled={busy}>
+            Close
+          </button>
+        </div>
+        {!preview.sameProject && (
+          <p className="muted save-error">This bundle was exported from a different project. Check the target before merging.</p>
+        )}
+        <div className="snapshot-diff-list">
+          {preview.items.length === 0 && <p className="muted">This project already has everything in the bundle.</p>}
+          {preview.items.map((item) => {
+            const key = itemKey(item);
+            const choices: BundleMergeResolution[] = item.type === "timeline_task" ? ["mine", "theirs"] : ["mine", "theirs", "both"];
+            return (
+              <div key={key} className={`bundle-merge-item ${item.change}`}>
+                <span>
+                  <strong>{ITEM_TYPE_LABELS[item.type]}</strong> {item.label || "(untitled)"}
+                  {item.mineLabel && item.mineLabel !== item.label ? <span className="muted"> (mine: {item.mineLabel})</span> : null}
+                  <span className="muted">
+                    {" "}
+                    · {CHANGE_LABELS[item.change]}
+                    {item.changedFields.length ? ` (${item.changedFields.join(", ")})` : ""}
+                  </span>
+                </span>
+                {item.change === "conflict" && (
+                  <select
+                    value={resolutions[key]}
+                    onChange={(event) =>
+                      setResolutions((prev) => ({ ...prev, [key]: event.target.value as BundleMergeResolution }))
+                    }
+                    disabled={busy}
+                    aria-label={`Resolve ${item.label}`}
+                  >
+                    {choices.map((choice) => (
+                      <option key={choice} value={choice}>
+                        {RESOLUTION_LABELS[choice]}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            );
+          })}
+          {(preview.unchanged > 0 || preview.keptLocal > 0) && (
+            <p className="muted">
+              {preview.unchanged} items already match
+              {preview.keptLocal > 0 ? ` · ${preview.keptLocal} items changed only here keep your version` : ""}.
+            </p>
+          )}
+        </div>
+        {message && (
+          <p className="muted save-error" aria-live="polite">
+            {message}
+          </p>
+        )}
+        <div className="form-actions">
+          <span className="muted">
+            {conflicts > 0 ? `${conflicts} conflicts · "Keep both" adds the bundle's version as a copy.` : null}
+          </span>
+          <button type="button" onClick={merge} disabled={busy || preview.items.length === 0}>
+            {busy ? "Merging..." : `Merge ${preview.items.length} Items`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BundleMergeDialog;
@@ -0,0 +1,90 @@
+import React, { useState } from "react";
+
+type TransferPassphraseDialogProps = {
+  mode: "export" | "import";
+  minLength: number;
+  error?: string | null;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+};
+
+// Export asks for the passphrase twice and allows an explicit unencrypted export; import asks once.
+const TransferPassphraseDialog: React.FC<TransferPassphraseDialogProps> = ({ mode, minLength, error, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  const exporting = mode === "export";
+  const tooShort = exporting && passphrase.length < minLength;
+  const mismatch = exporting && passphrase !== confirm;
+  const canSubmit = passphrase.length > 0 && !tooShort && !mismatch;
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canSubmit) onSubmit(passphrase);
+  };
+
+  const exportUnencrypted = () => {
+    const confirmed = window.confirm(
+      "An unencrypted bundle contains every note and document of this project in readable form. Export it anyway?"
+    );
+    if (confirmed) onSubmit("");
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={onCancel}>
+      <div className="modal transfer-passphrase-modal" onClick={(event) => event.stopPropagation()}>
+        <h3>{exporting ? "Encrypt Project Bundle" : "Encrypted Project Bundle"}</h3>
+        <p className="muted">
+          {exporting
+            ? "Choose a transfer passphrase for this bundle and share it separately from the file. It is not your vault passphrase."
+            : "Enter the transfer passphrase chosen when this bundle was exported."}
+        </p>
+        <form onSubmit={submit} className="project-form">
+          <label>
+            Transfer Passphrase
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              autoComplete={exporting ? "new-password" : "off"}
+              placeholder={exporting ? `At least ${minLength} characters` : undefined}
+              autoFocus
+            />
+          </label>
+          {exporting && (
+            <label>
+              Confirm Transfer Passphrase
+              <input
+                type="password"
+                value={confirm}
+                onChange={(event) => setConfirm(event.target.value)}
+                autoComplete="new-password"
+              />
+            </label>
+          )}
+          {exporting && confirm.length > 0 && mismatch && <p className="muted save-error">Passphrases do not match.</p>}
+          {error && (
+            <p className="muted save-error" aria-live="polite">
+              {error}
+            </p>
+          )}
+          <div className="form-actions">
+            <button type="button" className="ghost" onClick={onCancel}>
+              Cancel
+            </button>
+            {exporting && (
+              <button type="button" className="ghost" onClick={exportUnencrypted}>
+                Export Without Encryption
+              </button>
+            )}
+            <button type="submit" disabled={!canSubmit}>
+              {exporting ? "Export Encrypted" : "Import"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TransferPassphraseDialog;
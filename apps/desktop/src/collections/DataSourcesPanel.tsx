@@ -0,0 +1,333 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { COLLECTION_METHODS, DATA_SOURCE_TYPE_LABELS, DATA_SOURCE_TYPES, formatGb, formatItemCount } from "./constants";
+
+type DataSourcesPanelProps = {
+  projectId: string;
+  attachments: Attachment[];
+  dataRevision: number;
+  quickQuery: string;
+  onChanged: () => void;
+};
+
+type PanelStatus = "idle" | "saving" | "error";
+
+type DataSourceFormState = {
+  sourceType: DataSourceType;
+  description: string;
+  custodianId: string;
+  collectionMethod: string;
+  collectedAt: string;
+  sizeGb: string;
+  itemCount: string;
+  custodyAttachmentIds: string[];
+};
+
+const emptyForm: DataSourceFormState = {
+  sourceType: "mailbox",
+  description: "",
+  custodianId: "",
+  collectionMethod: "",
+  collectedAt: "",
+  sizeGb: "",
+  itemCount: "",
+  custodyAttachmentIds: []
+};
+
+const toForm = (source: DataSource): DataSourceFormState => ({
+  sourceType: source.sourceType,
+  description: source.description || "",
+  custodianId: source.custodianId || "",
+  collectionMethod: source.collectionMethod || "",
+  collectedAt: source.collectedAt || "",
+  sizeGb: source.sizeGb === null ? "" : String(source.sizeGb),
+  itemCount: source.itemCount === null ? "" : String(source.itemCount),
+  custodyAttachmentIds: source.custody.map((document) => document.attachmentId)
+});
+
+const toInput = (form: DataSourceFormState): DataSourceInput => ({
+  sourceType: form.sourceType,
+  description: form.description.trim() || null,
+  custodianId: form.custodianId || null,
+  collectionMethod: form.collectionMethod.trim() || null,
+  collectedAt: form.collectedAt || null,
+  sizeGb: form.sizeGb.trim() ? Number(form.sizeGb) : null,
+  itemCount: form.itemCount.trim() ? Number(form.itemCount) : null,
+  custodyAttachmentIds: form.custodyAttachmentIds
+});
+
+const formatDay = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString();
+
+const DataSourcesPanel: React.FC<DataSourcesPanelProps> = ({ projectId, attachments, dataRevision, quickQuery, onChanged }) => {
+  const [sources, setSources] = useState<DataSource[]>([]);
+  const [custodians, setCustodians] = useState<Custodian[]>([]);
+  const [form, setForm] = useState<DataSourceFormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [status, setStatus] = useState<PanelStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([window.edisconotes.listDataSources(projectId), window.edisconotes.listCustodians(projectId)])
+      .then(([sourceRows, custodianRows]) => {
+        if (cancelled) return;
+        setSources(sourceRows);
+        setCustodians(custodianRows);
+      })
+      .catch((error) => console.error("Failed to load data sources", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, dataRevision, attachments]);
+
+  useEffect(() => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setStatus("idle");
+    setMessage(null);
+  }, [projectId]);
+
+  const filtered = useMemo(() => {
+    if (!quickQuery) return sources;
+    return sources.filter((source) =>
+      [DATA_SOURCE_TYPE_LABELS[source.sourceType], source.description, source.custodianName, source.collectionMethod]
+        .some((value) => String(value || "").toLowerCase().includes(quickQuery))
+    );
+  }, [sources, quickQuery]);
+
+  const totals = useMemo(
+    () => ({
+      collected: sources.filter((source) => source.collectedAt).length,
+      gb: sources.reduce((sum, source) => sum + (source.sizeGb || 0), 0),
+      items: sources.reduce((sum, source) => sum + (source.itemCount || 0), 0)
+    }),
+    [sources]
+  );
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setStatus("saving");
+    setMessage(null);
+    try {
+      const input = toInput(form);
+      const saved = editingId
+        ? await window.edisconotes.updateDataSource(editingId, input)
+        : await window.edisconotes.createDataSource(projectId, input);
+      setSources((prev) => [saved, ...prev.filter((item) => item.id !== saved.id)]);
+      resetForm();
+      setStatus("idle");
+      onChanged();
+    } catch (error) {
+      console.error("Failed to save data source", error);
+      setStatus("error");
+      setMessage("Could not save the data source. Check the size, item count and collection date.");
+    }
+  };
+
+  const remove = async (source: DataSource) => {
+    const label = source.description || DATA_SOURCE_TYPE_LABELS[source.sourceType];
+    if (!window.confirm(`Remove data source "${label}" from the inventory? Its documents stay in the Documents tab.`)) return;
+    await window.edisconotes.deleteDataSource(source.id);
+    setSources((prev) => prev.filter((item) => item.id !== source.id));
+    if (editingId === source.id) resetForm();
+    onChanged();
+  };
+
+  const toggleCustodyDocument = (attachmentId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      custodyAttachmentIds: checked
+        ? [...prev.custodyAttachmentIds, attachmentId]
+        : prev.custodyAttachmentIds.filter((item) => item !== attachmentId)
+    }));
+  };
+
+  const busy = status === "saving";
+
+  return (
+    <>
+      <div className="documents-actions">
+        <div>
+          <h3>Data Sources</h3>
+          <p className="muted">
+            {sources.length} sources · {totals.collected} collected · {formatGb(totals.gb)} · {formatItemCount(totals.items)}
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={save} className="project-form custodian-form">
+        <div className="form-row">
+          <label>
+            Source Type
+            <select
+              value={form.sourceType}
+              onChange={(event) => setForm({ ...form, sourceType: event.target.value as DataSourceType })}
+            >
+              {DATA_SOURCE_TYPES.map((value) => (
+                <option key={value} value={value}>
+                  {DATA_SOURCE_TYPE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Custodian
+            <select value={form.custodianId} onChange={(event) => setForm({ ...form, custodianId: event.target.value })}>
+              <option value="">No custodian (shared source)</option>
+              {custodians.map((custodian) => (
+                <option key={custodian.id} value={custodian.id}>
+                  {custodian.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="form-row">
+          <label>
+            Description
+            <input
+              value={form.description}
+              onChange={(event) => setForm({ ...form, description: event.target.value })}
+              placeholder="jane.roe@company.com, 2019–2023"
+            />
+          </label>
+          <label>
+            Collection Method
+            <input
+              value={form.collectionMethod}
+              onChange={(event) => setForm({ ...form, collectionMethod: event.target.value })}
+              list="collection-method-options"
+            />
+            <datalist id="collection-method-options">
+              {COLLECTION_METHODS.map((method) => (
+                <option key={method} value={method} />
+              ))}
+            </datalist>
+          </label>
+        </div>
+        <div className="form-row custodian-form-dates">
+          <label>
+            Date Collected
+            <input
+              type="date"
+              value={form.collectedAt}
+              onChange={(event) => setForm({ ...form, collectedAt: event.target.value })}
+            />
+          </label>
+          <label>
+            Raw Size (GB)
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={form.sizeGb}
+              onChange={(event) => setForm({ ...form, sizeGb: event.target.value })}
+            />
+          </label>
+          <label>
+            Items
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={form.itemCount}
+              onChange={(event) => setForm({ ...form, itemCount: event.target.value })}
+            />
+          </label>
+        </div>
+        <fieldset className="legal-hold-picker">
+          <legend>Chain of Custody</legend>
+          {attachments.length === 0 && (
+            <p className="muted">Add custody forms or collection reports in the Documents tab to reference them here.</p>
+          )}
+          {attachments.map((attachment) => (
+            <label key={attachment.id} className="settings-check">
+              <input
+                type="checkbox"
+                checked={form.custodyAttachmentIds.includes(attachment.id)}
+                onChange={(event) => toggleCustodyDocument(attachment.id, event.target.checked)}
+              />
+              {attachment.originalFileName}
+            </label>
+          ))}
+        </fieldset>
+        {message && (
+          <p className="muted save-error" aria-live="polite">
+            {message}
+          </p>
+        )}
+        <div className="form-actions">
+          {editingId && (
+            <button type="button" className="ghost" onClick={resetForm} disabled={busy}>
+              Cancel
+            </button>
+          )}
+          <button type="submit" className="primary" disabled={busy}>
+            {busy ? "Saving..." : editingId ? "Save Source" : "Add Source"}
+          </button>
+        </div>
+      </form>
+
+      <div className="todo-list">
+        {sources.length === 0 && (
+          <div className="inline-empty">
+            <p className="muted">No data sources yet. Log each mailbox, drive, chat workspace or device as it is collected.</p>
+          </div>
+        )}
+        {sources.length > 0 && filtered.length === 0 && <p className="muted">No data sources match your quick search.</p>}
+        {filtered.map((source) => {
+          const volume = [
+            source.sizeGb !== null ? formatGb(source.sizeGb) : null,
+            source.itemCount !== null ? formatItemCount(source.itemCount) : null
+          ]
+            .filter(Boolean)
+            .join(" · ");
+          return (
+            <div key={source.id} className={source.id === editingId ? "todo-item custodian-item editing" : "todo-item custodian-item"}>
+              <div className="custodian-details">
+                <strong>
+                  {DATA_SOURCE_TYPE_LABELS[source.sourceType]}
+                  {source.custodianName ? ` · ${source.custodianName}` : ""}
+                </strong>
+                {source.description && <span className="muted">{source.description}</span>}
+                <span className="muted">
+                  {source.collectedAt ? `Collected ${formatDay(source.collectedAt)}` : "Not collected yet"}
+                  {source.collectionMethod ? ` · ${source.collectionMethod}` : ""}
+                  {volume ? ` · ${volume}` : ""}
+                </span>
+                {source.custody.length > 0 && (
+                  <span className="muted">
+                    Chain of custody: {source.custody.map((document) => document.originalFileName).join(", ")}
+                  </span>
+                )}
+              </div>
+              <div className="todo-actions">
+                <span className={source.collectedAt ? "chip active" : "chip"}>{source.collectedAt ? "Collected" : "Pending"}</span>
+                <button
+                  type="button"
+                  className="ghost"
+                  onClick={() => {
+                    setEditingId(source.id);
+                    setForm(toForm(source));
+                    setMessage(null);
+                  }}
+                >
+                  Edit
+                </button>
+                <button type="button" className="ghost" onClick={() => remove(source)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
+export default DataSourcesPanel;
@@ -0,0 +1,23 @@
+export const DATA_SOURCE_TYPES: DataSourceType[] = ["mailbox", "onedrive", "slack", "mobile_device", "other"];
+
+export const DATA_SOURCE_TYPE_LABELS: Record<DataSourceType, string> = {
+  mailbox: "Mailbox",
+  onedrive: "OneDrive",
+  slack: "Slack",
+  mobile_device: "Mobile device",
+  other: "Other"
+};
+
+// Offered as suggestions only; the method is free text.
+export const COLLECTION_METHODS = [
+  "Forensic image",
+  "Targeted collection",
+  "Admin export",
+  "API export",
+  "Self-collection"
+];
+
+export const formatGb = (value: number) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: value >= 100 ? 0 : 2 })} GB`;
+
+export const formatItemCount = (value: number) => `${value.toLocaleString()} items`;
@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useState } from "react";
+import LegalHoldsPanel from "../holds/LegalHoldsPanel";
+import { CUSTODIAN_STATUS_LABELS, CUSTODIAN_STATUSES } from "./constants";
+
+type CustodiansPanelProps = {
+  projectId: string;
+  dataRevision: number;
+  quickQuery: string;
+  onChanged: () => void;
+};
+
+type PanelStatus = "idle" | "saving" | "error";
+
+type CustodianFormState = {
+  name: string;
+  title: string;
+  department: string;
+  email: string;
+  status: CustodianStatus;
+  holdNoticeSentAt: string;
+  holdAcknowledgedAt: string;
+};
+
+const emptyForm: CustodianFormState = {
+  name: "",
+  title: "",
+  department: "",
+  email: "",
+  status: "identified",
+  holdNoticeSentAt: "",
+  holdAcknowledgedAt: ""
+};
+
+const toForm = (custodian: Custodian): CustodianFormState => ({
+  name: custodian.name,
+  title: custodian.title || "",
+  department: custodian.department || "",
+  email: custodian.email || "",
+  status: custodian.status,
+  holdNoticeSentAt: custodian.holdNoticeSentAt || "",
+  holdAcknowledgedAt: custodian.holdAcknowledgedAt || ""
+});
+
+const toInput = (form: CustodianFormState): CustodianInput => ({
+  name: form.name,
+  title: form.title.trim() || null,
+  department: form.department.trim() || null,
+  email: form.email.trim() || null,
+  status: form.status,
+  holdNoticeSentAt: form.holdNoticeSentAt || null,
+  holdAcknowledgedAt: form.holdAcknowledgedAt || null
+});
+
+const formatDay = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString();
+
+const CustodiansPanel: React.FC<CustodiansPanelProps> = ({ projectId, dataRevision, quickQuery, onChanged }) => {
+  const [custodians, setCustodians] = useState<Custodian[]>([]);
+  const [form, setForm] = useState<CustodianFormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [status, setStatus] = useState<PanelStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+  // Hold changes rewrite custodians' hold columns, so the list reloads after each one.
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.edisconotes
+      .listCustodians(projectId)
+      .then((rows) => {
+        if (!cancelled) setCustodians(rows);
+      })
+      .catch((error) => console.error("Failed to load custodians", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, dataRevision, reloadKey]);
+
+  useEffect(() => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setStatus("idle");
+    setMessage(null);
+  }, [projectId]);
+
+  const filtered = useMemo(() => {
+    if (!quickQuery) return custodians;
+    return custodians.filter((custodian) =>
+      [custodian.name, custodian.title, custodian.department, custodian.email]
+        .some((value) => String(value || "").toLowerCase().includes(quickQuery))
+    );
+  }, [custodians, quickQuery]);
+
+  const awaitingAcknowledgment = custodians.filter(
+    (custodian) => custodian.holdNoticeSentAt && !custodian.holdAcknowledgedAt && custodian.status === "on_hold"
+  ).length;
+  const onHold = custodians.filter((custodian) => custodian.status === "on_hold").length;
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setStatus("saving");
+    setMessage(null);
+    try {
+      const input = toInput(form);
+      const saved = editingId
+        ? await window.edisconotes.updateCustodian(editingId, input)
+        : await window.edisconotes.createCustodian(projectId, input);
+      setCustodians((prev) =>
+        [...prev.filter((item) => item.id !== saved.id), saved].sort((left, right) =>
+          left.name.localeCompare(right.name, undefined, { sensitivity: "base" })
+        )
+      );
+      resetForm();
+      setStatus("idle");
+      onChanged();
+    } catch (error) {
+      console.error("Failed to save custodian", error);
+      setStatus("error");
+      setMessage("Could not save the custodian. Check the email address and hold dates.");
+    }
+  };
+
+  const remove = async (custodian: Custodian) => {
+    if (!window.confirm(`Remove custodian "${custodian.name}"? They are also taken off any legal holds.`)) return;
+    await window.edisconotes.deleteCustodian(custodian.id);
+    if (editingId === custodian.id) resetForm();
+    setReloadKey((prev) => prev + 1);
+    onChanged();
+  };
+
+  const busy = status === "saving";
+
+  return (
+    <>
+      <div className="documents-actions">
+        <div>
+          <h3>Custodians</h3>
+          <p className="muted">
+            {custodians.length} custodians · {onHold} on hold
+            {awaitingAcknowledgment > 0 ? ` · ${awaitingAcknowledgment} awaiting hold acknowledgment` : ""}
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={save} className="project-form custodian-form">
+        <div className="form-row">
+          <label>
+            Name
+            <input value={form.name} onChange={(event) => setForm({ ...form, name: event.target.value })} required />
+          </label>
+          <label>
+            Email
+            <input
+              type="email"
+              value={form.email}
+              onChange={(event) => setForm({ ...form, email: event.target.value })}
+              placeholder="name@company.com"
+            />
+          </label>
+        </div>
+        <div className="form-row">
+          <label>
+            Title
+            <input value={form.title} onChange={(event) => setForm({ ...form, title: event.target.value })} />
+          </label>
+          <label>
+            Department
+            <input value={form.department} onChange={(event) => setForm({ ...form, department: event.target.value })} />
+          </label>
+        </div>
+        <div className="form-row custodian-form-dates">
+          <label>
+            Status
+            <select
+              value={form.status}
+              onChange={(event) => setForm({ ...form, status: event.target.value as CustodianStatus })}
+            >
+              {CUSTODIAN_STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {CUSTODIAN_STATUS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Hold Notice Sent
+            <input
+              type="date"
+              value={form.holdNoticeSentAt}
+              onChange={(event) => setForm({ ...form, holdNoticeSentAt: event.target.value })}
+            />
+          </label>
+          <label>
+            Hold Acknowledged
+            <input
+              type="date"
+              value={form.holdAcknowledgedAt}
+              min={form.holdNoticeSentAt || undefined}
+              onChange={(event) => setForm({ ...form, holdAcknowledgedAt: event.target.value })}
+            />
+          </label>
+        </div>
+        {message && (
+          <p className="muted save-error" aria-live="polite">
+            {message}
+          </p>
+        )}
+        <div className="form-actions">
+          {editingId && (
+            <button type="button" className="ghost" onClick={resetForm} disabled={busy}>
+              Cancel
+            </button>
+          )}
+          <button type="submit" className="primary" disabled={busy}>
+            {busy ? "Saving..." : editingId ? "Save Custodian" : "Add Custodian"}
+          </button>
+        </div>
+      </form>
+
+      <div className="todo-list">
+        {custodians.length === 0 && (
+          <div className="inline-empty">
+            <p className="muted">No custodians yet. Add the people whose data this matter preserves.</p>
+          </div>
+        )}
+        {custodians.length > 0 && filtered.length === 0 && <p className="muted">No custodians match your quick search.</p>}
+        {filtered.map((custodian) => {
+          const role = [custodian.title, custodian.department].filter(Boolean).join(" · ");
+          return (
+            <div key={custodian.id} className={custodian.id === editingId ? "todo-item custodian-item editing" : "todo-item custodian-item"}>
+              <div className="custodian-details">
+                <strong>{custodian.name}</strong>
+                {role && <span className="muted">{role}</span>}
+                {custodian.email && <span className="muted">{custodian.email}</span>}
+                <span className="muted">
+                  {custodian.holdNoticeSentAt ? `Hold notice sent ${formatDay(custodian.holdNoticeSentAt)}` : "No hold notice sent"}
+                  {custodian.holdAcknowledgedAt
+                    ? ` · acknowledged ${formatDay(custodian.holdAcknowledgedAt)}`
+                    : custodian.holdNoticeSentAt
+                      ? " · not acknowledged"
+                      : ""}
+                </span>
+              </div>
+              <div className="todo-actions">
+                <span className={custodian.status === "on_hold" ? "chip active" : "chip"}>
+                  {CUSTODIAN_STATUS_LABELS[custodian.status]}
+                </span>
+                <button
+                  type="button"
+                  className="ghost"
+                  onClick={() => {
+                    setEditingId(custodian.id);
+                    setForm(toForm(custodian));
+                    setMessage(null);
+                  }}
+                >
+                  Edit
+                </button>
+                <button type="button" className="ghost" onClick={() => remove(custodian)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <LegalHoldsPanel
+        projectId={projectId}
+        custodians={custodians}
+        onChanged={() => {
+          setReloadKey((prev) => prev + 1);
+          onChanged();
+        }}
+      />
+    </>
+  );
+};
+
+export default CustodiansPanel;
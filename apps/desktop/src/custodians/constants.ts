@@ -0,0 +1,8 @@
+export const CUSTODIAN_STATUSES: CustodianStatus[] = ["identified", "on_hold", "released", "departed"];
+
+export const CUSTODIAN_STATUS_LABELS: Record<CustodianStatus, string> = {
+  identified: "Identified",
+  on_hold: "On hold",
+  released: "Released",
+  departed: "Departed"
+};
@@ -0,0 +1,450 @@
+import React, { useEffect, useState } from "react";
+
+type LegalHoldsPanelProps = {
+  projectId: string;
+  custodians: Custodian[];
+  onChanged: () => void;
+};
+
+type PanelStatus = "idle" | "saving" | "error";
+
+type HoldFormState = {
+  name: string;
+  issuedAt: string;
+  acknowledgmentDueDays: string;
+  reminderIntervalDays: string;
+  escalationAfterDays: string;
+  releasedAt: string;
+  customTemplate: boolean;
+  noticeTemplate: string;
+  custodianIds: string[];
+};
+
+const TEMPLATE_FIELDS = [
+  "matterName",
+  "clientName",
+  "billingCode",
+  "startDate",
+  "productionDeadline",
+  "holdName",
+  "issuedAt",
+  "acknowledgeBy",
+  "recipientName",
+  "recipientTitle",
+  "recipientDepartment",
+  "recipientEmail",
+  "today"
+];
+
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+};
+
+const emptyForm = (): HoldFormState => ({
+  name: "",
+  issuedAt: todayIso(),
+  acknowledgmentDueDays: "7",
+  reminderIntervalDays: "7",
+  escalationAfterDays: "7",
+  releasedAt: "",
+  customTemplate: false,
+  noticeTemplate: "",
+  custodianIds: []
+});
+
+const toForm = (hold: LegalHold): HoldFormState => ({
+  name: hold.name,
+  issuedAt: hold.issuedAt,
+  acknowledgmentDueDays: String(hold.acknowledgmentDueDays),
+  reminderIntervalDays: hold.reminderIntervalDays === null ? "" : String(hold.reminderIntervalDays),
+  escalationAfterDays: hold.escalationAfterDays === null ? "" : String(hold.escalationAfterDays),
+  releasedAt: hold.releasedAt || "",
+  customTemplate: Boolean(hold.noticeTemplate),
+  noticeTemplate: hold.noticeTemplate || "",
+  custodianIds: hold.recipients.map((recipient) => recipient.custodianId)
+});
+
+const toInput = (form: HoldFormState): LegalHoldInput => ({
+  name: form.name,
+  issuedAt: form.issuedAt,
+  acknowledgmentDueDays: Number(form.acknowledgmentDueDays),
+  reminderIntervalDays: form.reminderIntervalDays.trim() ? Number(form.reminderIntervalDays) : null,
+  escalationAfterDays: form.escalationAfterDays.trim() ? Number(form.escalationAfterDays) : null,
+  releasedAt: form.releasedAt || null,
+  noticeTemplate: form.customTemplate && form.noticeTemplate.trim() ? form.noticeTemplate : null,
+  custodianIds: form.custodianIds
+});
+
+const formatDay = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString();
+
+const describeRecipient = (recipient: LegalHoldRecipient, hold: LegalHold) => {
+  if (recipient.acknowledgedAt) return `Acknowledged ${formatDay(recipient.acknowledgedAt)}`;
+  if (hold.releasedAt) return "Not acknowledged";
+  const { schedule } = recipient;
+  const parts = [
+    schedule.overdue
+      ? `Acknowledgment ${Math.abs(schedule.daysUntilDue ?? 0)}d overdue${schedule.escalated ? " · escalate" : ""}`
+      : `Acknowledge by ${formatDay(schedule.acknowledgeBy)}`
+  ];
+  if (schedule.nextReminderAt) parts.push(`next reminder ${formatDay(schedule.nextReminderAt)}`);
+  return parts.join(" · ");
+};
+
+const LegalHoldsPanel: React.FC<LegalHoldsPanelProps> = ({ projectId, custodians, onChanged }) => {
+  const [holds, setHolds] = useState<LegalHold[]>([]);
+  const [form, setForm] = useState<HoldFormState | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [defaultTemplate, setDefaultTemplate] = useState("");
+  const [status, setStatus] = useState<PanelStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.edisconotes
+      .listLegalHolds(projectId)
+      .then((rows) => {
+        if (!cancelled) setHolds(rows);
+      })
+      .catch((error) => console.error("Failed to load legal holds", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, custodians]);
+
+  useEffect(() => {
+    window.edisconotes
+      .getLegalHoldTemplate()
+      .then((result) => setDefaultTemplate(result.template))
+      .catch((error) => console.error("Failed to load hold notice template", error));
+  }, []);
+
+  useEffect(() => {
+    setForm(null);
+    setEditingId(null);
+    setStatus("idle");
+    setMessage(null);
+  }, [projectId]);
+
+  const replaceHold = (hold: LegalHold) => {
+    setHolds((prev) => prev.map((item) => (item.id === hold.id ? hold : item)));
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setMessage(null);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error(failure, error);
+      setStatus("error");
+      setMessage(failure);
+    }
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form) return;
+    setStatus("saving");
+    setMessage(null);
+    try {
+      const input = toInput(form);
+      const saved = editingId
+        ? await window.edisconotes.updateLegalHold(editingId, input)
+        : await window.edisconotes.createLegalHold(projectId, input);
+      setHolds((prev) => [saved, ...prev.filter((item) => item.id !== saved.id)]);
+      setForm(null);
+      setEditingId(null);
+      setStatus("idle");
+      onChanged();
+    } catch (error) {
+      console.error("Failed to save legal hold", error);
+      setStatus("error");
+      setMessage("Could not save the legal hold. Check the dates and schedule values.");
+    }
+  };
+
+  const remove = (hold: LegalHold) => {
+    if (!window.confirm(`Delete legal hold "${hold.name}" and its acknowledgment history?`)) return;
+    void run(async () => {
+      await window.edisconotes.deleteLegalHold(hold.id);
+      setHolds((prev) => prev.filter((item) => item.id !== hold.id));
+    }, "Could not delete the legal hold.");
+  };
+
+  const exportNotice = async (hold: LegalHold) => {
+    setMessage(null);
+    try {
+      const result = await window.edisconotes.exportLegalHoldNotice(hold.id);
+      if (result.ok) {
+        setStatus("idle");
+        setMessage(`Hold notice saved to ${result.filePath}.`);
+        onChanged();
+      } else if (!result.canceled) {
+        setStatus("error");
+        setMessage(result.error || "Hold notice export failed.");
+      }
+    } catch (error) {
+      console.error("Hold notice export failed", error);
+      setStatus("error");
+      setMessage("Hold notice export failed.");
+    }
+  };
+
+  const toggleRecipient = (custodianId: string, checked: boolean) => {
+    setForm((prev) =>
+      prev
+        ? {
+            ...prev,
+            custodianIds: checked
+              ? [...prev.custodianIds, custodianId]
+              : prev.custodianIds.filter((item) => item !== custodianId)
+          }
+        : prev
+    );
+  };
+
+  const busy = status === "saving";
+
+  return (
+    <section className="legal-holds-panel" aria-label="Legal holds">
+      <div className="documents-actions">
+        <div>
+          <h3>Legal Holds</h3>
+          <p className="muted">Issue holds to custodians, then track acknowledgments, reminders and release.</p>
+        </div>
+        {!form && (
+          <button
+            type="button"
+            className="primary"
+            onClick={() => {
+              setEditingId(null);
+              setForm(emptyForm());
+              setMessage(null);
+            }}
+          >
+            New Hold
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <form onSubmit={save} className="project-form custodian-form">
+          <div className="form-row">
+            <label>
+              Hold Name
+              <input value={form.name} onChange={(event) => setForm({ ...form, name: event.target.value })} required />
+            </label>
+            <label>
+              Issued
+              <input
+                type="date"
+                value={form.issuedAt}
+                onChange={(event) => setForm({ ...form, issuedAt: event.target.value })}
+                required
+              />
+            </label>
+          </div>
+          <div className="form-row custodian-form-dates">
+            <label>
+              Acknowledge Within (days)
+              <input
+                type="number"
+                min={1}
+                max={90}
+                value={form.acknowledgmentDueDays}
+                onChange={(event) => setForm({ ...form, acknowledgmentDueDays: event.target.value })}
+                required
+              />
+            </label>
+            <label>
+              Remind Every (days)
+              <input
+                type="number"
+                min={1}
+                max={90}
+                value={form.reminderIntervalDays}
+                onChange={(event) => setForm({ ...form, reminderIntervalDays: event.target.value })}
+                placeholder="No reminders"
+              />
+            </label>
+            <label>
+              Escalate After (days overdue)
+              <input
+                type="number"
+                min={1}
+                max={180}
+                value={form.escalationAfterDays}
+                onChange={(event) => setForm({ ...form, escalationAfterDays: event.target.value })}
+                placeholder="No escalation"
+              />
+            </label>
+          </div>
+          {editingId && (
+            <label>
+              Released
+              <input
+                type="date"
+                value={form.releasedAt}
+                min={form.issuedAt || undefined}
+                onChange={(event) => setForm({ ...form, releasedAt: event.target.value })}
+              />
+            </label>
+          )}
+          <fieldset className="legal-hold-picker">
+            <legend>Recipients</legend>
+            {custodians.length === 0 && <p className="muted">Add custodians above to choose hold recipients.</p>}
+            {custodians.map((custodian) => (
+              <label key={custodian.id} className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={form.custodianIds.includes(custodian.id)}
+                  onChange={(event) => toggleRecipient(custodian.id, event.target.checked)}
+                />
+                {custodian.name}
+              </label>
+            ))}
+          </fieldset>
+          <label className="settings-check">
+            <input
+              type="checkbox"
+              checked={form.customTemplate}
+              onChange={(event) =>
+                setForm({
+                  ...form,
+                  customTemplate: event.target.checked,
+                  noticeTemplate: form.noticeTemplate || defaultTemplate
+                })
+              }
+            />
+            Customize the hold notice
+          </label>
+          {form.customTemplate && (
+            <label>
+              Notice Template
+              <textarea
+                className="legal-hold-template"
+                value={form.noticeTemplate}
+                onChange={(event) => setForm({ ...form, noticeTemplate: event.target.value })}
+                rows={12}
+              />
+              <span className="muted">Fields: {TEMPLATE_FIELDS.map((field) => `{{${field}}}`).join(" ")}</span>
+            </label>
+          )}
+          {message && (
+            <p className="muted save-error" aria-live="polite">
+              {message}
+            </p>
+          )}
+          <div className="form-actions">
+            <button
+              type="button"
+              className="ghost"
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+                setMessage(null);
+              }}
+              disabled={busy}
+            >
+              Cancel
+            </button>
+            <button type="submit" className="primary" disabled={busy}>
+              {busy ? "Saving..." : editingId ? "Save Hold" : "Issue Hold"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {!form && message && (
+        <p className={status === "error" ? "muted save-error" : "muted"} aria-live="polite">
+          {message}
+        </p>
+      )}
+
+      <div className="todo-list">
+        {holds.length === 0 && <p className="muted">No legal holds issued for this project yet.</p>}
+        {holds.map((hold) => (
+          <article key={hold.id} className={hold.releasedAt ? "legal-hold-card released" : "legal-hold-card"}>
+            <div className="legal-hold-head">
+              <div>
+                <strong>{hold.name}</strong>
+                <p className="muted">
+                  Issued {formatDay(hold.issuedAt)}
+                  {hold.releasedAt ? ` · released ${formatDay(hold.releasedAt)}` : ` · acknowledge by ${formatDay(hold.acknowledgeBy)}`}
+                  {" · "}
+                  {hold.acknowledgedCount}/{hold.recipients.length} acknowledged
+                  {hold.overdueCount > 0 ? ` · ${hold.overdueCount} overdue` : ""}
+                  {hold.escalatedCount > 0 ? ` · ${hold.escalatedCount} to escalate` : ""}
+                </p>
+              </div>
+              <div className="todo-actions">
+                {!hold.releasedAt && hold.acknowledgedCount < hold.recipients.length && (
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() =>
+                      run(async () => replaceHold(await window.edisconotes.recordLegalHoldReminder(hold.id)), "Could not record the reminder.")
+                    }
+                  >
+                    Reminder Sent
+                  </button>
+                )}
+                <button type="button" className="ghost" onClick={() => exportNotice(hold)}>
+                  Export Notice
+                </button>
+                <button
+                  type="button"
+                  className="ghost"
+                  onClick={() => {
+                    setEditingId(hold.id);
+                    setForm(toForm(hold));
+                    setMessage(null);
+                  }}
+                >
+                  Edit
+                </button>
+                <button type="button" className="ghost" onClick={() => remove(hold)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+            <div className="legal-hold-recipients">
+              {hold.recipients.map((recipient) => (
+                <div
+                  key={recipient.id}
+                  className={recipient.schedule.overdue ? "legal-hold-recipient overdue" : "legal-hold-recipient"}
+                >
+                  <span>
+                    <strong>{recipient.custodianName}</strong>
+                    <span className="muted"> · {describeRecipient(recipient, hold)}</span>
+                  </span>
+                  {!hold.releasedAt && (
+                    <button
+                      type="button"
+                      className={recipient.acknowledgedAt ? "chip active" : "chip"}
+                      aria-pressed={Boolean(recipient.acknowledgedAt)}
+                      onClick={() =>
+                        run(
+                          async () =>
+                            replaceHold(
+                              await window.edisconotes.acknowledgeLegalHold(recipient.id, recipient.acknowledgedAt ? null : todayIso())
+                            ),
+                          "Could not update the acknowledgment."
+                        )
+                      }
+                    >
+                      Acknowledged
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </article>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default LegalHoldsPanel;
@@ -0,0 +1,89 @@
+import React from "react";
+
+type BurnDownChartProps = {
+  forecast: ReviewForecast;
+};
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 20, bottom: 28, left: 56 };
+
+const dayNumber = (value: string) => Math.floor(Date.parse(`${value}T00:00:00.000Z`) / 86_400_000);
+
+const formatShortDay = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+const BurnDownChart: React.FC<BurnDownChartProps> = ({ forecast }) => {
+  const points = forecast.series.filter((point): point is ReviewForecastPoint & { remaining: number } => point.remaining !== null);
+  if (points.length === 0) {
+    return (
+      <div className="gantt-empty">
+        <p className="muted">Log a "promoted to review" total to start the burn-down.</p>
+      </div>
+    );
+  }
+
+  const dates = [points[0].date, points[points.length - 1].date, forecast.projectedFinish, forecast.reviewEndDate].filter(
+    (value): value is string => Boolean(value)
+  );
+  const startDay = Math.min(...dates.map(dayNumber));
+  const endDay = Math.max(startDay + 1, ...dates.map(dayNumber));
+  const maxRemaining = Math.max(1, forecast.population || 0, ...points.map((point) => point.remaining));
+
+  const x = (value: string) => PAD.left + ((dayNumber(value) - startDay) / (endDay - startDay)) * (WIDTH - PAD.left - PAD.right);
+  const y = (value: number) => PAD.top + (1 - value / maxRemaining) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const last = points[points.length - 1];
+  const actualPath = points.map((point) => `${x(point.date).toFixed(1)},${y(point.remaining).toFixed(1)}`).join(" ");
+
+  return (
+    <svg
+      className={`burn-down-chart ${forecast.status}`}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+      aria-label="Review burn-down: documents left to review by date"
+    >
+      <line className="burn-down-axis" x1={PAD.left} y1={y(0)} x2={WIDTH - PAD.right} y2={y(0)} />
+      <line className="burn-down-axis" x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={y(0)} />
+      <text className="burn-down-label" x={PAD.left - 6} y={PAD.top + 4} textAnchor="end">
+        {maxRemaining.toLocaleString()}
+      </text>
+      <text className="burn-down-label" x={PAD.left - 6} y={y(0)} textAnchor="end">
+        0
+      </text>
+      <text className="burn-down-label" x={PAD.left} y={HEIGHT - 8}>
+        {formatShortDay(points[0].date)}
+      </text>
+      {forecast.reviewEndDate && (
+        <g>
+          <line className="burn-down-target" x1={x(forecast.reviewEndDate)} y1={PAD.top} x2={x(forecast.reviewEndDate)} y2={y(0)} />
+          <text className="burn-down-label" x={x(forecast.reviewEndDate)} y={HEIGHT - 8} textAnchor="middle">
+            Review end {formatShortDay(forecast.reviewEndDate)}
+          </text>
+        </g>
+      )}
+      <polyline className="burn-down-actual" points={actualPath} />
+      {forecast.projectedFinish && forecast.status !== "complete" && (
+        <g>
+          <line
+            className="burn-down-projection"
+            x1={x(last.date)}
+            y1={y(last.remaining)}
+            x2={x(forecast.projectedFinish)}
+            y2={y(0)}
+          />
+          <circle className="burn-down-projection-point" cx={x(forecast.projectedFinish)} cy={y(0)} r={4} />
+        </g>
+      )}
+      {points.map((point) => (
+        <circle key={point.date} className="burn-down-point" cx={x(point.date)} cy={y(point.remaining)} r={3}>
+          <title>
+            {formatShortDay(point.date)}: {point.remaining.toLocaleString()} left
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default BurnDownChart;
@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from "react";
+import BurnDownChart from "./BurnDownChart";
+
+type ReviewMetricsPanelProps = {
+  projectId: string;
+  reviewStartDate: string;
+  reviewEndDate: string;
+  dataRevision: number;
+  onChanged: () => void;
+};
+
+type PanelStatus = "idle" | "saving" | "error";
+
+type MetricField = Exclude<keyof ReviewMetricInput, "metricDate">;
+
+type MetricFormState = { metricDate: string } & Record<MetricField, string>;
+
+const METRIC_FIELDS: { key: MetricField; label: string; step?: string }[] = [
+  { key: "documentsProcessed", label: "Processed (total)" },
+  { key: "gbProcessed", label: "Processed GB (total)", step: "any" },
+  { key: "documentsPromoted", label: "Promoted to Review (total)" },
+  { key: "documentsReviewed", label: "Reviewed This Day" },
+  { key: "documentsProduced", label: "Produced (total)" },
+  { key: "reviewerCount", label: "Reviewers" }
+];
+
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+};
+
+const emptyForm = (): MetricFormState => ({
+  metricDate: todayIso(),
+  documentsProcessed: "",
+  gbProcessed: "",
+  documentsPromoted: "",
+  documentsReviewed: "",
+  documentsProduced: "",
+  reviewerCount: ""
+});
+
+const toForm = (entry: ReviewMetric): MetricFormState => {
+  const form = { ...emptyForm(), metricDate: entry.metricDate };
+  METRIC_FIELDS.forEach(({ key }) => {
+    form[key] = entry[key] === null ? "" : String(entry[key]);
+  });
+  return form;
+};
+
+const toInput = (form: MetricFormState): ReviewMetricInput => {
+  const input: ReviewMetricInput = {
+    metricDate: form.metricDate,
+    documentsProcessed: null,
+    gbProcessed: null,
+    documentsPromoted: null,
+    documentsReviewed: null,
+    documentsProduced: null,
+    reviewerCount: null
+  };
+  METRIC_FIELDS.forEach(({ key }) => {
+    input[key] = form[key].trim() ? Number(form[key]) : null;
+  });
+  return input;
+};
+
+const formatDay = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString();
+
+const describeEntry = (entry: ReviewMetric) => {
+  const parts: string[] = [];
+  if (entry.documentsProcessed !== null || entry.gbProcessed !== null) {
+    parts.push(
+      `Processed ${entry.documentsProcessed?.toLocaleString() ?? "—"}${entry.gbProcessed !== null ? ` (${entry.gbProcessed.toLocaleString()} GB)` : ""}`
+    );
+  }
+  if (entry.documentsPromoted !== null) parts.push(`Promoted ${entry.documentsPromoted.toLocaleString()}`);
+  if (entry.documentsReviewed !== null) {
+    const perReviewer =
+      entry.reviewerCount ? ` · ${Math.round(entry.documentsReviewed / entry.reviewerCount).toLocaleString()}/reviewer` : "";
+    parts.push(
+      `Reviewed ${entry.documentsReviewed.toLocaleString()}${entry.reviewerCount !== null ? ` by ${entry.reviewerCount}` : ""}${perReviewer}`
+    );
+  } else if (entry.reviewerCount !== null) {
+    parts.push(`${entry.reviewerCount} reviewers`);
+  }
+  if (entry.documentsProduced !== null) parts.push(`Produced ${entry.documentsProduced.toLocaleString()}`);
+  return parts.join(" · ");
+};
+
+const describeForecast = (forecast: ReviewForecast) => {
+  const velocity = forecast.velocityPerDay !== null ? `${forecast.velocityPerDay.toLocaleString()} docs/day` : "";
+  switch (forecast.status) {
+    case "no_data":
+      return "Log a promoted-to-review total and daily reviewed counts to project the review finish date.";
+    case "complete":
+      return `Review population fully reviewed${forecast.projectedFinish ? ` by ${formatDay(forecast.projectedFinish)}` : ""}.`;
+    case "stalled":
+      return `${forecast.remaining?.toLocaleString()} documents left and none reviewed in the last two weeks of the log; no finish date can be projected.`;
+    default: {
+      const finish = `${forecast.remaining?.toLocaleString()} left at ${velocity} · projected finish ${formatDay(forecast.projectedFinish || "")}`;
+      if (!forecast.reviewEndDate || forecast.overrunDays === null) return `${finish} · set a Review end date above to compare.`;
+      return forecast.overrunDays > 0
+        ? `${finish} · ${forecast.overrunDays} days after the Review phase ends (${formatDay(forecast.reviewEndDate)}).`
+        : `${finish} · ${Math.abs(forecast.overrunDays)} days ahead of the Review end date.`;
+    }
+  }
+};
+
+const ReviewMetricsPanel: React.FC<ReviewMetricsPanelProps> = ({
+  projectId,
+  reviewStartDate,
+  reviewEndDate,
+  dataRevision,
+  onChanged
+}) => {
+  const [log, setLog] = useState<ReviewMetricsLog | null>(null);
+  const [form, setForm] = useState<MetricFormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [status, setStatus] = useState<PanelStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // The forecast compares against the saved Review phase, so it reloads when those dates change.
+  useEffect(() => {
+    let cancelled = false;
+    window.edisconotes
+      .listReviewMetrics(projectId)
+      .then((result) => {
+        if (!cancelled) setLog(result);
+      })
+      .catch((error) => console.error("Failed to load review metrics", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, reviewStartDate, reviewEndDate, dataRevision, reloadKey]);
+
+  useEffect(() => {
+    setForm(emptyForm());
+    setEditingId(null);
+    setStatus("idle");
+    setMessage(null);
+  }, [projectId]);
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setStatus("saving");
+    setMessage(null);
+    try {
+      const input = toInput(form);
+      if (editingId) {
+        await window.edisconotes.updateReviewMetric(editingId, input);
+      } else {
+        await window.edisconotes.createReviewMetric(projectId, input);
+      }
+      resetForm();
+      setStatus("idle");
+      setReloadKey((prev) => prev + 1);
+      onChanged();
+    } catch (error) {
+      console.error("Failed to save review metrics", error);
+      setStatus("error");
+      setMessage("Could not save the metrics. Each date can be logged once, with whole, non-negative counts.");
+    }
+  };
+
+  const remove = async (entry: ReviewMetric) => {
+    if (!window.confirm(`Delete the metrics logged for ${formatDay(entry.metricDate)}?`)) return;
+    await window.edisconotes.deleteReviewMetric(entry.id);
+    if (editingId === entry.id) resetForm();
+    setReloadKey((prev) => prev + 1);
+    onChanged();
+  };
+
+  const busy = status === "saving";
+  const forecast = log?.forecast;
+  const entries = log ? [...log.entries].reverse() : [];
+
+  return (
+    <section className="review-metrics-panel" aria-label="Processing and review metrics">
+      <div className="documents-actions">
+        <div>
+          <h3>Review Burn-Down</h3>
+          <p className={forecast?.status === "overrun" || forecast?.status === "stalled" ? "muted save-error" : "muted"}>
+            {forecast ? describeForecast(forecast) : "Loading metrics…"}
+          </p>
+        </div>
+      </div>
+
+      {forecast && <BurnDownChart forecast={forecast} />}
+
+      <form onSubmit={save} className="project-form custodian-form">
+        <div className="form-row custodian-form-dates">
+          <label>
+            Date
+            <input
+              type="date"
+              value={form.metricDate}
+              onChange={(event) => setForm({ ...form, metricDate: event.target.value })}
+              required
+            />
+          </label>
+          {METRIC_FIELDS.map(({ key, label, step }) => (
+            <label key={key}>
+              {label}
+              <input
+                type="number"
+                min={0}
+                step={step || 1}
+                value={form[key]}
+                onChange={(event) => setForm({ ...form, [key]: event.target.value })}
+              />
+            </label>
+          ))}
+        </div>
+        {message && (
+          <p className="muted save-error" aria-live="polite">
+            {message}
+          </p>
+        )}
+        <div className="form-actions">
+          {editingId && (
+            <button type="button" className="ghost" onClick={resetForm} disabled={busy}>
+              Cancel
+            </button>
+          )}
+          <button type="submit" className="primary" disabled={busy}>
+            {busy ? "Saving..." : editingId ? "Save Metrics" : "Log Metrics"}
+          </button>
+        </div>
+      </form>
+
+      <div className="todo-list">
+        {log && entries.length === 0 && <p className="muted">No metrics logged for this project yet.</p>}
+        {entries.map((entry) => (
+          <div key={entry.id} className={entry.id === editingId ? "todo-item custodian-item editing" : "todo-item custodian-item"}>
+            <div className="custodian-details">
+              <strong>{formatDay(entry.metricDate)}</strong>
+              <span className="muted">{describeEntry(entry)}</span>
+            </div>
+            <div className="todo-actions">
+              <button
+                type="button"
+                className="ghost"
+                onClick={() => {
+                  setEditingId(entry.id);
+                  setForm(toForm(entry));
+                  setMessage(null);
+                }}
+              >
+                Edit
+              </button>
+              <button type="button" className="ghost" onClick={() => remove(entry)}>
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default ReviewMetricsPanel;
@@ -0,0 +1,424 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { DELIVERY_METHODS, PRODUCTION_FORMAT_LABELS, PRODUCTION_FORMATS } from "./constants";
+
+type ProductionsPanelProps = {
+  projectId: string;
+  attachments: Attachment[];
+  dataRevision: number;
+  quickQuery: string;
+  onChanged: () => void;
+};
+
+type PanelStatus = "idle" | "saving" | "exporting" | "error";
+
+type ExportFormat = "docx" | "pdf" | "csv";
+
+type ProductionFormState = {
+  volumeName: string;
+  producedAt: string;
+  batesPrefix: string;
+  batesBegin: string;
+  batesEnd: string;
+  documentCount: string;
+  pageCount: string;
+  recipient: string;
+  format: ProductionFormat;
+  deliveryMethod: string;
+  attachmentIds: string[];
+};
+
+const emptyForm: ProductionFormState = {
+  volumeName: "",
+  producedAt: "",
+  batesPrefix: "",
+  batesBegin: "",
+  batesEnd: "",
+  documentCount: "",
+  pageCount: "",
+  recipient: "",
+  format: "tiff",
+  deliveryMethod: "",
+  attachmentIds: []
+};
+
+const toForm = (production: Production): ProductionFormState => ({
+  volumeName: production.volumeName,
+  producedAt: production.producedAt,
+  batesPrefix: production.batesPrefix,
+  batesBegin: String(production.batesBegin).padStart(production.batesDigits, "0"),
+  batesEnd: String(production.batesEnd).padStart(production.batesDigits, "0"),
+  documentCount: production.documentCount === null ? "" : String(production.documentCount),
+  pageCount: production.pageCount === null ? "" : String(production.pageCount),
+  recipient: production.recipient || "",
+  format: production.format,
+  deliveryMethod: production.deliveryMethod || "",
+  attachmentIds: production.documents.map((document) => document.attachmentId)
+});
+
+// Bates numbers are typed with their leading zeros; the longer of the two sets the padded width.
+const toInput = (form: ProductionFormState): ProductionInput => ({
+  volumeName: form.volumeName,
+  producedAt: form.producedAt,
+  batesPrefix: form.batesPrefix.trim(),
+  batesBegin: Number(form.batesBegin),
+  batesEnd: Number(form.batesEnd),
+  batesDigits: Math.max(form.batesBegin.trim().length, form.batesEnd.trim().length),
+  documentCount: form.documentCount.trim() ? Number(form.documentCount) : null,
+  pageCount: form.pageCount.trim() ? Number(form.pageCount) : null,
+  recipient: form.recipient.trim() || null,
+  format: form.format,
+  deliveryMethod: form.deliveryMethod.trim() || null,
+  attachmentIds: form.attachmentIds
+});
+
+const formatDay = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString();
+
+const EXPORTERS: Record<ExportFormat, (projectId: string) => Promise<{ ok: boolean; canceled?: boolean; filePath?: string; error?: string }>> = {
+  docx: (projectId) => window.edisconotes.exportProductionLogDocx(projectId),
+  pdf: (projectId) => window.edisconotes.exportProductionLogPdf(projectId),
+  csv: (projectId) => window.edisconotes.exportProductionLogCsv(projectId)
+};
+
+const ProductionsPanel: React.FC<ProductionsPanelProps> = ({ projectId, attachments, dataRevision, quickQuery, onChanged }) => {
+  const [productions, setProductions] = useState<Production[]>([]);
+  const [form, setForm] = useState<ProductionFormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [status, setStatus] = useState<PanelStatus>("idle");
+  const [message, setMessage] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.edisconotes
+      .listProductions(projectId)
+      .then((rows) => {
+        if (!cancelled) setProductions(rows);
+      })
+      .catch((error) => console.error("Failed to load productions", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, dataRevision, attachments, reloadKey]);
+
+  useEffect(() => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setStatus("idle");
+    setMessage(null);
+  }, [projectId]);
+
+  const filtered = useMemo(() => {
+    if (!quickQuery) return productions;
+    return productions.filter((production) =>
+      [production.volumeName, production.batesBeginLabel, production.batesEndLabel, production.recipient, production.deliveryMethod]
+        .some((value) => String(value || "").toLowerCase().includes(quickQuery))
+    );
+  }, [productions, quickQuery]);
+
+  const totals = useMemo(
+    () => ({
+      documents: productions.reduce((sum, production) => sum + (production.documentCount || 0), 0),
+      pages: productions.reduce((sum, production) => sum + (production.pageCount || 0), 0),
+      flagged: productions.filter((production) => production.warnings.length > 0).length
+    }),
+    [productions]
+  );
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setStatus("saving");
+    setMessage(null);
+    try {
+      const input = toInput(form);
+      const saved = editingId
+        ? await window.edisconotes.updateProduction(editingId, input)
+        : await window.edisconotes.createProduction(projectId, input);
+      resetForm();
+      setStatus("idle");
+      // Other volumes' Bates warnings can change too, so the whole log reloads.
+      setReloadKey((prev) => prev + 1);
+      if (saved.warnings.length) {
+        setMessage(`${saved.volumeName} saved with Bates warnings: ${saved.warnings.join("; ")}.`);
+      }
+      onChanged();
+    } catch (error) {
+      console.error("Failed to save production", error);
+      setStatus("error");
+      setMessage("Could not save the production. Check the Bates numbers, counts and production date.");
+    }
+  };
+
+  const remove = async (production: Production) => {
+    if (!window.confirm(`Remove production volume "${production.volumeName}" from the log? Linked documents stay in the Documents tab.`)) return;
+    await window.edisconotes.deleteProduction(production.id);
+    if (editingId === production.id) resetForm();
+    setReloadKey((prev) => prev + 1);
+    onChanged();
+  };
+
+  const exportLog = async (format: ExportFormat) => {
+    setStatus("exporting");
+    setMessage(null);
+    try {
+      const result = await EXPORTERS[format](projectId);
+      if (result.ok) {
+        setStatus("idle");
+        setMessage(`Production log saved to ${result.filePath}.`);
+        onChanged();
+      } else if (result.canceled) {
+        setStatus("idle");
+      } else {
+        setStatus("error");
+        setMessage(result.error || "Production log export failed.");
+      }
+    } catch (error) {
+      console.error("Production log export failed", error);
+      setStatus("error");
+      setMessage("Production log export failed.");
+    }
+  };
+
+  const toggleDocument = (attachmentId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      attachmentIds: checked ? [...prev.attachmentIds, attachmentId] : prev.attachmentIds.filter((item) => item !== attachmentId)
+    }));
+  };
+
+  const busy = status === "saving" || status === "exporting";
+
+  return (
+    <>
+      <div className="documents-actions">
+        <div>
+          <h3>Production Log</h3>
+          <p className="muted">
+            {productions.length} volumes · {totals.documents.toLocaleString()} documents · {totals.pages.toLocaleString()} pages
+            {totals.flagged > 0 ? ` · ${totals.flagged} with Bates warnings` : ""}
+          </p>
+        </div>
+        <div className="todo-actions">
+          <button type="button" className="ghost" onClick={() => exportLog("docx")} disabled={busy}>
+            Export DOCX
+          </button>
+          <button type="button" className="ghost" onClick={() => exportLog("pdf")} disabled={busy}>
+            Export PDF
+          </button>
+          <button type="button" className="ghost" onClick={() => exportLog("csv")} disabled={busy}>
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={save} className="project-form custodian-form">
+        <div className="form-row">
+          <label>
+            Volume Name
+            <input
+              value={form.volumeName}
+              onChange={(event) => setForm({ ...form, volumeName: event.target.value })}
+              placeholder="VOL001"
+              required
+            />
+          </label>
+          <label>
+            Production Date
+            <input
+              type="date"
+              value={form.producedAt}
+              onChange={(event) => setForm({ ...form, producedAt: event.target.value })}
+              required
+            />
+          </label>
+        </div>
+        <div className="form-row custodian-form-dates">
+          <label>
+            Bates Prefix
+            <input
+              value={form.batesPrefix}
+              onChange={(event) => setForm({ ...form, batesPrefix: event.target.value })}
+              placeholder="ABC"
+              required
+            />
+          </label>
+          <label>
+            Begin Bates
+            <input
+              value={form.batesBegin}
+              inputMode="numeric"
+              pattern="[0-9]{1,12}"
+              onChange={(event) => setForm({ ...form, batesBegin: event.target.value })}
+              placeholder="0000001"
+              required
+            />
+          </label>
+          <label>
+            End Bates
+            <input
+              value={form.batesEnd}
+              inputMode="numeric"
+              pattern="[0-9]{1,12}"
+              onChange={(event) => setForm({ ...form, batesEnd: event.target.value })}
+              placeholder="0004250"
+              required
+            />
+          </label>
+        </div>
+        <div className="form-row">
+          <label>
+            Documents
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={form.documentCount}
+              onChange={(event) => setForm({ ...form, documentCount: event.target.value })}
+            />
+          </label>
+          <label>
+            Pages
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={form.pageCount}
+              onChange={(event) => setForm({ ...form, pageCount: event.target.value })}
+            />
+          </label>
+        </div>
+        <div className="form-row custodian-form-dates">
+          <label>
+            Recipient
+            <input
+              value={form.recipient}
+              onChange={(event) => setForm({ ...form, recipient: event.target.value })}
+              placeholder="Opposing counsel"
+            />
+          </label>
+          <label>
+            Format
+            <select value={form.format} onChange={(event) => setForm({ ...form, format: event.target.value as ProductionFormat })}>
+              {PRODUCTION_FORMATS.map((value) => (
+                <option key={value} value={value}>
+                  {PRODUCTION_FORMAT_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Delivery Method
+            <input
+              value={form.deliveryMethod}
+              onChange={(event) => setForm({ ...form, deliveryMethod: event.target.value })}
+              list="production-delivery-options"
+            />
+            <datalist id="production-delivery-options">
+              {DELIVERY_METHODS.map((method) => (
+                <option key={method} value={method} />
+              ))}
+            </datalist>
+          </label>
+        </div>
+        <fieldset className="legal-hold-picker">
+          <legend>Linked Documents</legend>
+          {attachments.length === 0 && (
+            <p className="muted">Add cover letters, load files or privilege logs in the Documents tab to link them here.</p>
+          )}
+          {attachments.map((attachment) => (
+            <label key={attachment.id} className="settings-check">
+              <input
+                type="checkbox"
+                checked={form.attachmentIds.includes(attachment.id)}
+                onChange={(event) => toggleDocument(attachment.id, event.target.checked)}
+              />
+              {attachment.originalFileName}
+            </label>
+          ))}
+        </fieldset>
+        {message && (
+          <p className={status === "error" ? "muted save-error" : "muted"} aria-live="polite">
+            {message}
+          </p>
+        )}
+        <div className="form-actions">
+          {editingId && (
+            <button type="button" className="ghost" onClick={resetForm} disabled={busy}>
+              Cancel
+            </button>
+          )}
+          <button type="submit" className="primary" disabled={busy}>
+            {status === "saving" ? "Saving..." : editingId ? "Save Production" : "Log Production"}
+          </button>
+        </div>
+      </form>
+
+      <div className="todo-list">
+        {productions.length === 0 && (
+          <div className="inline-empty">
+            <p className="muted">No productions yet. Log each volume as it goes out.</p>
+          </div>
+        )}
+        {productions.length > 0 && filtered.length === 0 && <p className="muted">No productions match your quick search.</p>}
+        {filtered.map((production) => {
+          const counts = [
+            production.documentCount !== null ? `${production.documentCount.toLocaleString()} docs` : null,
+            production.pageCount !== null ? `${production.pageCount.toLocaleString()} pages` : null
+          ]
+            .filter(Boolean)
+            .join(" · ");
+          return (
+            <div
+              key={production.id}
+              className={production.id === editingId ? "todo-item custodian-item editing" : "todo-item custodian-item"}
+            >
+              <div className="custodian-details">
+                <strong>
+                  {production.volumeName} · {production.batesBeginLabel}
+                  {production.batesEnd !== production.batesBegin ? `–${production.batesEndLabel}` : ""}
+                </strong>
+                <span className="muted">
+                  Produced {formatDay(production.producedAt)}
+                  {production.recipient ? ` to ${production.recipient}` : ""} · {PRODUCTION_FORMAT_LABELS[production.format]}
+                  {production.deliveryMethod ? ` · ${production.deliveryMethod}` : ""}
+                  {counts ? ` · ${counts}` : ""}
+                </span>
+                {production.documents.length > 0 && (
+                  <span className="muted">Linked: {production.documents.map((document) => document.originalFileName).join(", ")}</span>
+                )}
+                {production.warnings.map((warning) => (
+                  <span key={warning} className="muted save-error">
+                    {warning}
+                  </span>
+                ))}
+              </div>
+              <div className="todo-actions">
+                <span className="chip">{PRODUCTION_FORMAT_LABELS[production.format]}</span>
+                <button
+                  type="button"
+                  className="ghost"
+                  onClick={() => {
+                    setEditingId(production.id);
+                    setForm(toForm(production));
+                    setMessage(null);
+                  }}
+                >
+                  Edit
+                </button>
+                <button type="button" className="ghost" onClick={() => remove(production)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
+export default ProductionsPanel;
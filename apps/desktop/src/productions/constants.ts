@@ -0,0 +1,10 @@
+export const PRODUCTION_FORMATS: ProductionFormat[] = ["native", "tiff", "pdf"];
+
+export const PRODUCTION_FORMAT_LABELS: Record<ProductionFormat, string> = {
+  native: "Native",
+  tiff: "TIFF",
+  pdf: "PDF"
+};
+
+// Offered as suggestions only; the delivery method is free text.
+export const DELIVERY_METHODS = ["Secure FTP", "File share link", "Encrypted drive", "Review platform transfer", "Email"];
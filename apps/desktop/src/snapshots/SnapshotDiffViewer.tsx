@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+
+type SnapshotDiffViewerProps = {
+  snapshot: Pick<BackupSnapshot, "id" | "createdAt" | "reason">;
+  onClose: () => void;
+  onRestored: () => void;
+};
+
+type ViewerStatus = "loading" | "idle" | "restoring" | "error";
+
+const ITEM_TYPE_LABELS: Record<SnapshotItemType, string> = {
+  note: "Note",
+  todo: "To-do",
+  timeline_task: "Timeline phase",
+  attachment: "Document",
+  custodian: "Custodian",
+  legal_hold: "Legal hold",
+  data_source: "Data source",
+  review_metric: "Review metrics",
+  production: "Production"
+};
+
+// Worded from the live vault's point of view, with what restoring will do.
+const CHANGE_LABELS: Record<SnapshotDiffItem["change"], string> = {
+  removed: "Deleted since · restore re-adds it",
+  changed: "Changed since · restore reverts it",
+  added: "Created since · restore removes it"
+};
+
+const PROJECT_CHANGE_LABELS: Record<NonNullable<SnapshotDiffProject["change"]>, string> = {
+  removed: "Project deleted since",
+  changed: "Project details changed",
+  added: "Project created since (not in this restore point)"
+};
+
+const itemRefKey = (projectId: string, item: Pick<SnapshotDiffItem, "type" | "key">) => `${projectId}:${item.type}:${item.key}`;
+
+const SnapshotDiffViewer: React.FC<SnapshotDiffViewerProps> = ({ snapshot, onClose, onRestored }) => {
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [status, setStatus] = useState<ViewerStatus>("loading");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadDiff = useCallback(async () => {
+    setStatus("loading");
+    try {
+      const result = await window.edisconotes.diffBackupSnapshot(snapshot.id);
+      if (result.ok && result.diff) {
+        setDiff(result.diff);
+        setSelected(new Set());
+        setStatus("idle");
+      } else {
+        setStatus("error");
+        setMessage(result.error || "Could not compare restore point.");
+      }
+    } catch (error) {
+      console.error("Snapshot diff failed", error);
+      setStatus("error");
+      setMessage("Could not compare restore point.");
+    }
+  }, [snapshot.id]);
+
+  useEffect(() => {
+    void loadDiff();
+  }, [loadDiff]);
+
+  const selectedRefs = useMemo(() => {
+    const refs: SnapshotItemRef[] = [];
+    for (const project of diff?.projects || []) {
+      for (const item of project.items) {
+        if (selected.has(itemRefKey(project.projectId, item))) {
+          refs.push({ type: item.type, projectId: project.projectId, key: item.key });
+        }
+      }
+    }
+    return refs;
+  }, [diff, selected]);
+
+  const toggleItem = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const finishRestore = async (result: SnapshotItemRestoreResult) => {
+    if (!result.ok) {
+      setStatus("error");
+      setMessage(result.error || "Restore failed.");
+      return;
+    }
+    setMessage(`Restored ${result.restoredItems ?? 0} items. Restore point ${result.preRestoreSnapshotId} saves the state before this change.`);
+    onRestored();
+    await loadDiff();
+  };
+
+  const restoreSelected = async () => {
+    if (!selectedRefs.length) return;
+    const confirmed = window.confirm(`Put ${selectedRefs.length} selected items back to how they were in this restore point?`);
+    if (!confirmed) return;
+    setStatus("restoring");
+    setMessage(null);
+    try {
+      await finishRestore(await window.edisconotes.restoreBackupSnapshotItems(snapshot.id, selectedRefs));
+    } catch (error) {
+      console.error("Item restore failed", error);
+      setStatus("error");
+      setMessage("Item restore failed.");
+    }
+  };
+
+  const restoreProject = async (project: SnapshotDiffProject) => {
+    const confirmed = window.confirm(
+      `Put "${project.matterName}" back exactly as it was in this restore point? Items created since will be removed.`
+    );
+    if (!confirmed) return;
+    setStatus("restoring");
+    setMessage(null);
+    try {
+      await finishRestore(await window.edisconotes.restoreBackupSnapshotProject(snapshot.id, project.projectId));
+    } catch (error) {
+      console.error("Project restore failed", error);
+      setStatus("error");
+      setMessage("Project restore failed.");
+    }
+  };
+
+  const busy = status === "loading" || status === "restoring";
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal snapshot-diff-modal" onClick={(event) => event.stopPropagation()}>
+        <div className="audit-viewer-head">
+          <div>
+            <h3>Compare Restore Point</h3>
+            <p className="muted">
+              {snapshot.createdAt ? new Date(snapshot.createdAt).toLocaleString() : snapshot.id} · {snapshot.reason}
+            </p>
+          </div>
+          <button type="button" className="ghost" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        {message && (
+          <p className={status === "error" ? "muted save-error" : "muted"} aria-live="polite">
+            {message}
+          </p>
+        )}
+        <div className="snapshot-diff-list">
+          {status === "loading" && !diff && <p className="muted">Comparing with the live vault...</p>}
+          {diff && diff.projects.length === 0 && <p className="muted">The live vault matches this restore point.</p>}
+          {diff?.projects.map((project) => (
+            <div key={project.projectId} className="snapshot-diff-project">
+              <div className="a11y-audit-head">
+                <div>
+                  <strong>{project.matterName}</strong>
+                  {project.change && (
+                    <span className="muted">
+                      {" "}
+                      · {PROJECT_CHANGE_LABELS[project.change]}
+                      {project.changedFields.length ? ` (${project.changedFields.join(", ")})` : ""}
+                    </span>
+                  )}
+                </div>
+                {project.change !== "added" && (
+                  <button type="button" className="ghost" onClick={() => restoreProject(project)} disabled={busy}>
+                    Restore Project
+                  </button>
+                )}
+              </div>
+              {project.items.map((item) => {
+                const key = itemRefKey(project.projectId, item);
+                return (
+                  <label key={key} className="snapshot-diff-item">
+                    <input type="checkbox" checked={selected.has(key)} onChange={() => toggleItem(key)} disabled={busy} />
+                    <span>
+                      <strong>{ITEM_TYPE_LABELS[item.type]}</strong> {item.label || "(untitled)"}
+                      <span className="muted">
+                        {" "}
+                        · {CHANGE_LABELS[item.change]}
+                        {item.changedFields.length ? ` (${item.changedFields.join(", ")})` : ""}
+                      </span>
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          ))}
+          {diff && diff.unchangedProjects > 0 && <p className="muted">{diff.unchangedProjects} other projects are unchanged.</p>}
+        </div>
+        <div className="form-actions">
+          <button type="button" className="ghost" onClick={restoreSelected} disabled={busy || selectedRefs.length === 0}>
+            {status === "restoring" ? "Restoring..." : `Restore Selected (${selectedRefs.length})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotDiffViewer;
@@ -5,11 +5,47 @@ export {};
 declare global {
   interface Window {
     edisconotes: {
-      vaultStatus: () => Promise<{ locked: boolean; hasEncryptedDb: boolean; hasPlaintextDb: boolean }>;
+      vaultStatus: () => Promise<VaultStatus>;
       vaultUnlock: (
         passphrase: string
-      ) => Promise<{ ok: boolean; migratedDb?: boolean; migratedAttachments?: number; unlockSource?: string; seededLegacyAttachments?: number }>;
+      ) => Promise<{
+        ok: boolean;
+        migratedDb?: boolean;
+        migratedKeyHierarchy?: boolean;
+        migratedAttachments?: number;
+        unlockSource?: string;
+        seededLegacyAttachments?: number;
+      }>;
       vaultLock: () => Promise<boolean>;
+      vaultChangePassphrase: (
+        currentPassphrase: string,
+        nextPassphrase: string,
+        options?: { rotateDataKey?: boolean }
+      ) => Promise<{
+        ok: boolean;
+        error?: string;
+        rotatedDataKey?: boolean;
+        reencryptedAttachments?: number;
+        recoveryKeyRemoved?: boolean;
+        swapPending?: boolean;
+      }>;
+      vaultCreateRecoveryKey: (
+        passphrase: string
+      ) => Promise<{ ok: boolean; error?: string; recoveryCode?: string; replacedExisting?: boolean }>;
+      vaultUnlockWithRecoveryKey: (recoveryCode: string) => Promise<{ ok: boolean; passphraseResetRequired?: boolean }>;
+      vaultCompleteRecovery: (nextPassphrase: string) => Promise<{ ok: boolean; error?: string }>;
+      vaultKdfStatus: () => Promise<VaultKdfParams>;
+      vaultCalibrateKdf: () => Promise<VaultKdfCalibration>;
+      vaultUpgradeKdf: (
+        passphrase: string,
+        profileId: string,
+        options?: { allowDowngrade?: boolean }
+      ) => Promise<{ ok: boolean; error?: string; kdf?: VaultKdfParams; downgrade?: boolean }>;
+      vaultActivity: () => void;
+      onVaultFlushRequest: (handler: () => Promise<void>) => () => void;
+      onVaultLocked: (handler: (payload: { reason: string }) => void) => () => void;
+      getAppSettings: () => Promise<AppSettings>;
+      updateAppSettings: (data: Partial<AppSettings>) => Promise<AppSettings>;
       getDeadlineDashboard: () => Promise<DeadlineDashboard>;
       listProjects: (includeArchived?: boolean) => Promise<Project[]>;
       getProject: (projectId: string) => Promise<Project | null>;
@@ -19,15 +55,47 @@ declare global {
       restoreProject: (projectId: string) => Promise<Project | null>;
       pinProject: (projectId: string, isPinned: boolean) => Promise<Project>;
       exportProjectBundle: (
-        projectId: string
-      ) => Promise<{ ok: boolean; canceled?: boolean; error?: string; filePath?: string; notes?: number; todos?: number; attachments?: number }>;
-      importProjectBundle: () => Promise<{
+        projectId: string,
+        options?: { transferPassphrase?: string }
+      ) => Promise<{
         ok: boolean;
         canceled?: boolean;
         error?: string;
+        filePath?: string;
+        encrypted?: boolean;
+        notes?: number;
+        todos?: number;
+        custodians?: number;
+        attachments?: number;
+      }>;
+      importProjectBundle: (options?: { importToken?: string; transferPassphrase?: string }) => Promise<{
+        ok: boolean;
+        canceled?: boolean;
+        error?: string;
+        errorCode?: string;
+        encrypted?: boolean;
+        importToken?: string;
         project?: Project;
-        counts?: { notes: number; todos: number; timelineTasks: number; attachments: number };
+        counts?: { notes: number; todos: number; timelineTasks: number; custodians: number; attachments: number };
       }>;
+      previewBundleMerge: (
+        projectId: string,
+        options?: { importToken?: string; transferPassphrase?: string }
+      ) => Promise<{
+        ok: boolean;
+        canceled?: boolean;
+        error?: string;
+        errorCode?: string;
+        encrypted?: boolean;
+        importToken?: string;
+        mergeToken?: string;
+        preview?: BundleMergePreview;
+      }>;
+      applyBundleMerge: (
+        mergeToken: string,
+        resolutions: Record<string, BundleMergeResolution>
+      ) => Promise<{ ok: boolean; error?: string; errorCode?: string; project?: Project; counts?: BundleMergeCounts }>;
+      discardBundleMerge: () => Promise<boolean>;
       listNotes: (projectId: string) => Promise<Note[]>;
       createNote: (projectId: string, data: NoteInput) => Promise<Note>;
       updateNote: (noteId: string, data: NoteInput) => Promise<Note>;
@@ -36,6 +104,34 @@ declare global {
       createTodo: (projectId: string, data: TodoInput) => Promise<Todo>;
       updateTodo: (todoId: string, data: TodoInput) => Promise<Todo>;
       deleteTodo: (todoId: string) => Promise<boolean>;
+      listCustodians: (projectId: string) => Promise<Custodian[]>;
+      createCustodian: (projectId: string, data: CustodianInput) => Promise<Custodian>;
+      updateCustodian: (custodianId: string, data: CustodianInput) => Promise<Custodian>;
+      deleteCustodian: (custodianId: string) => Promise<boolean>;
+      listLegalHolds: (projectId: string) => Promise<LegalHold[]>;
+      getLegalHoldTemplate: () => Promise<{ template: string }>;
+      createLegalHold: (projectId: string, data: LegalHoldInput) => Promise<LegalHold>;
+      updateLegalHold: (holdId: string, data: LegalHoldInput) => Promise<LegalHold>;
+      deleteLegalHold: (holdId: string) => Promise<boolean>;
+      acknowledgeLegalHold: (recipientId: string, acknowledgedAt: string | null) => Promise<LegalHold>;
+      recordLegalHoldReminder: (holdId: string) => Promise<LegalHold>;
+      exportLegalHoldNotice: (holdId: string) => Promise<{ ok: boolean; canceled?: boolean; error?: string; filePath?: string }>;
+      listDataSources: (projectId: string) => Promise<DataSource[]>;
+      getDataSourceSummary: (projectId: string) => Promise<DataSourceSummary>;
+      createDataSource: (projectId: string, data: DataSourceInput) => Promise<DataSource>;
+      updateDataSource: (dataSourceId: string, data: DataSourceInput) => Promise<DataSource>;
+      deleteDataSource: (dataSourceId: string) => Promise<boolean>;
+      listReviewMetrics: (projectId: string) => Promise<ReviewMetricsLog>;
+      createReviewMetric: (projectId: string, data: ReviewMetricInput) => Promise<ReviewMetric>;
+      updateReviewMetric: (metricId: string, data: ReviewMetricInput) => Promise<ReviewMetric>;
+      deleteReviewMetric: (metricId: string) => Promise<boolean>;
+      listProductions: (projectId: string) => Promise<Production[]>;
+      createProduction: (projectId: string, data: ProductionInput) => Promise<Production>;
+      updateProduction: (productionId: string, data: ProductionInput) => Promise<Production>;
+      deleteProduction: (productionId: string) => Promise<boolean>;
+      exportProductionLogDocx: (projectId: string) => Promise<{ ok: boolean; canceled?: boolean; filePath?: string; error?: string }>;
+      exportProductionLogPdf: (projectId: string) => Promise<{ ok: boolean; canceled?: boolean; filePath?: string; error?: string }>;
+      exportProductionLogCsv: (projectId: string) => Promise<{ ok: boolean; canceled?: boolean; filePath?: string; error?: string }>;
       listAttachments: (projectId: string) => Promise<Attachment[]>;
       addAttachments: (projectId: string, filePaths: string[]) => Promise<Attachment[]>;
       openAttachment: (attachmentId: string) => Promise<boolean>;
@@ -45,14 +141,80 @@ declare global {
       searchGlobal: (query: string) => Promise<GlobalSearchResult>;
       openExternalUrl: (targetUrl: string) => Promise<boolean>;
       listAuditLog: (limit?: number, projectId?: string | null) => Promise<AuditLogEntry[]>;
+      verifyAuditLog: () => Promise<AuditChainVerification>;
+      queryAuditLog: (filters: AuditLogQuery) => Promise<AuditLogPage>;
+      getAuditFacets: () => Promise<AuditLogFacets>;
+      exportAuditLog: (
+        filters: AuditLogFilters,
+        format: "csv" | "json"
+      ) => Promise<{ ok: boolean; canceled?: boolean; error?: string; filePath?: string; entries?: number }>;
       backupStatus: () => Promise<BackupStatus>;
+      getPersistenceDiagnostics: () => Promise<PersistenceDiagnostics>;
+      maintenanceCheck: (options?: { verifyAttachments?: boolean }) => Promise<{ ok: boolean; error?: string; report?: MaintenanceReport }>;
+      maintenanceRepair: (reportId: string, classes: MaintenanceRepairClass[]) => Promise<MaintenanceRepairResult>;
       createBackupSnapshot: (reason?: string) => Promise<{ ok: boolean; error?: string; snapshot?: BackupSnapshot }>;
       listBackupSnapshots: (limit?: number) => Promise<BackupSnapshot[]>;
+      diffBackupSnapshot: (snapshotId: string) => Promise<{ ok: boolean; error?: string; diff?: SnapshotDiff }>;
+      restoreBackupSnapshotItems: (snapshotId: string, items: SnapshotItemRef[]) => Promise<SnapshotItemRestoreResult>;
+      restoreBackupSnapshotProject: (snapshotId: string, projectId: string) => Promise<SnapshotItemRestoreResult>;
       restoreBackupSnapshot: (
-        snapshotId: string
-      ) => Promise<{ ok: boolean; canceled?: boolean; error?: string; relaunching?: boolean; restoredAttachments?: number; preRestoreSnapshotId?: string | null }>;
-      exportBackup: () => Promise<{ ok: boolean; canceled?: boolean; error?: string; backupPath?: string; createdAt?: string }>;
-      restoreBackup: () => Promise<{ ok: boolean; canceled?: boolean; error?: string; relaunching?: boolean }>;
+        snapshotId: string,
+        options?: { allowOtherDataKey?: boolean }
+      ) => Promise<{
+        ok: boolean;
+        canceled?: boolean;
+        error?: string;
+        errorCode?: string;
+        relaunching?: boolean;
+        restoredAttachments?: number;
+        preRestoreSnapshotId?: string | null;
+      }>;
+      exportBackup: () => Promise<{
+        ok: boolean;
+        canceled?: boolean;
+        error?: string;
+        backupPath?: string;
+        createdAt?: string;
+        attachmentFiles?: number;
+        sizeBytes?: number;
+      }>;
+      chooseBackupDestination: () => Promise<{ ok: boolean; canceled?: boolean; path?: string }>;
+      updateBackupDestination: (data: Partial<BackupDestinationSettings>) => Promise<{
+        ok: boolean;
+        error?: string;
+        destination?: BackupDestinationStatus;
+      }>;
+      runBackupDestination: () => Promise<{
+        ok: boolean;
+        error?: string;
+        backupPath?: string;
+        createdAt?: string;
+        sizeBytes?: number;
+        removedArchives?: string[];
+      }>;
+      chooseBackupArchive: () => Promise<{ ok: boolean; canceled?: boolean; archivePath?: string }>;
+      verifyBackupArchive: (archivePath: string, passphrase: string) => Promise<{ ok: boolean; error?: string; report?: BackupArchiveReport }>;
+      restoreBackupArchive: (
+        archivePath: string,
+        passphrase: string,
+        options?: { allowOtherDataKey?: boolean }
+      ) => Promise<{
+        ok: boolean;
+        error?: string;
+        errorCode?: string;
+        relaunching?: boolean;
+        restoredAttachments?: number;
+        preRestoreSnapshotId?: string | null;
+        verification?: BackupArchiveReport;
+      }>;
+      restoreBackup: (options?: { backupPath?: string; allowOtherDataKey?: boolean }) => Promise<{
+        ok: boolean;
+        canceled?: boolean;
+        error?: string;
+        errorCode?: string;
+        backupPath?: string;
+        relaunching?: boolean;
+      }>;
       openFileDialog: () => Promise<string[]>;
       exportNotesDocx: (projectId: string) => Promise<{ ok: boolean; canceled?: boolean; filePath?: string; error?: string }>;
       exportNotesPdf: (projectId: string) => Promise<{ ok: boolean; canceled?: boolean; filePath?: string; error?: string }>;
@@ -65,6 +227,52 @@ declare global {
     };
   }
 
+  interface VaultStatus {
+    locked: boolean;
+    hasEncryptedDb: boolean;
+    hasPlaintextDb: boolean;
+    hasRecoveryKey?: boolean;
+    passphraseResetRequired?: boolean;
+    failedUnlockAttempts?: number;
+    unlockRetryAt?: string | null;
+  }
+
+  interface VaultKdfParams {
+    N: number;
+    r: number;
+    p: number;
+    memoryBytes: number;
+    profileId: string | null;
+  }
+
+  interface VaultKdfProfileResult {
+    id: string;
+    label: string;
+    N: number;
+    r: number;
+    p: number;
+    memoryBytes: number;
+    elapsedMs: number;
+  }
+
+  interface VaultKdfCalibration {
+    current: VaultKdfParams;
+    profiles: VaultKdfProfileResult[];
+    recommendedId: string | null;
+    targetMs: number;
+  }
+
+  interface AppSettings {
+    autoLockMinutes: number;
+    lockOnSleep: boolean;
+    dailySnapshots: boolean;
+    snapshotOnLock: boolean;
+    snapshotBeforeImport: boolean;
+    keepDailySnapshots: number;
+    keepWeeklySnapshots: number;
+    keepMonthlySnapshots: number;
+  }
+
   interface Project {
     id: string;
     matterName: string;
@@ -120,6 +328,207 @@ declare global {
     isPriority: boolean;
   }
 
+  type CustodianStatus = "identified" | "on_hold" | "released" | "departed";
+
+  interface Custodian {
+    id: string;
+    projectId: string;
+    name: string;
+    title: string | null;
+    department: string | null;
+    email: string | null;
+    status: CustodianStatus;
+    holdNoticeSentAt: string | null;
+    holdAcknowledgedAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }
+
+  interface CustodianInput {
+    name: string;
+    title: string | null;
+    department: string | null;
+    email: string | null;
+    status: CustodianStatus;
+    holdNoticeSentAt: string | null;
+    holdAcknowledgedAt: string | null;
+  }
+
+  interface LegalHoldRecipientSchedule {
+    acknowledgeBy: string;
+    pending: boolean;
+    daysUntilDue: number | null;
+    overdue: boolean;
+    escalated: boolean;
+    nextReminderAt: string | null;
+  }
+
+  interface LegalHoldRecipient {
+    id: string;
+    holdId: string;
+    custodianId: string;
+    custodianName: string;
+    custodianEmail: string | null;
+    custodianTitle: string | null;
+    custodianDepartment: string | null;
+    acknowledgedAt: string | null;
+    lastReminderAt: string | null;
+    schedule: LegalHoldRecipientSchedule;
+  }
+
+  interface LegalHold {
+    id: string;
+    projectId: string;
+    name: string;
+    issuedAt: string;
+    acknowledgmentDueDays: number;
+    reminderIntervalDays: number | null;
+    escalationAfterDays: number | null;
+    releasedAt: string | null;
+    noticeTemplate: string | null;
+    createdAt: string;
+    updatedAt: string;
+    acknowledgeBy: string;
+    recipients: LegalHoldRecipient[];
+    acknowledgedCount: number;
+    overdueCount: number;
+    escalatedCount: number;
+    nextReminderAt: string | null;
+  }
+
+  interface LegalHoldInput {
+    name: string;
+    issuedAt: string;
+    acknowledgmentDueDays: number;
+    reminderIntervalDays: number | null;
+    escalationAfterDays: number | null;
+    releasedAt: string | null;
+    noticeTemplate: string | null;
+    custodianIds: string[];
+  }
+
+  type DataSourceType = "mailbox" | "onedrive" | "slack" | "mobile_device" | "other";
+
+  interface DataSourceCustodyDocument {
+    attachmentId: string;
+    originalFileName: string;
+    sizeBytes: number;
+    addedAt: string;
+  }
+
+  interface DataSource {
+    id: string;
+    projectId: string;
+    sourceType: DataSourceType;
+    description: string | null;
+    custodianId: string | null;
+    custodianName: string | null;
+    collectionMethod: string | null;
+    collectedAt: string | null;
+    sizeGb: number | null;
+    itemCount: number | null;
+    createdAt: string;
+    updatedAt: string;
+    custody: DataSourceCustodyDocument[];
+  }
+
+  interface DataSourceInput {
+    sourceType: DataSourceType;
+    description: string | null;
+    custodianId: string | null;
+    collectionMethod: string | null;
+    collectedAt: string | null;
+    sizeGb: number | null;
+    itemCount: number | null;
+    custodyAttachmentIds: string[];
+  }
+
+  interface DataSourceSummary {
+    sourceCount: number;
+    collectedSources: number;
+    collectedGb: number;
+    collectedItems: number;
+  }
+
+  interface ReviewMetricInput {
+    metricDate: string;
+    documentsProcessed: number | null;
+    gbProcessed: number | null;
+    documentsPromoted: number | null;
+    documentsReviewed: number | null;
+    documentsProduced: number | null;
+    reviewerCount: number | null;
+  }
+
+  interface ReviewMetric extends ReviewMetricInput {
+    id: string;
+    projectId: string;
+    createdAt: string;
+    updatedAt: string;
+  }
+
+  type ReviewForecastStatus = "no_data" | "on_track" | "overrun" | "stalled" | "complete";
+
+  interface ReviewForecastPoint {
+    date: string;
+    reviewed: number;
+    remaining: number | null;
+  }
+
+  interface ReviewForecast {
+    status: ReviewForecastStatus;
+    reviewStartDate: string | null;
+    reviewEndDate: string | null;
+    population: number | null;
+    reviewedToDate: number;
+    remaining: number | null;
+    velocityPerDay: number | null;
+    latestMetricDate: string | null;
+    projectedFinish: string | null;
+    overrunDays: number | null;
+    series: ReviewForecastPoint[];
+  }
+
+  interface ReviewMetricsLog {
+    entries: ReviewMetric[];
+    forecast: ReviewForecast;
+  }
+
+  type ProductionFormat = "native" | "tiff" | "pdf";
+
+  interface ProductionInput {
+    volumeName: string;
+    batesPrefix: string;
+    batesBegin: number;
+    batesEnd: number;
+    batesDigits: number;
+    documentCount: number | null;
+    pageCount: number | null;
+    producedAt: string;
+    recipient: string | null;
+    format: ProductionFormat;
+    deliveryMethod: string | null;
+    attachmentIds: string[];
+  }
+
+  interface ProductionDocument {
+    attachmentId: string;
+    originalFileName: string;
+    sizeBytes: number;
+    addedAt: string;
+  }
+
+  interface Production extends Omit<ProductionInput, "attachmentIds"> {
+    id: string;
+    projectId: string;
+    createdAt: string;
+    updatedAt: string;
+    batesBeginLabel: string;
+    batesEndLabel: string;
+    documents: ProductionDocument[];
+    warnings: string[];
+  }
+
   interface Attachment {
     id: string;
     projectId: string;
@@ -173,6 +582,16 @@ declare global {
     isPriority: number | boolean;
   }
 
+  interface GlobalSearchCustodianHit {
+    id: string;
+    projectId: string;
+    projectName: string;
+    name: string;
+    title: string | null;
+    department: string | null;
+    status: CustodianStatus;
+  }
+
   interface GlobalSearchAttachmentHit {
     id: string;
     projectId: string;
@@ -187,6 +606,7 @@ declare global {
     projects: GlobalSearchProjectHit[];
     notes: GlobalSearchNoteHit[];
     todos: GlobalSearchTodoHit[];
+    custodians: GlobalSearchCustodianHit[];
     attachments: GlobalSearchAttachmentHit[];
   }
 
@@ -199,6 +619,128 @@ declare global {
     lastBackupAt: string | null;
     lastBackupPath: string | null;
     lastRestoreAt: string | null;
+    snapshotsBytes: number;
+    nextScheduledSnapshotAt: string | null;
+    destination: BackupDestinationStatus;
+  }
+
+  interface BackupDestinationSettings {
+    path: string | null;
+    enabled: boolean;
+    intervalHours: number;
+    keep: number;
+  }
+
+  interface BackupDestinationStatus extends BackupDestinationSettings {
+    reachable: boolean;
+    unreachableReason: string | null;
+    running: boolean;
+    nextRunAt: string | null;
+    lastSuccessAt: string | null;
+    lastSuccessPath: string | null;
+    lastFailureAt: string | null;
+    lastFailureReason: string | null;
+  }
+
+  interface PersistenceDiagnostics {
+    flushScheduled: boolean;
+    dirtySince: string | null;
+    journalRecords: number;
+    journalBytes: number;
+    pendingStatements: number;
+    fullFlushes: number;
+    lastFullFlushMs: number | null;
+    avgFullFlushMs: number | null;
+    maxFullFlushMs: number;
+    lastFullFlushAt: string | null;
+    lastFullFlushBytes: number | null;
+    journalAppends: number;
+    lastJournalAppendMs: number | null;
+    avgJournalAppendMs: number | null;
+    maxJournalAppendMs: number;
+    lastReplay: {
+      records: number;
+      statements: number;
+      discarded: boolean;
+      torn: boolean;
+      failed: string | null;
+      at: string;
+    } | null;
+    lastError: string | null;
+  }
+
+  type MaintenanceRepairClass = "integrity" | "orphans" | "missingFiles" | "strayFiles" | "undecryptable";
+
+  interface MaintenanceOrphanRow {
+    id: string;
+    projectId: string;
+    label: string | null;
+  }
+
+  interface MaintenanceAttachmentIssue {
+    id: string;
+    projectId: string;
+    originalFileName: string;
+    storedRelativePath: string;
+    error?: string;
+  }
+
+  interface MaintenanceReport {
+    id: string;
+    checkedAt: string;
+    verifiedAttachmentContents: boolean;
+    ok: boolean;
+    summary: {
+      integrityErrors: number;
+      orphanRows: number;
+      missingAttachmentFiles: number;
+      strayAttachmentFiles: number;
+      undecryptableAttachments: number;
+    };
+    integrity: { ok: boolean; messages: string[] };
+    orphans: {
+      notes: MaintenanceOrphanRow[];
+      todos: MaintenanceOrphanRow[];
+      timelineTasks: MaintenanceOrphanRow[];
+      attachments: MaintenanceOrphanRow[];
+      custodians: MaintenanceOrphanRow[];
+      legalHolds: MaintenanceOrphanRow[];
+      legalHoldRecipients: MaintenanceOrphanRow[];
+      dataSources: MaintenanceOrphanRow[];
+      dataSourceCustody: MaintenanceOrphanRow[];
+      reviewMetrics: MaintenanceOrphanRow[];
+      productions: MaintenanceOrphanRow[];
+      productionDocuments: MaintenanceOrphanRow[];
+    };
+    missingAttachmentFiles: MaintenanceAttachmentIssue[];
+    strayAttachmentFiles: Array<{ relativePath: string; sizeBytes: number }>;
+    undecryptableAttachments: MaintenanceAttachmentIssue[];
+  }
+
+  interface MaintenanceRepairResult {
+    ok: boolean;
+    error?: string;
+    snapshotId?: string;
+    quarantinePath?: string | null;
+    results?: {
+      integrity?: { reindexed: boolean; ok: boolean; remainingErrors: number };
+      orphans?: { moved: number; recoveredProjectId: string | null };
+      missingFiles?: { removedRows: number };
+      strayFiles?: { quarantined: number };
+      undecryptable?: { quarantined: number };
+    };
+  }
+
+  type BackupArchiveCheck = "structure" | "checksums" | "passphrase" | "database";
+
+  interface BackupArchiveReport {
+    ok: boolean;
+    archivePath: string;
+    createdAt: string | null;
+    attachmentFiles: number;
+    sizeBytes: number;
+    checks: { check: BackupArchiveCheck; ok: boolean; detail: string }[];
+    error?: string;
   }
 
   interface BackupSnapshot {
@@ -211,6 +753,79 @@ declare global {
     path?: string;
   }
 
+  type SnapshotItemType = "note" | "todo" | "timeline_task" | "attachment" | "custodian" | "legal_hold" | "data_source" | "review_metric" | "production";
+
+  interface SnapshotDiffItem {
+    type: SnapshotItemType;
+    key: string;
+    label: string;
+    // Relative to the restore point: "added" exists only in the live vault, "removed" only in the snapshot.
+    change: "added" | "removed" | "changed";
+    changedFields: string[];
+  }
+
+  interface SnapshotDiffProject {
+    projectId: string;
+    matterName: string;
+    change: "added" | "removed" | "changed" | null;
+    changedFields: string[];
+    items: SnapshotDiffItem[];
+  }
+
+  interface SnapshotDiff {
+    snapshotId: string;
+    createdAt: string | null;
+    reason: string;
+    projects: SnapshotDiffProject[];
+    unchangedProjects: number;
+  }
+
+  type BundleMergeResolution = "mine" | "theirs" | "both";
+
+  interface BundleMergeItem {
+    type: SnapshotItemType;
+    // Stable ID carried in the bundle (the phase name for timeline phases).
+    key: string;
+    label: string;
+    mineLabel: string | null;
+    // "changed" = only the bundle changed it since the last exchange; "conflict" = both sides did.
+    change: "added" | "changed" | "conflict";
+    changedFields: string[];
+  }
+
+  interface BundleMergePreview {
+    projectId: string;
+    matterName: string;
+    bundleMatterName: string;
+    sameProject: boolean;
+    exportedAt: string | null;
+    encrypted: boolean;
+    items: BundleMergeItem[];
+    unchanged: number;
+    keptLocal: number;
+  }
+
+  interface BundleMergeCounts {
+    added: number;
+    updated: number;
+    keptMine: number;
+    keptBoth: number;
+    attachments: number;
+  }
+
+  interface SnapshotItemRef {
+    type: SnapshotItemType;
+    projectId: string;
+    key: string;
+  }
+
+  interface SnapshotItemRestoreResult {
+    ok: boolean;
+    error?: string;
+    restoredItems?: number;
+    preRestoreSnapshotId?: string;
+  }
+
   interface AuditLogEntry {
     id: string;
     timestamp: string;
@@ -220,6 +835,53 @@ declare global {
     projectId?: string | null;
     detailsJson?: string | null;
     details?: Record<string, unknown> | null;
+    seq?: number | null;
+    prevHash?: string | null;
+    entryHash?: string | null;
+  }
+
+  interface AuditLogFilters {
+    from?: string | null;
+    to?: string | null;
+    actionPrefix?: string | null;
+    entityType?: string | null;
+    projectId?: string | null;
+  }
+
+  interface AuditLogQuery extends AuditLogFilters {
+    cursor?: string | null;
+    limit?: number;
+  }
+
+  interface AuditLogPage {
+    items: AuditLogEntry[];
+    nextCursor: string | null;
+    total: number | null;
+  }
+
+  interface AuditLogFacets {
+    actionPrefixes: string[];
+    entityTypes: string[];
+  }
+
+  interface AuditChainHead {
+    seq: number;
+    entryHash: string;
+    timestamp: string | null;
+  }
+
+  interface AuditChainVerification {
+    ok: boolean;
+    verifiedEntries: number;
+    head: AuditChainHead;
+    firstBreak: {
+      seq: number | null;
+      id: string;
+      timestamp: string | null;
+      action: string | null;
+      reason: "missing_entries" | "duplicate_sequence" | "broken_link" | "content_mismatch" | "unchained_entry";
+    } | null;
+    verifiedAt: string;
   }
 
   interface DeadlineDashboardTotals {
@@ -231,6 +893,41 @@ declare global {
     openTodos: number;
     priorityOpenTodos: number;
     completedTodos: number;
+    overdueAcknowledgments: number;
+    escalatedAcknowledgments: number;
+    holdRemindersDue: number;
+    dataSources: number;
+    collectedGb: number;
+    collectedItems: number;
+    reviewRisks: number;
+  }
+
+  interface DeadlineDashboardHoldItem {
+    id: string;
+    holdId: string;
+    projectId: string;
+    projectName: string;
+    holdName: string;
+    custodianName: string;
+    kind: "acknowledgment" | "reminder";
+    dueDate: string;
+    daysFromNow: number;
+    escalated: boolean;
+    tone: "late" | "soon" | "normal";
+  }
+
+  interface DeadlineDashboardReviewRisk {
+    id: string;
+    projectId: string;
+    projectName: string;
+    status: "overrun" | "stalled";
+    reviewEndDate: string;
+    projectedFinish: string | null;
+    overrunDays: number | null;
+    remaining: number | null;
+    velocityPerDay: number | null;
+    daysFromNow: number;
+    tone: "late";
   }
 
   interface DeadlineDashboardTimelineItem {
@@ -243,7 +940,7 @@ declare global {
     tone: "late" | "soon" | "normal";
   }
 
-  interface DeadlineDashboardTodoRollup {
+  interface DeadlineDashboardTodoRollup extends DataSourceSummary {
     projectId: string;
     projectName: string;
     productionDeadline: string;
@@ -261,7 +958,11 @@ declare global {
     totals: DeadlineDashboardTotals;
     overdueTimeline: DeadlineDashboardTimelineItem[];
     upcomingTimeline: DeadlineDashboardTimelineItem[];
+    overdueAcknowledgments: DeadlineDashboardHoldItem[];
+    upcomingHoldReminders: DeadlineDashboardHoldItem[];
+    reviewRisks: DeadlineDashboardReviewRisk[];
     todoRollups: DeadlineDashboardTodoRollup[];
+    collectionRollups: DeadlineDashboardTodoRollup[];
   }
 
   interface TimelineTask {